@@ -0,0 +1,19 @@
+-- =============================================================================
+-- 001 - Job status audit trail
+-- =============================================================================
+-- One row per job status transition, written by services/job-lifecycle.ts.
+-- from_status is NULL for the creation event; from_status = to_status for
+-- annotations that do not change the status (e.g. invoice issued).
+
+CREATE TABLE IF NOT EXISTS job_events (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    actor VARCHAR(100) NOT NULL,
+    reason TEXT,
+    tx_digest VARCHAR(100),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_events_job_id ON job_events(job_id, created_at);
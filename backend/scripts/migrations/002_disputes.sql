@@ -0,0 +1,46 @@
+-- =============================================================================
+-- 002 - Dispute resolution
+-- =============================================================================
+-- A job in status 'disputed' has exactly one open row in job_disputes.
+-- Evidence can reference the delivery it is about (job_deliveries).
+-- Arbiters are users with role 'arbiter'.
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check
+    CHECK (role IN ('buyer', 'agent', 'arbiter'));
+
+CREATE TABLE IF NOT EXISTS job_disputes (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    opened_by INTEGER NOT NULL REFERENCES users(id),
+    opened_by_party VARCHAR(10) NOT NULL CHECK (opened_by_party IN ('buyer', 'agent')),
+    previous_status VARCHAR(20) NOT NULL,
+    reason TEXT NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    ruling VARCHAR(10) CHECK (ruling IN ('refund', 'release', 'split')),
+    agent_amount_usdc DECIMAL(18, 6),
+    arbiter_id INTEGER REFERENCES users(id),
+    ruling_notes TEXT,
+    resolution_tx_digest VARCHAR(100),
+    auto_resolved BOOLEAN NOT NULL DEFAULT false,
+    deadline_at TIMESTAMP NOT NULL,
+    resolved_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_disputes_one_open
+    ON job_disputes(job_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_job_disputes_deadline
+    ON job_disputes(deadline_at) WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS dispute_evidence (
+    id SERIAL PRIMARY KEY,
+    dispute_id INTEGER NOT NULL REFERENCES job_disputes(id) ON DELETE CASCADE,
+    submitted_by INTEGER NOT NULL REFERENCES users(id),
+    delivery_id INTEGER REFERENCES job_deliveries(id),
+    content TEXT NOT NULL,
+    external_url TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_evidence_dispute_id ON dispute_evidence(dispute_id);
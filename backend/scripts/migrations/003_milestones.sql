@@ -0,0 +1,25 @@
+-- =============================================================================
+-- 003 - Milestone-based jobs
+-- =============================================================================
+-- A job may be split into ordered milestones (position 1..n). Each milestone
+-- is delivered and approved on its own and releases its share of the escrow.
+-- Jobs without rows here keep the single delivery / approval flow.
+
+CREATE TABLE IF NOT EXISTS job_milestones (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL CHECK (position > 0),
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    amount_usdc DECIMAL(18, 6) NOT NULL CHECK (amount_usdc > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'approved')),
+    delivery_id INTEGER REFERENCES job_deliveries(id),
+    revision_count INTEGER NOT NULL DEFAULT 0,
+    release_tx_digest VARCHAR(100),
+    delivered_at TIMESTAMP,
+    approved_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (job_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_milestones_job_id ON job_milestones(job_id);
@@ -0,0 +1,21 @@
+-- =============================================================================
+-- 004 - Beep webhook deliveries
+-- =============================================================================
+-- One row per (invoice UUID, event type). Beep retries deliveries, so the
+-- row is the idempotency key: once status = 'processed' repeats are ignored.
+
+CREATE TABLE IF NOT EXISTS beep_webhook_events (
+    id SERIAL PRIMARY KEY,
+    invoice_uuid VARCHAR(100) NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+    job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    error TEXT,
+    received_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP,
+    UNIQUE (invoice_uuid, event_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_beep_invoice_id ON jobs(beep_invoice_id);
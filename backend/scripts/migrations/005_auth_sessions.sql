@@ -0,0 +1,29 @@
+-- =============================================================================
+-- 005 - Wallet sign-in sessions
+-- =============================================================================
+-- Login is a challenge/response: the server issues a single-use nonce,
+-- the wallet signs the challenge message, the server verifies it and
+-- issues a short-lived access token plus a rotating refresh token.
+-- Refresh tokens are stored as SHA-256 hashes only.
+
+CREATE TABLE IF NOT EXISTS auth_challenges (
+    nonce VARCHAR(64) PRIMARY KEY,
+    wallet_address VARCHAR(66) NOT NULL,
+    message TEXT NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_challenges_expires ON auth_challenges(expires_at);
+
+CREATE TABLE IF NOT EXISTS auth_refresh_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP NOT NULL,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_user ON auth_refresh_tokens(user_id);
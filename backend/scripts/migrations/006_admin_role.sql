@@ -0,0 +1,10 @@
+-- =============================================================================
+-- 006 - Admin role
+-- =============================================================================
+-- Admins pass every route policy (see src/middleware/policy.ts).
+-- There is no sign-up path for admins or arbiters; grant the role directly:
+--   UPDATE users SET role = 'admin' WHERE wallet_address = '0x...';
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check
+    CHECK (role IN ('buyer', 'agent', 'arbiter', 'admin'));
@@ -0,0 +1,32 @@
+-- =============================================================================
+-- 007 - Chain operation outbox
+-- =============================================================================
+-- On-chain side effects (create/release/cancel escrow, pool spend) are queued
+-- here instead of being fired inline, and executed by services/chain-outbox.ts
+-- with retries and exponential backoff.
+-- idempotency_key (e.g. 'job:12:release') makes queueing the same operation
+-- twice return the existing row.
+-- tx_digest/result are stored as soon as the transaction lands, so a retry
+-- after a crash only re-applies the database side.
+-- Jobs wait in 'release_pending' / 'cancel_pending' until the transaction
+-- is confirmed.
+
+CREATE TABLE IF NOT EXISTS chain_operations (
+    id SERIAL PRIMARY KEY,
+    idempotency_key VARCHAR(100) NOT NULL UNIQUE,
+    op_type VARCHAR(20) NOT NULL CHECK (op_type IN ('create_escrow', 'release_escrow', 'cancel_escrow', 'pool_spend')),
+    job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP,
+    tx_digest VARCHAR(100),
+    result JSONB,
+    last_error TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_operations_due ON chain_operations(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_chain_operations_job_id ON chain_operations(job_id);
@@ -0,0 +1,36 @@
+-- =============================================================================
+-- 008 - Chain event index
+-- =============================================================================
+-- Events emitted by the escrow and user_pool Move modules, written by
+-- services/chain-indexer.ts. (tx_digest, event_seq) is the on-chain event ID,
+-- so re-reading a page never stores an event twice.
+-- chain_event_cursors holds the last event read per '<package>::<module>'.
+
+CREATE TABLE IF NOT EXISTS chain_events (
+    id SERIAL PRIMARY KEY,
+    tx_digest VARCHAR(100) NOT NULL,
+    event_seq VARCHAR(20) NOT NULL,
+    module VARCHAR(50) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    object_id VARCHAR(66),
+    payload JSONB NOT NULL,
+    sender VARCHAR(66),
+    timestamp_ms BIGINT,
+    job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+    pool_id INTEGER REFERENCES user_pools(id) ON DELETE SET NULL,
+    reconcile_error TEXT,
+    indexed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tx_digest, event_seq)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_events_object_id ON chain_events(object_id);
+
+CREATE TABLE IF NOT EXISTS chain_event_cursors (
+    stream VARCHAR(150) PRIMARY KEY,
+    tx_digest VARCHAR(100) NOT NULL,
+    event_seq VARCHAR(20) NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_escrow_object_id ON jobs(escrow_object_id);
+CREATE INDEX IF NOT EXISTS idx_pool_transactions_tx_digest ON pool_transactions(tx_digest);
@@ -0,0 +1,27 @@
+-- =============================================================================
+-- 009 - Agent matching shortlists
+-- =============================================================================
+-- The personal agent no longer assigns a job on its own. It scores agents
+-- (services/agent-matching.ts), stores a ranked shortlist per request and
+-- waits in 'awaiting_selection' until the buyer picks one; only then is the
+-- job created and the request marked 'processed'.
+-- factors holds the per-factor scores and explanations shown to the buyer.
+
+ALTER TABLE user_requests ADD COLUMN IF NOT EXISTS analysis JSONB;
+
+ALTER TABLE user_requests DROP CONSTRAINT IF EXISTS user_requests_status_check;
+ALTER TABLE user_requests ADD CONSTRAINT user_requests_status_check
+    CHECK (status IN ('pending', 'awaiting_selection', 'processed', 'failed'));
+
+CREATE TABLE IF NOT EXISTS request_agent_matches (
+    id SERIAL PRIMARY KEY,
+    request_id INTEGER NOT NULL REFERENCES user_requests(id) ON DELETE CASCADE,
+    agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    rank INTEGER NOT NULL,
+    score DECIMAL(5, 2) NOT NULL,
+    factors JSONB NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (request_id, agent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_agent_matches_request ON request_agent_matches(request_id, rank);
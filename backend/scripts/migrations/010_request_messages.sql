@@ -0,0 +1,32 @@
+-- =============================================================================
+-- 010 - Personal Agent conversations
+-- =============================================================================
+-- Each user request is a thread (services/request-conversation.ts). The agent
+-- either asks clarifying questions ('clarifying', waiting for the user) or
+-- proposes a job spec ('awaiting_confirmation'). Only a confirmed spec is
+-- matched against agents ('awaiting_selection', see 009).
+-- kind: message | question | proposal | confirmation; data holds the spec
+-- of proposals and confirmations.
+
+CREATE TABLE IF NOT EXISTS request_messages (
+    id SERIAL PRIMARY KEY,
+    request_id INTEGER NOT NULL REFERENCES user_requests(id) ON DELETE CASCADE,
+    role VARCHAR(10) NOT NULL CHECK (role IN ('user', 'agent')),
+    kind VARCHAR(20) NOT NULL DEFAULT 'message'
+        CHECK (kind IN ('message', 'question', 'proposal', 'confirmation')),
+    content TEXT NOT NULL,
+    data JSONB,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_messages_request ON request_messages(request_id, id);
+
+-- Requests from before threads start with their description
+INSERT INTO request_messages (request_id, role, kind, content, created_at)
+SELECT ur.id, 'user', 'message', ur.description, ur.created_at
+FROM user_requests ur
+WHERE NOT EXISTS (SELECT 1 FROM request_messages m WHERE m.request_id = ur.id);
+
+ALTER TABLE user_requests DROP CONSTRAINT IF EXISTS user_requests_status_check;
+ALTER TABLE user_requests ADD CONSTRAINT user_requests_status_check
+    CHECK (status IN ('pending', 'clarifying', 'awaiting_confirmation', 'awaiting_selection', 'processed', 'failed'));
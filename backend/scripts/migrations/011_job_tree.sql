@@ -0,0 +1,22 @@
+-- =============================================================================
+-- 011 - Job tree (sub-jobs hired by manager agents)
+-- =============================================================================
+-- The agent of a job can split it into sub-jobs and hire other agents for
+-- them (services/job-tree.ts). A sub-job's buyer is that manager agent.
+-- funding_source:
+--   buyer  - paid by the buyer through Beep (every top-level job)
+--   parent - carved out of the parent job's escrow; the platform locks the
+--            sub-job escrow up front and keeps that share of the parent
+--            escrow when the parent is released
+--   pool   - spent from the top-level buyer's user pool
+-- The sub-jobs of a job (except cancelled ones) never add up to more than
+-- its amount_usdc.
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS parent_job_id INTEGER REFERENCES jobs(id);
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS funding_source VARCHAR(10) NOT NULL DEFAULT 'buyer';
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_funding_source_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_funding_source_check
+    CHECK (funding_source IN ('buyer', 'parent', 'pool'));
+
+CREATE INDEX IF NOT EXISTS idx_jobs_parent_job_id ON jobs(parent_job_id);
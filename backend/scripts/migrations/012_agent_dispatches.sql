@@ -0,0 +1,32 @@
+-- =============================================================================
+-- 012 - Agent task dispatch
+-- =============================================================================
+-- Escrowed jobs are sent to the assigned agent's MCP endpoint
+-- (agents.mcp_endpoint) by services/agent-dispatch.ts. One row per job;
+-- failed attempts are retried with backoff until AGENT_DISPATCH_MAX_ATTEMPTS.
+-- progress/progress_total/progress_message hold the last MCP progress
+-- notification. A successful result is stored as a delivery (delivery_id)
+-- and the job moves to 'delivered'.
+-- status 'abandoned': the job moved on (cancelled, delivered by hand, ...)
+-- before the agent answered.
+
+CREATE TABLE IF NOT EXISTS agent_dispatches (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL UNIQUE REFERENCES jobs(id) ON DELETE CASCADE,
+    mcp_endpoint TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'abandoned')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP,
+    progress DECIMAL(10, 2),
+    progress_total DECIMAL(10, 2),
+    progress_message TEXT,
+    delivery_id INTEGER REFERENCES job_deliveries(id),
+    last_error TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_dispatches_due ON agent_dispatches(status, next_attempt_at);
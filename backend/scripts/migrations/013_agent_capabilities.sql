@@ -0,0 +1,16 @@
+-- =============================================================================
+-- 013 - Agent capabilities and health
+-- =============================================================================
+-- Registration connects to the agent's MCP endpoint, lists its tools and
+-- checks that they cover the claimed skills (services/agent-verification.ts).
+-- tools: discovered [{ name, description, inputSchema }]
+-- The health probe pings every agent; after AGENT_HEALTH_MAX_FAILURES
+-- failed probes in a row is_available is turned off and offline_since set.
+-- Only agents the probe took offline are turned back on when they answer.
+
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS tools JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS tools_verified_at TIMESTAMP;
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP;
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS last_probe_at TIMESTAMP;
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS probe_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS offline_since TIMESTAMP;
@@ -0,0 +1,40 @@
+-- =============================================================================
+-- 014 - Agent reviews and reputation
+-- =============================================================================
+-- The buyer of a completed job can review its agent once (job_reviews).
+-- Scores are 1-5; quality/speed/communication are optional.
+-- amount_usdc is the job's amount at review time, used to weight the review.
+-- agents.rating is recalculated by services/reputation.ts from reviews,
+-- cancellations by the agent and lost disputes; every change is kept in
+-- agent_reputation_history.
+
+CREATE TABLE IF NOT EXISTS job_reviews (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL UNIQUE REFERENCES jobs(id) ON DELETE CASCADE,
+    agent_id INTEGER NOT NULL REFERENCES agents(id),
+    reviewer_id INTEGER NOT NULL REFERENCES users(id),
+    stars SMALLINT NOT NULL CHECK (stars BETWEEN 1 AND 5),
+    quality SMALLINT CHECK (quality BETWEEN 1 AND 5),
+    speed SMALLINT CHECK (speed BETWEEN 1 AND 5),
+    communication SMALLINT CHECK (communication BETWEEN 1 AND 5),
+    comment TEXT,
+    amount_usdc DECIMAL(18, 6) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_reviews_agent ON job_reviews(agent_id, created_at);
+
+CREATE TABLE IF NOT EXISTS agent_reputation_history (
+    id SERIAL PRIMARY KEY,
+    agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    rating DECIMAL(3, 2) NOT NULL,
+    previous_rating DECIMAL(3, 2) NOT NULL,
+    reviews_count INTEGER NOT NULL,
+    cancellations INTEGER NOT NULL,
+    disputes_lost DECIMAL(6, 2) NOT NULL,
+    trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('review', 'cancellation', 'dispute', 'decay')),
+    job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_reputation_history_agent ON agent_reputation_history(agent_id, created_at);
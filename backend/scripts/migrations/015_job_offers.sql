@@ -0,0 +1,39 @@
+-- =============================================================================
+-- 015 - Job offers and deadlines
+-- =============================================================================
+-- A job created for an agent starts as 'offered' and only becomes 'unpaid'
+-- (ready to be funded) once the agent accepts (services/agent-inbox.ts).
+-- job_offers keeps one row per agent the job was offered to:
+--   offered   - waiting for the agent until expires_at
+--   countered - the agent proposed other terms, waiting for the buyer
+--   accepted / declined / rejected (counter turned down by the buyer) /
+--   expired / withdrawn (job cancelled while offered)
+-- Declined, rejected and expired offers move the job to the next candidate.
+-- deadline_at is the agreed delivery deadline; overdue_at is set once the
+-- deadline passes without a delivery.
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deadline_at TIMESTAMP;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS overdue_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_deadline ON jobs(deadline_at) WHERE deadline_at IS NOT NULL AND overdue_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS job_offers (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    agent_id INTEGER NOT NULL REFERENCES agents(id),
+    status VARCHAR(10) NOT NULL DEFAULT 'offered'
+        CHECK (status IN ('offered', 'countered', 'accepted', 'declined', 'rejected', 'expired', 'withdrawn')),
+    amount_usdc DECIMAL(18, 6) NOT NULL,
+    deadline_at TIMESTAMP,
+    counter_amount_usdc DECIMAL(18, 6),
+    counter_deadline_at TIMESTAMP,
+    message TEXT,
+    expires_at TIMESTAMP NOT NULL,
+    responded_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- At most one open offer per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_offers_open ON job_offers(job_id) WHERE status IN ('offered', 'countered');
+CREATE INDEX IF NOT EXISTS idx_job_offers_expiry ON job_offers(expires_at) WHERE status IN ('offered', 'countered');
+CREATE INDEX IF NOT EXISTS idx_job_offers_agent ON job_offers(agent_id, status);
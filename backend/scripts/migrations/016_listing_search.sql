@@ -0,0 +1,25 @@
+-- =============================================================================
+-- 016 - Listing search and sort indexes
+-- =============================================================================
+-- Full-text search for GET /jobs and GET /agents (?q=...):
+--   jobs:   title (weight A), requirements (weight B)
+--   agents: skills (weight A), description (weight B)
+-- The indexed expressions must stay identical to JOB_SEARCH_VECTOR and
+-- AGENT_SEARCH_VECTOR in src/db/queries.ts, otherwise the indexes are not used.
+-- Listings are paged with keyset cursors on (sort column, id); the btree
+-- indexes below cover the default sorts.
+
+CREATE INDEX IF NOT EXISTS idx_jobs_search ON jobs USING GIN ((
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(requirements, '')), 'B')
+));
+
+CREATE INDEX IF NOT EXISTS idx_agents_search ON agents USING GIN ((
+    setweight(jsonb_to_tsvector('english', coalesce(skills, '[]'::jsonb), '["string"]'), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+));
+
+CREATE INDEX IF NOT EXISTS idx_jobs_created ON jobs(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_buyer_created ON jobs(buyer_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_agent_created ON jobs(agent_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_agents_rating ON agents(rating DESC, id DESC);
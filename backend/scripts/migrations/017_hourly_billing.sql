@@ -0,0 +1,43 @@
+-- =============================================================================
+-- 017 - Hourly billing
+-- =============================================================================
+-- Hourly jobs bill the agent's time instead of a lump sum
+-- (services/metering.ts). amount_usdc is the buyer's cap: it is what gets
+-- escrowed, and the meter never bills more than it. The meter:
+--   running - the agent is working; a Beep stream is active
+--   paused  - the agent reported idle, the buyer paused or the cap was reached
+--   stopped - the work was delivered or the job cancelled; the stream is
+--             finalised (a revision starts a new stream)
+-- accrued_seconds / accrued_usdc hold the closed segments; the running
+-- segment started at meter_started_at. job_meter_segments keeps every
+-- segment for the buyer's statement.
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS billing VARCHAR(10) NOT NULL DEFAULT 'fixed'
+    CHECK (billing IN ('fixed', 'hourly'));
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS hourly_rate_usdc DECIMAL(18, 6);
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS meter_state VARCHAR(10)
+    CHECK (meter_state IN ('idle', 'running', 'paused', 'stopped'));
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS meter_started_at TIMESTAMP;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS accrued_seconds INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS accrued_usdc DECIMAL(18, 6) NOT NULL DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS stream_invoice_id VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_meter_running ON jobs(meter_started_at) WHERE meter_state = 'running';
+
+CREATE TABLE IF NOT EXISTS job_meter_segments (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    stream_invoice_id VARCHAR(100),
+    started_at TIMESTAMP NOT NULL,
+    started_by VARCHAR(100) NOT NULL,
+    ended_at TIMESTAMP,
+    ended_by VARCHAR(100),
+    end_reason VARCHAR(20)
+        CHECK (end_reason IN ('idle', 'buyer', 'cap_reached', 'delivered', 'cancelled', 'disputed')),
+    seconds INTEGER,
+    amount_usdc DECIMAL(18, 6)
+);
+
+-- At most one open segment per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_meter_segments_open ON job_meter_segments(job_id) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_job_meter_segments_job ON job_meter_segments(job_id, started_at);
@@ -0,0 +1,37 @@
+-- =============================================================================
+-- 018 - Agent payouts
+-- =============================================================================
+-- What each agent has been paid, and what is still on its way
+-- (services/payout.ts). A payout is either:
+--   escrow   - an on-chain escrow release to the agent's wallet (full,
+--              per milestone or a dispute ruling)
+--   transfer - a USDC transfer from the platform wallet, for jobs whose
+--              funds Beep settled to the platform without an escrow
+-- idempotency_key is the chain operation that moves the money
+-- ('job:12:release', 'job:12:payout', ...). tx_digest of a transfer is
+-- stored before it is sent, so a retry can check whether it landed.
+-- A completed job moves to 'paid_out' once none of its payouts is pending
+-- or failed.
+
+ALTER TABLE chain_operations DROP CONSTRAINT IF EXISTS chain_operations_op_type_check;
+ALTER TABLE chain_operations ADD CONSTRAINT chain_operations_op_type_check
+    CHECK (op_type IN ('create_escrow', 'release_escrow', 'cancel_escrow', 'pool_spend', 'payout'));
+
+CREATE TABLE IF NOT EXISTS agent_payouts (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    agent_id INTEGER NOT NULL REFERENCES agents(id),
+    milestone_id INTEGER REFERENCES job_milestones(id) ON DELETE SET NULL,
+    idempotency_key VARCHAR(100) NOT NULL UNIQUE,
+    method VARCHAR(10) NOT NULL CHECK (method IN ('escrow', 'transfer')),
+    recipient_address VARCHAR(100) NOT NULL,
+    amount_usdc DECIMAL(18, 6) NOT NULL CHECK (amount_usdc > 0),
+    status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    tx_digest VARCHAR(100),
+    last_error TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    sent_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_payouts_agent ON agent_payouts(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_payouts_job ON agent_payouts(job_id);
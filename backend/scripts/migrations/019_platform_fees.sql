@@ -0,0 +1,79 @@
+-- =============================================================================
+-- 019 - Platform fees and ledger
+-- =============================================================================
+-- fee_schedules: the platform's commission on what agents are paid
+-- (services/fees.ts). A schedule charges percent of each payout plus
+-- flat_usdc once per job, never more than the payout itself. The most
+-- specific active schedule applies:
+--   tier    - agents.fee_tier equals tier
+--   skill   - the agent lists skill (the cheapest one when several match)
+--   default - everyone else
+-- Without any active schedule no fee is charged.
+--
+-- The fee is split out when the money moves: escrow releases keep it in the
+-- escrow's buyer (the platform wallet, escrow::release_with_fee), transfers
+-- simply send less. agent_payouts.amount_usdc is what the agent receives,
+-- fee_usdc what the platform kept.
+--
+-- ledger_entries: double-entry ledger (services/ledger.ts). Every entry
+-- debits one account and credits another by the same amount, so the ledger
+-- always balances:
+--   buyer_charge  platform_wallet ← buyer_funds      buyer paid for a job
+--   escrow_lock   escrow ← platform_wallet           job funds locked
+--   agent_payout  buyer_funds → escrow | platform_wallet (agent paid)
+--   fee           buyer_funds → fee_revenue, and the fee coin
+--                 escrow → platform_wallet for escrow releases
+--   refund        escrow → platform_wallet           escrow refunded
+--   reclaim       escrow → platform_wallet           unused budget returned
+-- idempotency_key makes every posting safe to repeat.
+
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS fee_tier VARCHAR(32);
+
+CREATE TABLE IF NOT EXISTS fee_schedules (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    scope VARCHAR(10) NOT NULL CHECK (scope IN ('default', 'skill', 'tier')),
+    skill VARCHAR(100),
+    tier VARCHAR(32),
+    percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (percent >= 0 AND percent <= 100),
+    flat_usdc DECIMAL(18, 6) NOT NULL DEFAULT 0 CHECK (flat_usdc >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((scope = 'skill') = (skill IS NOT NULL)),
+    CHECK ((scope = 'tier') = (tier IS NOT NULL))
+);
+
+-- One active schedule per default / skill / tier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fee_schedules_active
+    ON fee_schedules(scope, COALESCE(skill, ''), COALESCE(tier, ''))
+    WHERE is_active;
+
+ALTER TABLE agent_payouts ADD COLUMN IF NOT EXISTS fee_usdc DECIMAL(18, 6) NOT NULL DEFAULT 0;
+ALTER TABLE agent_payouts ADD COLUMN IF NOT EXISTS fee_schedule_id INTEGER REFERENCES fee_schedules(id);
+
+-- A fee may take a whole (small) payout
+ALTER TABLE agent_payouts DROP CONSTRAINT IF EXISTS agent_payouts_amount_usdc_check;
+ALTER TABLE agent_payouts ADD CONSTRAINT agent_payouts_amount_usdc_check
+    CHECK (amount_usdc >= 0 AND fee_usdc >= 0 AND amount_usdc + fee_usdc > 0);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+    id SERIAL PRIMARY KEY,
+    idempotency_key VARCHAR(120) NOT NULL UNIQUE,
+    entry_type VARCHAR(20) NOT NULL
+        CHECK (entry_type IN ('buyer_charge', 'escrow_lock', 'agent_payout', 'fee', 'refund', 'reclaim')),
+    debit_account VARCHAR(20) NOT NULL
+        CHECK (debit_account IN ('platform_wallet', 'escrow', 'buyer_funds', 'fee_revenue')),
+    credit_account VARCHAR(20) NOT NULL
+        CHECK (credit_account IN ('platform_wallet', 'escrow', 'buyer_funds', 'fee_revenue')),
+    amount_usdc DECIMAL(18, 6) NOT NULL CHECK (amount_usdc > 0),
+    job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+    payout_id INTEGER REFERENCES agent_payouts(id) ON DELETE SET NULL,
+    tx_digest VARCHAR(100),
+    memo TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (debit_account <> credit_account)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_created ON ledger_entries(created_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_job ON ledger_entries(job_id);
@@ -0,0 +1,23 @@
+-- =============================================================================
+-- 020 - Reconciliation runs
+-- =============================================================================
+-- Each run of the reconciliation job (services/reconciliation.ts)
+-- cross-checks jobs against their Beep invoice and on-chain escrow and
+-- stores what it found. findings: [{ jobId, kind, detail, ..., repair }]
+-- errors: jobs that could not be checked ([{ jobId, message }]).
+-- repair: whether safe repairs were applied or the run only reported.
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+    id SERIAL PRIMARY KEY,
+    trigger VARCHAR(10) NOT NULL CHECK (trigger IN ('monitor', 'admin', 'cli')),
+    repair BOOLEAN NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    jobs_checked INTEGER NOT NULL DEFAULT 0,
+    findings JSONB NOT NULL DEFAULT '[]',
+    errors JSONB NOT NULL DEFAULT '[]',
+    last_error TEXT,
+    started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started ON reconciliation_runs(started_at DESC);
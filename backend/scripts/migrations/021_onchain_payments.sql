@@ -0,0 +1,42 @@
+-- =============================================================================
+-- 021 - On-chain payment scanner
+-- =============================================================================
+-- USDC transfers to the merchant address, matched to jobs by
+-- services/payment-scanner.ts when Beep has not reported the invoice paid.
+-- A transfer matches the job whose beep_invoice_id is the memo; outcome
+-- says how its USDC amount compares with the job amount:
+--   exact / within_tolerance / overpaid - accepted, the job is paid
+--   underpaid  - short by more than the tolerance, not accepted
+--   wrong_coin - no USDC was received, not accepted
+--   duplicate  - the job was already paid by another transfer
+-- tx_digest is unique, so one transfer can never pay two jobs, and a job
+-- has at most one accepted payment.
+--
+-- payment_scan_cursors holds the last transaction read per recipient.
+
+CREATE TABLE IF NOT EXISTS onchain_payments (
+    id SERIAL PRIMARY KEY,
+    tx_digest VARCHAR(100) NOT NULL UNIQUE,
+    recipient VARCHAR(66) NOT NULL,
+    invoice_id VARCHAR(100) NOT NULL,
+    job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+    coin_type VARCHAR(200),
+    amount_usdc DECIMAL(18, 6) NOT NULL,
+    expected_usdc DECIMAL(18, 6) NOT NULL,
+    outcome VARCHAR(20) NOT NULL
+        CHECK (outcome IN ('exact', 'within_tolerance', 'overpaid', 'underpaid', 'wrong_coin', 'duplicate')),
+    sender VARCHAR(66),
+    timestamp_ms BIGINT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One accepted payment per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_onchain_payments_job_accepted
+    ON onchain_payments(job_id)
+    WHERE outcome IN ('exact', 'within_tolerance', 'overpaid');
+
+CREATE TABLE IF NOT EXISTS payment_scan_cursors (
+    recipient VARCHAR(66) PRIMARY KEY,
+    tx_digest VARCHAR(100) NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
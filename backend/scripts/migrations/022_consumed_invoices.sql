@@ -0,0 +1,14 @@
+-- =============================================================================
+-- 022 - Consumed invoices
+-- =============================================================================
+-- Invoices a buyer confirmed as a job's payment (POST /jobs/confirm-payment).
+-- invoice_id is the primary key, so one paid invoice funds at most one job;
+-- confirming it again for the same job is a no-op.
+
+CREATE TABLE IF NOT EXISTS consumed_invoices (
+    invoice_id VARCHAR(100) PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    amount_usdc DECIMAL(18, 6) NOT NULL,
+    consumed_by VARCHAR(100) NOT NULL,
+    consumed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,10 @@
+-- =============================================================================
+-- 023 - Dispute rulings in the chain outbox
+-- =============================================================================
+-- Rulings are executed on-chain through the chain outbox
+-- (services/chain-outbox.ts, key 'dispute:<id>:resolve'), so a failure after
+-- the transfer is retried from the database side only.
+
+ALTER TABLE chain_operations DROP CONSTRAINT IF EXISTS chain_operations_op_type_check;
+ALTER TABLE chain_operations ADD CONSTRAINT chain_operations_op_type_check
+    CHECK (op_type IN ('create_escrow', 'release_escrow', 'cancel_escrow', 'pool_spend', 'payout', 'resolve_dispute'));
@@ -0,0 +1,11 @@
+-- =============================================================================
+-- 024 - Buyer refunds in the chain outbox
+-- =============================================================================
+-- Escrows are created by the platform wallet, so cancelling one or ruling a
+-- dispute for the buyer returns the funds to the platform. The buyer's share
+-- is then transferred on to the buyer through the chain outbox
+-- (services/refund.ts, key 'job:<id>:buyer_refund').
+
+ALTER TABLE chain_operations DROP CONSTRAINT IF EXISTS chain_operations_op_type_check;
+ALTER TABLE chain_operations ADD CONSTRAINT chain_operations_op_type_check
+    CHECK (op_type IN ('create_escrow', 'release_escrow', 'cancel_escrow', 'pool_spend', 'payout', 'resolve_dispute', 'buyer_refund'));
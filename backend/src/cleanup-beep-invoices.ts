@@ -1,24 +1,37 @@
 /**
- * Cleanup Script - Delete all Beep invoices
+ * Cleanup Script - Delete stale Beep invoices
  * 
- * Run from backend root: npx tsx src/cleanup-beep-invoices.ts
+ * Invoices a job refers to and paid invoices are kept: they are what
+ * reconciliation (services/reconciliation.ts) checks jobs and escrows against.
+ * 
+ * Run from backend root: npx tsx src/cleanup-beep-invoices.ts [--dry-run]
  */
 
 import { BeepClient } from '@beep-it/sdk-core';
 import { config } from 'dotenv';
+import { getBeepApiUrl } from './services/beep-emulator.js';
+import { initializeDatabase, closeDatabase } from './db/database.js';
+import { getJobInvoiceIds } from './db/queries.js';
 
 // Load .env file
 config();
 
 const beepClient = new BeepClient({
-    apiKey: process.env.BEEP_API_KEY || ''
+    apiKey: process.env.BEEP_API_KEY || '',
+    serverUrl: getBeepApiUrl()
 });
 
-async function deleteAllInvoices() {
+async function deleteStaleInvoices(dryRun: boolean) {
     console.log('🔍 Fetching all invoices...');
     
-    const invoices = await beepClient.invoices.listInvoices();
-    console.log(`📋 Found ${invoices.length} invoices`);
+    const all = await beepClient.invoices.listInvoices();
+    const referenced = new Set(await getJobInvoiceIds());
+
+    // Jobs store either the invoice ID or its UUID
+    const invoices = all.filter((inv: any) =>
+        inv.status !== 'paid' && !referenced.has(String(inv.id)) && !referenced.has(String(inv.uuid))
+    );
+    console.log(`📋 Found ${all.length} invoices, ${all.length - invoices.length} paid or used by a job`);
     
     if (invoices.length === 0) {
         console.log('✅ No invoices to delete');
@@ -31,7 +44,12 @@ async function deleteAllInvoices() {
         console.log(`  - ID: ${inv.id}, UUID: ${inv.uuid}, Status: ${inv.status}`);
     });
 
-    console.log(`\n🗑️  Deleting ALL ${invoices.length} invoices...`);
+    if (dryRun) {
+        console.log(`\n✅ ${invoices.length} invoices would be deleted (dry run)`);
+        return;
+    }
+
+    console.log(`\n🗑️  Deleting ${invoices.length} stale invoices...`);
     let deleted = 0;
     let failed = 0;
 
@@ -60,7 +78,9 @@ async function deleteAllInvoices() {
             process.exit(1);
         }
 
-        await deleteAllInvoices();
+        await initializeDatabase();
+        await deleteStaleInvoices(process.argv.includes('--dry-run'));
+        await closeDatabase();
     } catch (error: any) {
         console.error('❌ Error:', error.message);
         process.exit(1);
@@ -1,9 +1,12 @@
-import { query, transaction } from './database.js';
+import { PoolClient } from 'pg';
+import { query } from './database.js';
+
+export type UserRole = 'buyer' | 'agent' | 'arbiter' | 'admin';
 
 export interface User {
     id: number;
     wallet_address: string;
-    role: 'buyer' | 'agent';
+    role: UserRole;
     display_name: string | null;
     email: string | null;
     created_at: Date;
@@ -20,10 +23,28 @@ export interface Agent {
     rating: number;
     jobs_completed: number;
     is_available: boolean;
+    tools: AgentToolSchema[];
+    tools_verified_at: Date | null;
+    last_seen_at: Date | null;
+    last_probe_at: Date | null;
+    probe_failures: number;
+    /** Set when the health probe turned the agent off */
+    offline_since: Date | null;
+    /** Selects the 'tier' fee schedule of the agent */
+    fee_tier: string | null;
     created_at: Date;
     updated_at: Date;
 }
 
+/**
+ * Tool discovered on an agent's MCP server
+ */
+export interface AgentToolSchema {
+    name: string;
+    description: string;
+    inputSchema: object;
+}
+
 export interface Job {
     id: number;
     title: string;
@@ -43,9 +64,53 @@ export interface Job {
     delivered_at: Date | null;
     completed_at: Date | null;
     paid_out_at: Date | null;
+    parent_job_id: number | null;
+    funding_source: JobFundingSource;
+    /** Agreed delivery deadline */
+    deadline_at: Date | null;
+    /** Set once the deadline passed without a delivery */
+    overdue_at: Date | null;
+    /** hourly: amount_usdc is the buyer's cap and the agent's time is metered */
+    billing: JobBilling;
+    hourly_rate_usdc: number | null;
+    /** null for fixed-price jobs */
+    meter_state: MeterState | null;
+    /** Start of the running meter segment */
+    meter_started_at: Date | null;
+    /** Closed meter segments only */
+    accrued_seconds: number;
+    accrued_usdc: number;
+    /** Beep streaming invoice of the current stream */
+    stream_invoice_id: string | null;
+}
+
+export type JobFundingSource = 'buyer' | 'parent' | 'pool';
+
+export type JobBilling = 'fixed' | 'hourly';
+
+export type MeterState = 'idle' | 'running' | 'paused' | 'stopped';
+
+export type MeterStopReason = 'idle' | 'buyer' | 'cap_reached' | 'delivered' | 'cancelled' | 'disputed';
+
+/**
+ * One stretch of metered work on an hourly job
+ */
+export interface JobMeterSegment {
+    id: number;
+    job_id: number;
+    stream_invoice_id: string | null;
+    started_at: Date;
+    started_by: string;
+    /** null while the meter is running */
+    ended_at: Date | null;
+    ended_by: string | null;
+    end_reason: MeterStopReason | null;
+    seconds: number | null;
+    amount_usdc: number | null;
 }
 
 export type JobStatus =
+    | 'offered'
     | 'unpaid'
     | 'escrowed'
     | 'working'
@@ -53,7 +118,323 @@ export type JobStatus =
     | 'completed'
     | 'paid_out'
     | 'cancelled'
-    | 'disputed';
+    | 'disputed'
+    | 'release_pending'
+    | 'cancel_pending';
+
+/**
+ * Columns that may be written alongside a job status change
+ */
+export type JobUpdateFields = Partial<{
+    beep_invoice_id: string;
+    reference_key: string;
+    escrow_object_id: string;
+    escrow_tx_digest: string;
+    release_tx_digest: string;
+    agent_id: number;
+    amount_usdc: number;
+    deadline_at: Date | null;
+    overdue_at: Date;
+}>;
+
+export interface JobEvent {
+    id: number;
+    job_id: number;
+    from_status: JobStatus | null;
+    to_status: JobStatus;
+    actor: string;
+    reason: string | null;
+    tx_digest: string | null;
+    created_at: Date;
+}
+
+export interface AuthChallenge {
+    nonce: string;
+    wallet_address: string;
+    message: string;
+    expires_at: Date;
+    used_at: Date | null;
+    created_at: Date;
+}
+
+export interface AuthRefreshToken {
+    id: number;
+    user_id: number;
+    token_hash: string;
+    expires_at: Date;
+    revoked_at: Date | null;
+    created_at: Date;
+}
+
+export type DisputeRuling = 'refund' | 'release' | 'split';
+
+export interface JobDispute {
+    id: number;
+    job_id: number;
+    opened_by: number;
+    opened_by_party: 'buyer' | 'agent';
+    previous_status: JobStatus;
+    reason: string;
+    status: 'open' | 'resolved';
+    ruling: DisputeRuling | null;
+    agent_amount_usdc: number | null;
+    arbiter_id: number | null;
+    ruling_notes: string | null;
+    resolution_tx_digest: string | null;
+    auto_resolved: boolean;
+    deadline_at: Date;
+    resolved_at: Date | null;
+    created_at: Date;
+}
+
+export interface DisputeEvidence {
+    id: number;
+    dispute_id: number;
+    submitted_by: number;
+    delivery_id: number | null;
+    content: string;
+    external_url: string | null;
+    created_at: Date;
+}
+
+export type MilestoneStatus = 'pending' | 'delivered' | 'approved';
+
+export interface JobMilestone {
+    id: number;
+    job_id: number;
+    position: number;
+    title: string;
+    description: string | null;
+    amount_usdc: number;
+    status: MilestoneStatus;
+    delivery_id: number | null;
+    revision_count: number;
+    release_tx_digest: string | null;
+    delivered_at: Date | null;
+    approved_at: Date | null;
+    created_at: Date;
+}
+
+export type WebhookEventStatus = 'received' | 'processed' | 'ignored' | 'failed';
+
+export interface BeepWebhookEvent {
+    id: number;
+    invoice_uuid: string;
+    event_type: string;
+    status: WebhookEventStatus;
+    job_id: number | null;
+    payload: any;
+    attempts: number;
+    error: string | null;
+    received_at: Date;
+    processed_at: Date | null;
+}
+
+export interface ChainEvent {
+    id: number;
+    tx_digest: string;
+    event_seq: string;
+    module: string;
+    event_type: string;
+    object_id: string | null;
+    payload: any;
+    sender: string | null;
+    timestamp_ms: string | null;
+    job_id: number | null;
+    pool_id: number | null;
+    reconcile_error: string | null;
+    indexed_at: Date;
+}
+
+export interface ChainEventCursor {
+    txDigest: string;
+    eventSeq: string;
+}
+
+/**
+ * exact, within_tolerance and overpaid are accepted as the job's payment
+ */
+export type OnChainPaymentOutcome = 'exact' | 'within_tolerance' | 'overpaid' | 'underpaid' | 'wrong_coin' | 'duplicate';
+
+export interface OnChainPayment {
+    id: number;
+    tx_digest: string;
+    recipient: string;
+    /** The memo the transfer carried */
+    invoice_id: string;
+    job_id: number | null;
+    coin_type: string | null;
+    amount_usdc: number;
+    expected_usdc: number;
+    outcome: OnChainPaymentOutcome;
+    sender: string | null;
+    timestamp_ms: string | null;
+    created_at: Date;
+}
+
+/**
+ * An invoice confirmed as a job's payment
+ */
+export interface ConsumedInvoice {
+    invoice_id: string;
+    job_id: number;
+    amount_usdc: number;
+    consumed_by: string;
+    consumed_at: Date;
+}
+
+export type ChainOperationType = 'create_escrow' | 'release_escrow' | 'cancel_escrow' | 'pool_spend' | 'payout' | 'resolve_dispute' | 'buyer_refund';
+
+export type ChainOperationStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface ChainOperation {
+    id: number;
+    idempotency_key: string;
+    op_type: ChainOperationType;
+    job_id: number | null;
+    payload: any;
+    status: ChainOperationStatus;
+    attempts: number;
+    next_attempt_at: Date;
+    locked_at: Date | null;
+    tx_digest: string | null;
+    result: any;
+    last_error: string | null;
+    created_at: Date;
+    completed_at: Date | null;
+}
+
+/**
+ * escrow: released to the agent on-chain; transfer: sent from the platform wallet
+ */
+export type PayoutMethod = 'escrow' | 'transfer';
+
+export type PayoutStatus = 'pending' | 'sent' | 'failed';
+
+export interface AgentPayout {
+    id: number;
+    job_id: number;
+    agent_id: number;
+    milestone_id: number | null;
+    /** Key of the chain operation that moves the money */
+    idempotency_key: string;
+    method: PayoutMethod;
+    recipient_address: string;
+    /** What the agent receives */
+    amount_usdc: number;
+    /** Platform fee kept out of the payout */
+    fee_usdc: number;
+    fee_schedule_id: number | null;
+    status: PayoutStatus;
+    tx_digest: string | null;
+    last_error: string | null;
+    created_at: Date;
+    sent_at: Date | null;
+}
+
+export interface AgentPayoutWithJob extends AgentPayout {
+    job_title: string;
+}
+
+export interface AgentPayoutTotals {
+    sent_usdc: number;
+    pending_usdc: number;
+    failed_usdc: number;
+}
+
+export type FeeScope = 'default' | 'skill' | 'tier';
+
+export interface FeeSchedule {
+    id: number;
+    name: string;
+    scope: FeeScope;
+    /** Set for scope 'skill' */
+    skill: string | null;
+    /** Set for scope 'tier' */
+    tier: string | null;
+    /** Charged on every payout */
+    percent: number;
+    /** Charged once per job */
+    flat_usdc: number;
+    is_active: boolean;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export type LedgerAccount = 'platform_wallet' | 'escrow' | 'buyer_funds' | 'fee_revenue';
+
+export type LedgerEntryType = 'buyer_charge' | 'escrow_lock' | 'agent_payout' | 'fee' | 'refund' | 'reclaim';
+
+export interface LedgerEntry {
+    id: number;
+    idempotency_key: string;
+    entry_type: LedgerEntryType;
+    debit_account: LedgerAccount;
+    credit_account: LedgerAccount;
+    amount_usdc: number;
+    job_id: number | null;
+    payout_id: number | null;
+    tx_digest: string | null;
+    memo: string | null;
+    created_at: Date;
+}
+
+/**
+ * Debits and credits of one account
+ */
+export interface LedgerAccountTotals {
+    account: LedgerAccount;
+    debit_usdc: number;
+    credit_usdc: number;
+}
+
+export interface LedgerTypeTotals {
+    entry_type: LedgerEntryType;
+    entries: number;
+    amount_usdc: number;
+}
+
+export type LedgerInterval = 'day' | 'week' | 'month';
+
+export interface LedgerPeriodTotals extends LedgerTypeTotals {
+    period_start: Date;
+}
+
+export type ReconciliationTrigger = 'monitor' | 'admin' | 'cli';
+
+export interface ReconciliationRun {
+    id: number;
+    trigger: ReconciliationTrigger;
+    repair: boolean;
+    status: 'running' | 'completed' | 'failed';
+    jobs_checked: number;
+    /** services/reconciliation.ts ReconciliationFinding[] */
+    findings: any[];
+    errors: { jobId: number; message: string }[];
+    last_error: string | null;
+    started_at: Date;
+    finished_at: Date | null;
+}
+
+export type AgentDispatchStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'abandoned';
+
+export interface AgentDispatch {
+    id: number;
+    job_id: number;
+    mcp_endpoint: string;
+    status: AgentDispatchStatus;
+    attempts: number;
+    next_attempt_at: Date;
+    locked_at: Date | null;
+    progress: number | null;
+    progress_total: number | null;
+    progress_message: string | null;
+    delivery_id: number | null;
+    last_error: string | null;
+    created_at: Date;
+    updated_at: Date;
+    completed_at: Date | null;
+}
 
 export interface UserPool {
     id: number;
@@ -82,6 +463,193 @@ export interface PoolTransaction {
     created_at: Date;
 }
 
+export type UserRequestStatus =
+    | 'pending'
+    | 'clarifying'
+    | 'awaiting_confirmation'
+    | 'awaiting_selection'
+    | 'processed'
+    | 'failed';
+
+export interface UserRequest {
+    id: number;
+    user_id: number;
+    description: string;
+    status: UserRequestStatus;
+    job_id: number | null;
+    error_message: string | null;
+    analysis: any;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export type RequestMessageKind = 'message' | 'question' | 'proposal' | 'confirmation';
+
+export interface RequestMessage {
+    id: number;
+    request_id: number;
+    role: 'user' | 'agent';
+    kind: RequestMessageKind;
+    content: string;
+    data: any;
+    created_at: Date;
+}
+
+/**
+ * Available agent with the data the matching engine scores on
+ */
+export interface MatchableAgent extends Agent {
+    wallet_address: string;
+    display_name: string | null;
+    active_jobs: number;
+}
+
+export interface RequestAgentMatch {
+    id: number;
+    request_id: number;
+    agent_id: number;
+    rank: number;
+    score: number;
+    factors: any;
+    created_at: Date;
+}
+
+export interface ShortlistedAgent extends RequestAgentMatch {
+    user_id: number;
+    display_name: string | null;
+    wallet_address: string;
+    hourly_rate: number | null;
+    rating: number;
+    jobs_completed: number;
+}
+
+export interface JobReview {
+    id: number;
+    job_id: number;
+    agent_id: number;
+    reviewer_id: number;
+    stars: number;
+    quality: number | null;
+    speed: number | null;
+    communication: number | null;
+    comment: string | null;
+    /** Job amount when the review was left, weights the review */
+    amount_usdc: number;
+    created_at: Date;
+}
+
+export interface AgentReview extends JobReview {
+    job_title: string;
+    reviewer_name: string | null;
+}
+
+export type ReputationTrigger = 'review' | 'cancellation' | 'dispute' | 'decay';
+
+export interface AgentReputationEntry {
+    id: number;
+    agent_id: number;
+    rating: number;
+    previous_rating: number;
+    reviews_count: number;
+    cancellations: number;
+    disputes_lost: number;
+    trigger: ReputationTrigger;
+    job_id: number | null;
+    created_at: Date;
+}
+
+/**
+ * Everything the reputation calculator weighs for one agent
+ */
+export interface ReputationInputs {
+    reviews: Pick<JobReview, 'stars' | 'quality' | 'speed' | 'communication' | 'amount_usdc' | 'created_at'>[];
+    /** Jobs the agent cancelled itself */
+    cancellations: { job_id: number; created_at: Date }[];
+    /** Disputes ruled against the agent; lost_share is 1 for a refund, less for a split */
+    disputesLost: { job_id: number; lost_share: number; resolved_at: Date }[];
+}
+
+export type JobOfferStatus = 'offered' | 'countered' | 'accepted' | 'declined' | 'rejected' | 'expired' | 'withdrawn';
+
+export interface JobOffer {
+    id: number;
+    job_id: number;
+    /** agents.id */
+    agent_id: number;
+    status: JobOfferStatus;
+    amount_usdc: number;
+    deadline_at: Date | null;
+    counter_amount_usdc: number | null;
+    counter_deadline_at: Date | null;
+    /** Decline reason or counter-offer note from the agent */
+    message: string | null;
+    expires_at: Date;
+    responded_at: Date | null;
+    created_at: Date;
+}
+
+/**
+ * Shortlisted agent a declined or expired offer can move on to
+ */
+export interface OfferCandidate {
+    agent_id: number;
+    user_id: number;
+    rank: number;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+export const JOB_SORTS = ['created_at', 'amount_usdc', 'relevance'] as const;
+export type JobSort = typeof JOB_SORTS[number];
+
+export const AGENT_SORTS = ['rating', 'jobs_completed', 'hourly_rate', 'created_at', 'relevance'] as const;
+export type AgentSort = typeof AGENT_SORTS[number];
+
+/**
+ * Position after the last row of a page
+ * value is the sort column as Postgres prints it, so it round-trips exactly
+ */
+export interface PageCursor {
+    sort: string;
+    order: SortOrder;
+    value: string;
+    id: number;
+}
+
+export interface PageRequest<S extends string = string> {
+    limit: number;
+    sort: S;
+    order: SortOrder;
+    /** Cursor of the previous page, null for the first page */
+    after: PageCursor | null;
+}
+
+/**
+ * One page of a listing; total counts every match, nextCursor is null on the last page
+ */
+export interface Page<T> {
+    items: T[];
+    nextCursor: string | null;
+    total: number;
+}
+
+export interface JobListFilters {
+    buyerId?: number;
+    /** Agent user ID (jobs.agent_id) */
+    agentId?: number;
+    status?: JobStatus;
+    /** Full-text search over title and requirements */
+    q?: string;
+}
+
+export interface AgentListFilters {
+    skill?: string;
+    minRating?: number;
+    maxRate?: number;
+    /** Full-text search over skills and description */
+    q?: string;
+}
+
 // =============================================================================
 // USER QUERIES
 // =============================================================================
@@ -170,62 +738,182 @@ export async function getUserById(id: number): Promise<User | null> {
     }
 }
 
+/**
+ * Stamp a successful login
+ */
+export async function updateLastLogin(userId: number): Promise<void> {
+    try {
+        await query(
+            `UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1`,
+            [userId]
+        );
+    } catch (err) {
+        console.error('Error updating last login:', err);
+        throw err;
+    }
+}
+
 // =============================================================================
-// AGENT QUERIES
+// AUTH QUERIES
 // =============================================================================
 
 /**
- * Get all available agents
+ * Store a sign-in challenge for a wallet
  */
-export async function getAvailableAgents(): Promise<(Agent & { wallet_address: string })[]> {
+export async function createAuthChallenge(
+    nonce: string,
+    walletAddress: string,
+    message: string,
+    expiresAt: Date
+): Promise<AuthChallenge> {
     try {
-        const result = await query(
-            `SELECT a.*, u.wallet_address
-            FROM agents a
-            JOIN users u ON a.user_id = u.id
-            WHERE a.is_available = true
-            ORDER BY a.rating DESC, a.jobs_completed DESC`
-        )
+        const result = await query<AuthChallenge>(
+            `INSERT INTO auth_challenges (nonce, wallet_address, message, expires_at)
+             VALUES ($1, $2, $3, $4)
+             RETURNING *`,
+            [nonce, walletAddress, message, expiresAt]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating auth challenge:', err);
+        throw err;
+    }
+}
 
-        return result.rows;
+/**
+ * Get an unused, unexpired challenge for a wallet
+ */
+export async function getActiveAuthChallenge(
+    nonce: string,
+    walletAddress: string
+): Promise<AuthChallenge | null> {
+    try {
+        const result = await query<AuthChallenge>(
+            `SELECT * FROM auth_challenges
+             WHERE nonce = $1
+             AND wallet_address = $2
+             AND used_at IS NULL
+             AND expires_at > CURRENT_TIMESTAMP`,
+            [nonce, walletAddress]
+        );
+        return result.rows[0] || null;
     } catch (err) {
-        console.error('Error getting available agents:', err);
+        console.error('Error getting auth challenge:', err);
         throw err;
     }
 }
 
 /**
- * Get agents filtered by specific skill
+ * Mark a challenge as used
+ * Returns false if it was already used (concurrent replay)
  */
-export async function findAgentsBySkill(skill: string): Promise<(Agent & { wallet_address: string })[]> {
+export async function consumeAuthChallenge(nonce: string): Promise<boolean> {
     try {
         const result = await query(
-            `SELECT a.*, u.wallet_address
-            FROM agents a
-            JOIN users u ON a.user_id = u.id
-            WHERE a.is_available = true
-            AND a.skills @> $1::jsonb
-            ORDER BY a.rating DESC`,
-            [JSON.stringify([skill])]
+            `UPDATE auth_challenges
+            SET used_at = CURRENT_TIMESTAMP
+            WHERE nonce = $1 AND used_at IS NULL`,
+            [nonce]
         );
-
-        return result.rows;
+        return (result.rowCount || 0) > 0;
     } catch (err) {
-        console.error('Error finding agents by skill:', err);
+        console.error('Error consuming auth challenge:', err);
         throw err;
     }
 }
 
 /**
- * Register a new agent
+ * Store a refresh token hash
  */
-export async function registerAgent(
+export async function createRefreshToken(
     userId: number,
-    mcpEndpoint: string,
-    skills: string[],
-    hourlyRate?: number,
-    description?: string
-): Promise<Agent> {
+    tokenHash: string,
+    expiresAt: Date
+): Promise<AuthRefreshToken> {
+    try {
+        const result = await query<AuthRefreshToken>(
+            `INSERT INTO auth_refresh_tokens (user_id, token_hash, expires_at)
+             VALUES ($1, $2, $3)
+             RETURNING *`,
+            [userId, tokenHash, expiresAt]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating refresh token:', err);
+        throw err;
+    }
+}
+
+/**
+ * Revoke a refresh token if it is still valid
+ * Returns the revoked row, or null if it was unknown, expired or already revoked
+ */
+export async function revokeRefreshToken(tokenHash: string): Promise<AuthRefreshToken | null> {
+    try {
+        const result = await query<AuthRefreshToken>(
+            `UPDATE auth_refresh_tokens
+            SET revoked_at = CURRENT_TIMESTAMP
+            WHERE token_hash = $1
+            AND revoked_at IS NULL
+            AND expires_at > CURRENT_TIMESTAMP
+            RETURNING *`,
+            [tokenHash]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error revoking refresh token:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// AGENT QUERIES
+// =============================================================================
+
+/**
+ * Get the agent profile of a user
+ * Note: jobs.agent_id stores this user ID
+ */
+export async function getAgentByUserId(userId: number): Promise<Agent | null> {
+    try {
+        const result = await query<Agent>(
+            `SELECT * FROM agents WHERE user_id = $1`,
+            [userId]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting agent by user:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get an agent by its agents.id
+ */
+export async function getAgentById(agentId: number): Promise<Agent | null> {
+    try {
+        const result = await query<Agent>(
+            `SELECT * FROM agents WHERE id = $1`,
+            [agentId]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting agent by ID:', err);
+        throw err;
+    }
+}
+
+/**
+ * Register a new agent
+ */
+export async function registerAgent(
+    userId: number,
+    mcpEndpoint: string,
+    skills: string[],
+    hourlyRate?: number,
+    description?: string,
+    tools?: AgentToolSchema[]
+): Promise<Agent> {
     try {
         const result = await query<Agent>(
             `INSERT INTO agents (
@@ -233,10 +921,17 @@ export async function registerAgent(
                 mcp_endpoint, 
                 skills, 
                 hourly_rate, 
-                description
-            ) VALUES ($1, $2, $3, $4, $5)
+                description,
+                tools,
+                tools_verified_at,
+                last_seen_at
+            ) VALUES (
+                $1, $2, $3, $4, $5, COALESCE($6, '[]'::jsonb),
+                CASE WHEN $6::jsonb IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END,
+                CASE WHEN $6::jsonb IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END
+            )
             RETURNING *`,
-            [userId, mcpEndpoint, JSON.stringify(skills), hourlyRate, description]
+            [userId, mcpEndpoint, JSON.stringify(skills), hourlyRate, description, tools ? JSON.stringify(tools) : null]
         );
 
         return result.rows[0];
@@ -267,6 +962,306 @@ export async function incrementAgentJobCount(agentId: number): Promise<Agent> {
     }
 }
 
+/**
+ * Agents the health probe checks: available ones, and the ones it took offline
+ */
+export async function getAgentsToProbe(): Promise<Agent[]> {
+    try {
+        const result = await query<Agent>(
+            `SELECT * FROM agents
+            WHERE is_available = true OR offline_since IS NOT NULL
+            ORDER BY last_probe_at ASC NULLS FIRST`
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting agents to probe:', err);
+        throw err;
+    }
+}
+
+/**
+ * Record a health probe
+ * maxFailures failed probes in a row take an available agent offline;
+ * a successful probe brings back an agent the probe took offline
+ */
+export async function recordAgentProbe(
+    agentId: number,
+    healthy: boolean,
+    maxFailures: number
+): Promise<Agent> {
+    try {
+        const result = await query<Agent>(
+            `UPDATE agents
+            SET last_probe_at = CURRENT_TIMESTAMP,
+                last_seen_at = CASE WHEN $2 THEN CURRENT_TIMESTAMP ELSE last_seen_at END,
+                probe_failures = CASE WHEN $2 THEN 0 ELSE probe_failures + 1 END,
+                is_available = CASE
+                    WHEN $2 AND offline_since IS NOT NULL THEN true
+                    WHEN NOT $2 AND probe_failures + 1 >= $3 THEN false
+                    ELSE is_available
+                END,
+                offline_since = CASE
+                    WHEN $2 THEN NULL
+                    WHEN is_available AND probe_failures + 1 >= $3 THEN CURRENT_TIMESTAMP
+                    ELSE offline_since
+                END,
+                updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+            RETURNING *`,
+            [agentId, healthy, maxFailures]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error recording agent probe:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// CHAT QUERIES
+// =============================================================================
+
+/**
+ * Create a user request (the start of a Personal Agent thread)
+ */
+export async function createUserRequest(
+    client: PoolClient,
+    userId: number,
+    description: string
+): Promise<UserRequest> {
+    try {
+        const result = await client.query<UserRequest>(
+            `INSERT INTO user_requests (user_id, description, status)
+             VALUES ($1, $2, 'pending') RETURNING *`,
+            [userId, description]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating user request:', err);
+        throw err;
+    }
+}
+
+/**
+ * Append a message to a request thread
+ */
+export async function createRequestMessage(
+    client: PoolClient,
+    requestId: number,
+    role: 'user' | 'agent',
+    kind: RequestMessageKind,
+    content: string,
+    data?: any
+): Promise<RequestMessage> {
+    try {
+        const result = await client.query<RequestMessage>(
+            `INSERT INTO request_messages (request_id, role, kind, content, data)
+             VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+            [requestId, role, kind, content, data === undefined ? null : JSON.stringify(data)]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating request message:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get the threads of one or more requests, oldest message first
+ */
+export async function getRequestMessages(requestIds: number[]): Promise<RequestMessage[]> {
+    try {
+        const result = await query<RequestMessage>(
+            `SELECT * FROM request_messages
+            WHERE request_id = ANY($1::int[])
+            ORDER BY request_id ASC, id ASC`,
+            [requestIds]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting request messages:', err);
+        throw err;
+    }
+}
+
+/**
+ * Move a request to a new status, optionally storing its spec or an error
+ */
+export async function setUserRequestStatus(
+    client: PoolClient,
+    requestId: number,
+    status: UserRequestStatus,
+    fields: { analysis?: any; error_message?: string } = {}
+): Promise<void> {
+    try {
+        await client.query(
+            `UPDATE user_requests
+             SET status = $2,
+                 analysis = COALESCE($3, analysis),
+                 error_message = COALESCE($4, error_message),
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [
+                requestId,
+                status,
+                fields.analysis === undefined ? null : JSON.stringify(fields.analysis),
+                fields.error_message ?? null
+            ]
+        );
+    } catch (err) {
+        console.error('Error setting user request status:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// AGENT MATCHING QUERIES
+// =============================================================================
+
+/**
+ * Get available agents with their number of jobs in progress
+ */
+export async function getMatchableAgents(): Promise<MatchableAgent[]> {
+    try {
+        const result = await query(
+            `SELECT a.*, u.wallet_address, u.display_name,
+                    COUNT(j.id) AS active_jobs
+            FROM agents a
+            JOIN users u ON a.user_id = u.id
+            LEFT JOIN jobs j ON j.agent_id = a.user_id
+                AND j.status IN ('escrowed', 'working', 'delivered', 'release_pending', 'disputed')
+            WHERE a.is_available = true
+            GROUP BY a.id, u.wallet_address, u.display_name`
+        );
+
+        return result.rows.map(row => ({
+            ...row,
+            hourly_rate: row.hourly_rate === null ? null : Number(row.hourly_rate),
+            rating: Number(row.rating),
+            active_jobs: Number(row.active_jobs)
+        }));
+    } catch (err) {
+        console.error('Error getting matchable agents:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get a user request and lock it until the transaction ends
+ */
+export async function getUserRequestForUpdate(
+    client: PoolClient,
+    requestId: number
+): Promise<UserRequest | null> {
+    try {
+        const result = await client.query<UserRequest>(
+            `SELECT * FROM user_requests WHERE id = $1 FOR UPDATE`,
+            [requestId]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting user request for update:', err);
+        throw err;
+    }
+}
+
+/**
+ * Replace a request's shortlist and wait for the buyer to pick an agent
+ */
+export async function saveRequestShortlist(
+    client: PoolClient,
+    requestId: number,
+    analysis: any,
+    matches: { agentId: number; rank: number; score: number; factors: any }[]
+): Promise<void> {
+    try {
+        await client.query(`DELETE FROM request_agent_matches WHERE request_id = $1`, [requestId]);
+
+        for (const match of matches) {
+            await client.query(
+                `INSERT INTO request_agent_matches (request_id, agent_id, rank, score, factors)
+                 VALUES ($1, $2, $3, $4, $5)`,
+                [requestId, match.agentId, match.rank, match.score, JSON.stringify(match.factors)]
+            );
+        }
+
+        await client.query(
+            `UPDATE user_requests
+             SET status = 'awaiting_selection', analysis = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [requestId, JSON.stringify(analysis)]
+        );
+    } catch (err) {
+        console.error('Error saving request shortlist:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get a request's shortlist in rank order, with the agents' current profile
+ */
+export async function getRequestMatches(requestId: number): Promise<ShortlistedAgent[]> {
+    try {
+        const result = await query(
+            `SELECT m.*, a.user_id, a.hourly_rate, a.rating, a.jobs_completed,
+                    u.wallet_address, u.display_name
+            FROM request_agent_matches m
+            JOIN agents a ON m.agent_id = a.id
+            JOIN users u ON a.user_id = u.id
+            WHERE m.request_id = $1
+            ORDER BY m.rank ASC`,
+            [requestId]
+        );
+
+        return result.rows.map(row => ({
+            ...row,
+            score: Number(row.score),
+            hourly_rate: row.hourly_rate === null ? null : Number(row.hourly_rate),
+            rating: Number(row.rating)
+        }));
+    } catch (err) {
+        console.error('Error getting request matches:', err);
+        throw err;
+    }
+}
+
+/**
+ * Create the job for a request's chosen agent and close the request
+ */
+export async function createJobForRequest(
+    client: PoolClient,
+    requestId: number,
+    job: {
+        title: string;
+        buyerId: number;
+        agentUserId: number;
+        amountUsdc: number;
+        requirements: string;
+        deadlineAt: Date | null;
+    }
+): Promise<Job> {
+    try {
+        const result = await client.query<Job>(
+            `INSERT INTO jobs (title, buyer_id, agent_id, amount_usdc, requirements, deadline_at, status)
+             VALUES ($1, $2, $3, $4, $5, $6, 'offered')
+             RETURNING *`,
+            [job.title, job.buyerId, job.agentUserId, job.amountUsdc, job.requirements, job.deadlineAt]
+        );
+
+        await client.query(
+            `UPDATE user_requests
+             SET status = 'processed', job_id = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [requestId, result.rows[0].id]
+        );
+
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating job for request:', err);
+        throw err;
+    }
+}
+
 // =============================================================================
 // JOB QUERIES
 // =============================================================================
@@ -275,29 +1270,55 @@ export async function incrementAgentJobCount(agentId: number): Promise<Agent> {
  * Create a new job
  */
 export async function createJob(
+    client: PoolClient,
     title: string,
     buyerId: number,
     amountUsdc: number,
     requirements?: string,
-    agentId?: number
+    agentId?: number,
+    deadlineAt?: Date,
+    hourlyRateUsdc?: number
 ): Promise<Job> {
     try {
         // referenceKey will be set when invoice is created via Beep SDK
-        const result = await query<Job>(
+        // Jobs for an agent wait for the agent to accept the offer
+        // With an hourly rate, amountUsdc is the buyer's cap
+        const result = await client.query<Job>(
             `INSERT INTO jobs (
                 title,
                 buyer_id,
                 agent_id,
                 amount_usdc,
-                requirements
+                requirements,
+                deadline_at,
+                status,
+                billing,
+                hourly_rate_usdc,
+                meter_state
             ) VALUES (
                 $1,
                 $2,
                 $3,
                 $4,
-                $5
+                $5,
+                $6,
+                $7,
+                $8,
+                $9,
+                $10
             ) RETURNING *`,
-            [title, buyerId, agentId || null, amountUsdc, requirements || null]
+            [
+                title,
+                buyerId,
+                agentId || null,
+                amountUsdc,
+                requirements || null,
+                deadlineAt || null,
+                agentId ? 'offered' : 'unpaid',
+                hourlyRateUsdc !== undefined ? 'hourly' : 'fixed',
+                hourlyRateUsdc ?? null,
+                hourlyRateUsdc !== undefined ? 'idle' : null
+            ]
         );
         return result.rows[0];
     } catch (err) {
@@ -357,18 +1378,66 @@ export async function getJobByReferenceKey(referenceKey: string): Promise<Job |
 }
 
 /**
- * Update job status
+ * Get job by Beep invoice ID (UUID)
+ * Used by the Beep webhook
+ */
+export async function getJobByInvoiceId(invoiceId: string): Promise<Job | null> {
+    try {
+        const result = await query<Job>(
+            `SELECT * FROM jobs WHERE beep_invoice_id = $1`,
+            [invoiceId]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting job by invoice ID:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get job by escrow object ID
+ * Used by the chain indexer
+ */
+export async function getJobByEscrowObjectId(escrowObjectId: string): Promise<Job | null> {
+    try {
+        const result = await query<Job>(
+            `SELECT * FROM jobs WHERE escrow_object_id = $1`,
+            [escrowObjectId]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting job by escrow object ID:', err);
+        throw err;
+    }
+}
+
+/**
+ * Lock a job row for the duration of a transaction
+ * Used by the job lifecycle to serialize status transitions
+ */
+export async function getJobForUpdate(client: PoolClient, jobId: number): Promise<Job | null> {
+    try {
+        const result = await client.query<Job>(
+            `SELECT * FROM jobs WHERE id = $1 FOR UPDATE`,
+            [jobId]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error locking job:', err);
+        throw err;
+    }
+}
+
+/**
+ * Write job status and related fields
+ * Only called by services/job-lifecycle.ts, which validates the transition
  */
-export async function updateJobStatus(
+export async function setJobStatus(
+    client: PoolClient,
     jobId: number,
     status: JobStatus,
-    additionalFields?: Partial<{
-        beep_invoice_id: string;
-        reference_key: string;
-        escrow_object_id: string;
-        escrow_tx_digest: string;
-        release_tx_digest: string;
-    }>
+    additionalFields?: JobUpdateFields,
+    touchTimestamps: boolean = true
 ): Promise<Job> {
     try {
         // Build dynamic update query
@@ -402,10 +1471,32 @@ export async function updateJobStatus(
                 params.push(additionalFields.release_tx_digest);
                 paramIndex++;
             }
+            if (additionalFields.agent_id !== undefined) {
+                updates.push(`agent_id = $${paramIndex}`);
+                params.push(additionalFields.agent_id);
+                paramIndex++;
+            }
+            if (additionalFields.amount_usdc !== undefined) {
+                updates.push(`amount_usdc = $${paramIndex}`);
+                params.push(additionalFields.amount_usdc);
+                paramIndex++;
+            }
+            if (additionalFields.deadline_at !== undefined) {
+                updates.push(`deadline_at = $${paramIndex}`);
+                params.push(additionalFields.deadline_at);
+                paramIndex++;
+            }
+            if (additionalFields.overdue_at !== undefined) {
+                updates.push(`overdue_at = $${paramIndex}`);
+                params.push(additionalFields.overdue_at);
+                paramIndex++;
+            }
         }
 
         // Update timestamps based on status
-        if (status === 'escrowed') {
+        if (!touchTimestamps) {
+            // Annotation only - status is unchanged
+        } else if (status === 'escrowed') {
             updates.push('paid_at = CURRENT_TIMESTAMP');
         } else if (status === 'working') {
             updates.push('started_at = CURRENT_TIMESTAMP');
@@ -417,7 +1508,7 @@ export async function updateJobStatus(
             updates.push('paid_out_at = CURRENT_TIMESTAMP');
         }
 
-        const result = await query<Job>(
+        const result = await client.query<Job>(
             `UPDATE jobs 
              SET ${updates.join(', ')}
              WHERE id = $1
@@ -431,321 +1522,2673 @@ export async function updateJobStatus(
 
         return result.rows[0];
     } catch (err) {
-        console.error('Error updating job status:', err);
+        console.error('Error updating job status:', err);
+        throw err;
+    }
+}
+
+/**
+ * Create a sub-job under a parent job
+ */
+export async function createSubJob(
+    client: PoolClient,
+    params: {
+        parentJobId: number;
+        title: string;
+        requirements: string | null;
+        buyerId: number;
+        agentId: number;
+        amountUsdc: number;
+        fundingSource: JobFundingSource;
+    }
+): Promise<Job> {
+    try {
+        const result = await client.query<Job>(
+            `INSERT INTO jobs (
+                title, requirements, buyer_id, agent_id, amount_usdc, parent_job_id, funding_source
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+            RETURNING *`,
+            [
+                params.title,
+                params.requirements,
+                params.buyerId,
+                params.agentId,
+                params.amountUsdc,
+                params.parentJobId,
+                params.fundingSource
+            ]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating sub-job:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get the direct sub-jobs of a job, oldest first
+ * Pass the client of a transaction that holds the parent's lock to read
+ * a consistent set
+ */
+export async function getSubJobs(parentJobId: number, client?: PoolClient): Promise<Job[]> {
+    try {
+        const sql = `SELECT * FROM jobs WHERE parent_job_id = $1 ORDER BY id ASC`;
+        const result = client
+            ? await client.query<Job>(sql, [parentJobId])
+            : await query<Job>(sql, [parentJobId]);
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting sub-jobs:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// JOB METER QUERIES
+// =============================================================================
+
+/**
+ * Write the meter of an hourly job (row locked by the caller)
+ */
+export async function setJobMeter(
+    client: PoolClient,
+    jobId: number,
+    fields: {
+        meterState: MeterState;
+        meterStartedAt: Date | null;
+        accruedSeconds?: number;
+        accruedUsdc?: number;
+        streamInvoiceId?: string | null;
+    }
+): Promise<Job> {
+    try {
+        const result = await client.query<Job>(
+            `UPDATE jobs
+            SET meter_state = $2,
+                meter_started_at = $3,
+                accrued_seconds = COALESCE($4, accrued_seconds),
+                accrued_usdc = COALESCE($5, accrued_usdc),
+                stream_invoice_id = CASE WHEN $6 THEN $7 ELSE stream_invoice_id END
+            WHERE id = $1
+            RETURNING *`,
+            [
+                jobId,
+                fields.meterState,
+                fields.meterStartedAt,
+                fields.accruedSeconds ?? null,
+                fields.accruedUsdc ?? null,
+                fields.streamInvoiceId !== undefined,
+                fields.streamInvoiceId ?? null
+            ]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error updating job meter:', err);
+        throw err;
+    }
+}
+
+/**
+ * Open a meter segment when the meter starts running
+ */
+export async function openMeterSegment(
+    client: PoolClient,
+    jobId: number,
+    startedAt: Date,
+    startedBy: string,
+    streamInvoiceId: string | null
+): Promise<JobMeterSegment> {
+    try {
+        const result = await client.query<JobMeterSegment>(
+            `INSERT INTO job_meter_segments (job_id, stream_invoice_id, started_at, started_by)
+            VALUES ($1, $2, $3, $4)
+            RETURNING *`,
+            [jobId, streamInvoiceId, startedAt, startedBy]
+        );
+        return toMeterSegment(result.rows[0]);
+    } catch (err) {
+        console.error('Error opening meter segment:', err);
+        throw err;
+    }
+}
+
+/**
+ * Close the open meter segment of a job
+ */
+export async function closeMeterSegment(
+    client: PoolClient,
+    jobId: number,
+    params: {
+        endedAt: Date;
+        endedBy: string;
+        endReason: MeterStopReason;
+        seconds: number;
+        amountUsdc: number;
+    }
+): Promise<JobMeterSegment | null> {
+    try {
+        const result = await client.query<JobMeterSegment>(
+            `UPDATE job_meter_segments
+            SET ended_at = $2, ended_by = $3, end_reason = $4, seconds = $5, amount_usdc = $6
+            WHERE job_id = $1 AND ended_at IS NULL
+            RETURNING *`,
+            [jobId, params.endedAt, params.endedBy, params.endReason, params.seconds, params.amountUsdc]
+        );
+        return result.rows[0] ? toMeterSegment(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error closing meter segment:', err);
+        throw err;
+    }
+}
+
+/**
+ * Meter segments of a job, oldest first
+ */
+export async function getMeterSegments(jobId: number): Promise<JobMeterSegment[]> {
+    try {
+        const result = await query<JobMeterSegment>(
+            `SELECT * FROM job_meter_segments WHERE job_id = $1 ORDER BY started_at ASC, id ASC`,
+            [jobId]
+        );
+        return result.rows.map(toMeterSegment);
+    } catch (err) {
+        console.error('Error getting meter segments:', err);
+        throw err;
+    }
+}
+
+/**
+ * Running meters that have billed up to the job's cap
+ */
+export async function getMetersAtCap(limit: number = 50): Promise<Job[]> {
+    try {
+        const result = await query<Job>(
+            `SELECT * FROM jobs
+            WHERE meter_state = 'running'
+            AND accrued_usdc + EXTRACT(EPOCH FROM (NOW() - meter_started_at)) / 3600 * hourly_rate_usdc >= amount_usdc
+            ORDER BY meter_started_at ASC
+            LIMIT $1`,
+            [limit]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting meters at cap:', err);
+        throw err;
+    }
+}
+
+function toMeterSegment(row: any): JobMeterSegment {
+    return {
+        ...row,
+        amount_usdc: row.amount_usdc === null ? null : Number(row.amount_usdc)
+    };
+}
+
+// =============================================================================
+// JOB OFFER QUERIES
+// =============================================================================
+
+function toJobOffer(row: JobOffer): JobOffer {
+    return {
+        ...row,
+        amount_usdc: Number(row.amount_usdc),
+        counter_amount_usdc: row.counter_amount_usdc === null ? null : Number(row.counter_amount_usdc)
+    };
+}
+
+/**
+ * Offer a job to an agent
+ */
+export async function createJobOffer(
+    client: PoolClient,
+    params: { jobId: number; agentId: number; amountUsdc: number; deadlineAt: Date | null; expiresAt: Date }
+): Promise<JobOffer> {
+    try {
+        const result = await client.query<JobOffer>(
+            `INSERT INTO job_offers (job_id, agent_id, amount_usdc, deadline_at, expires_at)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING *`,
+            [params.jobId, params.agentId, params.amountUsdc, params.deadlineAt, params.expiresAt]
+        );
+        return toJobOffer(result.rows[0]);
+    } catch (err) {
+        console.error('Error creating job offer:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get the open (offered or countered) offer of a job, if any
+ */
+export async function getOpenOfferByJob(jobId: number, client?: PoolClient): Promise<JobOffer | null> {
+    try {
+        const sql = `SELECT * FROM job_offers WHERE job_id = $1 AND status IN ('offered', 'countered')`;
+        const result = client
+            ? await client.query<JobOffer>(sql, [jobId])
+            : await query<JobOffer>(sql, [jobId]);
+        return result.rows[0] ? toJobOffer(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error getting open job offer:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get every offer of a job, oldest first
+ */
+export async function getJobOffers(jobId: number): Promise<JobOffer[]> {
+    try {
+        const result = await query<JobOffer>(
+            `SELECT * FROM job_offers WHERE job_id = $1 ORDER BY created_at ASC, id ASC`,
+            [jobId]
+        );
+        return result.rows.map(toJobOffer);
+    } catch (err) {
+        console.error('Error getting job offers:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get the open offers of several jobs, keyed by job ID
+ */
+export async function getOpenOffersByJobs(jobIds: number[]): Promise<Map<number, JobOffer>> {
+    try {
+        const result = await query<JobOffer>(
+            `SELECT * FROM job_offers WHERE job_id = ANY($1) AND status IN ('offered', 'countered')`,
+            [jobIds]
+        );
+        return new Map(result.rows.map(row => [row.job_id, toJobOffer(row)]));
+    } catch (err) {
+        console.error('Error getting open job offers:', err);
+        throw err;
+    }
+}
+
+/**
+ * Close an open offer
+ */
+export async function closeJobOffer(
+    client: PoolClient,
+    offerId: number,
+    status: Extract<JobOfferStatus, 'accepted' | 'declined' | 'rejected' | 'expired' | 'withdrawn'>,
+    message?: string | null
+): Promise<JobOffer> {
+    try {
+        const result = await client.query<JobOffer>(
+            `UPDATE job_offers
+            SET status = $2,
+                message = COALESCE($3, message),
+                responded_at = CURRENT_TIMESTAMP
+            WHERE id = $1 AND status IN ('offered', 'countered')
+            RETURNING *`,
+            [offerId, status, message ?? null]
+        );
+
+        if (!result.rows[0]) {
+            throw new Error(`Open job offer with ID ${offerId} not found`);
+        }
+
+        return toJobOffer(result.rows[0]);
+    } catch (err) {
+        console.error('Error closing job offer:', err);
+        throw err;
+    }
+}
+
+/**
+ * Record the agent's counter-offer; the buyer has until expiresAt to answer
+ */
+export async function counterJobOffer(
+    client: PoolClient,
+    offerId: number,
+    counter: { amountUsdc: number; deadlineAt: Date | null; message: string | null; expiresAt: Date }
+): Promise<JobOffer> {
+    try {
+        const result = await client.query<JobOffer>(
+            `UPDATE job_offers
+            SET status = 'countered',
+                counter_amount_usdc = $2,
+                counter_deadline_at = $3,
+                message = $4,
+                expires_at = $5,
+                responded_at = CURRENT_TIMESTAMP
+            WHERE id = $1 AND status = 'offered'
+            RETURNING *`,
+            [offerId, counter.amountUsdc, counter.deadlineAt, counter.message, counter.expiresAt]
+        );
+
+        if (!result.rows[0]) {
+            throw new Error(`Pending job offer with ID ${offerId} not found`);
+        }
+
+        return toJobOffer(result.rows[0]);
+    } catch (err) {
+        console.error('Error countering job offer:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get open offers whose answer is overdue
+ * Used by the offer monitor
+ */
+export async function getExpiredJobOffers(limit: number = 20): Promise<JobOffer[]> {
+    try {
+        const result = await query<JobOffer>(
+            `SELECT * FROM job_offers
+            WHERE status IN ('offered', 'countered')
+            AND expires_at <= CURRENT_TIMESTAMP
+            ORDER BY expires_at ASC
+            LIMIT $1`,
+            [limit]
+        );
+        return result.rows.map(toJobOffer);
+    } catch (err) {
+        console.error('Error getting expired job offers:', err);
+        throw err;
+    }
+}
+
+/**
+ * Next agent on the shortlist of the request a job came from that has not
+ * been offered the job yet and is still available
+ */
+export async function getNextOfferCandidate(client: PoolClient, jobId: number): Promise<OfferCandidate | null> {
+    try {
+        const result = await client.query<OfferCandidate>(
+            `SELECT m.agent_id, a.user_id, m.rank
+            FROM user_requests r
+            JOIN request_agent_matches m ON m.request_id = r.id
+            JOIN agents a ON a.id = m.agent_id
+            WHERE r.job_id = $1
+            AND a.is_available = true
+            AND NOT EXISTS (
+                SELECT 1 FROM job_offers o WHERE o.job_id = $1 AND o.agent_id = m.agent_id
+            )
+            ORDER BY m.rank ASC
+            LIMIT 1`,
+            [jobId]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting next offer candidate:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get jobs in progress whose deadline passed without a delivery
+ * Used by the offer monitor
+ */
+export async function getNewlyOverdueJobs(limit: number = 20): Promise<Job[]> {
+    try {
+        const result = await query<Job>(
+            `SELECT * FROM jobs
+            WHERE deadline_at <= CURRENT_TIMESTAMP
+            AND overdue_at IS NULL
+            AND status IN ('escrowed', 'working')
+            ORDER BY deadline_at ASC
+            LIMIT $1`,
+            [limit]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting overdue jobs:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// JOB EVENT QUERIES
+// =============================================================================
+
+/**
+ * Append an entry to a job's audit trail
+ */
+export async function createJobEvent(
+    client: PoolClient,
+    jobId: number,
+    fromStatus: JobStatus | null,
+    toStatus: JobStatus,
+    actor: string,
+    reason?: string,
+    txDigest?: string
+): Promise<JobEvent> {
+    try {
+        const result = await client.query<JobEvent>(
+            `INSERT INTO job_events (job_id, from_status, to_status, actor, reason, tx_digest)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING *`,
+            [jobId, fromStatus, toStatus, actor, reason || null, txDigest || null]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating job event:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get the audit trail for a job, oldest first
+ */
+export async function getJobEvents(jobId: number): Promise<JobEvent[]> {
+    try {
+        const result = await query<JobEvent>(
+            `SELECT * FROM job_events WHERE job_id = $1 ORDER BY created_at ASC, id ASC`,
+            [jobId]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting job events:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get all unpaid jobs with pending invoices
+ * Used by payment poller
+ */
+export async function getUnpaidJobsWithInvoices(): Promise<Job[]> {
+    try {
+        const result = await query<Job>(
+            `SELECT * FROM jobs
+             WHERE status = 'unpaid'
+             AND beep_invoice_id IS NOT NULL
+             ORDER BY created_at DESC
+             LIMIT 10`
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting unpaid jobs with invoices:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// LISTING QUERIES
+// =============================================================================
+
+// Must stay identical to the indexes in migration 016
+const JOB_SEARCH_VECTOR = `(setweight(to_tsvector('english', coalesce(j.title, '')), 'A') || setweight(to_tsvector('english', coalesce(j.requirements, '')), 'B'))`;
+const AGENT_SEARCH_VECTOR = `(setweight(jsonb_to_tsvector('english', coalesce(a.skills, '[]'::jsonb), '["string"]'), 'A') || setweight(to_tsvector('english', coalesce(a.description, '')), 'B'))`;
+
+/** Agents without an hourly rate sort as the most expensive */
+const NO_RATE_SORT_VALUE = 1000000000;
+
+interface SortColumn {
+    expr: string;
+    /** Cast applied to the cursor value */
+    type: string;
+}
+
+interface ListSpec {
+    select: string;
+    from: string;
+    idColumn: string;
+    where: string[];
+    params: any[];
+    sort: SortColumn;
+    page: PageRequest;
+}
+
+export function encodePageCursor(cursor: PageCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from ?cursor=, null if it is malformed
+ */
+export function decodePageCursor(raw: string): PageCursor | null {
+    try {
+        const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+        if (
+            typeof cursor?.sort !== 'string'
+            || (cursor.order !== 'asc' && cursor.order !== 'desc')
+            || typeof cursor.value !== 'string'
+            || !Number.isInteger(cursor.id)
+        ) {
+            return null;
+        }
+        return { sort: cursor.sort, order: cursor.order, value: cursor.value, id: cursor.id };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Run a keyset-paginated listing ordered by (sort, id)
+ * Fetches one extra row to know whether another page follows
+ */
+async function listPage<T extends { id: number }>(spec: ListSpec): Promise<Page<T>> {
+    const where = [...spec.where];
+    const params = [...spec.params];
+    const whereClause = (clauses: string[]) => clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+
+    const count = await query<{ total: string }>(
+        `SELECT COUNT(*) AS total FROM ${spec.from} ${whereClause(where)}`,
+        params
+    );
+
+    const { page, sort } = spec;
+    if (page.after) {
+        params.push(page.after.value, page.after.id);
+        where.push(
+            `(${sort.expr}, ${spec.idColumn}) ${page.order === 'desc' ? '<' : '>'} ($${params.length - 1}::${sort.type}, $${params.length})`
+        );
+    }
+
+    params.push(page.limit + 1);
+    const direction = page.order === 'desc' ? 'DESC' : 'ASC';
+
+    const result = await query(
+        `SELECT ${spec.select}, (${sort.expr})::text AS sort_key
+        FROM ${spec.from}
+        ${whereClause(where)}
+        ORDER BY ${sort.expr} ${direction}, ${spec.idColumn} ${direction}
+        LIMIT $${params.length}`,
+        params
+    );
+
+    const rows = result.rows.slice(0, page.limit);
+    const last = rows[rows.length - 1];
+    const nextCursor = result.rows.length > page.limit
+        ? encodePageCursor({ sort: page.sort, order: page.order, value: last.sort_key, id: last.id })
+        : null;
+
+    return {
+        items: rows.map(({ sort_key, ...row }) => row as T),
+        nextCursor,
+        total: Number(count.rows[0].total)
+    };
+}
+
+/**
+ * List jobs, newest first unless another sort is requested
+ */
+export async function listJobs(filters: JobListFilters, page: PageRequest<JobSort>): Promise<Page<Job>> {
+    try {
+        const where: string[] = [];
+        const params: any[] = [];
+
+        if (filters.buyerId !== undefined) {
+            params.push(filters.buyerId);
+            where.push(`j.buyer_id = $${params.length}`);
+        }
+
+        if (filters.agentId !== undefined) {
+            params.push(filters.agentId);
+            where.push(`j.agent_id = $${params.length}`);
+        }
+
+        if (filters.status) {
+            params.push(filters.status);
+            where.push(`j.status = $${params.length}`);
+        }
+
+        let relevance = '0::real';
+        if (filters.q) {
+            params.push(filters.q);
+            const tsquery = `websearch_to_tsquery('english', $${params.length})`;
+            where.push(`${JOB_SEARCH_VECTOR} @@ ${tsquery}`);
+            relevance = `ts_rank(${JOB_SEARCH_VECTOR}, ${tsquery})`;
+        }
+
+        const sorts: Record<JobSort, SortColumn> = {
+            created_at: { expr: 'j.created_at', type: 'timestamp' },
+            amount_usdc: { expr: 'j.amount_usdc', type: 'numeric' },
+            relevance: { expr: relevance, type: 'real' }
+        };
+
+        return await listPage<Job>({
+            select: 'j.*',
+            from: 'jobs j',
+            idColumn: 'j.id',
+            where,
+            params,
+            sort: sorts[page.sort],
+            page
+        });
+    } catch (err) {
+        console.error('Error listing jobs:', err);
+        throw err;
+    }
+}
+
+/**
+ * List available agents, best rated first unless another sort is requested
+ */
+export async function listAgents(
+    filters: AgentListFilters,
+    page: PageRequest<AgentSort>
+): Promise<Page<Agent & { wallet_address: string }>> {
+    try {
+        const where: string[] = ['a.is_available = true'];
+        const params: any[] = [];
+
+        if (filters.skill) {
+            params.push(JSON.stringify([filters.skill]));
+            where.push(`a.skills @> $${params.length}::jsonb`);
+        }
+
+        if (filters.minRating !== undefined) {
+            params.push(filters.minRating);
+            where.push(`a.rating >= $${params.length}`);
+        }
+
+        if (filters.maxRate !== undefined) {
+            params.push(filters.maxRate);
+            where.push(`a.hourly_rate <= $${params.length}`);
+        }
+
+        let relevance = '0::real';
+        if (filters.q) {
+            params.push(filters.q);
+            const tsquery = `websearch_to_tsquery('english', $${params.length})`;
+            where.push(`${AGENT_SEARCH_VECTOR} @@ ${tsquery}`);
+            relevance = `ts_rank(${AGENT_SEARCH_VECTOR}, ${tsquery})`;
+        }
+
+        const sorts: Record<AgentSort, SortColumn> = {
+            rating: { expr: 'a.rating', type: 'numeric' },
+            jobs_completed: { expr: 'a.jobs_completed', type: 'integer' },
+            hourly_rate: { expr: `COALESCE(a.hourly_rate, ${NO_RATE_SORT_VALUE})`, type: 'numeric' },
+            created_at: { expr: 'a.created_at', type: 'timestamp' },
+            relevance: { expr: relevance, type: 'real' }
+        };
+
+        const result = await listPage<Agent & { wallet_address: string }>({
+            select: 'a.*, u.wallet_address',
+            from: 'agents a JOIN users u ON a.user_id = u.id',
+            idColumn: 'a.id',
+            where,
+            params,
+            sort: sorts[page.sort],
+            page
+        });
+
+        return {
+            ...result,
+            items: result.items.map(agent => ({
+                ...agent,
+                hourly_rate: agent.hourly_rate === null ? null : Number(agent.hourly_rate),
+                rating: Number(agent.rating)
+            }))
+        };
+    } catch (err) {
+        console.error('Error listing agents:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// USER POOL QUERIES
+// =============================================================================
+
+/**
+ * Create a new user pool record
+ */
+export async function createUserPool(
+    userId: number,
+    poolAddress: string,
+    poolObjectId: string,
+    agentAddress: string,
+    spendingLimit: number,
+    blockchainCreatedAt?: number
+): Promise<UserPool> {
+    try {
+        const result = await query<UserPool>(
+            `INSERT INTO user_pools 
+            (user_id, pool_address, pool_object_id, agent_address, spending_limit, blockchain_created_at)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING *`,
+            [userId, poolAddress, poolObjectId, agentAddress, spendingLimit, blockchainCreatedAt || null]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating user pool:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get pool by user ID
+ */
+export async function getPoolByUser(userId: number): Promise<UserPool | null> {
+    try {
+        const result = await query<UserPool>(
+            `SELECT * FROM user_pools WHERE user_id = $1 AND is_active = true`,
+            [userId]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting pool by user:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get pool by object ID
+ */
+export async function getPoolByObjectId(poolObjectId: string): Promise<UserPool | null> {
+    try {
+        const result = await query<UserPool>(
+            `SELECT * FROM user_pools WHERE pool_object_id = $1`,
+            [poolObjectId]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting pool by object ID:', err);
+        throw err;
+    }
+}
+
+/**
+ * Update pool balance (sync from blockchain)
+ */
+export async function updatePoolBalance(
+    poolId: number,
+    balanceUsdc: number,
+    totalDeposited?: number,
+    totalSpent?: number
+): Promise<UserPool> {
+    try {
+        let queryText = `UPDATE user_pools SET balance_usdc = $1, updated_at = NOW()`;
+        const params: any[] = [balanceUsdc];
+        let paramCount = 2;
+
+        if (totalDeposited !== undefined) {
+            queryText += `, total_deposited = $${paramCount}`;
+            params.push(totalDeposited);
+            paramCount++;
+        }
+
+        if (totalSpent !== undefined) {
+            queryText += `, total_spent = $${paramCount}`;
+            params.push(totalSpent);
+            paramCount++;
+        }
+
+        queryText += ` WHERE id = $${paramCount} RETURNING *`;
+        params.push(poolId);
+
+        const result = await query<UserPool>(queryText, params);
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error updating pool balance:', err);
+        throw err;
+    }
+}
+
+/**
+ * Record a pool transaction
+ */
+export async function createPoolTransaction(
+    poolId: number,
+    type: 'deposit' | 'spend' | 'withdraw' | 'refund',
+    amount: number,
+    txDigest?: string,
+    jobId?: number,
+    purpose?: string
+): Promise<PoolTransaction> {
+    try {
+        const result = await query<PoolTransaction>(
+            `INSERT INTO pool_transactions 
+            (pool_id, type, amount_usdc, tx_digest, job_id, purpose)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING *`,
+            [poolId, type, amount, txDigest || null, jobId || null, purpose || null]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating pool transaction:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get pool transaction history
+ */
+export async function getPoolTransactions(
+    poolId: number,
+    limit: number = 50
+): Promise<PoolTransaction[]> {
+    try {
+        const result = await query<PoolTransaction>(
+            `SELECT * FROM pool_transactions 
+            WHERE pool_id = $1 
+            ORDER BY created_at DESC 
+            LIMIT $2`,
+            [poolId, limit]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting pool transactions:', err);
+        throw err;
+    }
+}
+
+/**
+ * Find a pool transaction by its on-chain digest
+ */
+export async function getPoolTransactionByDigest(
+    poolId: number,
+    txDigest: string,
+    type: PoolTransaction['type']
+): Promise<PoolTransaction | null> {
+    try {
+        const result = await query<PoolTransaction>(
+            `SELECT * FROM pool_transactions WHERE pool_id = $1 AND tx_digest = $2 AND type = $3`,
+            [poolId, txDigest, type]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting pool transaction by digest:', err);
+        throw err;
+    }
+}
+
+/**
+ * Deactivate a pool
+ */
+export async function deactivatePool(poolId: number): Promise<UserPool> {
+    try {
+        const result = await query<UserPool>(
+            `UPDATE user_pools SET is_active = false, updated_at = NOW() WHERE id = $1 RETURNING *`,
+            [poolId]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error deactivating pool:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// JOB DELIVERIES QUERIES
+// =============================================================================
+
+/**
+ * Create a job delivery
+ */
+export async function createDelivery(
+    jobId: number,
+    content: string,
+    deliveryType: string = 'text',
+    externalUrl?: string,
+    notes?: string
+): Promise<number> {
+    try {
+        const result = await query<{ id: number }>(
+            `INSERT INTO job_deliveries (job_id, content, delivery_type, external_url, notes)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING id`,
+            [jobId, content, deliveryType, externalUrl || null, notes || null]
+        );
+        return result.rows[0].id;
+    } catch (err) {
+        console.error('Error creating delivery:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get deliveries for a job
+ */
+export async function getDeliveriesByJob(jobId: number): Promise<any[]> {
+    try {
+        const result = await query(
+            `SELECT * FROM job_deliveries WHERE job_id = $1 ORDER BY created_at DESC`,
+            [jobId]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting deliveries:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// JOB MILESTONE QUERIES
+// =============================================================================
+
+/**
+ * Create the ordered milestones of a job (positions start at 1)
+ */
+export async function createMilestones(
+    client: PoolClient,
+    jobId: number,
+    milestones: { title: string; description?: string; amountUsdc: number }[]
+): Promise<JobMilestone[]> {
+    try {
+        const values: any[] = [];
+        const rows = milestones.map((milestone, index) => {
+            const offset = values.length;
+            values.push(jobId, index + 1, milestone.title, milestone.description || null, milestone.amountUsdc);
+            return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5})`;
+        });
+
+        const result = await client.query<JobMilestone>(
+            `INSERT INTO job_milestones (job_id, position, title, description, amount_usdc)
+             VALUES ${rows.join(', ')}
+             RETURNING *`,
+            values
+        );
+        return result.rows.sort((a, b) => a.position - b.position);
+    } catch (err) {
+        console.error('Error creating milestones:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get the milestones of a job in order
+ */
+export async function getMilestonesByJob(jobId: number): Promise<JobMilestone[]> {
+    try {
+        const result = await query<JobMilestone>(
+            `SELECT * FROM job_milestones WHERE job_id = $1 ORDER BY position ASC`,
+            [jobId]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting milestones:', err);
+        throw err;
+    }
+}
+
+/**
+ * Attach a delivery to a milestone and mark it delivered
+ */
+export async function markMilestoneDelivered(
+    milestoneId: number,
+    deliveryId: number
+): Promise<JobMilestone> {
+    try {
+        const result = await query<JobMilestone>(
+            `UPDATE job_milestones
+            SET status = 'delivered',
+                delivery_id = $2,
+                delivered_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+            RETURNING *`,
+            [milestoneId, deliveryId]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error marking milestone delivered:', err);
+        throw err;
+    }
+}
+
+/**
+ * Mark a milestone approved after its share of the escrow was released
+ */
+export async function markMilestoneApproved(
+    milestoneId: number,
+    releaseTxDigest: string | null
+): Promise<JobMilestone> {
+    try {
+        const result = await query<JobMilestone>(
+            `UPDATE job_milestones
+            SET status = 'approved',
+                release_tx_digest = $2,
+                approved_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+            RETURNING *`,
+            [milestoneId, releaseTxDigest]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error marking milestone approved:', err);
+        throw err;
+    }
+}
+
+/**
+ * Send a delivered milestone back to the agent for revision
+ */
+export async function markMilestoneRevisionRequested(milestoneId: number): Promise<JobMilestone> {
+    try {
+        const result = await query<JobMilestone>(
+            `UPDATE job_milestones
+            SET status = 'pending',
+                revision_count = revision_count + 1
+            WHERE id = $1
+            RETURNING *`,
+            [milestoneId]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error requesting milestone revision:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// BEEP WEBHOOK QUERIES
+// =============================================================================
+
+/**
+ * Record a webhook delivery, keyed by invoice UUID and event type
+ * Repeated deliveries return the existing row with attempts incremented
+ */
+export async function recordWebhookEvent(
+    invoiceUuid: string,
+    eventType: string,
+    payload: any
+): Promise<BeepWebhookEvent> {
+    try {
+        const result = await query<BeepWebhookEvent>(
+            `INSERT INTO beep_webhook_events (invoice_uuid, event_type, payload)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (invoice_uuid, event_type) DO UPDATE
+             SET attempts = beep_webhook_events.attempts + 1
+             RETURNING *`,
+            [invoiceUuid, eventType, JSON.stringify(payload)]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error recording webhook event:', err);
+        throw err;
+    }
+}
+
+/**
+ * Store the outcome of handling a webhook delivery
+ */
+export async function updateWebhookEventStatus(
+    eventId: number,
+    status: WebhookEventStatus,
+    jobId: number | null,
+    error?: string
+): Promise<BeepWebhookEvent> {
+    try {
+        const result = await query<BeepWebhookEvent>(
+            `UPDATE beep_webhook_events
+            SET status = $2,
+                job_id = $3,
+                error = $4,
+                processed_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+            RETURNING *`,
+            [eventId, status, jobId, error || null]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error updating webhook event:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// CHAIN OPERATION QUERIES
+// =============================================================================
+
+/**
+ * Queue a chain operation
+ * A key that was already queued returns the existing row unchanged
+ */
+export async function enqueueChainOperation(
+    idempotencyKey: string,
+    opType: ChainOperationType,
+    jobId: number | null,
+    payload: any
+): Promise<ChainOperation> {
+    try {
+        const result = await query<ChainOperation>(
+            `INSERT INTO chain_operations (idempotency_key, op_type, job_id, payload)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT (idempotency_key) DO UPDATE
+             SET idempotency_key = chain_operations.idempotency_key
+             RETURNING *`,
+            [idempotencyKey, opType, jobId, JSON.stringify(payload)]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error queueing chain operation:', err);
+        throw err;
+    }
+}
+
+/**
+ * Claim due operations for execution
+ * Also reclaims 'running' rows whose worker died (locked longer than leaseSeconds)
+ * Pass operationId to claim a single operation regardless of its schedule
+ */
+export async function claimChainOperations(
+    limit: number,
+    leaseSeconds: number,
+    operationId?: number
+): Promise<ChainOperation[]> {
+    try {
+        const result = await query<ChainOperation>(
+            `UPDATE chain_operations
+            SET status = 'running',
+                attempts = attempts + 1,
+                locked_at = CURRENT_TIMESTAMP
+            WHERE id IN (
+                SELECT id FROM chain_operations
+                WHERE (
+                    (status = 'pending' AND ($3::int IS NOT NULL OR next_attempt_at <= CURRENT_TIMESTAMP))
+                    OR (status = 'running' AND locked_at < CURRENT_TIMESTAMP - make_interval(secs => $2))
+                )
+                AND ($3::int IS NULL OR id = $3)
+                ORDER BY next_attempt_at ASC
+                LIMIT $1
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING *`,
+            [limit, leaseSeconds, operationId ?? null]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error claiming chain operations:', err);
+        throw err;
+    }
+}
+
+/**
+ * Store the on-chain outcome of a running operation before its effects are applied
+ */
+export async function recordChainOperationResult(
+    operationId: number,
+    txDigest: string | null,
+    opResult: any
+): Promise<void> {
+    try {
+        await query(
+            `UPDATE chain_operations SET tx_digest = $2, result = $3 WHERE id = $1`,
+            [operationId, txDigest, JSON.stringify(opResult ?? {})]
+        );
+    } catch (err) {
+        console.error('Error recording chain operation result:', err);
+        throw err;
+    }
+}
+
+/**
+ * Store the digest of a transaction about to be sent, before its outcome is known
+ */
+export async function setChainOperationDigest(operationId: number, txDigest: string): Promise<void> {
+    try {
+        await query(
+            `UPDATE chain_operations SET tx_digest = $2 WHERE id = $1`,
+            [operationId, txDigest]
+        );
+    } catch (err) {
+        console.error('Error setting chain operation digest:', err);
+        throw err;
+    }
+}
+
+/**
+ * Mark an operation as confirmed and applied
+ */
+export async function completeChainOperation(operationId: number): Promise<ChainOperation> {
+    try {
+        const result = await query<ChainOperation>(
+            `UPDATE chain_operations
+            SET status = 'succeeded',
+                last_error = NULL,
+                locked_at = NULL,
+                completed_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+            RETURNING *`,
+            [operationId]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error completing chain operation:', err);
+        throw err;
+    }
+}
+
+/**
+ * Record a failed attempt
+ * With nextAttemptAt the operation is retried then, otherwise it is given up on
+ */
+export async function failChainOperation(
+    operationId: number,
+    error: string,
+    nextAttemptAt: Date | null
+): Promise<ChainOperation> {
+    try {
+        const result = await query<ChainOperation>(
+            `UPDATE chain_operations
+            SET status = $3,
+                last_error = $2,
+                locked_at = NULL,
+                next_attempt_at = COALESCE($4, next_attempt_at),
+                completed_at = CASE WHEN $3 = 'failed' THEN CURRENT_TIMESTAMP ELSE NULL END
+            WHERE id = $1
+            RETURNING *`,
+            [operationId, error, nextAttemptAt ? 'pending' : 'failed', nextAttemptAt]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error failing chain operation:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get the chain operations of a job, oldest first
+ */
+export async function getChainOperationsByJob(jobId: number): Promise<ChainOperation[]> {
+    try {
+        const result = await query<ChainOperation>(
+            `SELECT * FROM chain_operations WHERE job_id = $1 ORDER BY created_at ASC, id ASC`,
+            [jobId]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting chain operations:', err);
+        throw err;
+    }
+}
+
+/**
+ * Put a failed operation back in the queue for one more attempt
+ * Its attempt count is kept, so a retry that fails again gives up at once
+ */
+export async function requeueChainOperation(idempotencyKey: string): Promise<ChainOperation | null> {
+    try {
+        const result = await query<ChainOperation>(
+            `UPDATE chain_operations
+            SET status = 'pending',
+                next_attempt_at = CURRENT_TIMESTAMP,
+                completed_at = NULL
+            WHERE idempotency_key = $1 AND status = 'failed'
+            RETURNING *`,
+            [idempotencyKey]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error requeueing chain operation:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get jobs that had escrow creation submitted but no escrow recorded
+ * Candidates for escrow recovery
+ */
+export async function getJobsMissingEscrow(): Promise<Job[]> {
+    try {
+        const result = await query<Job>(
+            `SELECT j.* FROM jobs j
+            WHERE j.escrow_object_id IS NULL
+              AND EXISTS (
+                  SELECT 1 FROM chain_operations op
+                  WHERE op.job_id = j.id AND op.op_type = 'create_escrow'
+              )
+            ORDER BY j.id ASC`
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting jobs missing escrow:', err);
+        throw err;
+    }
+}
+
+/**
+ * Jobs with a Beep invoice or an escrow created since a date, oldest first
+ * Candidates for reconciliation
+ */
+export async function getJobsToReconcile(since: Date, jobId?: number): Promise<Job[]> {
+    try {
+        const result = await query<Job>(
+            `SELECT j.* FROM jobs j
+            WHERE ($2::int IS NOT NULL AND j.id = $2)
+               OR ($2::int IS NULL
+                   AND j.created_at >= $1
+                   AND j.status <> 'offered'
+                   AND (j.beep_invoice_id IS NOT NULL
+                        OR j.escrow_object_id IS NOT NULL
+                        OR EXISTS (SELECT 1 FROM chain_operations op WHERE op.job_id = j.id)))
+            ORDER BY j.id ASC`,
+            [since, jobId ?? null]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting jobs to reconcile:', err);
+        throw err;
+    }
+}
+
+/**
+ * Invoice IDs that jobs still refer to
+ */
+export async function getJobInvoiceIds(): Promise<string[]> {
+    try {
+        const result = await query(
+            `SELECT DISTINCT beep_invoice_id FROM jobs WHERE beep_invoice_id IS NOT NULL`
+        );
+        return result.rows.map(row => row.beep_invoice_id);
+    } catch (err) {
+        console.error('Error getting job invoice IDs:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// RECONCILIATION QUERIES
+// =============================================================================
+
+export async function createReconciliationRun(trigger: ReconciliationTrigger, repair: boolean): Promise<ReconciliationRun> {
+    try {
+        const result = await query<ReconciliationRun>(
+            `INSERT INTO reconciliation_runs (trigger, repair) VALUES ($1, $2) RETURNING *`,
+            [trigger, repair]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error creating reconciliation run:', err);
+        throw err;
+    }
+}
+
+/**
+ * Store the outcome of a run; lastError marks it failed
+ */
+export async function finishReconciliationRun(
+    runId: number,
+    outcome: {
+        jobsChecked: number;
+        findings: any[];
+        errors: { jobId: number; message: string }[];
+        lastError?: string;
+    }
+): Promise<ReconciliationRun> {
+    try {
+        const result = await query<ReconciliationRun>(
+            `UPDATE reconciliation_runs
+            SET status = $2,
+                jobs_checked = $3,
+                findings = $4,
+                errors = $5,
+                last_error = $6,
+                finished_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+            RETURNING *`,
+            [
+                runId,
+                outcome.lastError ? 'failed' : 'completed',
+                outcome.jobsChecked,
+                JSON.stringify(outcome.findings),
+                JSON.stringify(outcome.errors),
+                outcome.lastError ?? null
+            ]
+        );
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error finishing reconciliation run:', err);
+        throw err;
+    }
+}
+
+export async function getLatestReconciliationRun(): Promise<ReconciliationRun | null> {
+    try {
+        const result = await query<ReconciliationRun>(
+            `SELECT * FROM reconciliation_runs ORDER BY started_at DESC, id DESC LIMIT 1`
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error getting latest reconciliation run:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// AGENT PAYOUT QUERIES
+// =============================================================================
+
+/**
+ * Record a payout; a key that was already recorded returns the existing row
+ */
+export async function createAgentPayout(params: {
+    jobId: number;
+    agentId: number;
+    milestoneId?: number;
+    idempotencyKey: string;
+    method: PayoutMethod;
+    recipientAddress: string;
+    amountUsdc: number;
+    feeUsdc?: number;
+    feeScheduleId?: number | null;
+}): Promise<AgentPayout> {
+    try {
+        const result = await query<AgentPayout>(
+            `INSERT INTO agent_payouts (
+                job_id, agent_id, milestone_id, idempotency_key, method, recipient_address, amount_usdc,
+                fee_usdc, fee_schedule_id
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            ON CONFLICT (idempotency_key) DO UPDATE
+            SET idempotency_key = agent_payouts.idempotency_key
+            RETURNING *`,
+            [
+                params.jobId,
+                params.agentId,
+                params.milestoneId ?? null,
+                params.idempotencyKey,
+                params.method,
+                params.recipientAddress,
+                params.amountUsdc,
+                params.feeUsdc ?? 0,
+                params.feeScheduleId ?? null
+            ]
+        );
+        return toAgentPayout(result.rows[0]);
+    } catch (err) {
+        console.error('Error creating agent payout:', err);
+        throw err;
+    }
+}
+
+export async function getAgentPayoutByKey(idempotencyKey: string): Promise<AgentPayout | null> {
+    try {
+        const result = await query<AgentPayout>(
+            `SELECT * FROM agent_payouts WHERE idempotency_key = $1`,
+            [idempotencyKey]
+        );
+        return result.rows[0] ? toAgentPayout(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error getting agent payout:', err);
+        throw err;
+    }
+}
+
+/**
+ * Store the digest of a transfer before it is sent
+ */
+export async function setAgentPayoutDigest(idempotencyKey: string, txDigest: string): Promise<void> {
+    try {
+        await query(
+            `UPDATE agent_payouts SET tx_digest = $2 WHERE idempotency_key = $1 AND status <> 'sent'`,
+            [idempotencyKey, txDigest]
+        );
+    } catch (err) {
+        console.error('Error storing agent payout digest:', err);
+        throw err;
+    }
+}
+
+/**
+ * Mark a payout as landed on-chain
+ */
+export async function markAgentPayoutSent(idempotencyKey: string, txDigest: string | null): Promise<AgentPayout | null> {
+    try {
+        const result = await query<AgentPayout>(
+            `UPDATE agent_payouts
+            SET status = 'sent',
+                tx_digest = COALESCE($2, tx_digest),
+                last_error = NULL,
+                sent_at = COALESCE(sent_at, CURRENT_TIMESTAMP)
+            WHERE idempotency_key = $1
+            RETURNING *`,
+            [idempotencyKey, txDigest]
+        );
+        return result.rows[0] ? toAgentPayout(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error marking agent payout sent:', err);
+        throw err;
+    }
+}
+
+/**
+ * Record a failed attempt; final failures move the payout to 'failed'
+ */
+export async function markAgentPayoutFailed(
+    idempotencyKey: string,
+    error: string,
+    final: boolean
+): Promise<AgentPayout | null> {
+    try {
+        const result = await query<AgentPayout>(
+            `UPDATE agent_payouts
+            SET last_error = $2,
+                status = CASE WHEN $3 THEN 'failed' ELSE status END
+            WHERE idempotency_key = $1 AND status <> 'sent'
+            RETURNING *`,
+            [idempotencyKey, error, final]
+        );
+        return result.rows[0] ? toAgentPayout(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error marking agent payout failed:', err);
+        throw err;
+    }
+}
+
+export async function getPayoutsByJob(jobId: number): Promise<AgentPayout[]> {
+    try {
+        const result = await query<AgentPayout>(
+            `SELECT * FROM agent_payouts WHERE job_id = $1 ORDER BY created_at ASC, id ASC`,
+            [jobId]
+        );
+        return result.rows.map(toAgentPayout);
+    } catch (err) {
+        console.error('Error getting job payouts:', err);
+        throw err;
+    }
+}
+
+/**
+ * Payouts of an agent, newest first, with what has been paid and what is outstanding
+ */
+export async function getAgentPayouts(
+    agentId: number,
+    status?: PayoutStatus
+): Promise<{ payouts: AgentPayoutWithJob[]; totals: AgentPayoutTotals }> {
+    try {
+        const payouts = await query<AgentPayoutWithJob>(
+            `SELECT p.*, j.title AS job_title
+            FROM agent_payouts p
+            JOIN jobs j ON j.id = p.job_id
+            WHERE p.agent_id = $1
+            AND ($2::text IS NULL OR p.status = $2)
+            ORDER BY p.created_at DESC, p.id DESC`,
+            [agentId, status ?? null]
+        );
+
+        const totals = await query(
+            `SELECT
+                COALESCE(SUM(amount_usdc) FILTER (WHERE status = 'sent'), 0) AS sent_usdc,
+                COALESCE(SUM(amount_usdc) FILTER (WHERE status = 'pending'), 0) AS pending_usdc,
+                COALESCE(SUM(amount_usdc) FILTER (WHERE status = 'failed'), 0) AS failed_usdc
+            FROM agent_payouts
+            WHERE agent_id = $1`,
+            [agentId]
+        );
+
+        const row = totals.rows[0];
+        return {
+            payouts: payouts.rows.map(payout => toAgentPayout(payout) as AgentPayoutWithJob),
+            totals: {
+                sent_usdc: Number(row.sent_usdc),
+                pending_usdc: Number(row.pending_usdc),
+                failed_usdc: Number(row.failed_usdc)
+            }
+        };
+    } catch (err) {
+        console.error('Error getting agent payouts:', err);
+        throw err;
+    }
+}
+
+function toAgentPayout(row: any): AgentPayout {
+    return { ...row, amount_usdc: Number(row.amount_usdc), fee_usdc: Number(row.fee_usdc) };
+}
+
+// =============================================================================
+// FEE SCHEDULE QUERIES
+// =============================================================================
+
+export async function getFeeSchedules(includeInactive: boolean = false): Promise<FeeSchedule[]> {
+    try {
+        const result = await query(
+            `SELECT * FROM fee_schedules
+            WHERE $1 OR is_active
+            ORDER BY is_active DESC, scope, skill NULLS FIRST, tier NULLS FIRST, id`,
+            [includeInactive]
+        );
+        return result.rows.map(toFeeSchedule);
+    } catch (err) {
+        console.error('Error getting fee schedules:', err);
+        throw err;
+    }
+}
+
+export async function getFeeScheduleById(id: number): Promise<FeeSchedule | null> {
+    try {
+        const result = await query(`SELECT * FROM fee_schedules WHERE id = $1`, [id]);
+        return result.rows[0] ? toFeeSchedule(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error getting fee schedule:', err);
+        throw err;
+    }
+}
+
+export async function createFeeSchedule(params: {
+    name: string;
+    scope: FeeScope;
+    skill?: string | null;
+    tier?: string | null;
+    percent: number;
+    flatUsdc: number;
+}): Promise<FeeSchedule> {
+    try {
+        const result = await query(
+            `INSERT INTO fee_schedules (name, scope, skill, tier, percent, flat_usdc)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING *`,
+            [params.name, params.scope, params.skill ?? null, params.tier ?? null, params.percent, params.flatUsdc]
+        );
+        return toFeeSchedule(result.rows[0]);
+    } catch (err) {
+        console.error('Error creating fee schedule:', err);
+        throw err;
+    }
+}
+
+/**
+ * Change the rates or name of a schedule, or turn it on or off
+ */
+export async function updateFeeSchedule(
+    id: number,
+    updates: Partial<{ name: string; percent: number; flatUsdc: number; isActive: boolean }>
+): Promise<FeeSchedule | null> {
+    try {
+        const result = await query(
+            `UPDATE fee_schedules
+            SET name = COALESCE($2, name),
+                percent = COALESCE($3, percent),
+                flat_usdc = COALESCE($4, flat_usdc),
+                is_active = COALESCE($5, is_active),
+                updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+            RETURNING *`,
+            [id, updates.name ?? null, updates.percent ?? null, updates.flatUsdc ?? null, updates.isActive ?? null]
+        );
+        return result.rows[0] ? toFeeSchedule(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error updating fee schedule:', err);
+        throw err;
+    }
+}
+
+/**
+ * Put an agent in a fee tier (null removes it)
+ */
+export async function setAgentFeeTier(agentId: number, tier: string | null): Promise<Agent | null> {
+    try {
+        const result = await query<Agent>(
+            `UPDATE agents SET fee_tier = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
+            [agentId, tier]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error setting agent fee tier:', err);
+        throw err;
+    }
+}
+
+function toFeeSchedule(row: any): FeeSchedule {
+    return { ...row, percent: Number(row.percent), flat_usdc: Number(row.flat_usdc) };
+}
+
+// =============================================================================
+// LEDGER QUERIES
+// =============================================================================
+
+/**
+ * Post a ledger entry; a key that was already posted returns null
+ */
+export async function createLedgerEntry(params: {
+    idempotencyKey: string;
+    entryType: LedgerEntryType;
+    debitAccount: LedgerAccount;
+    creditAccount: LedgerAccount;
+    amountUsdc: number;
+    jobId?: number | null;
+    payoutId?: number | null;
+    txDigest?: string | null;
+    memo?: string;
+}): Promise<LedgerEntry | null> {
+    try {
+        const result = await query(
+            `INSERT INTO ledger_entries (
+                idempotency_key, entry_type, debit_account, credit_account, amount_usdc,
+                job_id, payout_id, tx_digest, memo
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            ON CONFLICT (idempotency_key) DO NOTHING
+            RETURNING *`,
+            [
+                params.idempotencyKey,
+                params.entryType,
+                params.debitAccount,
+                params.creditAccount,
+                params.amountUsdc,
+                params.jobId ?? null,
+                params.payoutId ?? null,
+                params.txDigest ?? null,
+                params.memo ?? null
+            ]
+        );
+        return result.rows[0] ? toLedgerEntry(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error creating ledger entry:', err);
+        throw err;
+    }
+}
+
+/**
+ * What the ledger says is still locked in a job's escrow
+ */
+export async function getJobEscrowBalance(jobId: number): Promise<number> {
+    try {
+        const result = await query(
+            `SELECT
+                COALESCE(SUM(amount_usdc) FILTER (WHERE debit_account = 'escrow'), 0)
+                - COALESCE(SUM(amount_usdc) FILTER (WHERE credit_account = 'escrow'), 0) AS balance
+            FROM ledger_entries
+            WHERE job_id = $1`,
+            [jobId]
+        );
+        return Number(result.rows[0].balance);
+    } catch (err) {
+        console.error('Error getting job escrow balance:', err);
+        throw err;
+    }
+}
+
+/**
+ * Debits and credits per account of the entries posted in [from, to)
+ * from null: since the first entry
+ */
+export async function getLedgerAccountTotals(from: Date | null, to: Date): Promise<LedgerAccountTotals[]> {
+    try {
+        const result = await query(
+            `SELECT account,
+                COALESCE(SUM(amount_usdc) FILTER (WHERE side = 'debit'), 0) AS debit_usdc,
+                COALESCE(SUM(amount_usdc) FILTER (WHERE side = 'credit'), 0) AS credit_usdc
+            FROM (
+                SELECT debit_account AS account, 'debit' AS side, amount_usdc, created_at FROM ledger_entries
+                UNION ALL
+                SELECT credit_account AS account, 'credit' AS side, amount_usdc, created_at FROM ledger_entries
+            ) postings
+            WHERE ($1::timestamp IS NULL OR created_at >= $1) AND created_at < $2
+            GROUP BY account`,
+            [from, to]
+        );
+        return result.rows.map(row => ({
+            account: row.account,
+            debit_usdc: Number(row.debit_usdc),
+            credit_usdc: Number(row.credit_usdc)
+        }));
+    } catch (err) {
+        console.error('Error getting ledger account totals:', err);
+        throw err;
+    }
+}
+
+/**
+ * Entry count and amount per entry type in [from, to)
+ */
+export async function getLedgerTypeTotals(from: Date, to: Date): Promise<LedgerTypeTotals[]> {
+    try {
+        const result = await query(
+            `SELECT entry_type, COUNT(*) AS entries, SUM(amount_usdc) AS amount_usdc
+            FROM ledger_entries
+            WHERE created_at >= $1 AND created_at < $2
+            GROUP BY entry_type
+            ORDER BY entry_type`,
+            [from, to]
+        );
+        return result.rows.map(toLedgerTypeTotals);
+    } catch (err) {
+        console.error('Error getting ledger type totals:', err);
+        throw err;
+    }
+}
+
+/**
+ * The same per day, week or month
+ */
+export async function getLedgerPeriodTotals(from: Date, to: Date, interval: LedgerInterval): Promise<LedgerPeriodTotals[]> {
+    try {
+        const result = await query(
+            `SELECT date_trunc($3, created_at) AS period_start, entry_type,
+                COUNT(*) AS entries, SUM(amount_usdc) AS amount_usdc
+            FROM ledger_entries
+            WHERE created_at >= $1 AND created_at < $2
+            GROUP BY period_start, entry_type
+            ORDER BY period_start, entry_type`,
+            [from, to, interval]
+        );
+        return result.rows.map(row => ({ ...toLedgerTypeTotals(row), period_start: row.period_start }));
+    } catch (err) {
+        console.error('Error getting ledger period totals:', err);
+        throw err;
+    }
+}
+
+function toLedgerEntry(row: any): LedgerEntry {
+    return { ...row, amount_usdc: Number(row.amount_usdc) };
+}
+
+function toLedgerTypeTotals(row: any): LedgerTypeTotals {
+    return { entry_type: row.entry_type, entries: Number(row.entries), amount_usdc: Number(row.amount_usdc) };
+}
+
+// =============================================================================
+// AGENT DISPATCH QUERIES
+// =============================================================================
+
+function parseAgentDispatch(row: any): AgentDispatch {
+    return {
+        ...row,
+        progress: row.progress !== null ? Number(row.progress) : null,
+        progress_total: row.progress_total !== null ? Number(row.progress_total) : null
+    };
+}
+
+/**
+ * Queue the dispatch of a job to its agent's MCP endpoint
+ * A job that was already queued returns the existing row unchanged
+ */
+export async function enqueueAgentDispatch(jobId: number, mcpEndpoint: string): Promise<AgentDispatch> {
+    try {
+        const result = await query(
+            `INSERT INTO agent_dispatches (job_id, mcp_endpoint)
+             VALUES ($1, $2)
+             ON CONFLICT (job_id) DO UPDATE
+             SET job_id = agent_dispatches.job_id
+             RETURNING *`,
+            [jobId, mcpEndpoint]
+        );
+        return parseAgentDispatch(result.rows[0]);
+    } catch (err) {
+        console.error('Error queueing agent dispatch:', err);
+        throw err;
+    }
+}
+
+/**
+ * Claim due dispatches for execution
+ * Also reclaims 'running' rows whose worker died (locked longer than leaseSeconds)
+ * Pass dispatchId to claim a single dispatch regardless of its schedule
+ */
+export async function claimAgentDispatches(
+    limit: number,
+    leaseSeconds: number,
+    dispatchId?: number
+): Promise<AgentDispatch[]> {
+    try {
+        const result = await query(
+            `UPDATE agent_dispatches
+            SET status = 'running',
+                attempts = attempts + 1,
+                locked_at = CURRENT_TIMESTAMP,
+                updated_at = CURRENT_TIMESTAMP
+            WHERE id IN (
+                SELECT id FROM agent_dispatches
+                WHERE (
+                    (status = 'pending' AND ($3::int IS NOT NULL OR next_attempt_at <= CURRENT_TIMESTAMP))
+                    OR (status = 'running' AND locked_at < CURRENT_TIMESTAMP - make_interval(secs => $2))
+                )
+                AND ($3::int IS NULL OR id = $3)
+                ORDER BY next_attempt_at ASC
+                LIMIT $1
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING *`,
+            [limit, leaseSeconds, dispatchId ?? null]
+        );
+        return result.rows.map(parseAgentDispatch);
+    } catch (err) {
+        console.error('Error claiming agent dispatches:', err);
+        throw err;
+    }
+}
+
+/**
+ * Store the last progress notification of a running dispatch
+ */
+export async function updateAgentDispatchProgress(
+    dispatchId: number,
+    progress: number,
+    total: number | null,
+    message: string | null
+): Promise<void> {
+    try {
+        await query(
+            `UPDATE agent_dispatches
+            SET progress = $2, progress_total = $3, progress_message = $4, updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1 AND status = 'running'`,
+            [dispatchId, progress, total, message]
+        );
+    } catch (err) {
+        console.error('Error updating agent dispatch progress:', err);
+        throw err;
+    }
+}
+
+/**
+ * Close a dispatch: succeeded (with the delivery it produced) or abandoned
+ */
+export async function finishAgentDispatch(
+    dispatchId: number,
+    status: 'succeeded' | 'abandoned',
+    details: { deliveryId?: number; reason?: string } = {}
+): Promise<AgentDispatch> {
+    try {
+        const result = await query(
+            `UPDATE agent_dispatches
+            SET status = $2,
+                delivery_id = $3,
+                last_error = $4,
+                locked_at = NULL,
+                updated_at = CURRENT_TIMESTAMP,
+                completed_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+            RETURNING *`,
+            [dispatchId, status, details.deliveryId ?? null, details.reason ?? null]
+        );
+        return parseAgentDispatch(result.rows[0]);
+    } catch (err) {
+        console.error('Error finishing agent dispatch:', err);
+        throw err;
+    }
+}
+
+/**
+ * Record a failed attempt
+ * With nextAttemptAt the dispatch is retried then, otherwise it is given up on
+ */
+export async function failAgentDispatch(
+    dispatchId: number,
+    error: string,
+    nextAttemptAt: Date | null
+): Promise<AgentDispatch> {
+    try {
+        const result = await query(
+            `UPDATE agent_dispatches
+            SET status = $3,
+                last_error = $2,
+                locked_at = NULL,
+                next_attempt_at = COALESCE($4, next_attempt_at),
+                updated_at = CURRENT_TIMESTAMP,
+                completed_at = CASE WHEN $3 = 'failed' THEN CURRENT_TIMESTAMP ELSE NULL END
+            WHERE id = $1
+            RETURNING *`,
+            [dispatchId, error, nextAttemptAt ? 'pending' : 'failed', nextAttemptAt]
+        );
+        return parseAgentDispatch(result.rows[0]);
+    } catch (err) {
+        console.error('Error failing agent dispatch:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get the dispatch of a job
+ */
+export async function getAgentDispatchByJob(jobId: number): Promise<AgentDispatch | null> {
+    try {
+        const result = await query(
+            `SELECT * FROM agent_dispatches WHERE job_id = $1`,
+            [jobId]
+        );
+        return result.rows[0] ? parseAgentDispatch(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error getting agent dispatch:', err);
+        throw err;
+    }
+}
+
+/**
+ * Escrowed jobs whose agent has an MCP endpoint but that were never dispatched
+ * (e.g. escrowed by the chain indexer)
+ */
+export async function getUndispatchedJobs(limit: number): Promise<(Job & { mcp_endpoint: string })[]> {
+    try {
+        const result = await query<Job & { mcp_endpoint: string }>(
+            `SELECT j.*, a.mcp_endpoint
+            FROM jobs j
+            JOIN agents a ON a.user_id = j.agent_id
+            WHERE j.status = 'escrowed'
+              AND COALESCE(a.mcp_endpoint, '') <> ''
+              AND NOT EXISTS (SELECT 1 FROM agent_dispatches d WHERE d.job_id = j.id)
+            ORDER BY j.paid_at ASC NULLS LAST, j.id ASC
+            LIMIT $1`,
+            [limit]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting undispatched jobs:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// CHAIN EVENT QUERIES
+// =============================================================================
+
+/**
+ * Get the last event read from a stream ('<package>::<module>')
+ */
+export async function getChainEventCursor(stream: string): Promise<ChainEventCursor | null> {
+    try {
+        const result = await query<{ tx_digest: string; event_seq: string }>(
+            `SELECT tx_digest, event_seq FROM chain_event_cursors WHERE stream = $1`,
+            [stream]
+        );
+        const row = result.rows[0];
+        return row ? { txDigest: row.tx_digest, eventSeq: row.event_seq } : null;
+    } catch (err) {
+        console.error('Error getting chain event cursor:', err);
+        throw err;
+    }
+}
+
+/**
+ * Move a stream's cursor forward
+ */
+export async function saveChainEventCursor(stream: string, cursor: ChainEventCursor): Promise<void> {
+    try {
+        await query(
+            `INSERT INTO chain_event_cursors (stream, tx_digest, event_seq)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (stream) DO UPDATE
+             SET tx_digest = EXCLUDED.tx_digest,
+                 event_seq = EXCLUDED.event_seq,
+                 updated_at = CURRENT_TIMESTAMP`,
+            [stream, cursor.txDigest, cursor.eventSeq]
+        );
+    } catch (err) {
+        console.error('Error saving chain event cursor:', err);
+        throw err;
+    }
+}
+
+/**
+ * Store an indexed event
+ * Returns null if the event was already stored
+ */
+export async function insertChainEvent(event: {
+    txDigest: string;
+    eventSeq: string;
+    module: string;
+    eventType: string;
+    objectId: string | null;
+    payload: any;
+    sender: string | null;
+    timestampMs: string | null;
+}): Promise<ChainEvent | null> {
+    try {
+        const result = await query<ChainEvent>(
+            `INSERT INTO chain_events
+            (tx_digest, event_seq, module, event_type, object_id, payload, sender, timestamp_ms)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            ON CONFLICT (tx_digest, event_seq) DO NOTHING
+            RETURNING *`,
+            [
+                event.txDigest,
+                event.eventSeq,
+                event.module,
+                event.eventType,
+                event.objectId,
+                JSON.stringify(event.payload),
+                event.sender,
+                event.timestampMs
+            ]
+        );
+        return result.rows[0] || null;
+    } catch (err) {
+        console.error('Error inserting chain event:', err);
+        throw err;
+    }
+}
+
+/**
+ * Record what an indexed event was reconciled against
+ */
+export async function updateChainEventReconciliation(
+    eventId: number,
+    jobId: number | null,
+    poolId: number | null,
+    error?: string
+): Promise<void> {
+    try {
+        await query(
+            `UPDATE chain_events SET job_id = $2, pool_id = $3, reconcile_error = $4 WHERE id = $1`,
+            [eventId, jobId, poolId, error || null]
+        );
+    } catch (err) {
+        console.error('Error updating chain event reconciliation:', err);
         throw err;
     }
 }
 
 /**
- * Mark job as escrowed after payment
+ * Indexed events of one type sent by an address, oldest first
  */
-export async function markJobAsEscrowed(
-    jobId: number,
-    beepInvoiceId: string,
-    escrowObjectId: string,
-    escrowTxDigest: string
-): Promise<Job> {
+export async function getChainEventsBySender(
+    module: string,
+    eventType: string,
+    sender: string
+): Promise<ChainEvent[]> {
     try {
-        return await transaction(async (client) => {
-            const result = await client.query<Job>(
-                `UPDATE jobs
-                 SET status = 'escrowed',
-                     beep_invoice_id = $2,
-                     escrow_object_id = $3,
-                     escrow_tx_digest = $4,
-                     paid_at = CURRENT_TIMESTAMP
-                 WHERE id = $1
-                 RETURNING *`,
-                [jobId, beepInvoiceId, escrowObjectId, escrowTxDigest]
-            );
-
-            if (!result.rows[0]) {
-                throw new Error(`Job with ID ${jobId} not found`);
-            }
-
-            return result.rows[0];
-        });
+        const result = await query<ChainEvent>(
+            `SELECT * FROM chain_events
+            WHERE module = $1 AND event_type = $2 AND sender = $3
+            ORDER BY id ASC`,
+            [module, eventType, sender]
+        );
+        return result.rows;
     } catch (err) {
-        console.error('Error marking job as escrowed:', err);
+        console.error('Error getting chain events by sender:', err);
         throw err;
     }
 }
 
+// =============================================================================
+// ON-CHAIN PAYMENT QUERIES
+// =============================================================================
+
 /**
- * Get all unpaid jobs with pending invoices
- * Used by payment poller
+ * Last transaction the payment scanner read for a recipient
  */
-export async function getUnpaidJobsWithInvoices(): Promise<Job[]> {
+export async function getPaymentScanCursor(recipient: string): Promise<string | null> {
     try {
-        const result = await query<Job>(
-            `SELECT * FROM jobs
-             WHERE status = 'unpaid'
-             AND beep_invoice_id IS NOT NULL
-             ORDER BY created_at DESC
-             LIMIT 10`
+        const result = await query<{ tx_digest: string }>(
+            `SELECT tx_digest FROM payment_scan_cursors WHERE recipient = $1`,
+            [recipient]
         );
-        return result.rows;
+        return result.rows[0]?.tx_digest ?? null;
     } catch (err) {
-        console.error('Error getting unpaid jobs with invoices:', err);
+        console.error('Error getting payment scan cursor:', err);
+        throw err;
+    }
+}
+
+export async function savePaymentScanCursor(recipient: string, txDigest: string): Promise<void> {
+    try {
+        await query(
+            `INSERT INTO payment_scan_cursors (recipient, tx_digest)
+             VALUES ($1, $2)
+             ON CONFLICT (recipient) DO UPDATE
+             SET tx_digest = EXCLUDED.tx_digest,
+                 updated_at = CURRENT_TIMESTAMP`,
+            [recipient, txDigest]
+        );
+    } catch (err) {
+        console.error('Error saving payment scan cursor:', err);
         throw err;
     }
 }
 
 /**
- * Get jobs for a specific buyer
+ * Record a transfer matched to a job
+ * An accepted outcome becomes 'duplicate' when the job was already paid.
+ * Returns null if the transaction was already recorded
  */
-export async function getJobsByBuyer(
-    buyerId: number,
-    status?: JobStatus
-): Promise<Job[]> {
+export async function recordOnChainPayment(params: {
+    txDigest: string;
+    recipient: string;
+    invoiceId: string;
+    jobId: number;
+    coinType: string | null;
+    amountUsdc: number;
+    expectedUsdc: number;
+    outcome: OnChainPaymentOutcome;
+    sender: string | null;
+    timestampMs: string | null;
+}): Promise<OnChainPayment | null> {
     try {
-        let queryText = 'SELECT * FROM jobs WHERE buyer_id = $1';
-        const params: any[] = [buyerId];
-
-        if (status) {
-            queryText += ' AND status = $2';
-            params.push(status);
-        }
-
-        queryText += ' ORDER BY created_at DESC';
-
-        const result = await query<Job>(queryText, params);
-        return result.rows;
+        const result = await query(
+            `INSERT INTO onchain_payments
+                (tx_digest, recipient, invoice_id, job_id, coin_type, amount_usdc, expected_usdc, outcome, sender, timestamp_ms)
+            VALUES ($1, $2, $3, $4, $5, $6, $7,
+                CASE WHEN $8 IN ('exact', 'within_tolerance', 'overpaid') AND EXISTS (
+                    SELECT 1 FROM onchain_payments
+                    WHERE job_id = $4 AND outcome IN ('exact', 'within_tolerance', 'overpaid')
+                ) THEN 'duplicate' ELSE $8 END,
+                $9, $10)
+            ON CONFLICT (tx_digest) DO NOTHING
+            RETURNING *`,
+            [
+                params.txDigest,
+                params.recipient,
+                params.invoiceId,
+                params.jobId,
+                params.coinType,
+                params.amountUsdc,
+                params.expectedUsdc,
+                params.outcome,
+                params.sender,
+                params.timestampMs
+            ]
+        );
+        return result.rows[0] ? toOnChainPayment(result.rows[0]) : null;
     } catch (err) {
-        console.error('Error getting jobs by buyer:', err);
+        console.error('Error recording on-chain payment:', err);
         throw err;
     }
 }
 
 /**
- * Get jobs assigned to a specific agent
+ * The transfer accepted as a job's payment, if any
  */
-export async function getJobsByAgent(
-    agentId: number,
-    status?: JobStatus
-): Promise<Job[]> {
+export async function getAcceptedOnChainPayment(jobId: number): Promise<OnChainPayment | null> {
     try {
-        let queryText = 'SELECT * FROM jobs WHERE agent_id = $1';
-        const params: any[] = [agentId];
-
-        if (status) {
-            queryText += ' AND status = $2';
-            params.push(status);
-        }
+        const result = await query(
+            `SELECT * FROM onchain_payments
+            WHERE job_id = $1 AND outcome IN ('exact', 'within_tolerance', 'overpaid')`,
+            [jobId]
+        );
+        return result.rows[0] ? toOnChainPayment(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error getting accepted on-chain payment:', err);
+        throw err;
+    }
+}
 
-        queryText += ' ORDER BY created_at DESC';
+function toOnChainPayment(row: any): OnChainPayment {
+    return { ...row, amount_usdc: Number(row.amount_usdc), expected_usdc: Number(row.expected_usdc) };
+}
 
-        const result = await query<Job>(queryText, params);
-        return result.rows;
+/**
+ * Mark an invoice as used to pay a job
+ * Returns the existing row if it was already consumed - by this job or another
+ */
+export async function consumeInvoice(
+    invoiceId: string,
+    jobId: number,
+    amountUsdc: number,
+    consumedBy: string
+): Promise<ConsumedInvoice> {
+    try {
+        const result = await query(
+            `INSERT INTO consumed_invoices (invoice_id, job_id, amount_usdc, consumed_by)
+            VALUES ($1, $2, $3, $4)
+            ON CONFLICT (invoice_id) DO NOTHING
+            RETURNING *`,
+            [invoiceId, jobId, amountUsdc, consumedBy]
+        );
+        const row = result.rows[0] ?? (await query(
+            `SELECT * FROM consumed_invoices WHERE invoice_id = $1`,
+            [invoiceId]
+        )).rows[0];
+        return { ...row, amount_usdc: Number(row.amount_usdc) };
     } catch (err) {
-        console.error('Error getting jobs by agent:', err);
+        console.error('Error consuming invoice:', err);
         throw err;
     }
 }
 
 // =============================================================================
-// USER POOL QUERIES
+// DISPUTE QUERIES
 // =============================================================================
 
 /**
- * Create a new user pool record
+ * Open a dispute for a job
  */
-export async function createUserPool(
-    userId: number,
-    poolAddress: string,
-    poolObjectId: string,
-    agentAddress: string,
-    spendingLimit: number,
-    blockchainCreatedAt?: number
-): Promise<UserPool> {
+export async function createDispute(
+    client: PoolClient,
+    jobId: number,
+    openedBy: number,
+    openedByParty: 'buyer' | 'agent',
+    previousStatus: JobStatus,
+    reason: string,
+    deadlineAt: Date
+): Promise<JobDispute> {
     try {
-        const result = await query<UserPool>(
-            `INSERT INTO user_pools 
-            (user_id, pool_address, pool_object_id, agent_address, spending_limit, blockchain_created_at)
+        const result = await client.query<JobDispute>(
+            `INSERT INTO job_disputes
+            (job_id, opened_by, opened_by_party, previous_status, reason, deadline_at)
             VALUES ($1, $2, $3, $4, $5, $6)
             RETURNING *`,
-            [userId, poolAddress, poolObjectId, agentAddress, spendingLimit, blockchainCreatedAt || null]
+            [jobId, openedBy, openedByParty, previousStatus, reason, deadlineAt]
         );
         return result.rows[0];
     } catch (err) {
-        console.error('Error creating user pool:', err);
+        console.error('Error creating dispute:', err);
         throw err;
     }
 }
 
 /**
- * Get pool by user ID
+ * Get the open dispute for a job, if any
  */
-export async function getPoolByUser(userId: number): Promise<UserPool | null> {
+export async function getOpenDisputeByJob(jobId: number): Promise<JobDispute | null> {
     try {
-        const result = await query<UserPool>(
-            `SELECT * FROM user_pools WHERE user_id = $1 AND is_active = true`,
-            [userId]
+        const result = await query<JobDispute>(
+            `SELECT * FROM job_disputes WHERE job_id = $1 AND status = 'open'`,
+            [jobId]
         );
         return result.rows[0] || null;
     } catch (err) {
-        console.error('Error getting pool by user:', err);
+        console.error('Error getting open dispute:', err);
         throw err;
     }
 }
 
 /**
- * Get pool by object ID
+ * Get all disputes for a job, newest first
  */
-export async function getPoolByObjectId(poolObjectId: string): Promise<UserPool | null> {
+export async function getDisputesByJob(jobId: number): Promise<JobDispute[]> {
     try {
-        const result = await query<UserPool>(
-            `SELECT * FROM user_pools WHERE pool_object_id = $1`,
-            [poolObjectId]
+        const result = await query<JobDispute>(
+            `SELECT * FROM job_disputes WHERE job_id = $1 ORDER BY created_at DESC`,
+            [jobId]
         );
-        return result.rows[0] || null;
+        return result.rows;
     } catch (err) {
-        console.error('Error getting pool by object ID:', err);
+        console.error('Error getting disputes by job:', err);
         throw err;
     }
 }
 
 /**
- * Update pool balance (sync from blockchain)
+ * Get open disputes whose deadline has passed
+ * Used by the dispute monitor
  */
-export async function updatePoolBalance(
-    poolId: number,
-    balanceUsdc: number,
-    totalDeposited?: number,
-    totalSpent?: number
-): Promise<UserPool> {
+export async function getExpiredOpenDisputes(): Promise<JobDispute[]> {
     try {
-        let queryText = `UPDATE user_pools SET balance_usdc = $1, updated_at = NOW()`;
-        const params: any[] = [balanceUsdc];
-        let paramCount = 2;
+        const result = await query<JobDispute>(
+            `SELECT * FROM job_disputes
+             WHERE status = 'open'
+             AND deadline_at <= CURRENT_TIMESTAMP
+             ORDER BY deadline_at ASC
+             LIMIT 10`
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting expired disputes:', err);
+        throw err;
+    }
+}
 
-        if (totalDeposited !== undefined) {
-            queryText += `, total_deposited = $${paramCount}`;
-            params.push(totalDeposited);
-            paramCount++;
-        }
+/**
+ * Record the ruling of a dispute
+ */
+export async function markDisputeResolved(
+    client: PoolClient,
+    disputeId: number,
+    ruling: DisputeRuling,
+    agentAmountUsdc: number,
+    arbiterId: number | null,
+    rulingNotes: string | null,
+    resolutionTxDigest: string | null,
+    autoResolved: boolean
+): Promise<JobDispute> {
+    try {
+        const result = await client.query<JobDispute>(
+            `UPDATE job_disputes
+             SET status = 'resolved',
+                 ruling = $2,
+                 agent_amount_usdc = $3,
+                 arbiter_id = $4,
+                 ruling_notes = $5,
+                 resolution_tx_digest = $6,
+                 auto_resolved = $7,
+                 resolved_at = CURRENT_TIMESTAMP
+             WHERE id = $1 AND status = 'open'
+             RETURNING *`,
+            [disputeId, ruling, agentAmountUsdc, arbiterId, rulingNotes, resolutionTxDigest, autoResolved]
+        );
 
-        if (totalSpent !== undefined) {
-            queryText += `, total_spent = $${paramCount}`;
-            params.push(totalSpent);
-            paramCount++;
+        if (!result.rows[0]) {
+            throw new Error(`Open dispute with ID ${disputeId} not found`);
         }
 
-        queryText += ` WHERE id = $${paramCount} RETURNING *`;
-        params.push(poolId);
+        return result.rows[0];
+    } catch (err) {
+        console.error('Error resolving dispute:', err);
+        throw err;
+    }
+}
 
-        const result = await query<UserPool>(queryText, params);
+/**
+ * Attach evidence to a dispute
+ */
+export async function createDisputeEvidence(
+    disputeId: number,
+    submittedBy: number,
+    content: string,
+    deliveryId?: number,
+    externalUrl?: string
+): Promise<DisputeEvidence> {
+    try {
+        const result = await query<DisputeEvidence>(
+            `INSERT INTO dispute_evidence (dispute_id, submitted_by, delivery_id, content, external_url)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING *`,
+            [disputeId, submittedBy, deliveryId || null, content, externalUrl || null]
+        );
         return result.rows[0];
     } catch (err) {
-        console.error('Error updating pool balance:', err);
+        console.error('Error creating dispute evidence:', err);
         throw err;
     }
 }
 
 /**
- * Record a pool transaction
+ * Get evidence for a dispute, oldest first
  */
-export async function createPoolTransaction(
-    poolId: number,
-    type: 'deposit' | 'spend' | 'withdraw' | 'refund',
-    amount: number,
-    txDigest?: string,
-    jobId?: number,
-    purpose?: string
-): Promise<PoolTransaction> {
+export async function getDisputeEvidence(disputeId: number): Promise<DisputeEvidence[]> {
     try {
-        const result = await query<PoolTransaction>(
-            `INSERT INTO pool_transactions 
-            (pool_id, type, amount_usdc, tx_digest, job_id, purpose)
-            VALUES ($1, $2, $3, $4, $5, $6)
+        const result = await query<DisputeEvidence>(
+            `SELECT * FROM dispute_evidence WHERE dispute_id = $1 ORDER BY created_at ASC`,
+            [disputeId]
+        );
+        return result.rows;
+    } catch (err) {
+        console.error('Error getting dispute evidence:', err);
+        throw err;
+    }
+}
+
+// =============================================================================
+// REVIEW & REPUTATION QUERIES
+// =============================================================================
+
+function toReview<T extends JobReview>(row: T): T {
+    return { ...row, amount_usdc: Number(row.amount_usdc) };
+}
+
+function toReputationEntry(row: AgentReputationEntry): AgentReputationEntry {
+    return {
+        ...row,
+        rating: Number(row.rating),
+        previous_rating: Number(row.previous_rating),
+        disputes_lost: Number(row.disputes_lost)
+    };
+}
+
+/**
+ * Store the review of a job
+ * Returns null when the job already has one
+ */
+export async function createJobReview(params: {
+    jobId: number;
+    agentId: number;
+    reviewerId: number;
+    stars: number;
+    quality?: number | null;
+    speed?: number | null;
+    communication?: number | null;
+    comment?: string | null;
+    amountUsdc: number;
+}): Promise<JobReview | null> {
+    try {
+        const result = await query<JobReview>(
+            `INSERT INTO job_reviews
+            (job_id, agent_id, reviewer_id, stars, quality, speed, communication, comment, amount_usdc)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            ON CONFLICT (job_id) DO NOTHING
             RETURNING *`,
-            [poolId, type, amount, txDigest || null, jobId || null, purpose || null]
+            [
+                params.jobId,
+                params.agentId,
+                params.reviewerId,
+                params.stars,
+                params.quality ?? null,
+                params.speed ?? null,
+                params.communication ?? null,
+                params.comment ?? null,
+                params.amountUsdc
+            ]
         );
-        return result.rows[0];
+        return result.rows[0] ? toReview(result.rows[0]) : null;
     } catch (err) {
-        console.error('Error creating pool transaction:', err);
+        console.error('Error creating job review:', err);
         throw err;
     }
 }
 
 /**
- * Get pool transaction history
+ * Get the review of a job, if any
  */
-export async function getPoolTransactions(
-    poolId: number,
-    limit: number = 50
-): Promise<PoolTransaction[]> {
+export async function getJobReview(jobId: number): Promise<JobReview | null> {
     try {
-        const result = await query<PoolTransaction>(
-            `SELECT * FROM pool_transactions 
-            WHERE pool_id = $1 
-            ORDER BY created_at DESC 
+        const result = await query<JobReview>(
+            `SELECT * FROM job_reviews WHERE job_id = $1`,
+            [jobId]
+        );
+        return result.rows[0] ? toReview(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error getting job review:', err);
+        throw err;
+    }
+}
+
+/**
+ * Get the reviews of an agent, newest first
+ */
+export async function getAgentReviews(agentId: number, limit: number = 50): Promise<AgentReview[]> {
+    try {
+        const result = await query<AgentReview>(
+            `SELECT r.*, j.title AS job_title, u.display_name AS reviewer_name
+            FROM job_reviews r
+            JOIN jobs j ON j.id = r.job_id
+            JOIN users u ON u.id = r.reviewer_id
+            WHERE r.agent_id = $1
+            ORDER BY r.created_at DESC
             LIMIT $2`,
-            [poolId, limit]
+            [agentId, limit]
         );
-        return result.rows;
+        return result.rows.map(toReview);
     } catch (err) {
-        console.error('Error getting pool transactions:', err);
+        console.error('Error getting agent reviews:', err);
         throw err;
     }
 }
 
 /**
- * Deactivate a pool
+ * Load the reviews, self-cancellations and lost disputes of an agent
+ * Cancellations are read from job_events: the agent's user moved the job
+ * to cancel_pending or cancelled (declining an offer does not count)
  */
-export async function deactivatePool(poolId: number): Promise<UserPool> {
+export async function getReputationInputs(agent: Agent): Promise<ReputationInputs> {
     try {
-        const result = await query<UserPool>(
-            `UPDATE user_pools SET is_active = false, updated_at = NOW() WHERE id = $1 RETURNING *`,
-            [poolId]
+        const reviews = await query(
+            `SELECT stars, quality, speed, communication, amount_usdc, created_at
+            FROM job_reviews
+            WHERE agent_id = $1`,
+            [agent.id]
         );
-        return result.rows[0];
+
+        const cancellations = await query(
+            `SELECT e.job_id, MIN(e.created_at) AS created_at
+            FROM job_events e
+            JOIN jobs j ON j.id = e.job_id
+            WHERE j.agent_id = $1
+            AND e.actor = 'user:' || $1::text
+            AND e.to_status IN ('cancel_pending', 'cancelled')
+            AND e.from_status IS DISTINCT FROM 'offered'
+            GROUP BY e.job_id`,
+            [agent.user_id]
+        );
+
+        const disputesLost = await query(
+            `SELECT d.job_id, d.resolved_at,
+                CASE d.ruling
+                    WHEN 'refund' THEN 1
+                    ELSE GREATEST(0, 1 - d.agent_amount_usdc / NULLIF(j.amount_usdc, 0))
+                END AS lost_share
+            FROM job_disputes d
+            JOIN jobs j ON j.id = d.job_id
+            WHERE j.agent_id = $1
+            AND d.status = 'resolved'
+            AND d.ruling IN ('refund', 'split')`,
+            [agent.user_id]
+        );
+
+        return {
+            reviews: reviews.rows.map(row => ({ ...row, amount_usdc: Number(row.amount_usdc) })),
+            cancellations: cancellations.rows,
+            disputesLost: disputesLost.rows
+                .map(row => ({ ...row, lost_share: Number(row.lost_share ?? 0) }))
+                .filter(row => row.lost_share > 0)
+        };
     } catch (err) {
-        console.error('Error deactivating pool:', err);
+        console.error('Error getting reputation inputs:', err);
         throw err;
     }
 }
 
-// =============================================================================
-// JOB DELIVERIES QUERIES
-// =============================================================================
+/**
+ * Store a recalculated rating on the agent and append it to its history
+ * Unchanged ratings are not recorded
+ */
+export async function recordAgentReputation(
+    agentId: number,
+    rating: number,
+    snapshot: { reviewsCount: number; cancellations: number; disputesLost: number },
+    trigger: ReputationTrigger,
+    jobId: number | null
+): Promise<AgentReputationEntry | null> {
+    try {
+        const result = await query<AgentReputationEntry>(
+            `WITH previous AS (
+                SELECT id, rating FROM agents WHERE id = $1 FOR UPDATE
+            ), updated AS (
+                UPDATE agents a
+                SET rating = $2::numeric, updated_at = CURRENT_TIMESTAMP
+                FROM previous p
+                WHERE a.id = p.id AND p.rating IS DISTINCT FROM $2::numeric
+                RETURNING p.rating AS previous_rating
+            )
+            INSERT INTO agent_reputation_history
+            (agent_id, rating, previous_rating, reviews_count, cancellations, disputes_lost, trigger, job_id)
+            SELECT $1, $2::numeric, COALESCE(previous_rating, 0), $3, $4, $5, $6, $7
+            FROM updated
+            RETURNING *`,
+            [agentId, rating, snapshot.reviewsCount, snapshot.cancellations, snapshot.disputesLost, trigger, jobId]
+        );
+        return result.rows[0] ? toReputationEntry(result.rows[0]) : null;
+    } catch (err) {
+        console.error('Error recording agent reputation:', err);
+        throw err;
+    }
+}
 
 /**
- * Create a job delivery
+ * Get the rating history of an agent, newest first
  */
-export async function createDelivery(
-    jobId: number,
-    content: string,
-    deliveryType: string = 'text',
-    externalUrl?: string,
-    notes?: string
-): Promise<number> {
+export async function getAgentReputationHistory(agentId: number, limit: number = 50): Promise<AgentReputationEntry[]> {
     try {
-        const result = await query<{ id: number }>(
-            `INSERT INTO job_deliveries (job_id, content, delivery_type, external_url, notes)
-             VALUES ($1, $2, $3, $4, $5)
-             RETURNING id`,
-            [jobId, content, deliveryType, externalUrl || null, notes || null]
+        const result = await query<AgentReputationEntry>(
+            `SELECT * FROM agent_reputation_history
+            WHERE agent_id = $1
+            ORDER BY created_at DESC, id DESC
+            LIMIT $2`,
+            [agentId, limit]
         );
-        return result.rows[0].id;
+        return result.rows.map(toReputationEntry);
     } catch (err) {
-        console.error('Error creating delivery:', err);
+        console.error('Error getting agent reputation history:', err);
         throw err;
     }
 }
 
 /**
- * Get deliveries for a job
+ * Agents that have anything the reputation calculator weighs
+ * Used by the periodic refresh so ratings follow the recency decay
  */
-export async function getDeliveriesByJob(jobId: number): Promise<any[]> {
+export async function getAgentsWithReputation(): Promise<Agent[]> {
     try {
-        const result = await query(
-            `SELECT * FROM job_deliveries WHERE job_id = $1 ORDER BY created_at DESC`,
-            [jobId]
+        const result = await query<Agent>(
+            `SELECT * FROM agents a
+            WHERE EXISTS (SELECT 1 FROM job_reviews r WHERE r.agent_id = a.id)
+            OR EXISTS (SELECT 1 FROM agent_reputation_history h WHERE h.agent_id = a.id)`
         );
         return result.rows;
     } catch (err) {
-        console.error('Error getting deliveries:', err);
+        console.error('Error getting agents with reputation:', err);
         throw err;
     }
 }
@@ -887,30 +4330,3 @@ export async function updateAgentSkills(
     }
 }
 
-/**
- * Get all jobs with optional filters
- */
-export async function getAllJobs(
-    status?: string,
-    limit: number = 50,
-    offset: number = 0
-): Promise<Job[]> {
-    try {
-        let queryText = 'SELECT * FROM jobs';
-        const params: any[] = [];
-        
-        if (status) {
-            queryText += ' WHERE status = $1';
-            params.push(status);
-        }
-        
-        queryText += ` ORDER BY created_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
-        params.push(limit, offset);
-        
-        const result = await query<Job>(queryText, params);
-        return result.rows;
-    } catch (err) {
-        console.error('Error getting all jobs:', err);
-        throw err;
-    }
-}
@@ -23,6 +23,9 @@ import agentRoutes from './routes/agents.js';
 import userRoutes from './routes/users.js';
 import poolRoutes from './routes/pools.js';
 import chatRoutes from './routes/chat.js';
+import paymentRoutes from './routes/payments.js';
+import eventRoutes from './routes/events.js';
+import adminRoutes from './routes/admin.js';
 
 // Import services
 import { initializeDatabase, getDb } from './db/database.js';
@@ -53,8 +56,21 @@ app.use(cors({
     optionsSuccessStatus: 204
 }));
 
+// Keep the raw body around for webhook signature verification
+declare global {
+    namespace Express {
+        interface Request {
+            rawBody?: Buffer;
+        }
+    }
+}
+
 // Parse JSON bodies
-app.use(express.json());
+app.use(express.json({
+    verify: (req: Request, res: Response, buf: Buffer) => {
+        req.rawBody = buf;
+    }
+}));
 
 // Parse URL-encoded bodies
 app.use(express.urlencoded({ extended: true }));
@@ -88,6 +104,9 @@ app.use(`${API_PREFIX}/agents`, agentRoutes);
 app.use(`${API_PREFIX}/users`, userRoutes);
 app.use(`${API_PREFIX}/pools`, poolRoutes);
 app.use(`${API_PREFIX}/chat`, chatRoutes);
+app.use(`${API_PREFIX}/payments`, paymentRoutes);
+app.use(`${API_PREFIX}/events`, eventRoutes);
+app.use(`${API_PREFIX}/admin`, adminRoutes);
 
 // MCP endpoint for AI integration
 import { createMcpHttpHandler } from './mcp-server.js';
@@ -131,7 +150,7 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
  * 
  * INITIALIZATION STEPS:
  * 1. Connect to PostgreSQL database
- * 2. Initialize Beep Pay client
+ * 2. Start the Beep emulator (BEEP_EMULATOR=true)
  * 3. Start payment polling service
  * 4. Start Express server
  */
@@ -144,10 +163,17 @@ async function startServer(): Promise<void> {
         await initializeDatabase();
         console.log('✅ Database connected');
 
-        // Step 3: Start payment polling service
-        console.log('🔄 Starting payment poller...');
+        // Step 2: Start the local Beep emulator instead of calling api.justbeep.it
+        const { isBeepEmulated, startBeepEmulator } = await import('./services/beep-emulator.js');
+        if (isBeepEmulated()) {
+            await startBeepEmulator();
+            console.log('✅ Beep emulator started');
+        }
+
+        // Step 3: Start payment reconciliation sweep (webhook handles the fast path)
+        console.log('🔄 Starting payment reconciliation...');
         startPaymentPolling();
-        console.log('✅ Payment poller started');
+        console.log('✅ Payment reconciliation started');
 
         // Step 4: Initialize SUI client
         console.log('💰 Initializing SUI client...');
@@ -159,7 +185,57 @@ async function startServer(): Promise<void> {
         startAgentPolling();
         console.log('✅ AI Agent poller started');
 
-        // Step 5: Start the Express server
+        // Step 6: Start dispute deadline monitor
+        const { startDisputeMonitor } = await import('./services/dispute.js');
+        startDisputeMonitor();
+        console.log('✅ Dispute monitor started');
+
+        // Step 7: Start chain outbox worker (retries queued escrow operations)
+        const { startChainOutboxWorker } = await import('./services/chain-outbox.js');
+        startChainOutboxWorker();
+        console.log('✅ Chain outbox worker started');
+
+        // Step 8: Start chain event indexer (reconciles jobs and pools from on-chain events)
+        const { startChainIndexer } = await import('./services/chain-indexer.js');
+        startChainIndexer();
+        console.log('✅ Chain indexer started');
+
+        // Step 9: Start agent dispatch worker (sends escrowed jobs to agents over MCP)
+        const { startAgentDispatchWorker } = await import('./services/agent-dispatch.js');
+        startAgentDispatchWorker();
+        console.log('✅ Agent dispatch worker started');
+
+        // Step 10: Start agent health probe (marks unreachable agents unavailable)
+        const { startAgentHealthProbe } = await import('./services/agent-verification.js');
+        startAgentHealthProbe();
+        console.log('✅ Agent health probe started');
+
+        // Step 11: Start agent rating refresh (lets old reviews and penalties fade)
+        const { startReputationRefresh } = await import('./services/reputation.js');
+        startReputationRefresh();
+        console.log('✅ Agent rating refresh started');
+
+        // Step 12: Start offer monitor (expires unanswered offers, flags overdue jobs)
+        const { startOfferMonitor } = await import('./services/agent-inbox.js');
+        startOfferMonitor();
+        console.log('✅ Offer monitor started');
+
+        // Step 13: Start live events (fans out job, payment, request and pool updates to SSE streams)
+        const { startLiveEvents } = await import('./services/live-events.js');
+        await startLiveEvents();
+        console.log('✅ Live events started');
+
+        // Step 14: Start meter monitor (pauses hourly jobs that reached their cap)
+        const { startMeterMonitor } = await import('./services/metering.js');
+        startMeterMonitor();
+        console.log('✅ Meter monitor started');
+
+        // Step 15: Start reconciliation monitor (cross-checks Beep invoices, escrows and jobs)
+        const { startReconciliationMonitor } = await import('./services/reconciliation.js');
+        startReconciliationMonitor();
+        console.log('✅ Reconciliation monitor started');
+
+        // Step 16: Start the Express server
         app.listen(PORT, () => {
             console.log('='.repeat(60));
             console.log(`🤖 BeepLancer Backend running on http://localhost:${PORT}`);
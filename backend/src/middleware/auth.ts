@@ -0,0 +1,79 @@
+/**
+ * =============================================================================
+ * Auth Middleware - Session Token Verification
+ * =============================================================================
+ * 
+ * Routes that act on behalf of a user must be mounted behind requireAuth.
+ * The caller's identity comes from the signed session token only - never
+ * from headers or the request body.
+ * 
+ * Header: Authorization: Bearer <accessToken>
+ * 
+ * =============================================================================
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { verifyAccessToken, AuthError } from '../services/session.js';
+import { UserRole } from '../db/queries.js';
+
+// Extend Express Request to include user
+declare global {
+    namespace Express {
+        interface Request {
+            user?: {
+                walletAddress: string;
+                userId: number;
+                role: UserRole;
+            };
+        }
+    }
+}
+
+/**
+ * Require a valid session token and attach the user to the request
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+    const header = req.header('authorization');
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+
+    if (!token) {
+        return res.status(401).json({
+            status: 401,
+            error: true,
+            message: 'Authentication required - missing bearer token',
+        });
+    }
+
+    try {
+        const claims = verifyAccessToken(token);
+
+        req.user = {
+            walletAddress: claims.walletAddress,
+            userId: claims.userId,
+            role: claims.role,
+        };
+
+        next();
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Authentication error:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Authentication failed',
+        });
+    }
+}
+
+/**
+ * Actor string for the job audit trail
+ */
+export function actorOf(req: Request): string {
+    return `user:${req.user!.userId}`;
+}
@@ -0,0 +1,92 @@
+/**
+ * =============================================================================
+ * Pagination Middleware - Listing Query Parameters
+ * =============================================================================
+ *
+ * Listing routes declare the sorts they support and read the parsed page
+ * from req.page:
+ *
+ *   router.get('/', paginate(JOB_SORTS, 'created_at'), ...)
+ *
+ * QUERY PARAMS:
+ * - limit:  page size, 1-100 (default 20)
+ * - cursor: nextCursor of the previous page
+ * - sort:   one of the route's sorts; 'relevance' (the default with ?q=)
+ *           ranks full-text search matches
+ * - order:  asc | desc (default desc)
+ *
+ * Listings respond with { items, nextCursor, total }. A cursor only works
+ * with the sort and order it was issued for. Invalid parameters get 400.
+ *
+ * =============================================================================
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { decodePageCursor, PageRequest, SortOrder } from '../db/queries.js';
+
+declare global {
+    namespace Express {
+        interface Request {
+            page?: PageRequest;
+        }
+    }
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function badRequest(res: Response, message: string) {
+    return res.status(400).json({
+        status: 400,
+        error: true,
+        message,
+    });
+}
+
+/**
+ * Parse limit, cursor, sort and order into req.page
+ */
+export function paginate<S extends string>(sorts: readonly S[], defaultSort: S) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const { limit, cursor, sort, order, q } = req.query;
+        const searching = typeof q === 'string' && q.trim() !== '';
+
+        const pageSize = limit === undefined ? DEFAULT_LIMIT : Number(limit);
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_LIMIT) {
+            return badRequest(res, `limit must be a whole number from 1 to ${MAX_LIMIT}`);
+        }
+
+        const sortBy = sort ?? (searching && sorts.includes('relevance' as S) ? 'relevance' : defaultSort);
+        if (typeof sortBy !== 'string' || !sorts.includes(sortBy as S)) {
+            return badRequest(res, `sort must be one of: ${sorts.join(', ')}`);
+        }
+
+        if (sortBy === 'relevance' && !searching) {
+            return badRequest(res, 'sort=relevance requires a search query (q)');
+        }
+
+        const sortOrder = order ?? 'desc';
+        if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+            return badRequest(res, 'order must be asc or desc');
+        }
+
+        let after = null;
+        if (cursor !== undefined) {
+            after = typeof cursor === 'string' ? decodePageCursor(cursor) : null;
+            if (!after) {
+                return badRequest(res, 'Invalid cursor');
+            }
+            if (after.sort !== sortBy || after.order !== sortOrder) {
+                return badRequest(res, 'cursor was issued for a different sort or order');
+            }
+        }
+
+        req.page = {
+            limit: pageSize,
+            sort: sortBy,
+            order: sortOrder as SortOrder,
+            after,
+        };
+        next();
+    };
+}
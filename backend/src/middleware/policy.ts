@@ -0,0 +1,244 @@
+/**
+ * =============================================================================
+ * Policy Middleware - Role and Ownership Authorization
+ * =============================================================================
+ *
+ * Every mutating job or pool route declares which party may perform it,
+ * as do the job reads that only the parties should see ('view': audit
+ * trail, dispatch, meter, dispute). The policy tables below are the single
+ * source of truth; routes only name their action:
+ *
+ *   router.post('/:id/approve', requireAuth, authorizeJob('approve'), ...)
+ *
+ * PARTIES:
+ * - buyer / agent: the user is jobs.buyer_id / jobs.agent_id of the job
+ * - owner:         the user owns the pool (user_pools.user_id)
+ * - arbiter:       the user has role 'arbiter'
+ * - admin:         role 'admin' - passes every policy
+ *
+ * Platform-wide routes (/admin) use requireAdmin instead.
+ *
+ * Must be mounted after requireAuth. Callers that are not an allowed party
+ * get 403.
+ *
+ * =============================================================================
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getJobById, getPoolByObjectId, Job, UserPool } from '../db/queries.js';
+
+// =============================================================================
+// POLICIES
+// =============================================================================
+
+export type Party = 'buyer' | 'agent' | 'owner' | 'arbiter' | 'admin';
+
+export type JobAction =
+    | 'view'
+    | 'updateReferenceKey'
+    | 'hire'
+    | 'confirmPayment'
+    | 'simulatePayment'
+    | 'deliver'
+    | 'approve'
+    | 'cancel'
+    | 'openDispute'
+    | 'submitEvidence'
+    | 'resolveDispute'
+    | 'planSubJobs'
+    | 'hireSubAgents'
+    | 'review'
+    | 'respondToOffer'
+    | 'respondToCounter'
+    | 'runMeter'
+    | 'pauseMeter';
+
+export type PoolAction = 'deposit' | 'withdraw' | 'sync';
+
+/**
+ * Who may perform each job action (admins are always allowed)
+ */
+export const JOB_POLICIES: Record<JobAction, readonly Party[]> = {
+    view: ['buyer', 'agent', 'arbiter'],
+    updateReferenceKey: ['buyer'],
+    hire: ['buyer'],
+    confirmPayment: ['buyer'],
+    simulatePayment: ['admin'],
+    deliver: ['agent'],
+    approve: ['buyer'],
+    cancel: ['buyer', 'agent'],
+    openDispute: ['buyer', 'agent'],
+    submitEvidence: ['buyer', 'agent'],
+    resolveDispute: ['arbiter'],
+    planSubJobs: ['agent'],
+    hireSubAgents: ['agent'],
+    review: ['buyer'],
+    respondToOffer: ['agent'],
+    respondToCounter: ['buyer'],
+    runMeter: ['agent'],
+    pauseMeter: ['buyer', 'agent'],
+};
+
+/**
+ * Who may perform each pool action (admins are always allowed)
+ */
+export const POOL_POLICIES: Record<PoolAction, readonly Party[]> = {
+    deposit: ['owner'],
+    withdraw: ['owner'],
+    sync: ['owner'],
+};
+
+/**
+ * Check whether any of the caller's parties satisfies a policy
+ */
+export function isAllowed(parties: Party[], allowed: readonly Party[]): boolean {
+    if (parties.includes('admin')) {
+        return true;
+    }
+    return parties.some(party => allowed.includes(party));
+}
+
+// =============================================================================
+// MIDDLEWARE
+// =============================================================================
+
+/**
+ * Allow the request only if the caller is an allowed party of the job
+ * The job ID is read from :id, or from body.jobId on routes without one
+ */
+export function authorizeJob(action: JobAction) {
+    const allowed = JOB_POLICIES[action];
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const jobId = parseInt(req.params.id ?? req.body?.jobId);
+
+            if (isNaN(jobId)) {
+                return res.status(400).json({
+                    status: 400,
+                    error: true,
+                    message: 'Invalid job ID',
+                });
+            }
+
+            const job = await getJobById(jobId);
+
+            if (!job) {
+                return res.status(404).json({
+                    status: 404,
+                    error: true,
+                    message: 'Job not found',
+                });
+            }
+
+            if (!isAllowed(getJobParties(req, job), allowed)) {
+                console.warn(`[Policy] User ${req.user!.userId} denied ${action} on job ${jobId}`);
+                return res.status(403).json({
+                    status: 403,
+                    error: true,
+                    message: `Only the ${describeParties(allowed)} can ${describeAction(action)}`,
+                });
+            }
+
+            next();
+        } catch (error) {
+            console.error('Authorization error:', error);
+            res.status(500).json({
+                status: 500,
+                error: true,
+                message: 'Authorization failed',
+            });
+        }
+    };
+}
+
+/**
+ * Allow the request only for admins (platform-wide routes under /admin)
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    if (req.user!.role !== 'admin') {
+        console.warn(`[Policy] User ${req.user!.userId} denied admin access to ${req.method} ${req.originalUrl}`);
+        return res.status(403).json({
+            status: 403,
+            error: true,
+            message: 'Only admins can access this endpoint',
+        });
+    }
+
+    next();
+}
+
+/**
+ * Allow the request only if the caller is an allowed party of the pool (:poolId)
+ */
+export function authorizePool(action: PoolAction) {
+    const allowed = POOL_POLICIES[action];
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const pool = await getPoolByObjectId(req.params.poolId);
+
+            if (!pool) {
+                return res.status(404).json({
+                    success: false,
+                    error: 'Pool not found'
+                });
+            }
+
+            if (!isAllowed(getPoolParties(req, pool), allowed)) {
+                console.warn(`[Policy] User ${req.user!.userId} denied ${action} on pool ${pool.pool_object_id}`);
+                return res.status(403).json({
+                    success: false,
+                    error: `Only the ${describeParties(allowed)} can ${describeAction(action)}`
+                });
+            }
+
+            next();
+        } catch (error: any) {
+            console.error('Authorization error:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Authorization failed'
+            });
+        }
+    };
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Which parties the caller is for a job
+ * Note: jobs.agent_id stores the agent's user ID
+ */
+function getJobParties(req: Request, job: Job): Party[] {
+    const { userId } = req.user!;
+    const parties = getRoleParties(req);
+
+    if (job.buyer_id === userId) parties.push('buyer');
+    if (job.agent_id !== null && job.agent_id === userId) parties.push('agent');
+
+    return parties;
+}
+
+function getPoolParties(req: Request, pool: UserPool): Party[] {
+    const parties = getRoleParties(req);
+
+    if (pool.user_id === req.user!.userId) parties.push('owner');
+
+    return parties;
+}
+
+function getRoleParties(req: Request): Party[] {
+    const { role } = req.user!;
+    return role === 'arbiter' || role === 'admin' ? [role] : [];
+}
+
+function describeParties(parties: readonly Party[]): string {
+    return parties.join(' or ');
+}
+
+function describeAction(action: string): string {
+    return action.replace(/([A-Z])/g, ' $1').toLowerCase();
+}
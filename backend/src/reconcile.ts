@@ -0,0 +1,65 @@
+/**
+ * Reconciliation Script - Cross-check Beep invoices, escrows and jobs
+ *
+ * Reports jobs whose invoice, escrow and status disagree, and applies the
+ * safe repairs with --repair. See services/reconciliation.ts.
+ *
+ * Run from backend root: npx tsx src/reconcile.ts [--repair] [--job <id>]
+ */
+
+import { config } from 'dotenv';
+import { initializeDatabase, closeDatabase } from './db/database.js';
+import { initializeSuiClient } from './services/sui.js';
+import { runReconciliation } from './services/reconciliation.js';
+
+// Load .env file
+config();
+
+function parseArgs(argv: string[]): { repair: boolean; jobId?: number } {
+    const repair = argv.includes('--repair');
+    const jobIndex = argv.indexOf('--job');
+    const jobId = jobIndex >= 0 ? parseInt(argv[jobIndex + 1]) : undefined;
+
+    if (jobId !== undefined && isNaN(jobId)) {
+        throw new Error('--job expects a job ID');
+    }
+
+    return { repair, jobId };
+}
+
+// Run
+(async () => {
+    try {
+        const options = parseArgs(process.argv.slice(2));
+
+        await initializeDatabase();
+        await initializeSuiClient();
+
+        console.log(`🔍 Reconciling invoices, escrows and jobs${options.repair ? ' (with repairs)' : ''}...`);
+        const report = await runReconciliation({ ...options, trigger: 'cli' });
+
+        for (const finding of report.findings) {
+            console.log(`  - Job ${finding.jobId} [${finding.kind}]: ${finding.detail}`);
+            if (!finding.repair) {
+                console.log('    ⚠️ Needs review');
+            } else if (finding.repairOutcome === 'applied') {
+                console.log(`    🔧 ${finding.repair}`);
+            } else if (finding.repairOutcome === 'failed') {
+                console.log(`    ❌ ${finding.repair} failed: ${finding.repairError}`);
+            } else {
+                console.log(`    Repair: ${finding.repair}`);
+            }
+        }
+
+        for (const error of report.errors) {
+            console.log(`  - Job ${error.jobId}: could not be checked (${error.message})`);
+        }
+
+        console.log(`\n✅ Run #${report.runId}: ${report.findings.length} findings in ${report.jobsChecked} jobs`);
+
+        await closeDatabase();
+    } catch (error: any) {
+        console.error('❌ Error:', error.message);
+        process.exit(1);
+    }
+})();
@@ -0,0 +1,61 @@
+/**
+ * Recovery Script - Re-link orphaned escrows to their jobs
+ *
+ * Finds escrows that were locked on-chain but never recorded on their job
+ * (matched by job_reference) and links them. See services/escrow-recovery.ts.
+ *
+ * Run from backend root: npx tsx src/recover-escrows.ts [--dry-run] [--job <id>]
+ */
+
+import { config } from 'dotenv';
+import { initializeDatabase, closeDatabase } from './db/database.js';
+import { initializeSuiClient } from './services/sui.js';
+import { recoverOrphanedEscrows } from './services/escrow-recovery.js';
+
+// Load .env file
+config();
+
+function parseArgs(argv: string[]): { dryRun: boolean; jobId?: number } {
+    const dryRun = argv.includes('--dry-run');
+    const jobIndex = argv.indexOf('--job');
+    const jobId = jobIndex >= 0 ? parseInt(argv[jobIndex + 1]) : undefined;
+
+    if (jobId !== undefined && isNaN(jobId)) {
+        throw new Error('--job expects a job ID');
+    }
+
+    return { dryRun, jobId };
+}
+
+// Run
+(async () => {
+    try {
+        const options = parseArgs(process.argv.slice(2));
+
+        await initializeDatabase();
+        await initializeSuiClient();
+
+        console.log(`🔍 Looking for orphaned escrows${options.dryRun ? ' (dry run)' : ''}...`);
+        const results = await recoverOrphanedEscrows(options);
+
+        for (const result of results) {
+            if (result.outcome === 'not_found') {
+                console.log(`  - Job ${result.jobId}: no orphaned escrow found`);
+                continue;
+            }
+
+            console.log(`  - Job ${result.jobId}: ${result.escrowObjectId} ${result.outcome} (tx ${result.txDigest})`);
+            for (const duplicate of result.duplicates) {
+                console.log(`    ⚠️ Duplicate escrow ${duplicate} needs a refund`);
+            }
+        }
+
+        const recovered = results.filter(r => r.outcome !== 'not_found').length;
+        console.log(`\n✅ ${recovered} of ${results.length} jobs ${options.dryRun ? 'would be linked' : 'linked'}`);
+
+        await closeDatabase();
+    } catch (error: any) {
+        console.error('❌ Error:', error.message);
+        process.exit(1);
+    }
+})();
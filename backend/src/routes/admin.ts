@@ -0,0 +1,396 @@
+/**
+ * =============================================================================
+ * Admin Routes - Platform Fees, Ledger and Reconciliation
+ * =============================================================================
+ *
+ * Endpoints (admins only):
+ * - GET    /api/v1/admin/ledger               - Ledger report for a period
+ * - GET    /api/v1/admin/fee-schedules        - List fee schedules
+ * - POST   /api/v1/admin/fee-schedules        - Create a fee schedule
+ * - PUT    /api/v1/admin/fee-schedules/:id    - Change or turn off a fee schedule
+ * - PUT    /api/v1/admin/agents/:id/fee-tier  - Put an agent in a fee tier
+ * - GET    /api/v1/admin/reconciliation       - Report of the latest reconciliation run
+ * - POST   /api/v1/admin/reconciliation       - Run reconciliation now
+ *
+ * =============================================================================
+ */
+
+import { Router, Request, Response } from 'express';
+import * as queries from '../db/queries.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireAdmin } from '../middleware/policy.js';
+import {
+    addFeeSchedule,
+    changeFeeSchedule,
+    assignFeeTier,
+    FeeError,
+    FeeScheduleInput
+} from '../services/fees.js';
+import { getLedgerReport } from '../services/ledger.js';
+import {
+    runReconciliation,
+    getLatestReconciliationReport,
+    ReconciliationError
+} from '../services/reconciliation.js';
+
+const router = Router();
+
+router.use(requireAuth, requireAdmin);
+
+const LEDGER_INTERVALS: readonly queries.LedgerInterval[] = ['day', 'week', 'month'];
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * GET /api/v1/admin/ledger
+ * Opening and closing balance, debits and credits per account, and totals
+ * per entry type for a period
+ *
+ * Query params:
+ * - from: ISO date (default: start of the current month, UTC)
+ * - to: ISO date, exclusive (default: now)
+ * - interval: day | week | month - also break the entry types down per period
+ */
+router.get('/ledger', async (req: Request, res: Response) => {
+    try {
+        const now = new Date();
+        const from = req.query.from
+            ? new Date(String(req.query.from))
+            : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+        const to = req.query.to ? new Date(String(req.query.to)) : now;
+        const interval = req.query.interval as queries.LedgerInterval | undefined;
+
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'from and to must be dates with from before to',
+            });
+        }
+
+        if (interval !== undefined && !LEDGER_INTERVALS.includes(interval)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: `interval must be one of: ${LEDGER_INTERVALS.join(', ')}`,
+            });
+        }
+
+        const report = await getLedgerReport(from, to, interval);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: report.totals.balanced ? 'Ledger balances' : 'Ledger does not balance',
+            data: {
+                from: report.from,
+                to: report.to,
+                accounts: report.accounts,
+                entryTypes: report.entryTypes.map(t => ({
+                    entryType: t.entry_type,
+                    entries: t.entries,
+                    amountUsdc: t.amount_usdc,
+                })),
+                periods: report.periods?.map(p => ({
+                    periodStart: p.period_start,
+                    entryType: p.entry_type,
+                    entries: p.entries,
+                    amountUsdc: p.amount_usdc,
+                })) ?? null,
+                totals: report.totals,
+            },
+        });
+    } catch (error) {
+        console.error('Error getting ledger report:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get ledger report',
+        });
+    }
+});
+
+/**
+ * GET /api/v1/admin/fee-schedules
+ * List the active fee schedules (?includeInactive=true for all)
+ */
+router.get('/fee-schedules', async (req: Request, res: Response) => {
+    try {
+        const schedules = await queries.getFeeSchedules(req.query.includeInactive === 'true');
+
+        res.json({
+            status: 200,
+            error: false,
+            message: `Found ${schedules.length} fee schedules`,
+            data: schedules.map(formatFeeSchedule),
+        });
+    } catch (error) {
+        console.error('Error getting fee schedules:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get fee schedules',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/admin/fee-schedules
+ * Create a fee schedule
+ *
+ * Body:
+ * - name: string
+ * - scope: 'default' | 'skill' | 'tier'
+ * - skill: string (scope 'skill') / tier: string (scope 'tier')
+ * - percent: number (0-100, charged on every payout)
+ * - flatUsdc: number (charged on a job's first payout)
+ */
+router.post('/fee-schedules', async (req: Request, res: Response) => {
+    try {
+        const schedule = await addFeeSchedule(parseFeeScheduleBody(req.body));
+
+        res.status(201).json({
+            status: 201,
+            error: false,
+            message: 'Fee schedule created',
+            data: formatFeeSchedule(schedule),
+        });
+    } catch (error) {
+        if (error instanceof FeeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error creating fee schedule:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to create fee schedule',
+        });
+    }
+});
+
+/**
+ * PUT /api/v1/admin/fee-schedules/:id
+ * Change the name or rates of a fee schedule, or turn it on or off
+ * Payouts already opened keep their fee
+ *
+ * Body: name, percent, flatUsdc, isActive (all optional)
+ */
+router.put('/fee-schedules/:id', async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        if (isNaN(id)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid fee schedule ID',
+            });
+        }
+
+        const schedule = await changeFeeSchedule(id, parseFeeScheduleBody(req.body));
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Fee schedule updated',
+            data: formatFeeSchedule(schedule),
+        });
+    } catch (error) {
+        if (error instanceof FeeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error updating fee schedule:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to update fee schedule',
+        });
+    }
+});
+
+/**
+ * PUT /api/v1/admin/agents/:id/fee-tier
+ * Put an agent in a fee tier, or take it out
+ *
+ * Body:
+ * - tier: string | null
+ */
+router.put('/agents/:id/fee-tier', async (req: Request, res: Response) => {
+    try {
+        const agentId = parseInt(req.params.id);
+        const { tier } = req.body;
+
+        if (isNaN(agentId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid agent ID',
+            });
+        }
+
+        if (tier !== null && typeof tier !== 'string') {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'tier must be a string or null',
+            });
+        }
+
+        const agent = await assignFeeTier(agentId, tier);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: agent.fee_tier ? `Agent is in fee tier '${agent.fee_tier}'` : 'Agent has no fee tier',
+            data: {
+                agentId: agent.id,
+                feeTier: agent.fee_tier,
+            },
+        });
+    } catch (error) {
+        if (error instanceof FeeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error setting agent fee tier:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to set agent fee tier',
+        });
+    }
+});
+
+/**
+ * GET /api/v1/admin/reconciliation
+ * Findings of the latest reconciliation run of Beep invoices, escrows and jobs
+ */
+router.get('/reconciliation', async (req: Request, res: Response) => {
+    try {
+        const report = await getLatestReconciliationReport();
+
+        if (!report) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Reconciliation has not run yet',
+            });
+        }
+
+        res.json({
+            status: 200,
+            error: false,
+            message: `Run #${report.runId}: ${report.findings.length} findings in ${report.jobsChecked} jobs`,
+            data: report,
+        });
+    } catch (error) {
+        console.error('Error getting reconciliation report:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get reconciliation report',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/admin/reconciliation
+ * Run reconciliation now and return its report
+ *
+ * Body:
+ * - repair: boolean (default false - report only)
+ * - jobId: number (only check this job)
+ */
+router.post('/reconciliation', async (req: Request, res: Response) => {
+    try {
+        const { repair, jobId } = req.body ?? {};
+
+        if (repair !== undefined && typeof repair !== 'boolean') {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'repair must be a boolean',
+            });
+        }
+
+        if (jobId !== undefined && !Number.isInteger(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'jobId must be a job ID',
+            });
+        }
+
+        const report = await runReconciliation({ trigger: 'admin', repair, jobId });
+
+        res.json({
+            status: 200,
+            error: false,
+            message: `Run #${report.runId}: ${report.findings.length} findings in ${report.jobsChecked} jobs`,
+            data: report,
+        });
+    } catch (error) {
+        if (error instanceof ReconciliationError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error running reconciliation:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to run reconciliation',
+        });
+    }
+});
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function parseFeeScheduleBody(body: any): FeeScheduleInput {
+    const text = (value: unknown) => typeof value === 'string' ? value : undefined;
+    const amount = (value: unknown) => value === undefined || value === null ? undefined : Number(value);
+
+    return {
+        name: text(body?.name),
+        scope: text(body?.scope) as queries.FeeScope | undefined,
+        skill: text(body?.skill),
+        tier: text(body?.tier),
+        percent: amount(body?.percent),
+        flatUsdc: amount(body?.flatUsdc),
+        isActive: typeof body?.isActive === 'boolean' ? body.isActive : undefined,
+    };
+}
+
+function formatFeeSchedule(schedule: queries.FeeSchedule) {
+    return {
+        id: schedule.id,
+        name: schedule.name,
+        scope: schedule.scope,
+        skill: schedule.skill,
+        tier: schedule.tier,
+        percent: schedule.percent,
+        flatUsdc: schedule.flat_usdc,
+        isActive: schedule.is_active,
+        createdAt: schedule.created_at,
+        updatedAt: schedule.updated_at,
+    };
+}
+
+export default router;
@@ -4,11 +4,13 @@
  * =============================================================================
  * 
  * Endpoints:
- * - GET    /api/v1/agents           - List all available agents
+ * - GET    /api/v1/agents           - List available agents (paginated, ?q= search)
  * - GET    /api/v1/agents/:id       - Get agent details
- * - POST   /api/v1/agents           - Register as an agent
+ * - POST   /api/v1/agents           - Register as an agent (MCP endpoint verified)
  * - PUT    /api/v1/agents/:id       - Update agent profile
- * - GET    /api/v1/agents/:id/jobs  - Get jobs for an agent
+ * - GET    /api/v1/agents/:id/jobs  - Get jobs for an agent (?status=offered is the inbox)
+ * - GET    /api/v1/agents/:id/reviews - Get reviews, rating breakdown and rating history
+ * - GET    /api/v1/agents/:id/payouts - Get what the agent has been paid and what is pending (agent)
  * - POST   /api/v1/agents/:id/skills - Update agent skills
  * 
  * =============================================================================
@@ -16,15 +18,21 @@
 
 import { Router, Request, Response } from 'express';
 import * as queries from '../db/queries.js';
+import { requireAuth } from '../middleware/auth.js';
+import { paginate } from '../middleware/pagination.js';
+import { registerVerifiedAgent, AgentVerificationError } from '../services/agent-verification.js';
+import { getAgentReputation } from '../services/reputation.js';
+import { isJobStatus } from '../services/job-lifecycle.js';
 
 const router = Router();
 
+const PAYOUT_STATUSES: readonly queries.PayoutStatus[] = ['pending', 'sent', 'failed'];
+
 // =============================================================================
 // TYPES
 // =============================================================================
 
 interface RegisterAgentBody {
-    userId: number;
     mcpEndpoint: string;
     skills: string[];
     hourlyRate?: number;
@@ -44,48 +52,47 @@ interface UpdateAgentBody {
 
 /**
  * GET /api/v1/agents
- * List all available agents with optional filters
+ * List available agents with optional filters, paginated
  * 
  * Query params:
  * - skill: Filter by skill (e.g., ?skill=TypeScript)
  * - minRating: Minimum rating (e.g., ?minRating=4.5)
  * - maxRate: Maximum hourly rate (e.g., ?maxRate=100)
+ * - q: Full-text search over skills and description
+ * - sort: rating (default) | jobs_completed | hourly_rate | created_at | relevance
+ * - order, limit, cursor: see middleware/pagination.ts
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', paginate(queries.AGENT_SORTS, 'rating'), async (req: Request, res: Response) => {
     try {
-        const { skill, minRating, maxRate } = req.query;
-
-        let agents;
-
-        if (skill) {
-            // Filter by specific skill
-            agents = await queries.findAgentsBySkill(skill as string);
-        } else {
-            // Get all available agents
-            agents = await queries.getAvailableAgents();
-        }
+        const { skill, minRating, maxRate, q } = req.query;
 
-        // Apply additional filters
-        let filteredAgents = agents;
+        const minRatingNum = minRating !== undefined ? parseFloat(minRating as string) : undefined;
+        const maxRateNum = maxRate !== undefined ? parseFloat(maxRate as string) : undefined;
 
-        if (minRating) {
-            const minRatingNum = parseFloat(minRating as string);
-            filteredAgents = filteredAgents.filter(a => a.rating >= minRatingNum);
+        if (Number.isNaN(minRatingNum) || Number.isNaN(maxRateNum)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'minRating and maxRate must be numbers',
+            });
         }
 
-        if (maxRate) {
-            const maxRateNum = parseFloat(maxRate as string);
-            filteredAgents = filteredAgents.filter(a => 
-                a.hourly_rate !== null && a.hourly_rate <= maxRateNum
-            );
-        }
+        const page = await queries.listAgents(
+            {
+                skill: skill ? skill as string : undefined,
+                minRating: minRatingNum,
+                maxRate: maxRateNum,
+                q: typeof q === 'string' && q.trim() ? q.trim() : undefined,
+            },
+            req.page as queries.PageRequest<queries.AgentSort>
+        );
 
         res.json({
             status: 200,
             error: false,
-            message: `Found ${filteredAgents.length} agents`,
+            message: `Found ${page.total} agents`,
             data: {
-                agents: filteredAgents.map(agent => ({
+                items: page.items.map(agent => ({
                     id: agent.id,
                     userId: agent.user_id,
                     walletAddress: agent.wallet_address,
@@ -96,8 +103,11 @@ router.get('/', async (req: Request, res: Response) => {
                     jobsCompleted: agent.jobs_completed,
                     isAvailable: agent.is_available,
                     mcpEndpoint: agent.mcp_endpoint,
+                    tools: (agent.tools || []).map(tool => tool.name),
+                    lastSeenAt: agent.last_seen_at,
                 })),
-                count: filteredAgents.length,
+                nextCursor: page.nextCursor,
+                total: page.total,
             },
         });
     } catch (error) {
@@ -168,26 +178,28 @@ router.get('/:id', async (req: Request, res: Response) => {
 
 /**
  * POST /api/v1/agents
- * Register a new AI agent
+ * Register the authenticated user as an AI agent
+ * The MCP endpoint must answer listTools with tools that cover every skill;
+ * otherwise 422 with the skills no tool covers
  * 
  * Body:
- * - userId: number (user must exist and have role 'agent')
  * - mcpEndpoint: string (MCP server URL)
  * - skills: string[] (list of skills)
  * - hourlyRate: number (optional)
  * - description: string (optional)
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireAuth, async (req: Request, res: Response) => {
     try {
-        const { userId, mcpEndpoint, skills, hourlyRate, description } = 
+        const { mcpEndpoint, skills, hourlyRate, description } = 
             req.body as RegisterAgentBody;
+        const userId = req.user!.userId;
 
         // Validate required fields
-        if (!userId || !mcpEndpoint || !skills || skills.length === 0) {
+        if (!mcpEndpoint || !Array.isArray(skills) || skills.length === 0) {
             return res.status(400).json({
                 status: 400,
                 error: true,
-                message: 'userId, mcpEndpoint, and skills are required',
+                message: 'mcpEndpoint and skills are required',
             });
         }
 
@@ -210,14 +222,14 @@ router.post('/', async (req: Request, res: Response) => {
         //     });
         // }
 
-        // Register agent
-        const agent = await queries.registerAgent(
+        // Register agent once its endpoint proves the claimed skills
+        const { agent, report } = await registerVerifiedAgent({
             userId,
             mcpEndpoint,
             skills,
             hourlyRate,
             description
-        );
+        });
 
         res.status(201).json({
             status: 201,
@@ -231,11 +243,25 @@ router.post('/', async (req: Request, res: Response) => {
                     skills: agent.skills,
                     hourlyRate: agent.hourly_rate,
                     description: agent.description,
+                    tools: agent.tools,
+                    toolsVerifiedAt: agent.tools_verified_at,
                     createdAt: agent.created_at,
                 },
+                skillCoverage: report.coverage,
             },
         });
     } catch (error) {
+        if (error instanceof AgentVerificationError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+                data: error.details ? {
+                    tools: error.details.tools?.map(tool => tool.name),
+                    unverifiedSkills: error.details.unverifiedSkills,
+                } : undefined,
+            });
+        }
         console.error('Error registering agent:', error);
         res.status(500).json({
             status: 500,
@@ -255,7 +281,7 @@ router.post('/', async (req: Request, res: Response) => {
  * - description: string (optional)
  * - isAvailable: boolean (optional)
  */
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', requireAuth, async (req: Request, res: Response) => {
     try {
         const agentId = parseInt(req.params.id);
         const { skills, hourlyRate, description, isAvailable } = 
@@ -304,14 +330,19 @@ router.put('/:id', async (req: Request, res: Response) => {
 /**
  * GET /api/v1/agents/:id/jobs
  * Get all jobs assigned to this agent
+ * Offered jobs come with the open offer the agent can accept, decline or
+ * counter (POST /jobs/:id/accept, /decline, /counter)
  * 
  * Query params:
- * - status: Filter by job status (e.g., ?status=working)
+ * - status: Filter by job status (e.g., ?status=working, ?status=offered)
+ * - q: Full-text search over title and requirements
+ * - sort: created_at (default) | amount_usdc | relevance
+ * - order, limit, cursor: see middleware/pagination.ts
  */
-router.get('/:id/jobs', async (req: Request, res: Response) => {
+router.get('/:id/jobs', paginate(queries.JOB_SORTS, 'created_at'), async (req: Request, res: Response) => {
     try {
         const agentId = parseInt(req.params.id);
-        const { status } = req.query;
+        const { status, q } = req.query;
 
         if (isNaN(agentId)) {
             return res.status(400).json({
@@ -321,32 +352,71 @@ router.get('/:id/jobs', async (req: Request, res: Response) => {
             });
         }
 
-        // TODO: Get user_id from agent_id
-        // const agent = await queries.getAgentById(agentId);
-        // const userId = agent.user_id;
+        if (status !== undefined && !isJobStatus(status)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job status',
+            });
+        }
+
+        const agent = await queries.getAgentById(agentId);
+
+        if (!agent) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Agent not found',
+            });
+        }
+
+        // jobs.agent_id stores the agent's user ID
+        const page = await queries.listJobs(
+            {
+                agentId: agent.user_id,
+                status,
+                q: typeof q === 'string' && q.trim() ? q.trim() : undefined,
+            },
+            req.page as queries.PageRequest<queries.JobSort>
+        );
 
-        // For now, use agentId as userId (TODO: fix this)
-        const jobs = await queries.getJobsByAgent(
-            agentId,
-            status as any
+        const offers = await queries.getOpenOffersByJobs(
+            page.items.filter(job => job.status === 'offered').map(job => job.id)
         );
 
         res.json({
             status: 200,
             error: false,
-            message: `Found ${jobs.length} jobs for agent`,
+            message: `Found ${page.total} jobs for agent`,
             data: {
-                jobs: jobs.map(job => ({
-                    id: job.id,
-                    title: job.title,
-                    requirements: job.requirements,
-                    amountUsdc: job.amount_usdc,
-                    status: job.status,
-                    createdAt: job.created_at,
-                    deliveredAt: job.delivered_at,
-                    escrowObjectId: job.escrow_object_id,
-                })),
-                count: jobs.length,
+                items: page.items.map(job => {
+                    const offer = offers.get(job.id);
+
+                    return {
+                        id: job.id,
+                        title: job.title,
+                        requirements: job.requirements,
+                        amountUsdc: job.amount_usdc,
+                        status: job.status,
+                        createdAt: job.created_at,
+                        deliveredAt: job.delivered_at,
+                        escrowObjectId: job.escrow_object_id,
+                        deadlineAt: job.deadline_at,
+                        overdueAt: job.overdue_at,
+                        offer: offer ? {
+                            id: offer.id,
+                            status: offer.status,
+                            amountUsdc: offer.amount_usdc,
+                            deadlineAt: offer.deadline_at,
+                            counterAmountUsdc: offer.counter_amount_usdc,
+                            counterDeadlineAt: offer.counter_deadline_at,
+                            message: offer.message,
+                            expiresAt: offer.expires_at,
+                        } : null,
+                    };
+                }),
+                nextCursor: page.nextCursor,
+                total: page.total,
             },
         });
     } catch (error) {
@@ -359,6 +429,165 @@ router.get('/:id/jobs', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/v1/agents/:id/reviews
+ * Get the reviews of an agent, how its rating is made up and how it changed
+ */
+router.get('/:id/reviews', async (req: Request, res: Response) => {
+    try {
+        const agentId = parseInt(req.params.id);
+
+        if (isNaN(agentId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid agent ID',
+            });
+        }
+
+        const result = await getAgentReputation(agentId);
+
+        if (!result) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Agent not found',
+            });
+        }
+
+        const { agent, reputation, reviews, history } = result;
+
+        res.json({
+            status: 200,
+            error: false,
+            message: `Found ${reviews.length} reviews for agent`,
+            data: {
+                agentId: agent.id,
+                rating: Number(agent.rating),
+                reputation,
+                reviews: reviews.map(review => ({
+                    id: review.id,
+                    jobId: review.job_id,
+                    jobTitle: review.job_title,
+                    reviewerId: review.reviewer_id,
+                    reviewerName: review.reviewer_name,
+                    stars: review.stars,
+                    quality: review.quality,
+                    speed: review.speed,
+                    communication: review.communication,
+                    comment: review.comment,
+                    amountUsdc: review.amount_usdc,
+                    createdAt: review.created_at,
+                })),
+                history: history.map(entry => ({
+                    rating: entry.rating,
+                    previousRating: entry.previous_rating,
+                    reviewsCount: entry.reviews_count,
+                    cancellations: entry.cancellations,
+                    disputesLost: entry.disputes_lost,
+                    trigger: entry.trigger,
+                    jobId: entry.job_id,
+                    createdAt: entry.created_at,
+                })),
+            },
+        });
+    } catch (error) {
+        console.error('Error getting agent reviews:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get agent reviews',
+        });
+    }
+});
+
+/**
+ * GET /api/v1/agents/:id/payouts
+ * Get the payouts of an agent with totals sent, pending and failed
+ * (the agent itself or an admin)
+ * 
+ * Query params:
+ * - status: pending | sent | failed (optional)
+ */
+router.get('/:id/payouts', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const agentId = parseInt(req.params.id);
+        const { status } = req.query;
+
+        if (isNaN(agentId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid agent ID',
+            });
+        }
+
+        if (status !== undefined && !PAYOUT_STATUSES.includes(status as queries.PayoutStatus)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: `status must be one of: ${PAYOUT_STATUSES.join(', ')}`,
+            });
+        }
+
+        const agent = await queries.getAgentById(agentId);
+
+        if (!agent) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Agent not found',
+            });
+        }
+
+        if (agent.user_id !== req.user!.userId && req.user!.role !== 'admin') {
+            return res.status(403).json({
+                status: 403,
+                error: true,
+                message: 'Only the agent can see its payouts',
+            });
+        }
+
+        const { payouts, totals } = await queries.getAgentPayouts(agentId, status as queries.PayoutStatus | undefined);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: `Found ${payouts.length} payouts for agent`,
+            data: {
+                agentId,
+                totals: {
+                    sentUsdc: totals.sent_usdc,
+                    pendingUsdc: totals.pending_usdc,
+                    failedUsdc: totals.failed_usdc,
+                },
+                payouts: payouts.map(payout => ({
+                    id: payout.id,
+                    jobId: payout.job_id,
+                    jobTitle: payout.job_title,
+                    milestoneId: payout.milestone_id,
+                    method: payout.method,
+                    amountUsdc: payout.amount_usdc,
+                    feeUsdc: payout.fee_usdc,
+                    recipientAddress: payout.recipient_address,
+                    status: payout.status,
+                    txDigest: payout.tx_digest,
+                    lastError: payout.last_error,
+                    createdAt: payout.created_at,
+                    sentAt: payout.sent_at,
+                })),
+            },
+        });
+    } catch (error) {
+        console.error('Error getting agent payouts:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get agent payouts',
+        });
+    }
+});
+
 /**
  * POST /api/v1/agents/:id/skills
  * Update agent skills (convenience endpoint)
@@ -366,7 +595,7 @@ router.get('/:id/jobs', async (req: Request, res: Response) => {
  * Body:
  * - skills: string[]
  */
-router.post('/:id/skills', async (req: Request, res: Response) => {
+router.post('/:id/skills', requireAuth, async (req: Request, res: Response) => {
     try {
         const agentId = parseInt(req.params.id);
         const { skills } = req.body;
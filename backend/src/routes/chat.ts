@@ -4,35 +4,39 @@
 
 import { Router, Request, Response } from 'express';
 import { getDb } from '../db/database.js';
+import { requireAuth } from '../middleware/auth.js';
+import { getRequestShortlist, selectShortlistedAgent, MatchingError } from '../services/agent-matching.js';
+import {
+    startRequest,
+    replyToRequest,
+    confirmRequestSpec,
+    getRequestThreads,
+    ConversationError,
+    JobSpecEdits
+} from '../services/request-conversation.js';
 
 const router = Router();
 
 /**
  * POST /api/v1/chat/request
  * Create a new user request for Personal Agent to process
+ * (on behalf of the authenticated user)
  */
-router.post('/request', async (req: Request, res: Response) => {
+router.post('/request', requireAuth, async (req: Request, res: Response) => {
     try {
-        const { userId, message } = req.body;
+        const { message } = req.body;
+        const userId = req.user!.userId;
 
-        if (!userId || !message) {
+        if (!message) {
             return res.status(400).json({
                 status: 400,
                 error: true,
-                message: 'userId and message are required',
+                message: 'message is required',
             });
         }
 
-        const db = getDb();
-        
-        // Create user request
-        const result = await db.query(
-            `INSERT INTO user_requests (user_id, description, status)
-             VALUES ($1, $2, 'pending') RETURNING *`,
-            [userId, message]
-        );
-
-        const request = result.rows[0];
+        // Create user request; the message opens its thread
+        const request = await startRequest(userId, message);
 
         res.json({
             status: 200,
@@ -84,15 +88,23 @@ router.get('/requests/:userId', async (req: Request, res: Response) => {
              ORDER BY ur.created_at DESC
              LIMIT 50`,
             [userId]
-            [userId]
         );
 
+        // Each request carries its thread; requests waiting for the buyer's
+        // pick also carry their ranked shortlist
+        const threads = await getRequestThreads(result.rows.map(row => row.id));
+        const requests = await Promise.all(result.rows.map(async (row) => ({
+            ...row,
+            messages: threads.get(row.id) ?? [],
+            ...(row.status === 'awaiting_selection' ? { shortlist: await getRequestShortlist(row.id) } : {}),
+        })));
+
         res.json({
             status: 200,
             error: false,
             data: {
-                requests: result.rows,
-                count: result.rows.length,
+                requests,
+                count: requests.length,
             },
         });
     } catch (error) {
@@ -145,6 +157,8 @@ router.get('/request/:requestId', async (req: Request, res: Response) => {
         }
 
         const request = result.rows[0];
+        const shortlist = await getRequestShortlist(requestId);
+        const threads = await getRequestThreads([requestId]);
 
         res.json({
             status: 200,
@@ -157,7 +171,9 @@ router.get('/request/:requestId', async (req: Request, res: Response) => {
                     createdAt: request.created_at,
                     updatedAt: request.updated_at,
                     errorMessage: request.error_message,
+                    spec: request.analysis,
                 },
+                messages: threads.get(requestId) ?? [],
                 job: request.job_id ? {
                     id: request.job_id,
                     title: request.title,
@@ -167,6 +183,7 @@ router.get('/request/:requestId', async (req: Request, res: Response) => {
                     agentRate: request.agent_rate,
                     agentWallet: request.agent_wallet,
                 } : null,
+                shortlist,
             },
         });
     } catch (error) {
@@ -179,4 +196,168 @@ router.get('/request/:requestId', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /api/v1/chat/request/:requestId/messages
+ * Reply in a request thread (answer questions or ask for changes)
+ */
+router.post('/request/:requestId/messages', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const requestId = parseInt(req.params.requestId);
+        const { message } = req.body;
+
+        if (isNaN(requestId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid request ID',
+            });
+        }
+
+        if (!message || typeof message !== 'string') {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'message is required',
+            });
+        }
+
+        const created = await replyToRequest({
+            requestId,
+            userId: req.user!.userId,
+            message,
+        });
+
+        res.status(201).json({
+            status: 201,
+            error: false,
+            message: 'Reply sent. Personal Agent will answer shortly.',
+            data: { message: created },
+        });
+    } catch (error) {
+        if (error instanceof ConversationError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error replying to request:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to send reply',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/chat/request/:requestId/confirm
+ * Confirm the proposed job spec, optionally with edits, and match agents
+ */
+router.post('/request/:requestId/confirm', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const requestId = parseInt(req.params.requestId);
+        const edits = (req.body.spec ?? {}) as JobSpecEdits;
+
+        if (isNaN(requestId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid request ID',
+            });
+        }
+
+        if (typeof edits !== 'object' || Array.isArray(edits)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'spec must be an object',
+            });
+        }
+
+        const { spec, shortlist } = await confirmRequestSpec({
+            requestId,
+            userId: req.user!.userId,
+            edits,
+        });
+
+        res.json({
+            status: 200,
+            error: false,
+            message: shortlist.length > 0
+                ? 'Job spec confirmed. Choose an agent from the shortlist.'
+                : 'Job spec confirmed, but no available agent matches it.',
+            data: { spec, shortlist },
+        });
+    } catch (error) {
+        if (error instanceof ConversationError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error confirming request:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to confirm request',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/chat/request/:requestId/select
+ * Hire an agent from the request's shortlist (creates the job and offers it to the agent)
+ */
+router.post('/request/:requestId/select', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const requestId = parseInt(req.params.requestId);
+        const agentId = Number(req.body.agentId);
+
+        if (isNaN(requestId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid request ID',
+            });
+        }
+
+        if (!Number.isInteger(agentId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'agentId is required',
+            });
+        }
+
+        const job = await selectShortlistedAgent({
+            requestId,
+            buyerId: req.user!.userId,
+            agentId,
+        });
+
+        res.status(201).json({
+            status: 201,
+            error: false,
+            message: 'Agent selected. The job is offered to the agent - pay it once they accept.',
+            data: { job },
+        });
+    } catch (error) {
+        if (error instanceof MatchingError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error selecting agent:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to select agent',
+        });
+    }
+});
+
 export default router;
@@ -0,0 +1,67 @@
+/**
+ * =============================================================================
+ * Events Routes - Live Updates for the Signed-in User
+ * =============================================================================
+ *
+ * Endpoints:
+ * - GET    /api/v1/events            - Server-sent event stream (own events only)
+ *
+ * Event types are listed in services/live-events.ts.
+ *
+ * =============================================================================
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { subscribeLiveEvents, LiveEvent } from '../services/live-events.js';
+
+const router = Router();
+
+// Comment lines keep proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25000;
+// Tells EventSource how long to wait before reconnecting
+const RETRY_MS = 5000;
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * GET /api/v1/events
+ * Stream job status changes, payment detection, Personal Agent progress and
+ * pool balance changes of the caller as server-sent events
+ *
+ * Each message is `event: <type>` with the event data as JSON. A 'ready'
+ * event is sent once the stream is subscribed; clients should refetch over
+ * REST then, since events are not replayed after a reconnect.
+ */
+router.get('/', requireAuth, (req: Request, res: Response) => {
+    const userId = req.user!.userId;
+    let eventId = 0;
+
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const send = (event: LiveEvent) => {
+        eventId++;
+        res.write(`id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+
+    const unsubscribe = subscribeLiveEvents(userId, send);
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    res.write(`retry: ${RETRY_MS}\n`);
+    res.write(`event: ready\ndata: ${JSON.stringify({ userId })}\n\n`);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+});
+
+export default router;
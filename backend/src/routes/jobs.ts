@@ -5,20 +5,113 @@
  * 
  * Endpoints:
  * - POST   /api/v1/jobs              - Create new job
- * - GET    /api/v1/jobs              - List jobs (with filters)
+ * - GET    /api/v1/jobs              - List jobs (filters, ?q= search, paginated)
  * - GET    /api/v1/jobs/:id          - Get job details
+ * - POST   /api/v1/jobs/:id/accept   - Accept the job offer (agent)
+ * - POST   /api/v1/jobs/:id/decline  - Decline the job offer (agent)
+ * - POST   /api/v1/jobs/:id/counter  - Counter the job offer (agent)
+ * - POST   /api/v1/jobs/:id/counter/respond - Accept or reject the counter-offer (buyer)
  * - POST   /api/v1/jobs/:id/hire     - Create invoice for hiring
  * - POST   /api/v1/jobs/:id/delivery - Submit job delivery
  * - POST   /api/v1/jobs/:id/approve  - Approve delivery & release escrow
  * - POST   /api/v1/jobs/:id/cancel   - Cancel job
+ * - POST   /api/v1/jobs/:id/review   - Review the agent of an approved job (buyer)
+ * - GET    /api/v1/jobs/:id/meter    - Get the meter of an hourly job and its segments
+ * - POST   /api/v1/jobs/:id/meter/start - Start or resume the meter (agent)
+ * - POST   /api/v1/jobs/:id/meter/pause - Pause the meter (buyer or agent)
+ * - GET    /api/v1/jobs/:id/milestones              - List milestones
+ * - POST   /api/v1/jobs/:id/milestones/:n/delivery  - Submit milestone delivery
+ * - POST   /api/v1/jobs/:id/milestones/:n/approve   - Approve milestone & release its share
+ * - GET    /api/v1/jobs/:id/events   - Get job status audit trail
+ * - GET    /api/v1/jobs/:id/dispatch - Get the MCP dispatch to the agent and its progress
+ * - POST   /api/v1/jobs/:id/dispute  - Open a dispute (buyer or agent)
+ * - GET    /api/v1/jobs/:id/dispute  - Get dispute and evidence
+ * - POST   /api/v1/jobs/:id/dispute/evidence - Attach evidence
+ * - POST   /api/v1/jobs/:id/dispute/resolve  - Rule on a dispute (arbiter)
+ * - POST   /api/v1/jobs/:id/plan     - Propose a sub-job breakdown (agent)
+ * - POST   /api/v1/jobs/:id/subjobs  - Hire sub-agents (agent)
+ * - GET    /api/v1/jobs/:id/tree     - Get the job with its sub-jobs
+ * 
+ * Who may call each mutating route is declared with authorizeJob()
+ * (see middleware/policy.ts).
  * 
  * =============================================================================
  */
 
 import { Router, Request, Response } from 'express';
 import * as queries from '../db/queries.js';
-import { releaseEscrow, cancelEscrow } from '../services/sui.js';
+import { transaction } from '../db/database.js';
+import { requireAuth, actorOf } from '../middleware/auth.js';
+import { authorizeJob } from '../middleware/policy.js';
+import { paginate } from '../middleware/pagination.js';
 import { createInvoice } from '../services/beep.js';
+import {
+    transitionJob,
+    recordJobActivity,
+    applyJobCreated,
+    assertTransition,
+    isJobStatus,
+    InvalidJobTransitionError
+} from '../services/job-lifecycle.js';
+import {
+    openDispute,
+    addEvidence,
+    getDisputeDetails,
+    resolveDispute,
+    countRevisionRequests,
+    MAX_REVISION_REQUESTS,
+    DisputeError,
+    EvidenceInput
+} from '../services/dispute.js';
+import {
+    validateMilestonePlan,
+    addMilestonesToJob,
+    deliverMilestone,
+    reviewMilestone,
+    MilestoneError,
+    MilestoneInput
+} from '../services/milestone.js';
+import {
+    planSubJobs,
+    createSubJobs,
+    getJobTree,
+    assertSubJobsSettled,
+    rollUpDelivery,
+    getFrontedSubJobBudget,
+    getPoolFundedSubJobBudget,
+    JobTreeError,
+    JobTreeNode,
+    SubJobFunding,
+    SubJobInput
+} from '../services/job-tree.js';
+import { queueEscrowRelease, queueEscrowCancellation, queueEscrowReclaim } from '../services/chain-outbox.js';
+import {
+    openJobOffer,
+    acceptOffer,
+    declineOffer,
+    counterOffer,
+    respondToCounterOffer,
+    cancelOfferedJob,
+    assertCancelAllowed,
+    InboxError
+} from '../services/agent-inbox.js';
+import { payOutJob } from '../services/payout.js';
+import { refundPoolFunding, noteFailedRefund } from '../services/refund.js';
+import {
+    startMeter,
+    pauseMeter,
+    stopMeterIfHourly,
+    getMeterReading,
+    getUnbilledHourlyBudget,
+    MeterError
+} from '../services/metering.js';
+import {
+    createReview,
+    validateReviewInput,
+    refreshJobAgentReputation,
+    ReviewError,
+    ReviewInput
+} from '../services/reputation.js';
 
 const router = Router();
 
@@ -29,9 +122,27 @@ const router = Router();
 interface CreateJobBody {
     title: string;
     requirements?: string;
-    buyerId: number;
     agentId?: number;
     amountUsdc: number;
+    deadlineAt?: string;
+    milestones?: MilestoneInput[];
+    billing?: queries.JobBilling;
+    hourlyRateUsdc?: number;
+    capUsdc?: number;
+}
+
+interface DeclineBody {
+    reason?: string;
+}
+
+interface CounterBody {
+    amountUsdc?: number;
+    deadlineAt?: string;
+    message?: string;
+}
+
+interface CounterResponseBody {
+    accepted: boolean;
 }
 
 interface HireBody {
@@ -48,6 +159,28 @@ interface DeliveryBody {
 interface ApproveBody {
     approved: boolean;
     feedback?: string;
+    /** Review the agent in the same call; feedback becomes its comment */
+    review?: Omit<ReviewInput, 'comment'>;
+}
+
+type ReviewBody = ReviewInput;
+
+interface DisputeBody {
+    reason: string;
+    evidence?: EvidenceInput[];
+}
+
+type EvidenceBody = EvidenceInput;
+
+interface ResolveDisputeBody {
+    ruling: 'refund' | 'release' | 'split';
+    agentAmountUsdc?: number;
+    notes?: string;
+}
+
+interface SubJobsBody {
+    funding: SubJobFunding;
+    subJobs: SubJobInput[];
 }
 
 // =============================================================================
@@ -56,19 +189,64 @@ interface ApproveBody {
 
 /**
  * POST /api/v1/jobs
- * Create a new job
+ * Create a new job (the authenticated user is the buyer)
+ * With an agentId (the agent's user ID) the job is offered to that agent
+ * and can be paid once they accept
+ * 
+ * Body:
+ * - title, requirements, agentId, amountUsdc
+ * - deadlineAt: ISO date (optional)
+ * - milestones: { title, description?, amountUsdc }[] (optional, ordered;
+ *   amounts must add up to amountUsdc, which may then be omitted)
+ * - billing: 'fixed' (default) | 'hourly'
+ *   Hourly jobs bill the agent's metered time (services/metering.ts):
+ *   - hourlyRateUsdc: number (optional, defaults to the agent's hourly rate)
+ *   - capUsdc: the most the buyer pays, escrowed up front (replaces amountUsdc)
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireAuth, async (req: Request, res: Response) => {
     try {
-        const { title, requirements, buyerId, agentId, amountUsdc } = 
+        const { title, requirements, agentId, deadlineAt, milestones, billing, capUsdc } = 
             req.body as CreateJobBody;
+        const buyerId = req.user!.userId;
+        let { amountUsdc, hourlyRateUsdc } = req.body as CreateJobBody;
+
+        if (billing !== undefined && billing !== 'fixed' && billing !== 'hourly') {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: "billing must be 'fixed' or 'hourly'",
+            });
+        }
+
+        const hourly = billing === 'hourly';
+        if (hourly) {
+            if (milestones) {
+                return res.status(400).json({
+                    status: 400,
+                    error: true,
+                    message: 'Hourly jobs cannot have milestones',
+                });
+            }
+            amountUsdc = capUsdc ?? amountUsdc;
+        }
+
+        if (milestones) {
+            if (!Array.isArray(milestones)) {
+                return res.status(400).json({
+                    status: 400,
+                    error: true,
+                    message: 'milestones must be an array',
+                });
+            }
+            amountUsdc = validateMilestonePlan(milestones, amountUsdc);
+        }
 
         // Validate required fields
-        if (!title || !buyerId || !amountUsdc) {
+        if (!title || !amountUsdc) {
             return res.status(400).json({
                 status: 400,
                 error: true,
-                message: 'title, buyerId, and amountUsdc are required',
+                message: hourly ? 'title and capUsdc are required' : 'title and amountUsdc are required',
             });
         }
 
@@ -81,14 +259,63 @@ router.post('/', async (req: Request, res: Response) => {
             });
         }
 
-        // Create job
-        const job = await queries.createJob(
-            title,
-            buyerId,
-            amountUsdc,
-            requirements,
-            agentId
-        );
+        const deadline = deadlineAt !== undefined ? new Date(deadlineAt) : undefined;
+        if (deadline && !(deadline.getTime() > Date.now())) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'deadlineAt must be a date in the future',
+            });
+        }
+
+        const agent = agentId ? await queries.getAgentByUserId(agentId) : null;
+        if (agentId && (!agent || agentId === buyerId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'agentId must be the user ID of another registered agent',
+            });
+        }
+
+        if (hourly) {
+            hourlyRateUsdc = hourlyRateUsdc ?? (agent?.hourly_rate != null ? Number(agent.hourly_rate) : undefined);
+            if (typeof hourlyRateUsdc !== 'number' || !(hourlyRateUsdc > 0)) {
+                return res.status(400).json({
+                    status: 400,
+                    error: true,
+                    message: 'hourlyRateUsdc must be greater than 0 (required when the agent has no hourly rate)',
+                });
+            }
+        }
+
+        // Create the job with its offer, milestones and first audit entry, or none of them
+        const { job, offer, jobMilestones } = await transaction(async (client) => {
+            const job = await queries.createJob(
+                client,
+                title,
+                buyerId,
+                amountUsdc!,
+                requirements,
+                agentId,
+                deadline,
+                hourly ? hourlyRateUsdc : undefined
+            );
+
+            const offer = agent ? await openJobOffer(job, agent.id, client) : null;
+
+            const jobMilestones = milestones
+                ? await addMilestonesToJob(client, job.id, milestones)
+                : [];
+
+            await applyJobCreated(
+                client,
+                job,
+                actorOf(req),
+                jobMilestones.length > 0 ? `Job created with ${jobMilestones.length} milestones` : undefined
+            );
+
+            return { job, offer, jobMilestones };
+        });
 
         res.status(201).json({
             status: 201,
@@ -103,12 +330,24 @@ router.post('/', async (req: Request, res: Response) => {
                     agentId: job.agent_id,
                     amountUsdc: job.amount_usdc,
                     status: job.status,
+                    deadlineAt: job.deadline_at,
                     referenceKey: job.reference_key,
                     createdAt: job.created_at,
+                    billing: job.billing,
                 },
+                offer: offer ? formatOffer(offer) : null,
+                milestones: jobMilestones.map(formatMilestone),
+                meter: formatMeter(job),
             },
         });
     } catch (error) {
+        if (error instanceof MilestoneError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
         console.error('Error creating job:', error);
         res.status(500).json({
             status: 500,
@@ -120,44 +359,55 @@ router.post('/', async (req: Request, res: Response) => {
 
 /**
  * GET /api/v1/jobs
- * List jobs with optional filters
+ * List jobs with optional filters, newest first, paginated
  * 
  * Query params:
  * - buyerId: Filter by buyer
- * - agentId: Filter by agent
+ * - agentId: Filter by agent (user ID)
  * - status: Filter by status
+ * - q: Full-text search over title and requirements
+ * - sort: created_at (default) | amount_usdc | relevance
+ * - order, limit, cursor: see middleware/pagination.ts
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', paginate(queries.JOB_SORTS, 'created_at'), async (req: Request, res: Response) => {
     try {
-        const { buyerId, agentId, status } = req.query;
+        const { buyerId, agentId, status, q } = req.query;
 
-        let jobs;
+        const buyerIdNum = buyerId !== undefined ? parseInt(buyerId as string) : undefined;
+        const agentIdNum = agentId !== undefined ? parseInt(agentId as string) : undefined;
 
-        if (buyerId) {
-            jobs = await queries.getJobsByBuyer(
-                parseInt(buyerId as string),
-                status as any
-            );
-        } else if (agentId) {
-            jobs = await queries.getJobsByAgent(
-                parseInt(agentId as string),
-                status as any
-            );
-        } else {
-            // TODO: Implement getAllJobs query
+        if (Number.isNaN(buyerIdNum) || Number.isNaN(agentIdNum)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'buyerId and agentId must be numbers',
+            });
+        }
+
+        if (status !== undefined && !isJobStatus(status)) {
             return res.status(400).json({
                 status: 400,
                 error: true,
-                message: 'Please provide buyerId or agentId filter',
+                message: 'Invalid job status',
             });
         }
 
+        const page = await queries.listJobs(
+            {
+                buyerId: buyerIdNum,
+                agentId: agentIdNum,
+                status,
+                q: typeof q === 'string' && q.trim() ? q.trim() : undefined,
+            },
+            req.page as queries.PageRequest<queries.JobSort>
+        );
+
         res.json({
             status: 200,
             error: false,
-            message: `Found ${jobs.length} jobs`,
+            message: `Found ${page.total} jobs`,
             data: {
-                jobs: jobs.map(job => ({
+                items: page.items.map(job => ({
                     id: job.id,
                     title: job.title,
                     requirements: job.requirements,
@@ -170,7 +420,8 @@ router.get('/', async (req: Request, res: Response) => {
                     createdAt: job.created_at,
                     deliveredAt: job.delivered_at,
                 })),
-                count: jobs.length,
+                nextCursor: page.nextCursor,
+                total: page.total,
             },
         });
     } catch (error) {
@@ -209,6 +460,8 @@ router.get('/:id', async (req: Request, res: Response) => {
             });
         }
 
+        const offer = job.status === 'offered' ? await queries.getOpenOfferByJob(jobId) : null;
+
         // TODO: Get related data (buyer, agent, deliveries)
         // const buyer = await queries.getUserById(job.buyer_id);
         // const agent = job.agent_id ? await queries.getUserById(job.agent_id) : null;
@@ -238,7 +491,14 @@ router.get('/:id', async (req: Request, res: Response) => {
                     deliveredAt: job.delivered_at,
                     completedAt: job.completed_at,
                     paidOutAt: job.paid_out_at,
+                    parentJobId: job.parent_job_id,
+                    fundingSource: job.funding_source,
+                    deadlineAt: job.deadline_at,
+                    overdueAt: job.overdue_at,
+                    billing: job.billing,
                 },
+                offer: offer ? formatOffer(offer) : null,
+                meter: formatMeter(job),
                 // buyer,
                 // agent,
                 // deliveries,
@@ -254,14 +514,128 @@ router.get('/:id', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/v1/jobs/:id/dispatch
+ * Get the dispatch of the job to its agent's MCP endpoint, with the last progress update
+ */
+router.get('/:id/dispatch', requireAuth, authorizeJob('view'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        const dispatch = await queries.getAgentDispatchByJob(jobId);
+
+        if (!dispatch) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Job was not dispatched to an agent',
+            });
+        }
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Dispatch retrieved successfully',
+            data: {
+                dispatch: {
+                    jobId: dispatch.job_id,
+                    status: dispatch.status,
+                    attempts: dispatch.attempts,
+                    progress: dispatch.progress,
+                    progressTotal: dispatch.progress_total,
+                    progressMessage: dispatch.progress_message,
+                    deliveryId: dispatch.delivery_id,
+                    lastError: dispatch.last_error,
+                    nextAttemptAt: dispatch.status === 'pending' ? dispatch.next_attempt_at : null,
+                    createdAt: dispatch.created_at,
+                    updatedAt: dispatch.updated_at,
+                    completedAt: dispatch.completed_at,
+                },
+            },
+        });
+    } catch (error) {
+        console.error('Error getting dispatch:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get dispatch',
+        });
+    }
+});
+
+/**
+ * GET /api/v1/jobs/:id/events
+ * Get the status audit trail of a job (oldest first)
+ */
+router.get('/:id/events', requireAuth, authorizeJob('view'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        const job = await queries.getJobById(jobId);
+
+        if (!job) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Job not found',
+            });
+        }
+
+        const events = await queries.getJobEvents(jobId);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: `Found ${events.length} events`,
+            data: {
+                jobId,
+                currentStatus: job.status,
+                events: events.map(event => ({
+                    id: event.id,
+                    fromStatus: event.from_status,
+                    toStatus: event.to_status,
+                    actor: event.actor,
+                    reason: event.reason,
+                    txDigest: event.tx_digest,
+                    createdAt: event.created_at,
+                })),
+                count: events.length,
+            },
+        });
+    } catch (error) {
+        console.error('Error getting job events:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get job events',
+        });
+    }
+});
+
 /**
  * PATCH /api/v1/jobs/:id/reference-key
- * Update job reference key (from Beep widget session)
+ * Update job reference key from the Beep widget session (buyer only)
  * 
  * Body:
  * - referenceKey: string
  */
-router.patch('/:id/reference-key', async (req: Request, res: Response) => {
+router.patch('/:id/reference-key', requireAuth, authorizeJob('updateReferenceKey'), async (req: Request, res: Response) => {
     try {
         const jobId = parseInt(req.params.id);
         const { referenceKey } = req.body;
@@ -341,7 +715,7 @@ router.get('/:id/payment-status', async (req: Request, res: Response) => {
         }
 
         const { beepSDKService } = await import('../services/beep-sdk.js');
-        const { verifyPaymentOnChain } = await import('../services/sui.js');
+        const { verifyPaymentOnChain } = await import('../services/payment-scanner.js');
         
         // 1. Check official Beep status
         let isPaid = false;
@@ -358,20 +732,19 @@ router.get('/:id/payment-status', async (req: Request, res: Response) => {
         }
 
         // 2. Fallback: Check on-chain if not paid via Beep API
+        let onChainPayment = null;
         if (!isPaid) {
-             const merchantAddress = process.env.BEEP_MERCHANT_SUI_ADDRESS;
-             if (merchantAddress) {
-                 const onChainResult = await verifyPaymentOnChain(
-                     merchantAddress,
-                     job.amount_usdc,
-                     job.beep_invoice_id
-                 );
+            try {
+                const onChainResult = await verifyPaymentOnChain(job);
 
-                 if (onChainResult.paid) {
-                     isPaid = true;
-                     console.log(`[Jobs] On-chain check for job ${jobId}: PAID (tx: ${onChainResult.txDigest})`);
-                 }
-             }
+                if (onChainResult.paid) {
+                    isPaid = true;
+                    onChainPayment = onChainResult.payment!;
+                    console.log(`[Jobs] On-chain check for job ${jobId}: PAID (tx: ${onChainPayment.tx_digest})`);
+                }
+            } catch (e) {
+                console.warn(`[Jobs] On-chain payment check failed for job ${jobId}`);
+            }
         }
 
         res.json({
@@ -380,7 +753,12 @@ router.get('/:id/payment-status', async (req: Request, res: Response) => {
             data: {
                 paid: isPaid,
                 jobId: job.id,
-                method: isPaid ? 'on-chain-or-beep' : 'pending'
+                method: isPaid ? 'on-chain-or-beep' : 'pending',
+                onChain: onChainPayment && {
+                    txDigest: onChainPayment.tx_digest,
+                    amountUsdc: onChainPayment.amount_usdc,
+                    outcome: onChainPayment.outcome
+                }
             },
         });
     } catch (error: any) {
@@ -394,16 +772,13 @@ router.get('/:id/payment-status', async (req: Request, res: Response) => {
 });
 
 /**
- * POST /api/v1/jobs/:id/hire
- * Create Beep invoice for job payment
- * 
- * Body:
- * - generateQrCode: boolean (optional, default: true)
+ * POST /api/v1/jobs/:id/accept
+ * Accept the job offer (agent the job is offered to)
+ * The job becomes unpaid and the buyer can fund it
  */
-router.post('/:id/hire', async (req: Request, res: Response) => {
+router.post('/:id/accept', requireAuth, authorizeJob('respondToOffer'), async (req: Request, res: Response) => {
     try {
         const jobId = parseInt(req.params.id);
-        const { generateQrCode = true } = req.body as HireBody;
 
         if (isNaN(jobId)) {
             return res.status(400).json({
@@ -413,77 +788,50 @@ router.post('/:id/hire', async (req: Request, res: Response) => {
             });
         }
 
-        const job = await queries.getJobById(jobId);
-
-        if (!job) {
-            return res.status(404).json({
-                status: 404,
-                error: true,
-                message: 'Job not found',
-            });
-        }
-
-        if (job.status !== 'unpaid') {
-            return res.status(400).json({
-                status: 400,
-                error: true,
-                message: `Cannot hire - job status is ${job.status}`,
-            });
-        }
-
-        // Create invoice via Beep SDK
-        const { beepSDKService } = await import('../services/beep-sdk.js');
-        
-        const invoice = await beepSDKService.createInvoice({
-            amount: job.amount_usdc,
-            description: `BeepLancer Job #${jobId}: ${job.title}`
-        });
-
-        console.log('[Jobs] ✅ Invoice created:', invoice.invoiceId);
-
-        // Update job with invoice ID
-        await queries.updateJobStatus(jobId, 'unpaid', {
-            beep_invoice_id: invoice.invoiceId
-        });
+        const { job, offer } = await acceptOffer(jobId, req.user!.userId);
 
         res.json({
             status: 200,
             error: false,
-            message: 'Invoice created',
+            message: 'Offer accepted, waiting for the buyer to pay',
             data: {
-                invoice: {
-                    id: invoice.invoiceId,
-                    paymentUrl: invoice.paymentUrl,
-                    qrCode: invoice.qrCode,
-                    amount: job.amount_usdc
-                },
+                jobId,
+                status: job.status,
+                agentId: job.agent_id,
+                amountUsdc: job.amount_usdc,
+                deadlineAt: job.deadline_at,
+                offer: formatOffer(offer),
             },
         });
     } catch (error) {
-        console.error('Error creating invoice:', error);
+        if (error instanceof InboxError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error accepting offer:', error);
         res.status(500).json({
             status: 500,
             error: true,
-            message: 'Failed to create invoice',
+            message: 'Failed to accept offer',
         });
     }
 });
 
 /**
- * POST /api/v1/jobs/:id/delivery
- * Submit job delivery (agent only)
+ * POST /api/v1/jobs/:id/decline
+ * Decline the job offer (agent the job is offered to)
+ * The job is offered to the next shortlisted agent, or cancelled
  * 
  * Body:
- * - content: string (the actual work result)
- * - deliveryType: 'code' | 'document' | 'link' | 'text'
- * - externalUrl: string (optional, for large files)
- * - notes: string (optional)
+ * - reason: string (optional)
  */
-router.post('/:id/delivery', async (req: Request, res: Response) => {
+router.post('/:id/decline', requireAuth, authorizeJob('respondToOffer'), async (req: Request, res: Response) => {
     try {
         const jobId = parseInt(req.params.id);
-        const { content, deliveryType = 'text', externalUrl, notes } = 
-            req.body as DeliveryBody;
+        const { reason } = req.body as DeclineBody;
 
         if (isNaN(jobId)) {
             return res.status(400).json({
@@ -493,82 +841,53 @@ router.post('/:id/delivery', async (req: Request, res: Response) => {
             });
         }
 
-        if (!content) {
-            return res.status(400).json({
-                status: 400,
-                error: true,
-                message: 'content is required',
-            });
-        }
-
-        const job = await queries.getJobById(jobId);
-
-        if (!job) {
-            return res.status(404).json({
-                status: 404,
-                error: true,
-                message: 'Job not found',
-            });
-        }
-
-        if (job.status !== 'working' && job.status !== 'escrowed') {
-            return res.status(400).json({
-                status: 400,
-                error: true,
-                message: `Cannot submit delivery - job status is ${job.status}`,
-            });
-        }
-
-        // Save delivery to database
-        const deliveryId = await queries.createDelivery(
-            jobId,
-            content,
-            deliveryType,
-            externalUrl,
-            notes
-        );
-
-        // Update job status to 'delivered'
-        await queries.updateJobStatus(jobId, 'delivered');
+        const { job, offer } = await declineOffer(jobId, req.user!.userId, reason);
 
         res.json({
             status: 200,
             error: false,
-            message: 'Delivery submitted successfully',
+            message: job.status === 'cancelled'
+                ? 'Offer declined, no other agent to offer the job to'
+                : 'Offer declined, job offered to the next agent',
             data: {
                 jobId,
-                deliveryId,
-                delivery: {
-                    content: content.substring(0, 100) + '...', // Preview
-                    deliveryType,
-                    externalUrl,
-                    notes,
-                    submittedAt: new Date().toISOString(),
-                },
+                status: job.status,
+                agentId: job.agent_id,
+                amountUsdc: job.amount_usdc,
+                deadlineAt: job.deadline_at,
+                offer: formatOffer(offer),
             },
         });
     } catch (error) {
-        console.error('Error submitting delivery:', error);
+        if (error instanceof InboxError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error declining offer:', error);
         res.status(500).json({
             status: 500,
             error: true,
-            message: 'Failed to submit delivery',
+            message: 'Failed to decline offer',
         });
     }
 });
 
 /**
- * POST /api/v1/jobs/:id/approve
- * Approve delivery and release escrow (buyer only)
+ * POST /api/v1/jobs/:id/counter
+ * Propose other terms for the job offer (agent the job is offered to)
  * 
  * Body:
- * - approved: boolean
- * - feedback: string (optional)
+ * - amountUsdc: number (optional)
+ * - deadlineAt: ISO date (optional)
+ * - message: string (optional)
  */
-router.post('/:id/approve', async (req: Request, res: Response) => {
+router.post('/:id/counter', requireAuth, authorizeJob('respondToOffer'), async (req: Request, res: Response) => {
     try {
         const jobId = parseInt(req.params.id);
-        const { approved, feedback } = req.body as ApproveBody;
+        const { amountUsdc, deadlineAt, message } = req.body as CounterBody;
 
         if (isNaN(jobId)) {
             return res.status(400).json({
@@ -578,104 +897,1410 @@ router.post('/:id/approve', async (req: Request, res: Response) => {
             });
         }
 
-        if (typeof approved !== 'boolean') {
+        const deadline = deadlineAt !== undefined ? new Date(deadlineAt) : undefined;
+        if (deadline && isNaN(deadline.getTime())) {
             return res.status(400).json({
                 status: 400,
                 error: true,
-                message: 'approved (boolean) is required',
+                message: 'deadlineAt must be an ISO date',
+            });
+        }
+
+        const { job, offer } = await counterOffer(jobId, req.user!.userId, {
+            amountUsdc: amountUsdc !== undefined ? Number(amountUsdc) : undefined,
+            deadlineAt: deadline,
+            message
+        });
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Counter-offer sent to the buyer',
+            data: {
+                jobId,
+                status: job.status,
+                agentId: job.agent_id,
+                amountUsdc: job.amount_usdc,
+                deadlineAt: job.deadline_at,
+                offer: formatOffer(offer),
+            },
+        });
+    } catch (error) {
+        if (error instanceof InboxError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error countering offer:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to counter offer',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/counter/respond
+ * Accept or reject the agent's counter-offer (buyer only)
+ * Accepting applies the agent's terms; rejecting offers the job to the
+ * next shortlisted agent, or cancels it
+ * 
+ * Body:
+ * - accepted: boolean
+ */
+router.post('/:id/counter/respond', requireAuth, authorizeJob('respondToCounter'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const { accepted } = req.body as CounterResponseBody;
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        if (typeof accepted !== 'boolean') {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'accepted (boolean) is required',
+            });
+        }
+
+        const { job, offer } = await respondToCounterOffer(jobId, req.user!.userId, accepted);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: accepted
+                ? 'Counter-offer accepted, the job can be paid'
+                : job.status === 'cancelled'
+                    ? 'Counter-offer rejected, no other agent to offer the job to'
+                    : 'Counter-offer rejected, job offered to the next agent',
+            data: {
+                jobId,
+                status: job.status,
+                agentId: job.agent_id,
+                amountUsdc: job.amount_usdc,
+                deadlineAt: job.deadline_at,
+                offer: formatOffer(offer),
+            },
+        });
+    } catch (error) {
+        if (error instanceof InboxError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error answering counter-offer:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to answer counter-offer',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/hire
+ * Create Beep invoice for job payment (buyer only)
+ * 
+ * Body:
+ * - generateQrCode: boolean (optional, default: true)
+ */
+router.post('/:id/hire', requireAuth, authorizeJob('hire'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const { generateQrCode = true } = req.body as HireBody;
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        const job = await queries.getJobById(jobId);
+
+        if (!job) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Job not found',
+            });
+        }
+
+        // An invoice only makes sense while the job can still be funded
+        assertTransition(job, 'escrowed');
+
+        // Create invoice via Beep SDK
+        const { beepSDKService } = await import('../services/beep-sdk.js');
+        
+        const invoice = await beepSDKService.createInvoice({
+            amount: job.amount_usdc,
+            description: `BeepLancer Job #${jobId}: ${job.title}`
+        });
+
+        console.log('[Jobs] ✅ Invoice created:', invoice.invoiceId);
+
+        // Update job with invoice ID
+        await recordJobActivity(jobId, {
+            actor: actorOf(req),
+            reason: `Beep invoice ${invoice.invoiceId} created`,
+            fields: { beep_invoice_id: invoice.invoiceId }
+        });
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Invoice created',
+            data: {
+                invoice: {
+                    id: invoice.invoiceId,
+                    paymentUrl: invoice.paymentUrl,
+                    qrCode: invoice.qrCode,
+                    amount: job.amount_usdc
+                },
+            },
+        });
+    } catch (error) {
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Cannot hire - ${error.message}`,
+            });
+        }
+        console.error('Error creating invoice:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to create invoice',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/delivery
+ * Submit job delivery (agent only)
+ * 
+ * Body:
+ * - content: string (the actual work result)
+ * - deliveryType: 'code' | 'document' | 'link' | 'text'
+ * - externalUrl: string (optional, for large files)
+ * - notes: string (optional)
+ */
+router.post('/:id/delivery', requireAuth, authorizeJob('deliver'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const { content, deliveryType = 'text', externalUrl, notes } = 
+            req.body as DeliveryBody;
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        if (!content) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'content is required',
+            });
+        }
+
+        const job = await queries.getJobById(jobId);
+
+        if (!job) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Job not found',
+            });
+        }
+
+        if ((await queries.getMilestonesByJob(jobId)).length > 0) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: 'This job has milestones - use /milestones/:n/delivery',
+            });
+        }
+
+        assertTransition(job, 'delivered');
+
+        // A manager's delivery carries the work of its sub-jobs
+        const deliveredContent = await rollUpDelivery(job, content);
+
+        // Save delivery to database
+        const deliveryId = await queries.createDelivery(
+            jobId,
+            deliveredContent,
+            deliveryType,
+            externalUrl,
+            notes
+        );
+
+        // Update job status to 'delivered'
+        await transitionJob(jobId, 'delivered', {
+            actor: actorOf(req),
+            reason: `Delivery #${deliveryId} submitted`
+        });
+        await stopMeterIfHourly(job, 'delivered', actorOf(req));
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Delivery submitted successfully',
+            data: {
+                jobId,
+                deliveryId,
+                delivery: {
+                    content: content.substring(0, 100) + '...', // Preview
+                    deliveryType,
+                    externalUrl,
+                    notes,
+                    submittedAt: new Date().toISOString(),
+                },
+            },
+        });
+    } catch (error) {
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Cannot submit delivery - ${error.message}`,
+            });
+        }
+        if (error instanceof JobTreeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error submitting delivery:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to submit delivery',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/approve
+ * Approve delivery and release escrow (buyer only)
+ * 
+ * Body:
+ * - approved: boolean
+ * - feedback: string (optional)
+ * - review: { stars, quality?, speed?, communication? } (optional, approval only)
+ */
+router.post('/:id/approve', requireAuth, authorizeJob('approve'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const { approved, feedback, review } = req.body as ApproveBody;
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        if (typeof approved !== 'boolean') {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'approved (boolean) is required',
+            });
+        }
+
+        // Reject a malformed review before the delivery is approved
+        if (approved && review) {
+            validateReviewInput({ ...review, comment: feedback });
+        }
+
+        const job = await queries.getJobById(jobId);
+
+        if (!job) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Job not found',
+            });
+        }
+
+        if ((await queries.getMilestonesByJob(jobId)).length > 0) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: 'This job has milestones - use /milestones/:n/approve',
+            });
+        }
+
+        // Both outcomes act on a submitted delivery
+        if (job.status !== 'delivered') {
+            throw new InvalidJobTransitionError(jobId, job.status, approved ? 'completed' : 'working');
+        }
+
+        if (approved) {
+            const reason = feedback ? `Delivery approved: ${feedback}` : 'Delivery approved';
+            let status: queries.JobStatus = 'completed';
+            let txDigest: string | undefined;
+
+            // The platform keeps the share it fronted for sub-jobs, the share
+            // the buyer's pool paid for sub-jobs is refunded, and the part of
+            // an hourly job's cap the meter did not bill goes back
+            const unbilledUsdc = getUnbilledHourlyBudget(job);
+            const poolRefundUsdc = await getPoolFundedSubJobBudget(job);
+            const reclaimUsdc = await getFrontedSubJobBudget(job) + poolRefundUsdc + unbilledUsdc;
+
+            if (job.escrow_object_id) {
+                // Get buyer address
+                const buyer = await queries.getUserById(job.buyer_id);
+                if (!buyer) {
+                    throw new Error('Buyer not found');
+                }
+
+                // The job waits in release_pending until the release is confirmed on-chain
+                await transitionJob(jobId, 'release_pending', {
+                    actor: actorOf(req),
+                    reason
+                });
+
+                const releaseUsdc = Math.round((Number(job.amount_usdc) - reclaimUsdc) * 1_000_000) / 1_000_000;
+                const op = releaseUsdc <= 0
+                    ? await queueEscrowReclaim(job, {
+                        escrowObjectId: job.escrow_object_id,
+                        completeJob: true,
+                        poolRefundUsdc,
+                        actor: actorOf(req),
+                        reason: unbilledUsdc > 0
+                            ? 'No hours billed, escrow returned to the platform'
+                            : 'Whole budget spent on sub-jobs, escrow returned to the platform'
+                    })
+                    : await queueEscrowRelease(job, {
+                        escrowObjectId: job.escrow_object_id,
+                        buyerAddress: buyer.wallet_address,
+                        amountUsdc: reclaimUsdc > 0 ? releaseUsdc : undefined,
+                        remainingUsdc: reclaimUsdc,
+                        reclaimUsdc: reclaimUsdc > 0 ? reclaimUsdc : undefined,
+                        poolRefundUsdc,
+                        nextStatus: 'completed',
+                        actor: actorOf(req),
+                        reason: reclaimUsdc > 0 ? `${releaseUsdc} USDC of the escrow released` : 'Escrow released'
+                    });
+
+                if (op.status === 'succeeded') {
+                    txDigest = op.tx_digest ?? undefined;
+                    console.log(`[Jobs] Escrow released: ${txDigest}`);
+                } else {
+                    status = 'release_pending';
+                    console.warn(`[Jobs] Escrow release for job ${jobId} queued (${op.status}): ${op.last_error}`);
+                }
+            } else {
+                // Nothing locked on-chain - complete right away and pay the
+                // agent from the platform wallet
+                const completed = await transitionJob(jobId, 'completed', {
+                    actor: actorOf(req),
+                    reason
+                });
+                await payOutJob(completed, actorOf(req), Number(job.amount_usdc) - reclaimUsdc)
+                    .catch(err => console.error(`[Jobs] Failed to queue the payout of job ${jobId}:`, err));
+                await refundPoolFunding(completed, poolRefundUsdc, actorOf(req))
+                    .catch(err => noteFailedRefund(completed, actorOf(req), err, 'pool'));
+            }
+
+            // The approval stands even if the review cannot be stored
+            let reviewId: number | undefined;
+            if (review) {
+                try {
+                    reviewId = (await createReview(jobId, req.user!.userId, { ...review, comment: feedback })).review.id;
+                } catch (reviewError) {
+                    console.error(`[Jobs] Failed to store the review of job ${jobId}:`, reviewError);
+                }
+            }
+
+            res.json({
+                status: 200,
+                error: false,
+                message: status === 'completed'
+                    ? 'Delivery approved and escrow released'
+                    : 'Delivery approved, escrow release pending',
+                data: {
+                    jobId,
+                    status,
+                    releaseTxDigest: txDigest,
+                    feedback,
+                    reviewId,
+                },
+            });
+        } else {
+            // Too many revision rounds - escalate to a dispute instead of looping forever
+            const revisions = await countRevisionRequests(jobId);
+
+            if (revisions >= MAX_REVISION_REQUESTS) {
+                const { dispute } = await openDispute({
+                    jobId,
+                    userId: job.buyer_id,
+                    reason: feedback || `Delivery rejected after ${revisions} revisions`
+                });
+
+                return res.json({
+                    status: 200,
+                    error: false,
+                    message: 'Delivery rejected again, dispute opened',
+                    data: {
+                        jobId,
+                        status: 'disputed',
+                        disputeId: dispute.id,
+                        deadlineAt: dispute.deadline_at,
+                        feedback,
+                    },
+                });
+            }
+
+            // Rejected - request revision
+            await transitionJob(jobId, 'working', {
+                actor: actorOf(req),
+                reason: feedback ? `Revision requested: ${feedback}` : 'Revision requested'
+            });
+
+            res.json({
+                status: 200,
+                error: false,
+                message: 'Delivery rejected, requesting revision',
+                data: {
+                    jobId,
+                    status: 'working',
+                    feedback,
+                    revisionsRemaining: MAX_REVISION_REQUESTS - revisions - 1,
+                },
+            });
+        }
+    } catch (error) {
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Cannot approve - ${error.message}`,
+            });
+        }
+        if (error instanceof DisputeError || error instanceof JobTreeError || error instanceof ReviewError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error approving delivery:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to approve delivery',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/cancel
+ * Cancel job and refund buyer (buyer or agent)
+ */
+router.post('/:id/cancel', requireAuth, authorizeJob('cancel'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        const job = await queries.getJobById(jobId);
+
+        if (!job) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Job not found',
+            });
+        }
+
+        // Only allow cancellation if not yet completed or paid out
+        // With an escrow the job waits in cancel_pending until the refund is confirmed
+        assertTransition(job, job.escrow_object_id ? 'cancel_pending' : 'cancelled');
+
+        // Offers are declined, and buyers wait for the deadline before pulling a started job
+        assertCancelAllowed(job, req.user!.userId);
+
+        // Sub-agents may already have been paid from this budget
+        const subJobs = await assertSubJobsSettled(job, 'cancel');
+        if (subJobs.some(subJob => subJob.status !== 'cancelled')) {
+            throw new JobTreeError('Cannot cancel a job whose sub-jobs were completed - approve or dispute it instead', 409);
+        }
+
+        // The buyer has paid and the escrow is on its way - cancel once it lands, so it is refunded
+        if (!job.escrow_object_id) {
+            const operations = await queries.getChainOperationsByJob(jobId);
+            const funding = operations.some(op =>
+                (op.op_type === 'create_escrow' && op.status !== 'failed')
+                || (op.op_type === 'pool_spend' && op.payload?.fundsEscrow && (op.status === 'pending' || op.status === 'running'))
+            );
+            if (funding) {
+                return res.status(409).json({
+                    status: 409,
+                    error: true,
+                    message: 'Cannot cancel - the job is paid and its escrow is being created, try again once it is escrowed',
+                });
+            }
+        }
+
+        let status: queries.JobStatus = 'cancelled';
+
+        if (job.escrow_object_id) {
+            await transitionJob(jobId, 'cancel_pending', {
+                actor: actorOf(req),
+                reason: 'Cancelled by request'
+            });
+
+            const op = await queueEscrowCancellation(job, {
+                escrowObjectId: job.escrow_object_id,
+                actor: actorOf(req),
+                reason: 'Escrow returned to the platform wallet'
+            });
+
+            if (op.status === 'succeeded') {
+                console.log(`[Jobs] Escrow cancelled for job ${jobId}`);
+            } else {
+                status = 'cancel_pending';
+                console.warn(`[Jobs] Escrow cancellation for job ${jobId} queued (${op.status}): ${op.last_error}`);
+            }
+        } else if (job.status === 'offered') {
+            await cancelOfferedJob(jobId, actorOf(req));
+        } else {
+            await transitionJob(jobId, 'cancelled', {
+                actor: actorOf(req),
+                reason: 'Cancelled by request'
+            });
+        }
+
+        await stopMeterIfHourly(job, 'cancelled', actorOf(req));
+
+        // Agents walking away from a job lose rating
+        if (req.user!.userId === job.agent_id) {
+            await refreshJobAgentReputation(job, 'cancellation');
+        }
+
+        res.json({
+            status: 200,
+            error: false,
+            message: status === 'cancelled'
+                ? 'Job cancelled successfully'
+                : 'Job cancelled, escrow refund pending',
+            data: {
+                jobId,
+                status,
+            },
+        });
+    } catch (error) {
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Cannot cancel - ${error.message}`,
+            });
+        }
+        if (error instanceof JobTreeError || error instanceof InboxError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error cancelling job:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to cancel job',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/review
+ * Review the agent of a job (buyer only, once the delivery is approved)
+ * 
+ * Body:
+ * - stars: number (1-5)
+ * - quality, speed, communication: number (1-5, optional)
+ * - comment: string (optional)
+ */
+router.post('/:id/review', requireAuth, authorizeJob('review'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const { stars, quality, speed, communication, comment } = req.body as ReviewBody;
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        const { review, rating } = await createReview(jobId, req.user!.userId, {
+            stars,
+            quality,
+            speed,
+            communication,
+            comment
+        });
+
+        res.status(201).json({
+            status: 201,
+            error: false,
+            message: 'Review submitted',
+            data: {
+                review: formatReview(review),
+                agentRating: rating,
+            },
+        });
+    } catch (error) {
+        if (error instanceof ReviewError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error reviewing job:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to submit review',
+        });
+    }
+});
+
+/**
+ * GET /api/v1/jobs/:id/meter
+ * Get the meter of an hourly job, up to the second, with its segments
+ */
+router.get('/:id/meter', requireAuth, authorizeJob('view'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        const job = await queries.getJobById(jobId);
+
+        if (!job) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Job not found',
+            });
+        }
+
+        if (job.billing !== 'hourly') {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: 'Only hourly jobs are metered',
+            });
+        }
+
+        const segments = await queries.getMeterSegments(jobId);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Meter retrieved successfully',
+            data: {
+                jobId,
+                meter: formatMeter(job),
+                segments: segments.map(formatMeterSegment),
+            },
+        });
+    } catch (error) {
+        console.error('Error getting meter:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get meter',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/meter/start
+ * Start billing the agent's time on an hourly job (agent only)
+ * An escrowed job moves to working; a paused meter resumes
+ */
+router.post('/:id/meter/start', requireAuth, authorizeJob('runMeter'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        const job = await startMeter(jobId, actorOf(req), req.user!.userId);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Meter running',
+            data: {
+                jobId,
+                status: job.status,
+                meter: formatMeter(job),
+            },
+        });
+    } catch (error) {
+        if (error instanceof MeterError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error starting meter:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to start meter',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/meter/pause
+ * Pause the meter of an hourly job - the agent reports being idle, or the
+ * buyer stops the clock. The agent resumes with /meter/start
+ */
+router.post('/:id/meter/pause', requireAuth, authorizeJob('pauseMeter'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const userId = req.user!.userId;
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        const current = await queries.getJobById(jobId);
+        const reason = current?.buyer_id === userId ? 'buyer' : 'idle';
+        const job = await pauseMeter(jobId, reason, actorOf(req), userId);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Meter paused',
+            data: {
+                jobId,
+                status: job.status,
+                meter: formatMeter(job),
+            },
+        });
+    } catch (error) {
+        if (error instanceof MeterError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error pausing meter:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to pause meter',
+        });
+    }
+});
+
+/**
+ * GET /api/v1/jobs/:id/milestones
+ * List the milestones of a job in order
+ */
+router.get('/:id/milestones', async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
             });
         }
 
         const job = await queries.getJobById(jobId);
 
-        if (!job) {
+        if (!job) {
+            return res.status(404).json({
+                status: 404,
+                error: true,
+                message: 'Job not found',
+            });
+        }
+
+        const milestones = await queries.getMilestonesByJob(jobId);
+        const releasedUsdc = milestones
+            .filter(m => m.status === 'approved')
+            .reduce((sum, m) => sum + Number(m.amount_usdc), 0);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: `Found ${milestones.length} milestones`,
+            data: {
+                jobId,
+                currentStatus: job.status,
+                amountUsdc: job.amount_usdc,
+                releasedUsdc,
+                milestones: milestones.map(formatMilestone),
+                count: milestones.length,
+            },
+        });
+    } catch (error) {
+        console.error('Error getting milestones:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get milestones',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/milestones/:n/delivery
+ * Submit the delivery of milestone n (agent only)
+ * 
+ * Body: same as /:id/delivery
+ */
+router.post('/:id/milestones/:n/delivery', requireAuth, authorizeJob('deliver'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const position = parseInt(req.params.n);
+        const { content, deliveryType = 'text', externalUrl, notes } = 
+            req.body as DeliveryBody;
+
+        if (isNaN(jobId) || isNaN(position)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID or milestone number',
+            });
+        }
+
+        if (!content) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'content is required',
+            });
+        }
+
+        const { milestone, deliveryId } = await deliverMilestone(
+            jobId,
+            position,
+            { content, deliveryType, externalUrl, notes },
+            actorOf(req)
+        );
+
+        res.json({
+            status: 200,
+            error: false,
+            message: `Milestone ${position} delivered`,
+            data: {
+                jobId,
+                deliveryId,
+                milestone: formatMilestone(milestone),
+            },
+        });
+    } catch (error) {
+        if (error instanceof MilestoneError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Cannot submit milestone delivery - ${error.message}`,
+            });
+        }
+        console.error('Error submitting milestone delivery:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to submit milestone delivery',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/milestones/:n/approve
+ * Approve milestone n and release its share of the escrow (buyer only)
+ * 
+ * Body:
+ * - approved: boolean
+ * - feedback: string (optional)
+ */
+router.post('/:id/milestones/:n/approve', requireAuth, authorizeJob('approve'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const position = parseInt(req.params.n);
+        const { approved, feedback } = req.body as ApproveBody;
+
+        if (isNaN(jobId) || isNaN(position)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID or milestone number',
+            });
+        }
+
+        if (typeof approved !== 'boolean') {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'approved (boolean) is required',
+            });
+        }
+
+        const result = await reviewMilestone(jobId, position, approved, actorOf(req), feedback);
+
+        let message = `Milestone ${position} approved and released`;
+        if (result.dispute) {
+            message = `Milestone ${position} rejected again, dispute opened`;
+        } else if (!approved) {
+            message = `Milestone ${position} rejected, requesting revision`;
+        } else if (result.jobStatus === 'release_pending') {
+            message = `Milestone ${position} approved, release pending`;
+        }
+
+        res.json({
+            status: 200,
+            error: false,
+            message,
+            data: {
+                jobId,
+                status: result.jobStatus,
+                milestone: formatMilestone(result.milestone),
+                releaseTxDigest: result.releaseTxDigest,
+                disputeId: result.dispute?.dispute.id,
+                feedback,
+            },
+        });
+    } catch (error: any) {
+        if (error instanceof MilestoneError || error instanceof DisputeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Cannot review milestone - ${error.message}`,
+            });
+        }
+        console.error('Error reviewing milestone:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: error.message || 'Failed to review milestone',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/dispute
+ * Open a dispute (buyer or agent of the job)
+ * 
+ * Body:
+ * - reason: string
+ * - evidence: { content, deliveryId?, externalUrl? }[] (optional)
+ */
+router.post('/:id/dispute', requireAuth, authorizeJob('openDispute'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const { reason, evidence } = req.body as DisputeBody;
+        const userId = req.user!.userId;
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        if (!reason) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'reason is required',
+            });
+        }
+
+        const details = await openDispute({ jobId, userId, reason, evidence });
+
+        res.status(201).json({
+            status: 201,
+            error: false,
+            message: 'Dispute opened',
+            data: formatDispute(details),
+        });
+    } catch (error) {
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Cannot dispute - ${error.message}`,
+            });
+        }
+        if (error instanceof DisputeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error opening dispute:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to open dispute',
+        });
+    }
+});
+
+/**
+ * GET /api/v1/jobs/:id/dispute
+ * Get the latest dispute of a job with its evidence
+ */
+router.get('/:id/dispute', requireAuth, authorizeJob('view'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
+            });
+        }
+
+        const details = await getDisputeDetails(jobId);
+
+        if (!details) {
             return res.status(404).json({
                 status: 404,
                 error: true,
-                message: 'Job not found',
+                message: 'No dispute found for this job',
             });
         }
 
-        if (job.status !== 'delivered') {
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Dispute retrieved successfully',
+            data: formatDispute(details),
+        });
+    } catch (error) {
+        console.error('Error getting dispute:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to get dispute',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/dispute/evidence
+ * Attach evidence to the open dispute
+ * 
+ * Body:
+ * - content: string
+ * - deliveryId: number (optional, the delivery this evidence is about)
+ * - externalUrl: string (optional)
+ */
+router.post('/:id/dispute/evidence', requireAuth, authorizeJob('submitEvidence'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const { content, deliveryId, externalUrl } = req.body as EvidenceBody;
+        const userId = req.user!.userId;
+
+        if (isNaN(jobId)) {
             return res.status(400).json({
                 status: 400,
                 error: true,
-                message: `Cannot approve - job must be 'delivered', current: ${job.status}`,
+                message: 'Invalid job ID',
             });
         }
 
-        if (approved) {
-            // Release escrow on SUI blockchain
-            let txDigest: string | undefined;
-            
-            if (job.escrow_object_id) {
-                try {
-                    // Get buyer address
-                    const buyer = await queries.getUserById(job.buyer_id);
-                    if (!buyer) {
-                        throw new Error('Buyer not found');
-                    }
+        if (!content) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'content is required',
+            });
+        }
 
-                    const result = await releaseEscrow({
-                        escrowObjectId: job.escrow_object_id,
-                        buyerAddress: buyer.wallet_address
-                    });
-                    txDigest = result.txDigest;
-                    console.log(`[Jobs] Escrow released: ${txDigest}`);
-                } catch (error) {
-                    console.error('[Jobs] Failed to release escrow:', error);
-                    // Continue anyway to update status
-                }
-            }
+        const evidence = await addEvidence(jobId, userId, { content, deliveryId, externalUrl });
+
+        res.status(201).json({
+            status: 201,
+            error: false,
+            message: 'Evidence submitted',
+            data: {
+                evidence: {
+                    id: evidence.id,
+                    disputeId: evidence.dispute_id,
+                    submittedBy: evidence.submitted_by,
+                    deliveryId: evidence.delivery_id,
+                    content: evidence.content,
+                    externalUrl: evidence.external_url,
+                    createdAt: evidence.created_at,
+                },
+            },
+        });
+    } catch (error) {
+        if (error instanceof DisputeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error submitting evidence:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to submit evidence',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/dispute/resolve
+ * Rule on the open dispute and execute the ruling against the escrow
+ * (the authenticated user must have role 'arbiter' or 'admin')
+ * 
+ * Body:
+ * - ruling: 'refund' | 'release' | 'split'
+ * - agentAmountUsdc: number (required for 'split')
+ * - notes: string (optional)
+ */
+router.post('/:id/dispute/resolve', requireAuth, authorizeJob('resolveDispute'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const { ruling, agentAmountUsdc, notes } = req.body as ResolveDisputeBody;
+        const arbiterId = req.user!.userId;
 
-            // Update job status to 'completed'
-            await queries.updateJobStatus(jobId, 'completed', {
-                release_tx_digest: txDigest
+        if (isNaN(jobId)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'Invalid job ID',
             });
+        }
 
-            // Note: Beep payout would be handled separately or via payment poller
+        if (!['refund', 'release', 'split'].includes(ruling)) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: "ruling ('refund' | 'release' | 'split') is required",
+            });
+        }
 
-            res.json({
-                status: 200,
+        const dispute = await resolveDispute({
+            jobId,
+            arbiterId,
+            ruling,
+            agentAmountUsdc: agentAmountUsdc !== undefined ? Number(agentAmountUsdc) : undefined,
+            notes
+        });
+
+        // The ruling is queued on-chain and recorded once it lands
+        if (dispute.status === 'open') {
+            return res.status(202).json({
+                status: 202,
                 error: false,
-                message: 'Delivery approved and escrow released',
+                message: 'Ruling accepted, on-chain execution pending',
                 data: {
-                    jobId,
-                    status: 'completed',
-                    releaseTxDigest: txDigest,
-                    feedback,
+                    dispute: {
+                        id: dispute.id,
+                        ruling: null,
+                    },
                 },
             });
-        } else {
-            // Rejected - request revision
-            await queries.updateJobStatus(jobId, 'working');
+        }
 
-            res.json({
-                status: 200,
-                error: false,
-                message: 'Delivery rejected, requesting revision',
-                data: {
-                    jobId,
-                    status: 'working',
-                    feedback,
+        res.json({
+            status: 200,
+            error: false,
+            message: `Dispute resolved: ${dispute.ruling}`,
+            data: {
+                dispute: {
+                    id: dispute.id,
+                    ruling: dispute.ruling,
+                    agentAmountUsdc: dispute.agent_amount_usdc,
+                    resolutionTxDigest: dispute.resolution_tx_digest,
+                    resolvedAt: dispute.resolved_at,
                 },
+            },
+        });
+    } catch (error: any) {
+        if (error instanceof DisputeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Cannot resolve - ${error.message}`,
+            });
+        }
+        console.error('Error resolving dispute:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: error.message || 'Failed to resolve dispute',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/plan
+ * Propose a breakdown of the job into sub-tasks with suggested agents (agent only)
+ * Nothing is created - hire with POST /:id/subjobs
+ */
+router.post('/:id/plan', requireAuth, authorizeJob('planSubJobs'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const plan = await planSubJobs(jobId);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Sub-job plan proposed',
+            data: { plan },
+        });
+    } catch (error) {
+        if (error instanceof JobTreeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
             });
         }
+        console.error('Error planning sub-jobs:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to plan sub-jobs',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/jobs/:id/subjobs
+ * Hire agents for sub-jobs of the job (agent only)
+ * 
+ * Body:
+ * - funding: 'parent' (carved out of this job's escrow) | 'pool' (the buyer's user pool)
+ * - subJobs: { title, requirements?, amountUsdc, agentId }[] (agentId is agents.id)
+ */
+router.post('/:id/subjobs', requireAuth, authorizeJob('hireSubAgents'), async (req: Request, res: Response) => {
+    try {
+        const jobId = parseInt(req.params.id);
+        const { funding, subJobs } = req.body as SubJobsBody;
+
+        const created = await createSubJobs({
+            parentJobId: jobId,
+            managerId: req.user!.userId,
+            funding,
+            subJobs,
+            actor: actorOf(req)
+        });
+
+        // Funding may have landed already - read the sub-jobs back
+        const current = await Promise.all(created.map(subJob => queries.getJobById(subJob.id)));
+
+        res.status(201).json({
+            status: 201,
+            error: false,
+            message: `${created.length} sub-job${created.length === 1 ? '' : 's'} created`,
+            data: {
+                subJobs: current.map((subJob, i) => formatSubJob(subJob ?? created[i])),
+            },
+        });
     } catch (error) {
-        console.error('Error approving delivery:', error);
+        if (error instanceof JobTreeError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error creating sub-jobs:', error);
         res.status(500).json({
             status: 500,
             error: true,
-            message: 'Failed to approve delivery',
+            message: 'Failed to create sub-jobs',
         });
     }
 });
 
 /**
- * POST /api/v1/jobs/:id/cancel
- * Cancel job and refund buyer
+ * GET /api/v1/jobs/:id/tree
+ * Get the job with all of its sub-jobs, recursively
  */
-router.post('/:id/cancel', async (req: Request, res: Response) => {
+router.get('/:id/tree', async (req: Request, res: Response) => {
     try {
         const jobId = parseInt(req.params.id);
 
@@ -697,56 +2322,37 @@ router.post('/:id/cancel', async (req: Request, res: Response) => {
             });
         }
 
-        // Only allow cancellation if not yet paid out
-        if (job.status === 'paid_out' || job.status === 'completed') {
-            return res.status(400).json({
-                status: 400,
-                error: true,
-                message: `Cannot cancel - job is already ${job.status}`,
-            });
-        }
-
-        // Cancel escrow if exists
-        if (job.escrow_object_id) {
-            try {
-                await cancelEscrow(job.escrow_object_id);
-                console.log(`[Jobs] Escrow cancelled for job ${jobId}`);
-            } catch (error) {
-                console.error('[Jobs] Failed to cancel escrow:', error);
-                // Continue anyway to update status
-            }
-        }
-
-        await queries.updateJobStatus(jobId, 'cancelled');
-
         res.json({
             status: 200,
             error: false,
-            message: 'Job cancelled successfully',
+            message: 'Job tree retrieved successfully',
             data: {
-                jobId,
-                status: 'cancelled',
+                tree: formatTreeNode(await getJobTree(job)),
             },
         });
     } catch (error) {
-        console.error('Error cancelling job:', error);
+        console.error('Error getting job tree:', error);
         res.status(500).json({
             status: 500,
             error: true,
-            message: 'Failed to cancel job',
+            message: 'Failed to get job tree',
         });
     }
 });
 
 /**
  * POST /api/v1/jobs/confirm-payment
- * Confirm Beep payment and create escrow
+ * Confirm Beep payment and create escrow (buyer only)
+ * 
+ * The reference must be the job's own invoice, paid in full - through Beep
+ * or by a transfer the payment scanner matched - and each invoice can fund
+ * one job only.
  * 
  * Body:
  * - jobId: number
- * - referenceKey: string (Beep payment reference)
+ * - referenceKey: string (the job's Beep invoice ID)
  */
-router.post('/confirm-payment', async (req: Request, res: Response) => {
+router.post('/confirm-payment', requireAuth, authorizeJob('confirmPayment'), async (req: Request, res: Response) => {
     try {
         const { jobId, referenceKey } = req.body;
 
@@ -771,11 +2377,40 @@ router.post('/confirm-payment', async (req: Request, res: Response) => {
             });
         }
 
-        // Verify payment via Beep SDK
+        if (!job.beep_invoice_id || referenceKey !== job.beep_invoice_id) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'referenceKey is not this job\'s invoice'
+            });
+        }
+
+        assertTransition(job, 'escrowed');
+
+        // Verify payment via Beep SDK, falling back to a transfer matched on-chain
         const { beepSDKService } = await import('../services/beep-sdk.js');
+        const { verifyPaymentOnChain } = await import('../services/payment-scanner.js');
         const paymentStatus = await beepSDKService.getPaymentStatus(referenceKey);
+        const expectedUnits = Math.round(Number(job.amount_usdc) * 1_000_000);
+
+        let paidUsdc: number | null = null;
+        if (paymentStatus.paid) {
+            if (paymentStatus.amount === undefined || Math.round(paymentStatus.amount * 1_000_000) !== expectedUnits) {
+                return res.status(400).json({
+                    status: 400,
+                    error: true,
+                    message: `Invoice amount ${paymentStatus.amount ?? 'unknown'} USDC does not match the job amount ${job.amount_usdc} USDC`
+                });
+            }
+            paidUsdc = paymentStatus.amount;
+        } else {
+            const onChain = await verifyPaymentOnChain(job);
+            if (onChain.paid) {
+                paidUsdc = onChain.payment!.amount_usdc;
+            }
+        }
 
-        if (!paymentStatus.paid) {
+        if (paidUsdc === null) {
             return res.status(400).json({
                 status: 400,
                 error: true,
@@ -783,62 +2418,61 @@ router.post('/confirm-payment', async (req: Request, res: Response) => {
             });
         }
 
+        const consumed = await queries.consumeInvoice(referenceKey, job.id, paidUsdc, actorOf(req));
+        if (consumed.job_id !== job.id) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Invoice ${referenceKey} already paid for job #${consumed.job_id}`
+            });
+        }
+
         console.log(`[Jobs] Payment confirmed for job #${jobId}`);
 
-        // Get agent and buyer info
-        const agent = await queries.getUserById(job.agent_id!);
-        const buyer = await queries.getUserById(job.buyer_id);
+        // Lock the funds via the chain outbox (retried with backoff if this attempt fails)
+        const { queueEscrowCreation } = await import('../services/chain-outbox.js');
 
-        if (!agent || !buyer) {
-            throw new Error('Agent or buyer not found');
-        }
+        const op = await queueEscrowCreation(job, {
+            actor: actorOf(req),
+            reason: `Payment ${referenceKey} confirmed`
+        });
 
-        console.log(`[Jobs] Creating escrow: ${job.amount_usdc} USDC for agent ${agent.wallet_address}`);
+        if (op.status === 'failed') {
+            throw new Error(`Escrow creation failed: ${op.last_error}`);
+        }
 
-        // Get REAL USDC coin from platform wallet
-        const { getPlatformUsdcCoin } = await import('../services/payment-poller.js');
-        const usdcCoinId = await getPlatformUsdcCoin(job.amount_usdc);
-        
-        console.log(`[Jobs] Using USDC coin: ${usdcCoinId}`);
+        if (op.status !== 'succeeded') {
+            return res.status(202).json({
+                status: 202,
+                error: false,
+                message: 'Payment confirmed, escrow creation pending',
+                data: {
+                    escrowObjectId: null,
+                    txDigest: null
+                }
+            });
+        }
 
-        // Create SUI escrow with REAL USDC
-        const { createEscrow } = await import('../services/sui.js');
-        const { getDb } = await import('../db/database.js');
-        
-        const escrow = await createEscrow({
-            buyerAddress: buyer.wallet_address,
-            agentAddress: agent.wallet_address,
-            amountUsdc: job.amount_usdc,
-            jobReference: job.reference_key || `JOB-${jobId}`,
-            usdcCoinId // REAL USDC coin from platform
-        });
-
-        console.log(`[Jobs] ✅ Escrow created successfully: ${escrow.escrowObjectId}`);
-        console.log(`[Jobs] Transaction: ${escrow.txDigest}`);
-
-        // Update job status
-        const db = getDb();
-        await db.query(
-            `UPDATE jobs 
-             SET status = $1, 
-                 escrow_object_id = $2, 
-                 payment_tx = $3,
-                 updated_at = NOW() 
-             WHERE id = $4`,
-            ['escrowed', escrow.escrowObjectId, escrow.txDigest, jobId]
-        );
+        console.log(`[Jobs] ✅ Escrow created successfully: ${op.result.escrowObjectId}`);
 
         res.json({
             status: 200,
             error: false,
             message: 'Payment confirmed and escrow created',
             data: {
-                escrowObjectId: escrow.escrowObjectId,
-                txDigest: escrow.txDigest
+                escrowObjectId: op.result.escrowObjectId,
+                txDigest: op.tx_digest
             }
         });
 
     } catch (error: any) {
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({
+                status: 409,
+                error: true,
+                message: `Cannot confirm payment - ${error.message}`
+            });
+        }
         console.error('[Jobs] Error confirming payment:', error);
         res.status(500).json({
             status: 500,
@@ -851,9 +2485,10 @@ router.post('/confirm-payment', async (req: Request, res: Response) => {
 
 /**
  * @route POST /api/v1/jobs/:id/simulate-payment
- * @desc TEST ONLY: Simulate successful payment
+ * @desc TEST ONLY: Simulate successful payment (admin only - it locks
+ *       platform funds in escrow without any payment received)
  */
-router.post('/:id/simulate-payment', async (req, res) => {
+router.post('/:id/simulate-payment', requireAuth, authorizeJob('simulatePayment'), async (req, res) => {
     try {
         const jobId = parseInt(req.params.id);
         console.log(`[Jobs] 🛠️ Simulating payment for job ${jobId}...`);
@@ -863,6 +2498,8 @@ router.post('/:id/simulate-payment', async (req, res) => {
             return res.status(404).json({ error: true, message: 'Job not found' });
         }
 
+        assertTransition(job, 'escrowed');
+
         // Manually trigger the PaymentPoller logic
         const { processPayment } = await import('../services/payment-poller.js');
         
@@ -879,9 +2516,176 @@ router.post('/:id/simulate-payment', async (req, res) => {
             }
         });
     } catch (error: any) {
+        if (error instanceof InvalidJobTransitionError) {
+            return res.status(409).json({ status: 409, error: true, message: error.message });
+        }
         console.error('[Jobs] Simulation failed:', error);
         res.status(500).json({ status: 500, error: true, message: error.message });
     }
 });
 
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Shape a milestone for API responses
+ */
+function formatMilestone(milestone: queries.JobMilestone) {
+    return {
+        id: milestone.id,
+        position: milestone.position,
+        title: milestone.title,
+        description: milestone.description,
+        amountUsdc: milestone.amount_usdc,
+        status: milestone.status,
+        deliveryId: milestone.delivery_id,
+        revisionCount: milestone.revision_count,
+        releaseTxDigest: milestone.release_tx_digest,
+        deliveredAt: milestone.delivered_at,
+        approvedAt: milestone.approved_at,
+    };
+}
+
+/**
+ * Shape the meter of an hourly job for API responses (null for fixed-price jobs)
+ */
+function formatMeter(job: queries.Job) {
+    const reading = getMeterReading(job);
+    if (!reading) return null;
+
+    return {
+        state: reading.state,
+        hourlyRateUsdc: reading.hourlyRateUsdc,
+        capUsdc: reading.capUsdc,
+        accruedSeconds: reading.accruedSeconds,
+        accruedUsdc: reading.accruedUsdc,
+        remainingUsdc: reading.remainingUsdc,
+        runningSince: reading.runningSince,
+        capReached: reading.capReached,
+        streamInvoiceId: reading.streamInvoiceId,
+    };
+}
+
+/**
+ * Shape a meter segment for API responses
+ */
+function formatMeterSegment(segment: queries.JobMeterSegment) {
+    return {
+        id: segment.id,
+        startedAt: segment.started_at,
+        startedBy: segment.started_by,
+        endedAt: segment.ended_at,
+        endedBy: segment.ended_by,
+        endReason: segment.end_reason,
+        seconds: segment.seconds,
+        amountUsdc: segment.amount_usdc,
+        streamInvoiceId: segment.stream_invoice_id,
+    };
+}
+
+/**
+ * Shape a job offer for API responses
+ */
+function formatOffer(offer: queries.JobOffer) {
+    return {
+        id: offer.id,
+        agentId: offer.agent_id,
+        status: offer.status,
+        amountUsdc: offer.amount_usdc,
+        deadlineAt: offer.deadline_at,
+        counterAmountUsdc: offer.counter_amount_usdc,
+        counterDeadlineAt: offer.counter_deadline_at,
+        message: offer.message,
+        expiresAt: offer.expires_at,
+        respondedAt: offer.responded_at,
+        createdAt: offer.created_at,
+    };
+}
+
+/**
+ * Shape a review for API responses
+ */
+function formatReview(review: queries.JobReview) {
+    return {
+        id: review.id,
+        jobId: review.job_id,
+        agentId: review.agent_id,
+        reviewerId: review.reviewer_id,
+        stars: review.stars,
+        quality: review.quality,
+        speed: review.speed,
+        communication: review.communication,
+        comment: review.comment,
+        amountUsdc: review.amount_usdc,
+        createdAt: review.created_at,
+    };
+}
+
+/**
+ * Shape a sub-job for API responses
+ */
+function formatSubJob(job: queries.Job) {
+    return {
+        id: job.id,
+        parentJobId: job.parent_job_id,
+        title: job.title,
+        buyerId: job.buyer_id,
+        agentId: job.agent_id,
+        amountUsdc: Number(job.amount_usdc),
+        fundingSource: job.funding_source,
+        status: job.status,
+        escrowObjectId: job.escrow_object_id,
+        createdAt: job.created_at,
+    };
+}
+
+/**
+ * Shape a job tree for API responses
+ */
+function formatTreeNode(node: JobTreeNode): object {
+    return {
+        ...formatSubJob(node.job),
+        allocatedUsdc: node.allocatedUsdc,
+        remainingUsdc: Math.round((Number(node.job.amount_usdc) - node.allocatedUsdc) * 1_000_000) / 1_000_000,
+        subJobs: node.subJobs.map(formatTreeNode),
+    };
+}
+
+/**
+ * Shape a dispute and its evidence for API responses
+ */
+function formatDispute(details: Awaited<ReturnType<typeof getDisputeDetails>>) {
+    if (!details) return null;
+    const { dispute, evidence } = details;
+
+    return {
+        dispute: {
+            id: dispute.id,
+            jobId: dispute.job_id,
+            openedBy: dispute.opened_by,
+            openedByParty: dispute.opened_by_party,
+            reason: dispute.reason,
+            status: dispute.status,
+            ruling: dispute.ruling,
+            agentAmountUsdc: dispute.agent_amount_usdc,
+            arbiterId: dispute.arbiter_id,
+            rulingNotes: dispute.ruling_notes,
+            resolutionTxDigest: dispute.resolution_tx_digest,
+            autoResolved: dispute.auto_resolved,
+            deadlineAt: dispute.deadline_at,
+            resolvedAt: dispute.resolved_at,
+            createdAt: dispute.created_at,
+        },
+        evidence: evidence.map(item => ({
+            id: item.id,
+            submittedBy: item.submitted_by,
+            deliveryId: item.delivery_id,
+            content: item.content,
+            externalUrl: item.external_url,
+            createdAt: item.created_at,
+        })),
+    };
+}
+
 export default router;
@@ -0,0 +1,88 @@
+/**
+ * =============================================================================
+ * Payments Routes - Beep Payment Notifications
+ * =============================================================================
+ * 
+ * Endpoints:
+ * - POST   /api/v1/payments/webhook  - Beep payment webhook (signed)
+ * 
+ * =============================================================================
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+    verifyWebhookSignature,
+    parseWebhookPayload,
+    handleWebhookEvent,
+    WebhookError
+} from '../services/beep-webhook.js';
+
+const router = Router();
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * POST /api/v1/payments/webhook
+ * Receive invoice status changes from Beep
+ * 
+ * Headers:
+ * - x-beep-timestamp: unix seconds
+ * - x-beep-signature: sha256=<hex HMAC of "<timestamp>.<raw body>">
+ * 
+ * Non-2xx responses make Beep retry the delivery.
+ */
+router.post('/webhook', async (req: Request, res: Response) => {
+    try {
+        verifyWebhookSignature(
+            req.rawBody,
+            req.header('x-beep-signature'),
+            req.header('x-beep-timestamp')
+        );
+
+        const payload = parseWebhookPayload(req.body);
+        const result = await handleWebhookEvent(payload);
+
+        if (result.outcome === 'failed') {
+            return res.status(500).json({
+                status: 500,
+                error: true,
+                message: result.message,
+                data: {
+                    invoiceUuid: payload.invoiceUuid,
+                    jobId: result.jobId,
+                    attempts: result.event.attempts,
+                },
+            });
+        }
+
+        res.json({
+            status: 200,
+            error: false,
+            message: result.message,
+            data: {
+                invoiceUuid: payload.invoiceUuid,
+                eventType: payload.type,
+                outcome: result.outcome,
+                jobId: result.jobId,
+            },
+        });
+    } catch (error) {
+        if (error instanceof WebhookError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error handling Beep webhook:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to handle webhook',
+        });
+    }
+});
+
+export default router;
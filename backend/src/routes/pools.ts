@@ -12,6 +12,8 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { authorizePool } from '../middleware/policy.js';
 import {
     recordPoolCreation,
     buildDepositTransaction,
@@ -38,7 +40,7 @@ const router = Router();
  * POST /api/pools/build-create
  * Build transaction for pool creation (user signs client-side)
  */
-router.post('/build-create', async (req: Request, res: Response) => {
+router.post('/build-create', requireAuth, async (req: Request, res: Response) => {
     try {
         const { agentAddress, initialCoinId, spendingLimit } = req.body;
 
@@ -74,10 +76,10 @@ router.post('/build-create', async (req: Request, res: Response) => {
  * POST /api/pools/record
  * Record pool creation after user has signed and executed transaction
  */
-router.post('/record', async (req: Request, res: Response) => {
+router.post('/record', requireAuth, async (req: Request, res: Response) => {
     try {
+        const userId = req.user!.userId;
         const {
-            userId,
             poolObjectId,
             poolAddress,
             agentAddress,
@@ -86,7 +88,7 @@ router.post('/record', async (req: Request, res: Response) => {
             initialDeposit
         } = req.body;
 
-        if (!userId || !poolObjectId || !poolAddress || !agentAddress || !spendingLimit || !txDigest) {
+        if (!poolObjectId || !poolAddress || !agentAddress || !spendingLimit || !txDigest) {
             return res.status(400).json({
                 success: false,
                 error: 'Missing required fields'
@@ -94,7 +96,7 @@ router.post('/record', async (req: Request, res: Response) => {
         }
 
         const pool = await recordPoolCreation(
-            parseInt(userId),
+            userId,
             poolObjectId,
             poolAddress,
             agentAddress,
@@ -243,7 +245,7 @@ router.get('/:poolId/transactions', async (req: Request, res: Response) => {
  * POST /api/pools/:poolId/deposit/build
  * Build deposit transaction
  */
-router.post('/:poolId/deposit/build', async (req: Request, res: Response) => {
+router.post('/:poolId/deposit/build', requireAuth, authorizePool('deposit'), async (req: Request, res: Response) => {
     try {
         const { poolId } = req.params;
         const { coinId } = req.body;
@@ -276,7 +278,7 @@ router.post('/:poolId/deposit/build', async (req: Request, res: Response) => {
  * POST /api/pools/:poolId/deposit/record
  * Record deposit after transaction executed
  */
-router.post('/:poolId/deposit/record', async (req: Request, res: Response) => {
+router.post('/:poolId/deposit/record', requireAuth, authorizePool('deposit'), async (req: Request, res: Response) => {
     try {
         const { poolId } = req.params;
         const { amount, txDigest } = req.body;
@@ -308,7 +310,7 @@ router.post('/:poolId/deposit/record', async (req: Request, res: Response) => {
  * POST /api/pools/:poolId/withdraw/build
  * Build withdrawal transaction
  */
-router.post('/:poolId/withdraw/build', async (req: Request, res: Response) => {
+router.post('/:poolId/withdraw/build', requireAuth, authorizePool('withdraw'), async (req: Request, res: Response) => {
     try {
         const { poolId } = req.params;
         const { amount } = req.body;
@@ -341,7 +343,7 @@ router.post('/:poolId/withdraw/build', async (req: Request, res: Response) => {
  * POST /api/pools/:poolId/withdraw/record
  * Record withdrawal after transaction executed
  */
-router.post('/:poolId/withdraw/record', async (req: Request, res: Response) => {
+router.post('/:poolId/withdraw/record', requireAuth, authorizePool('withdraw'), async (req: Request, res: Response) => {
     try {
         const { poolId } = req.params;
         const { amount, txDigest } = req.body;
@@ -377,7 +379,7 @@ router.post('/:poolId/withdraw/record', async (req: Request, res: Response) => {
  * POST /api/pools/:poolId/sync
  * Sync pool balance from blockchain
  */
-router.post('/:poolId/sync', async (req: Request, res: Response) => {
+router.post('/:poolId/sync', requireAuth, authorizePool('sync'), async (req: Request, res: Response) => {
     try {
         const { poolId } = req.params;
 
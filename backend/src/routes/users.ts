@@ -4,7 +4,10 @@
  * =============================================================================
  * 
  * Endpoints:
- * - POST   /api/v1/users/auth     - Authenticate/register with wallet
+ * - POST   /api/v1/users/auth/challenge - Get a sign-in nonce and message
+ * - POST   /api/v1/users/auth     - Sign in with a signed challenge
+ * - POST   /api/v1/users/auth/refresh   - Rotate session tokens
+ * - POST   /api/v1/users/auth/logout    - Revoke a refresh token
  * - GET    /api/v1/users/me       - Get current user profile
  * - PUT    /api/v1/users/me       - Update user profile
  * - GET    /api/v1/users/:address - Get public user by wallet address
@@ -12,9 +15,17 @@
  * =============================================================================
  */
 
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Request, Response } from 'express';
 import * as queries from '../db/queries.js';
-import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { requireAuth } from '../middleware/auth.js';
+import {
+    createChallenge,
+    login,
+    refreshSession,
+    logout,
+    AuthError,
+    Session
+} from '../services/session.js';
 
 const router = Router();
 
@@ -22,10 +33,18 @@ const router = Router();
 // TYPES
 // =============================================================================
 
+interface ChallengeBody {
+    walletAddress: string;
+}
+
 interface AuthBody {
     walletAddress: string;
-    signature?: string;
-    message?: string;
+    signature: string;
+    nonce: string;
+}
+
+interface RefreshBody {
+    refreshToken: string;
 }
 
 interface UpdateProfileBody {
@@ -33,86 +52,73 @@ interface UpdateProfileBody {
     email?: string;
 }
 
-// Extend Express Request to include user
-declare global {
-    namespace Express {
-        interface Request {
-            user?: {
-                walletAddress: string;
-                userId: number;
-            };
-        }
-    }
-}
-
 // =============================================================================
-// MIDDLEWARE
+// ROUTES
 // =============================================================================
 
 /**
- * Authentication middleware
- * TODO: Implement proper signature verification
+ * POST /api/v1/users/auth/challenge
+ * Issue a single-use sign-in challenge for a wallet
+ * 
+ * Body:
+ * - walletAddress: string
  */
-async function authenticateWallet(req: Request, res: Response, next: NextFunction) {
+router.post('/auth/challenge', async (req: Request, res: Response) => {
     try {
-        const walletAddress = req.headers['x-wallet-address'] as string;
-        
-        if (!walletAddress) {
-            return res.status(401).json({
-                status: 401,
-                error: true,
-                message: 'Authentication required - missing x-wallet-address header',
-            });
-        }
+        const { walletAddress } = req.body as ChallengeBody;
 
-        // Find user
-        const user = await queries.findUserByWallet(walletAddress);
-        
-        if (!user) {
-            return res.status(401).json({
-                status: 401,
+        if (!walletAddress || !isValidSuiAddress(walletAddress)) {
+            return res.status(400).json({
+                status: 400,
                 error: true,
-                message: 'User not found - please authenticate first',
+                message: 'A valid SUI walletAddress is required',
             });
         }
 
-        // Attach user to request
-        req.user = {
-            walletAddress: user.wallet_address,
-            userId: user.id,
-        };
+        const challenge = await createChallenge(walletAddress);
 
-        next();
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Sign this message with your wallet',
+            data: {
+                nonce: challenge.nonce,
+                message: challenge.message,
+                expiresAt: challenge.expiresAt,
+            },
+        });
     } catch (error) {
-        console.error('Authentication error:', error);
+        console.error('Error creating auth challenge:', error);
         res.status(500).json({
             status: 500,
             error: true,
-            message: 'Authentication failed',
+            message: 'Failed to create challenge',
         });
     }
-}
+});
 
 /**
  * POST /api/v1/users/auth
- * Authenticate with wallet (signature verification optional for MVP)
+ * Sign in (or register) by proving ownership of the wallet
+ * 
+ * Body:
+ * - walletAddress: string
+ * - nonce: string (from /auth/challenge)
+ * - signature: string (wallet signature of the challenge message)
  */
 router.post('/auth', async (req: Request, res: Response) => {
     try {
-        const { walletAddress, signature,message } = req.body as AuthBody;
+        const { walletAddress, signature, nonce } = req.body as AuthBody;
 
-        // Validate wallet address
-        if (!walletAddress) {
+        if (!walletAddress || !signature || !nonce) {
             return res.status(400).json({
                 status: 400,
                 error: true,
-                message: 'walletAddress is required',
+                message: 'walletAddress, nonce and signature are required',
             });
         }
 
-        // Validate SUI address format (basic check)
-        // SUI addresses are 0x + 64 hex chars, but can be shorter when normalized
-        if (!walletAddress.startsWith('0x') || walletAddress.length < 42 || walletAddress.length > 66) {
+        if (!isValidSuiAddress(walletAddress)) {
             return res.status(400).json({
                 status: 400,
                 error: true,
@@ -120,48 +126,101 @@ router.post('/auth', async (req: Request, res: Response) => {
             });
         }
 
-        // Verify signature if provided
-        if (signature && message) {
-            const isValid = await verifyWalletSignature(walletAddress, signature, message);
-            if (!isValid) {
-                return res.status(401).json({
-                    status: 401,
-                    error: true,
-                    message: 'Invalid signature',
-                });
-            }
+        const session = await login(walletAddress, signature, nonce);
+
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Authentication successful',
+            data: formatSession(session),
+        });
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error authenticating:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Authentication failed',
+        });
+    }
+});
+
+/**
+ * POST /api/v1/users/auth/refresh
+ * Exchange a refresh token for new session tokens
+ * 
+ * Body:
+ * - refreshToken: string
+ */
+router.post('/auth/refresh', async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body as RefreshBody;
+
+        if (!refreshToken) {
+            return res.status(400).json({
+                status: 400,
+                error: true,
+                message: 'refreshToken is required',
+            });
         }
 
-        // Get or create user
-        const user = await queries.getOrCreateUser(walletAddress);
+        const session = await refreshSession(refreshToken);
 
-        // TODO: Update last_login timestamp
-        // await queries.updateLastLogin(user.id);
+        res.json({
+            status: 200,
+            error: false,
+            message: 'Session refreshed',
+            data: formatSession(session),
+        });
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return res.status(error.statusCode).json({
+                status: error.statusCode,
+                error: true,
+                message: error.message,
+            });
+        }
+        console.error('Error refreshing session:', error);
+        res.status(500).json({
+            status: 500,
+            error: true,
+            message: 'Failed to refresh session',
+        });
+    }
+});
 
-        // TODO: Generate session token/JWT if needed
-        // const token = generateJWT(user);
+/**
+ * POST /api/v1/users/auth/logout
+ * Revoke a refresh token
+ * 
+ * Body:
+ * - refreshToken: string
+ */
+router.post('/auth/logout', async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body as RefreshBody;
+
+        if (refreshToken) {
+            await logout(refreshToken);
+        }
 
         res.json({
             status: 200,
             error: false,
-            message: 'Authentication successful',
-            data: {
-                user: {
-                    id: user.id,
-                    walletAddress: user.wallet_address,
-                    role: user.role,
-                    displayName: user.display_name,
-                    createdAt: user.created_at,
-                },
-                // token, // Include if using JWT
-            },
+            message: 'Logged out',
         });
     } catch (error) {
-        console.error('Error authenticating:', error);
+        console.error('Error logging out:', error);
         res.status(500).json({
             status: 500,
             error: true,
-            message: 'Authentication failed',
+            message: 'Failed to log out',
         });
     }
 });
@@ -171,7 +230,7 @@ router.post('/auth', async (req: Request, res: Response) => {
  * Get deterministic agent wallet address for authenticated user
  * This wallet is auto-generated from the user's ID using HMAC-SHA256
  */
-// router.get('/agent-wallet', authenticateWallet, async (req: Request, res: Response) => {
+// router.get('/agent-wallet', requireAuth, async (req: Request, res: Response) => {
 //     try {
 //         const userId = req.user!.userId;
 //         const agentAddress = getAgentAddress(userId);
@@ -200,7 +259,7 @@ router.post('/auth', async (req: Request, res: Response) => {
  * GET /api/v1/users/me
  * Get current authenticated user's profile
  */
-router.get('/me', authenticateWallet, async (req: Request, res: Response) => {
+router.get('/me', requireAuth, async (req: Request, res: Response) => {
     try {
         const walletAddress = req.user!.walletAddress;
         
@@ -258,7 +317,7 @@ router.get('/me', authenticateWallet, async (req: Request, res: Response) => {
  * PUT /api/v1/users/me
  * Update current user's profile
  */
-router.put('/me', authenticateWallet, async (req: Request, res: Response) => {
+router.put('/me', requireAuth, async (req: Request, res: Response) => {
     try {
         const { displayName, email } = req.body as UpdateProfileBody;
 
@@ -310,7 +369,7 @@ router.get('/:address', async (req: Request, res: Response) => {
         const { address } = req.params;
 
         // Validate address format
-        if (!address.startsWith('0x') || address.length < 42 || address.length > 66) {
+        if (!isValidSuiAddress(address)) {
             return res.status(400).json({
                 status: 400,
                 error: true,
@@ -377,25 +436,30 @@ function isValidEmail(email: string): boolean {
 }
 
 /**
- * Verify wallet signature (TODO: implement with SUI SDK)
+ * Basic SUI address format check
+ * SUI addresses are 0x + 64 hex chars, but can be shorter when normalized
  */
-async function verifyWalletSignature(
-    walletAddress: string,
-    signature: string,
-    message: string
-): Promise<boolean> {
-    // Use @mysten/sui to verify signature
-    try {
-        await verifyPersonalMessageSignature(
-            new TextEncoder().encode(message),
-            signature,
-            { address: walletAddress }
-        );
-        return true;
-    } catch (error) {
-        console.error('Signature verification failed:', error);
-        return false;
-    }
+function isValidSuiAddress(address: string): boolean {
+    return address.startsWith('0x') && address.length >= 42 && address.length <= 66;
+}
+
+/**
+ * Shape a session for API responses
+ */
+function formatSession(session: Session) {
+    return {
+        user: {
+            id: session.user.id,
+            walletAddress: session.user.wallet_address,
+            role: session.user.role,
+            displayName: session.user.display_name,
+            createdAt: session.user.created_at,
+        },
+        accessToken: session.accessToken,
+        accessTokenExpiresAt: session.accessTokenExpiresAt,
+        refreshToken: session.refreshToken,
+        refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+    };
 }
 
 export default router;
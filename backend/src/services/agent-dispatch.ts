@@ -0,0 +1,319 @@
+/**
+ * =============================================================================
+ * Agent Dispatch Service - Sending Escrowed Jobs to Agents over MCP
+ * =============================================================================
+ *
+ * Once a job's funds are locked it is sent to the assigned agent's own MCP
+ * server (agents.mcp_endpoint). Dispatches are queued in agent_dispatches
+ * and run like the chain outbox: queueing tries once right away, failed
+ * attempts are retried by the worker with exponential backoff until
+ * AGENT_DISPATCH_MAX_ATTEMPTS is reached.
+ *
+ * WORKFLOW:
+ * 1. escrowed → working when the task is sent
+ * 2. Progress notifications from the agent are stored on the dispatch
+ * 3. A successful result becomes a delivery (createDelivery) and the job
+ *    moves to 'delivered' for the buyer to review
+ *
+ * Hourly jobs are metered while the agent works on a dispatch: the meter
+ * runs during each attempt and is paused ('idle') between them.
+ *
+ * Agents without an MCP endpoint, and jobs whose agent gives up, are worked
+ * and delivered by hand (POST /jobs/:id/delivery). Revisions requested by
+ * the buyer are not re-dispatched.
+ *
+ * =============================================================================
+ */
+
+import {
+    getJobById,
+    getAgentByUserId,
+    enqueueAgentDispatch,
+    claimAgentDispatches,
+    updateAgentDispatchProgress,
+    finishAgentDispatch,
+    failAgentDispatch,
+    getUndispatchedJobs,
+    createDelivery,
+    AgentDispatch,
+    Job
+} from '../db/queries.js';
+import { executeFreelanceTask, FreelanceTaskResult, TaskProgress } from './mcp-client.js';
+import { transitionJob, recordJobActivity, canTransition, JobActor } from './job-lifecycle.js';
+import { rollUpDelivery, JobTreeError } from './job-tree.js';
+import { startMeter, pauseMeter, stopMeterIfHourly, MeterError } from './metering.js';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const config = {
+    enabled: process.env.AGENT_DISPATCH_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.AGENT_DISPATCH_INTERVAL_MS || '30000'),
+    maxAttempts: parseInt(process.env.AGENT_DISPATCH_MAX_ATTEMPTS || '3'),
+    batchSize: 5,
+    /** Longer than the longest task (AGENT_TASK_MAX_TIMEOUT_MS) */
+    leaseSeconds: Math.ceil(parseInt(process.env.AGENT_TASK_MAX_TIMEOUT_MS || '1800000') / 1000) + 60,
+    baseDelayMs: 60 * 1000,
+    maxDelayMs: 60 * 60 * 1000,
+    /** Store at most one progress notification per interval */
+    progressThrottleMs: 2000
+};
+
+const DISPATCH_ACTOR: JobActor = 'system:agent-dispatch';
+
+/** Result content types mapped to job_deliveries.delivery_type */
+const DELIVERY_TYPES: Record<FreelanceTaskResult['contentType'], string> = {
+    code: 'code',
+    text: 'text',
+    json: 'document',
+    url: 'link'
+};
+
+// =============================================================================
+// QUEUEING
+// =============================================================================
+
+/**
+ * Queue the dispatch of an escrowed job to its agent and try it right away
+ * Returns null when the agent has no MCP endpoint (manual work) or
+ * dispatching is disabled
+ */
+export async function queueAgentDispatch(job: Job): Promise<AgentDispatch | null> {
+    if (!config.enabled || job.agent_id === null) {
+        return null;
+    }
+
+    const agent = await getAgentByUserId(job.agent_id);
+    if (!agent?.mcp_endpoint) {
+        return null;
+    }
+
+    const dispatch = await enqueueAgentDispatch(job.id, agent.mcp_endpoint);
+    if (dispatch.status !== 'pending') {
+        return dispatch;
+    }
+
+    console.log(`[AgentDispatch] Queued job ${job.id} for ${agent.mcp_endpoint}`);
+
+    // Tasks take minutes - run the first attempt in the background
+    claimAgentDispatches(1, config.leaseSeconds, dispatch.id)
+        .then(([claimed]) => claimed && executeDispatch(claimed))
+        .catch(err => console.error(`[AgentDispatch] Failed to start dispatch for job ${job.id}:`, err));
+
+    return dispatch;
+}
+
+// =============================================================================
+// WORKER
+// =============================================================================
+
+let workerInterval: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+/**
+ * Start the background dispatch worker
+ */
+export function startAgentDispatchWorker(): void {
+    if (!config.enabled) {
+        console.log('[AgentDispatch] Disabled (AGENT_DISPATCH_ENABLED=false)');
+        return;
+    }
+
+    if (workerInterval) {
+        console.log('[AgentDispatch] Worker already running');
+        return;
+    }
+
+    console.log(`[AgentDispatch] Starting worker with ${config.intervalMs}ms interval`);
+
+    processDueDispatches();
+    workerInterval = setInterval(processDueDispatches, config.intervalMs);
+}
+
+/**
+ * Stop the background dispatch worker
+ */
+export function stopAgentDispatchWorker(): void {
+    if (workerInterval) {
+        clearInterval(workerInterval);
+        workerInterval = null;
+        console.log('[AgentDispatch] Worker stopped');
+    }
+}
+
+async function processDueDispatches(): Promise<void> {
+    // Prevent overlapping runs
+    if (isProcessing) return;
+    isProcessing = true;
+
+    try {
+        // Jobs escrowed outside the outbox (e.g. by the chain indexer)
+        for (const job of await getUndispatchedJobs(config.batchSize)) {
+            await enqueueAgentDispatch(job.id, job.mcp_endpoint);
+        }
+
+        const dispatches = await claimAgentDispatches(config.batchSize, config.leaseSeconds);
+
+        if (dispatches.length > 0) {
+            console.log(`[AgentDispatch] Running ${dispatches.length} dispatches`);
+        }
+
+        for (const dispatch of dispatches) {
+            await executeDispatch(dispatch);
+        }
+    } catch (error) {
+        console.error('[AgentDispatch] Error processing dispatches:', error);
+    } finally {
+        isProcessing = false;
+    }
+}
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+/**
+ * Run one claimed attempt of a dispatch
+ *
+ * WORKFLOW:
+ * 1. Skip jobs that moved on (cancelled, delivered by hand, disputed, ...)
+ * 2. Start the job and call the agent, storing its progress
+ * 3. Record the result as a delivery, or schedule a retry / give up
+ */
+async function executeDispatch(dispatch: AgentDispatch): Promise<AgentDispatch> {
+    const label = `dispatch #${dispatch.id} (job ${dispatch.job_id}, attempt ${dispatch.attempts})`;
+
+    try {
+        let job = await getJobById(dispatch.job_id);
+
+        if (!job || (job.status !== 'escrowed' && job.status !== 'working')) {
+            console.log(`[AgentDispatch] ${label}: job is '${job?.status ?? 'missing'}', abandoning`);
+            return finishAgentDispatch(dispatch.id, 'abandoned', { reason: `Job is ${job?.status ?? 'missing'}` });
+        }
+
+        if (job.status === 'escrowed') {
+            job = await transitionJob(job.id, 'working', {
+                actor: DISPATCH_ACTOR,
+                reason: `Task sent to the agent at ${dispatch.mcp_endpoint}`
+            });
+        }
+
+        if (job.billing === 'hourly') {
+            await startMeter(job.id, DISPATCH_ACTOR)
+                .catch(err => console.error(`[AgentDispatch] ${label}: failed to start the meter:`, err));
+        }
+
+        const result = await executeFreelanceTask(
+            dispatch.mcp_endpoint,
+            {
+                jobId: job.id,
+                title: job.title,
+                requirements: job.requirements || job.title,
+                taskType: inferTaskType(job)
+            },
+            { onProgress: throttleProgress(dispatch.id) }
+        );
+
+        if (!result.success) {
+            return retryOrGiveUp(dispatch, label, result.error || 'Task execution failed', result.retryable !== false);
+        }
+
+        // The buyer may have cancelled or disputed while the agent worked
+        const current = await getJobById(job.id);
+        if (!current || !canTransition(current.status, 'delivered')) {
+            console.log(`[AgentDispatch] ${label}: job is '${current?.status ?? 'missing'}', result dropped`);
+            return finishAgentDispatch(dispatch.id, 'abandoned', {
+                reason: `Job was ${current?.status ?? 'missing'} when the result arrived`
+            });
+        }
+
+        const content = await rollUpDelivery(current, result.content);
+        const deliveryId = await createDelivery(current.id, content, DELIVERY_TYPES[result.contentType]);
+
+        await transitionJob(current.id, 'delivered', {
+            actor: DISPATCH_ACTOR,
+            reason: `Delivery #${deliveryId} submitted by the agent over MCP`
+        });
+        await stopMeterIfHourly(current, 'delivered', DISPATCH_ACTOR);
+
+        console.log(`[AgentDispatch] ✅ ${label}: delivery #${deliveryId} recorded`);
+        return finishAgentDispatch(dispatch.id, 'succeeded', { deliveryId });
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // Open sub-jobs settle on their own - try again later
+        return retryOrGiveUp(dispatch, label, message, true, error instanceof JobTreeError);
+    }
+}
+
+async function retryOrGiveUp(
+    dispatch: AgentDispatch,
+    label: string,
+    message: string,
+    retryable: boolean,
+    ignoreAttemptLimit: boolean = false
+): Promise<AgentDispatch> {
+    const retry = retryable && (ignoreAttemptLimit || dispatch.attempts < config.maxAttempts);
+    const nextAttemptAt = retry ? new Date(Date.now() + getBackoffMs(dispatch.attempts)) : null;
+
+    const failed = await failAgentDispatch(dispatch.id, message, nextAttemptAt);
+
+    // The agent is not working until the next attempt (or by hand)
+    await pauseMeter(dispatch.job_id, 'idle', DISPATCH_ACTOR)
+        .catch(err => {
+            if (!(err instanceof MeterError)) console.error('[AgentDispatch] Failed to pause the meter:', err);
+        });
+
+    if (nextAttemptAt) {
+        console.warn(`[AgentDispatch] ⚠️ ${label} failed, retrying at ${nextAttemptAt.toISOString()}: ${message}`);
+    } else {
+        console.error(`[AgentDispatch] ❌ ${label} gave up: ${message}`);
+
+        // The job stays 'working' - the agent can still deliver by hand
+        await recordJobActivity(dispatch.job_id, {
+            actor: DISPATCH_ACTOR,
+            reason: `Agent did not deliver over MCP after ${dispatch.attempts} attempts: ${message}`
+        }).catch(err => console.error('[AgentDispatch] Failed to record job activity:', err));
+    }
+
+    return failed;
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Store progress notifications, at most one per progressThrottleMs
+ */
+function throttleProgress(dispatchId: number): (progress: TaskProgress) => void {
+    let lastStoredAt = 0;
+
+    return (progress) => {
+        const now = Date.now();
+        if (now - lastStoredAt < config.progressThrottleMs) {
+            return;
+        }
+        lastStoredAt = now;
+
+        updateAgentDispatchProgress(dispatchId, progress.progress, progress.total ?? null, progress.message ?? null)
+            .catch(err => console.error(`[AgentDispatch] Failed to store progress of dispatch #${dispatchId}:`, err));
+    };
+}
+
+/**
+ * Pick the agent tool for a job from its title and requirements
+ */
+function inferTaskType(job: Job): string {
+    const text = `${job.title}\n${job.requirements ?? ''}`.toLowerCase();
+
+    if (/\b(audit|security review|code review)\b/.test(text)) return 'code_audit';
+    if (/\btranslat/.test(text)) return 'translation';
+    if (/\b(code|app|website|api|script|contract|bug|implement)\b/.test(text)) return 'code_generation';
+    return 'general';
+}
+
+function getBackoffMs(attempts: number): number {
+    return Math.min(config.baseDelayMs * 2 ** (attempts - 1), config.maxDelayMs);
+}
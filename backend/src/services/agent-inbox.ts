@@ -0,0 +1,471 @@
+/**
+ * =============================================================================
+ * Agent Inbox Service - Job Offers and Deadlines
+ * =============================================================================
+ *
+ * OFFERS:
+ *   A job created for an agent (by the buyer or from a Personal Agent
+ *   shortlist pick) starts as 'offered'. The agent has JOB_OFFER_TTL_HOURS
+ *   to answer from its inbox (GET /agents/:id/jobs?status=offered):
+ *   - accept:  the job becomes 'unpaid' and the buyer can fund it
+ *   - decline: the job moves on to the next candidate
+ *   - counter: the agent proposes another amount and/or deadline; the buyer
+ *              accepts (new terms, job becomes 'unpaid') or rejects it (next
+ *              candidate), again within JOB_OFFER_TTL_HOURS
+ *   Unanswered offers and counter-offers expire the same way as a decline.
+ *   The next candidate is the next available agent on the shortlist of the
+ *   request the job came from; without one the job is cancelled. Sub-jobs
+ *   are hired by the manager agent directly and skip the offer.
+ *
+ * DEADLINES:
+ *   jobs.deadline_at is the agreed delivery deadline. The monitor flags
+ *   escrowed/working jobs whose deadline passed. Once the agent has started,
+ *   the buyer of a job with a deadline can only cancel (for a refund) after
+ *   the deadline has passed.
+ *
+ * =============================================================================
+ */
+
+import { PoolClient } from 'pg';
+import { transaction } from '../db/database.js';
+import {
+    getJobForUpdate,
+    getMilestonesByJob,
+    createJobOffer,
+    getOpenOfferByJob,
+    closeJobOffer,
+    counterJobOffer,
+    getExpiredJobOffers,
+    getNextOfferCandidate,
+    getNewlyOverdueJobs,
+    Job,
+    JobOffer
+} from '../db/queries.js';
+import { applyJobTransition, applyJobActivity, recordJobActivity, JobActor } from './job-lifecycle.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CounterOfferInput {
+    amountUsdc?: number;
+    deadlineAt?: Date;
+    message?: string;
+}
+
+export interface OfferResult {
+    job: Job;
+    offer: JobOffer;
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class InboxError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'InboxError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const config = {
+    offerTtlMs: parseFloat(process.env.JOB_OFFER_TTL_HOURS || '24') * 60 * 60 * 1000,
+    intervalMs: parseInt(process.env.JOB_OFFER_CHECK_INTERVAL_MS || '60000')
+};
+
+const MONITOR_ACTOR: JobActor = 'system:offer-monitor';
+
+const DEADLINE_UNITS_MS: Record<string, number> = {
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000
+};
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function offerExpiry(): Date {
+    return new Date(Date.now() + config.offerTtlMs);
+}
+
+/**
+ * Turn a free-text deadline from the LLM analyzer ("within 3 days") into a date
+ * Returns null when no duration can be read from it
+ */
+export function parseDeadline(text: string | null, from: Date = new Date()): Date | null {
+    if (!text) return null;
+
+    if (/\btomorrow\b/i.test(text)) {
+        return new Date(from.getTime() + DEADLINE_UNITS_MS.day);
+    }
+
+    const match = text.match(/(\d+)\s*(hour|hr|day|week|month)s?\b/i);
+    if (!match) return null;
+
+    const unit = match[2].toLowerCase() === 'hr' ? 'hour' : match[2].toLowerCase();
+    return new Date(from.getTime() + parseInt(match[1]) * DEADLINE_UNITS_MS[unit]);
+}
+
+/**
+ * Lock an offered job and its open offer for a party's answer
+ */
+async function lockOffer(
+    client: PoolClient,
+    jobId: number,
+    userId: number,
+    party: 'agent' | 'buyer'
+): Promise<{ job: Job; offer: JobOffer }> {
+    const job = await getJobForUpdate(client, jobId);
+    if (!job) {
+        throw new InboxError(`Job with ID ${jobId} not found`, 404);
+    }
+
+    // Checked here as well: admins pass the route policy but cannot answer for a party
+    if ((party === 'agent' ? job.agent_id : job.buyer_id) !== userId) {
+        throw new InboxError(`Only the ${party} this job is offered to can answer the offer`, 403);
+    }
+
+    const offer = job.status === 'offered' ? await getOpenOfferByJob(job.id, client) : null;
+    if (!offer) {
+        throw new InboxError(`Job ${jobId} is '${job.status}', there is no open offer`, 409);
+    }
+
+    if (new Date(offer.expires_at).getTime() <= Date.now()) {
+        throw new InboxError(`The offer for job ${jobId} has expired`, 409);
+    }
+
+    return { job, offer };
+}
+
+// =============================================================================
+// OFFERS
+// =============================================================================
+
+/**
+ * Offer a freshly created 'offered' job to an agent
+ */
+export async function openJobOffer(job: Job, agentId: number, client?: PoolClient): Promise<JobOffer> {
+    const create = (c: PoolClient) => createJobOffer(c, {
+        jobId: job.id,
+        agentId,
+        amountUsdc: Number(job.amount_usdc),
+        deadlineAt: job.deadline_at,
+        expiresAt: offerExpiry()
+    });
+
+    const offer = client ? await create(client) : await transaction(create);
+
+    console.log(`[AgentInbox] Job ${job.id} offered to agent #${agentId} until ${new Date(offer.expires_at).toISOString()}`);
+    return offer;
+}
+
+/**
+ * Agent accepts an offer: the job can now be funded
+ */
+export async function acceptOffer(jobId: number, agentUserId: number): Promise<OfferResult> {
+    return transaction(async (client) => {
+        const { offer } = await lockOffer(client, jobId, agentUserId, 'agent');
+
+        if (offer.status === 'countered') {
+            throw new InboxError('Waiting for the buyer to answer your counter-offer', 409);
+        }
+
+        const closed = await closeJobOffer(client, offer.id, 'accepted');
+        const job = await applyJobTransition(client, jobId, 'unpaid', {
+            actor: `user:${agentUserId}`,
+            reason: 'Offer accepted by the agent'
+        });
+
+        return { job, offer: closed };
+    });
+}
+
+/**
+ * Agent declines an offer: the job moves on to the next candidate
+ */
+export async function declineOffer(jobId: number, agentUserId: number, reason?: string): Promise<OfferResult> {
+    return transaction(async (client) => {
+        const { offer } = await lockOffer(client, jobId, agentUserId, 'agent');
+
+        const closed = await closeJobOffer(client, offer.id, 'declined', reason?.trim() || null);
+        const job = await offerToNextCandidate(
+            client,
+            jobId,
+            `user:${agentUserId}`,
+            reason?.trim() ? `Offer declined by the agent: ${reason.trim()}` : 'Offer declined by the agent'
+        );
+
+        return { job, offer: closed };
+    });
+}
+
+/**
+ * Agent proposes other terms; the buyer has JOB_OFFER_TTL_HOURS to answer
+ */
+export async function counterOffer(
+    jobId: number,
+    agentUserId: number,
+    input: CounterOfferInput
+): Promise<OfferResult> {
+    if (input.amountUsdc === undefined && input.deadlineAt === undefined) {
+        throw new InboxError('A counter-offer needs amountUsdc and/or deadlineAt');
+    }
+
+    if (input.amountUsdc !== undefined && !(Number.isFinite(input.amountUsdc) && input.amountUsdc > 0)) {
+        throw new InboxError('amountUsdc must be greater than 0');
+    }
+
+    if (input.deadlineAt !== undefined && !(input.deadlineAt.getTime() > Date.now())) {
+        throw new InboxError('deadlineAt must be a date in the future');
+    }
+
+    if (input.amountUsdc !== undefined && (await getMilestonesByJob(jobId)).length > 0) {
+        throw new InboxError('The amount of a job with milestones is fixed - counter the deadline only', 409);
+    }
+
+    return transaction(async (client) => {
+        const { job, offer } = await lockOffer(client, jobId, agentUserId, 'agent');
+
+        if (offer.status === 'countered') {
+            throw new InboxError('You already made a counter-offer for this job', 409);
+        }
+
+        const countered = await counterJobOffer(client, offer.id, {
+            amountUsdc: input.amountUsdc ?? offer.amount_usdc,
+            deadlineAt: input.deadlineAt ?? offer.deadline_at,
+            message: input.message?.trim() || null,
+            expiresAt: offerExpiry()
+        });
+
+        const terms = [
+            input.amountUsdc !== undefined ? `${input.amountUsdc} USDC` : null,
+            input.deadlineAt !== undefined ? `deadline ${input.deadlineAt.toISOString()}` : null
+        ].filter(Boolean).join(', ');
+
+        const updated = await applyJobActivity(client, job.id, {
+            actor: `user:${agentUserId}`,
+            reason: `Agent countered the offer: ${terms}`
+        });
+
+        return { job: updated, offer: countered };
+    });
+}
+
+/**
+ * Buyer answers a counter-offer
+ * Accepting applies the agent's terms; rejecting moves on to the next candidate
+ */
+export async function respondToCounterOffer(
+    jobId: number,
+    buyerId: number,
+    accepted: boolean
+): Promise<OfferResult> {
+    return transaction(async (client) => {
+        const { offer } = await lockOffer(client, jobId, buyerId, 'buyer');
+
+        if (offer.status !== 'countered') {
+            throw new InboxError('The agent has not made a counter-offer', 409);
+        }
+
+        if (!accepted) {
+            const closed = await closeJobOffer(client, offer.id, 'rejected');
+            const job = await offerToNextCandidate(client, jobId, `user:${buyerId}`, 'Counter-offer rejected by the buyer');
+            return { job, offer: closed };
+        }
+
+        const closed = await closeJobOffer(client, offer.id, 'accepted');
+        const job = await applyJobTransition(client, jobId, 'unpaid', {
+            actor: `user:${buyerId}`,
+            reason: `Counter-offer accepted: ${offer.counter_amount_usdc} USDC` +
+                (offer.counter_deadline_at ? `, deadline ${new Date(offer.counter_deadline_at).toISOString()}` : ''),
+            fields: {
+                amount_usdc: offer.counter_amount_usdc ?? offer.amount_usdc,
+                deadline_at: offer.counter_deadline_at
+            }
+        });
+
+        return { job, offer: closed };
+    });
+}
+
+/**
+ * Cancel a job that is still on offer
+ */
+export async function cancelOfferedJob(jobId: number, actor: JobActor): Promise<Job> {
+    return transaction(async (client) => {
+        const offer = await getOpenOfferByJob(jobId, client);
+        if (offer) {
+            await closeJobOffer(client, offer.id, 'withdrawn');
+        }
+
+        return applyJobTransition(client, jobId, 'cancelled', {
+            actor,
+            reason: 'Cancelled by request while on offer'
+        });
+    });
+}
+
+/**
+ * Offer the job to the next shortlisted agent, or cancel it when none is left
+ * Must run under the job lock, after the previous offer was closed
+ */
+async function offerToNextCandidate(
+    client: PoolClient,
+    jobId: number,
+    actor: JobActor,
+    reason: string
+): Promise<Job> {
+    const job = await getJobForUpdate(client, jobId);
+    if (!job) {
+        throw new InboxError(`Job with ID ${jobId} not found`, 404);
+    }
+
+    const candidate = await getNextOfferCandidate(client, jobId);
+
+    if (!candidate) {
+        console.log(`[AgentInbox] Job ${jobId}: no candidate left, cancelling`);
+        return applyJobTransition(client, jobId, 'cancelled', {
+            actor,
+            reason: `${reason} - no other agent to offer it to`
+        });
+    }
+
+    await openJobOffer(job, candidate.agent_id, client);
+
+    return applyJobActivity(client, jobId, {
+        actor,
+        reason: `${reason} - offered to agent #${candidate.agent_id} (shortlist pick #${candidate.rank})`,
+        fields: { agent_id: candidate.user_id }
+    });
+}
+
+// =============================================================================
+// DEADLINES
+// =============================================================================
+
+/**
+ * Throw if the caller may not cancel the job (yet):
+ * - the agent of an offered job declines it instead
+ * - the buyer waits for the deadline once the agent is working
+ */
+export function assertCancelAllowed(job: Job, userId: number): void {
+    if (job.status === 'offered' && userId === job.agent_id) {
+        throw new InboxError('Decline the offer instead of cancelling the job', 409);
+    }
+
+    if (userId !== job.buyer_id || !job.deadline_at || job.status !== 'working') {
+        return;
+    }
+
+    if (new Date(job.deadline_at).getTime() > Date.now()) {
+        throw new InboxError(
+            `The agent is working on this job until its deadline ${new Date(job.deadline_at).toISOString()} - ` +
+            'cancel once it is overdue or open a dispute',
+            409
+        );
+    }
+}
+
+// =============================================================================
+// OFFER MONITOR
+// =============================================================================
+
+let monitorInterval: NodeJS.Timeout | null = null;
+let isChecking = false;
+
+/**
+ * Start the background offer expiry and deadline monitor
+ */
+export function startOfferMonitor(): void {
+    if (monitorInterval) {
+        console.log('[AgentInbox] Monitor already running');
+        return;
+    }
+
+    console.log(`[AgentInbox] Starting offer monitor with ${config.intervalMs}ms interval`);
+
+    checkOffersAndDeadlines();
+    monitorInterval = setInterval(checkOffersAndDeadlines, config.intervalMs);
+}
+
+/**
+ * Stop the background offer monitor
+ */
+export function stopOfferMonitor(): void {
+    if (monitorInterval) {
+        clearInterval(monitorInterval);
+        monitorInterval = null;
+        console.log('[AgentInbox] Monitor stopped');
+    }
+}
+
+async function checkOffersAndDeadlines(): Promise<void> {
+    // Prevent overlapping runs
+    if (isChecking) return;
+    isChecking = true;
+
+    try {
+        await expireOffers();
+        await flagOverdueJobs();
+    } catch (error) {
+        console.error('[AgentInbox] Error checking offers and deadlines:', error);
+    } finally {
+        isChecking = false;
+    }
+}
+
+/**
+ * Move unanswered offers and counter-offers on to the next candidate
+ */
+export async function expireOffers(): Promise<void> {
+    for (const expired of await getExpiredJobOffers()) {
+        try {
+            await transaction(async (client) => {
+                await getJobForUpdate(client, expired.job_id);
+
+                // Answered while we were getting here
+                const offer = await getOpenOfferByJob(expired.job_id, client);
+                if (!offer || offer.id !== expired.id) return;
+
+                await closeJobOffer(client, offer.id, 'expired');
+                await offerToNextCandidate(
+                    client,
+                    offer.job_id,
+                    MONITOR_ACTOR,
+                    offer.status === 'countered'
+                        ? 'Buyer did not answer the counter-offer in time'
+                        : `Agent #${offer.agent_id} did not answer the offer in time`
+                );
+            });
+        } catch (error) {
+            console.error(`[AgentInbox] ❌ Failed to expire offer #${expired.id}:`, error);
+        }
+    }
+}
+
+/**
+ * Flag jobs whose deadline passed without a delivery
+ */
+export async function flagOverdueJobs(): Promise<void> {
+    for (const job of await getNewlyOverdueJobs()) {
+        try {
+            await recordJobActivity(job.id, {
+                actor: MONITOR_ACTOR,
+                reason: `Deadline ${new Date(job.deadline_at!).toISOString()} passed without a delivery - the buyer can cancel for a refund`,
+                fields: { overdue_at: new Date() }
+            });
+            console.log(`[AgentInbox] ⏰ Job ${job.id} is overdue`);
+        } catch (error) {
+            console.error(`[AgentInbox] ❌ Failed to flag job ${job.id} as overdue:`, error);
+        }
+    }
+}
@@ -0,0 +1,382 @@
+/**
+ * =============================================================================
+ * Agent Matching Service - Ranked Agent Shortlists
+ * =============================================================================
+ *
+ * Scores every available agent against an analyzed request and keeps the
+ * best ones as a shortlist the buyer chooses from. No agent is assigned
+ * without the buyer's pick.
+ *
+ * FACTORS (each scored 0..1, weighted into a 0..100 total):
+ * - skills:       overlap with the requested skills, earlier skills in the
+ *                 LLM's list count more
+ * - price:        hourly rate against the estimated budget
+ * - rating:       average rating out of 5
+ * - history:      completed jobs (jobs_completed)
+ * - availability: free capacity given the jobs currently in progress
+ *
+ * Agents that share none of the requested skills are not shortlisted,
+ * unless the request only asks for 'general' work. Agents at capacity and
+ * the buyer's own agent profile are left out.
+ *
+ * =============================================================================
+ */
+
+import { PoolClient } from 'pg';
+import { transaction } from '../db/database.js';
+import {
+    getMatchableAgents,
+    getUserRequestForUpdate,
+    saveRequestShortlist,
+    getRequestMatches,
+    createJobForRequest,
+    MatchableAgent,
+    Job
+} from '../db/queries.js';
+import { AnalyzedRequest, JobSpec } from './llm-analyzer.js';
+import { recordJobCreated } from './job-lifecycle.js';
+import { openJobOffer, parseDeadline } from './agent-inbox.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MatchFactor = 'skills' | 'price' | 'rating' | 'history' | 'availability';
+
+export interface FactorScore {
+    factor: MatchFactor;
+    /** 0..1 */
+    score: number;
+    weight: number;
+    explanation: string;
+}
+
+export interface AgentMatch {
+    /** agents.id */
+    agentId: number;
+    /** users.id - what jobs.agent_id stores */
+    userId: number;
+    displayName: string | null;
+    walletAddress: string;
+    hourlyRate: number | null;
+    rating: number;
+    jobsCompleted: number;
+    /** 1-based position in the shortlist */
+    rank: number;
+    /** 0..100 */
+    score: number;
+    factors: FactorScore[];
+}
+
+export type MatchCriteria = Pick<AnalyzedRequest, 'skills' | 'estimatedBudget'>;
+
+export interface MatchOptions {
+    limit?: number;
+    /** Buyer's user ID; their own agent profile is never suggested */
+    excludeUserId?: number;
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class MatchingError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'MatchingError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const FACTOR_WEIGHTS: Record<MatchFactor, number> = {
+    skills: 0.35,
+    price: 0.2,
+    rating: 0.2,
+    history: 0.1,
+    availability: 0.15
+};
+
+const SHORTLIST_SIZE = 5;
+
+/** Jobs in progress at which an agent counts as fully booked */
+const MAX_ACTIVE_JOBS = Number(process.env.AGENT_MAX_ACTIVE_JOBS || 3);
+
+/** Completed jobs that earn the full history score */
+const EXPERIENCED_JOB_COUNT = 20;
+
+/** Skill the LLM analyzer falls back to when nothing specific was asked */
+const GENERAL_SKILL = 'general';
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+function normalizeSkill(skill: string): string {
+    return skill.trim().toLowerCase();
+}
+
+function formatUsdc(amount: number): string {
+    return `$${Number(amount.toFixed(2))}`;
+}
+
+/**
+ * The first requested skill weighs n, the last weighs 1
+ */
+function scoreSkills(agent: MatchableAgent, skills: string[]): FactorScore {
+    const requested = skills.map(normalizeSkill).filter(skill => skill && skill !== GENERAL_SKILL);
+    const offered = new Set((agent.skills || []).map(normalizeSkill));
+
+    if (requested.length === 0) {
+        return {
+            factor: 'skills',
+            score: 1,
+            weight: FACTOR_WEIGHTS.skills,
+            explanation: 'No specific skills requested'
+        };
+    }
+
+    const matched = requested.filter(skill => offered.has(skill));
+    const total = requested.reduce((sum, _, i) => sum + (requested.length - i), 0);
+    const covered = requested.reduce(
+        (sum, skill, i) => sum + (offered.has(skill) ? requested.length - i : 0),
+        0
+    );
+    const score = covered / total;
+
+    return {
+        factor: 'skills',
+        score,
+        weight: FACTOR_WEIGHTS.skills,
+        explanation: matched.length === 0
+            ? `None of the requested skills (${requested.join(', ')})`
+            : `Has ${matched.join(', ')} - ${matched.length} of ${requested.length} skills, ${Math.round(score * 100)}% by importance`
+    };
+}
+
+/**
+ * Full marks for a cheap rate, half at the budget, nothing at twice the budget
+ */
+function scorePrice(agent: MatchableAgent, budget: number): FactorScore {
+    if (agent.hourly_rate === null || budget <= 0) {
+        return {
+            factor: 'price',
+            score: 0.5,
+            weight: FACTOR_WEIGHTS.price,
+            explanation: agent.hourly_rate === null ? 'No hourly rate published' : 'No budget to compare against'
+        };
+    }
+
+    const ratio = agent.hourly_rate / budget;
+    const score = ratio <= 1 ? 1 - ratio / 2 : Math.max(0, (2 - ratio) / 2);
+
+    return {
+        factor: 'price',
+        score,
+        weight: FACTOR_WEIGHTS.price,
+        explanation: ratio <= 1
+            ? `${formatUsdc(agent.hourly_rate)}/hr is ${Math.round(ratio * 100)}% of the ${formatUsdc(budget)} budget`
+            : `${formatUsdc(agent.hourly_rate)}/hr exceeds the ${formatUsdc(budget)} budget by ${Math.round((ratio - 1) * 100)}%`
+    };
+}
+
+function scoreRating(agent: MatchableAgent): FactorScore {
+    return {
+        factor: 'rating',
+        score: Math.min(1, Math.max(0, agent.rating / 5)),
+        weight: FACTOR_WEIGHTS.rating,
+        explanation: agent.rating > 0 ? `Rated ${agent.rating.toFixed(1)}/5` : 'Not rated yet'
+    };
+}
+
+/**
+ * Logarithmic, so the first few completed jobs matter most
+ */
+function scoreHistory(agent: MatchableAgent): FactorScore {
+    const completed = agent.jobs_completed || 0;
+
+    return {
+        factor: 'history',
+        score: Math.min(1, Math.log1p(completed) / Math.log1p(EXPERIENCED_JOB_COUNT)),
+        weight: FACTOR_WEIGHTS.history,
+        explanation: completed === 0
+            ? 'No completed jobs yet'
+            : `${completed} completed job${completed === 1 ? '' : 's'}`
+    };
+}
+
+function scoreAvailability(agent: MatchableAgent): FactorScore {
+    const free = Math.max(0, MAX_ACTIVE_JOBS - agent.active_jobs);
+
+    return {
+        factor: 'availability',
+        score: MAX_ACTIVE_JOBS > 0 ? free / MAX_ACTIVE_JOBS : 0,
+        weight: FACTOR_WEIGHTS.availability,
+        explanation: agent.active_jobs === 0
+            ? 'Available, no jobs in progress'
+            : `${agent.active_jobs} job${agent.active_jobs === 1 ? '' : 's'} in progress, ${free} of ${MAX_ACTIVE_JOBS} slots free`
+    };
+}
+
+function scoreAgent(agent: MatchableAgent, criteria: MatchCriteria): Omit<AgentMatch, 'rank'> {
+    const factors = [
+        scoreSkills(agent, criteria.skills),
+        scorePrice(agent, criteria.estimatedBudget),
+        scoreRating(agent),
+        scoreHistory(agent),
+        scoreAvailability(agent)
+    ].map(factor => ({ ...factor, score: Math.round(factor.score * 1000) / 1000 }));
+
+    const score = factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0) * 100;
+
+    return {
+        agentId: agent.id,
+        userId: agent.user_id,
+        displayName: agent.display_name,
+        walletAddress: agent.wallet_address,
+        hourlyRate: agent.hourly_rate,
+        rating: agent.rating,
+        jobsCompleted: agent.jobs_completed,
+        score: Math.round(score * 100) / 100,
+        factors
+    };
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+/**
+ * Rank available agents for a request, best first
+ */
+export async function matchAgents(
+    criteria: MatchCriteria,
+    options: MatchOptions = {}
+): Promise<AgentMatch[]> {
+    const agents = await getMatchableAgents();
+
+    return agents
+        .filter(agent => agent.user_id !== options.excludeUserId)
+        .filter(agent => agent.active_jobs < MAX_ACTIVE_JOBS)
+        .map(agent => scoreAgent(agent, criteria))
+        .filter(match => match.factors.some(factor => factor.factor === 'skills' && factor.score > 0))
+        .sort((a, b) => b.score - a.score || (a.hourlyRate ?? Infinity) - (b.hourlyRate ?? Infinity))
+        .slice(0, options.limit ?? SHORTLIST_SIZE)
+        .map((match, i) => ({ ...match, rank: i + 1 }));
+}
+
+/**
+ * Match agents for a user request and store the shortlist for the buyer
+ * Returns an empty list (and stores nothing) when no agent qualifies
+ */
+export async function shortlistRequest(
+    client: PoolClient,
+    requestId: number,
+    buyerId: number,
+    spec: AnalyzedRequest
+): Promise<AgentMatch[]> {
+    const matches = await matchAgents(spec, { excludeUserId: buyerId });
+    if (matches.length === 0) {
+        return matches;
+    }
+
+    await saveRequestShortlist(
+        client,
+        requestId,
+        spec,
+        matches.map(match => ({
+            agentId: match.agentId,
+            rank: match.rank,
+            score: match.score,
+            factors: match.factors
+        }))
+    );
+
+    console.log(
+        `[AgentMatching] Request #${requestId} shortlist: ` +
+        matches.map(match => `#${match.agentId} (${match.score})`).join(', ')
+    );
+
+    return matches;
+}
+
+/**
+ * Stored shortlist of a request, in rank order
+ */
+export async function getRequestShortlist(requestId: number): Promise<AgentMatch[]> {
+    const rows = await getRequestMatches(requestId);
+
+    return rows.map(row => ({
+        agentId: row.agent_id,
+        userId: row.user_id,
+        displayName: row.display_name,
+        walletAddress: row.wallet_address,
+        hourlyRate: row.hourly_rate,
+        rating: row.rating,
+        jobsCompleted: row.jobs_completed,
+        rank: row.rank,
+        score: row.score,
+        factors: row.factors
+    }));
+}
+
+/**
+ * Buyer picks an agent from the shortlist: creates the job and offers it
+ * to that agent; the rest of the shortlist are the fallbacks if it declines
+ */
+export async function selectShortlistedAgent(params: {
+    requestId: number;
+    buyerId: number;
+    agentId: number;
+}): Promise<Job> {
+    const shortlist = await getRequestShortlist(params.requestId);
+    const choice = shortlist.find(match => match.agentId === params.agentId);
+
+    const { job, pick } = await transaction(async (client) => {
+        const request = await getUserRequestForUpdate(client, params.requestId);
+        if (!request) {
+            throw new MatchingError('Request not found', 404);
+        }
+        if (request.user_id !== params.buyerId) {
+            throw new MatchingError('Only the requesting buyer can choose an agent', 403);
+        }
+        if (request.status !== 'awaiting_selection') {
+            throw new MatchingError(`Request is ${request.status}, not awaiting an agent choice`, 409);
+        }
+        if (!choice) {
+            throw new MatchingError('Agent is not on this request\'s shortlist');
+        }
+
+        const spec = request.analysis as JobSpec;
+        const requirements = [
+            spec.scope ? `Scope: ${spec.scope}` : null,
+            `Skills Required: ${spec.skills.join(', ')}`,
+            `Complexity: ${spec.complexity}`,
+            spec.deadline ? `Deadline: ${spec.deadline}` : null,
+            `Original Request: ${request.description}`
+        ].filter(line => line !== null).join('\n');
+
+        const created = await createJobForRequest(client, request.id, {
+            title: spec.summary,
+            buyerId: request.user_id,
+            agentUserId: choice.userId,
+            amountUsdc: spec.estimatedBudget,
+            requirements,
+            deadlineAt: parseDeadline(spec.deadline)
+        });
+        await openJobOffer(created, choice.agentId, client);
+        return { job: created, pick: choice };
+    });
+
+    await recordJobCreated(
+        job,
+        `user:${params.buyerId}`,
+        `Created from user request #${params.requestId}, offered to shortlist pick #${pick.rank} (score ${pick.score})`
+    );
+
+    return job;
+}
@@ -1,6 +1,7 @@
 import { getDb } from '../db/database.js';
-import { createJob, findAgentsBySkill, getJobById } from '../db/queries.js';
 import { LlmAnalyzer } from './llm-analyzer.js';
+import { advanceConversation } from './request-conversation.js';
+import { publishLiveEvent } from './live-events.js';
 
 let pollerInterval: NodeJS.Timeout | null = null;
 let isPolling = false;
@@ -52,68 +53,25 @@ async function processRequest(req: any) {
     console.log(`[AgentPoller] Processing request #${req.id}: "${req.description}"`);
     const db = getDb();
 
+    // Let the user's chat show that the agent is working on it
+    await publishRequestProgress(req, 'processing');
+
     try {
         // --- ADVANCED AI LOGIC ---
-        // Use LLM Analyzer to understand intent, budget, and required skills
+        // The LLM reads the whole thread and either asks clarifying questions
+        // or proposes a job spec for the user to confirm
         const analyzer = new LlmAnalyzer();
-        const analysis = await analyzer.analyze(req.description);
-
-        console.log(`[AgentPoller] Analysis for #${req.id}:`, analysis);
-
-        const title = analysis.summary;
-        const amount = analysis.estimatedBudget;
-        // Use the first identified skill, or 'general' if none
-        const skill = analysis.skills.length > 0 ? analysis.skills[0] : 'general';
-
-        // Find Agent
-        // Try to find agent matching the primary skill
-        let agents = await findAgentsBySkill(skill);
-        
-        // If no agent found for primary skill, try secondary skills if available
-        if (agents.length === 0 && analysis.skills.length > 1) {
-            for (let i = 1; i < analysis.skills.length; i++) {
-                console.log(`[AgentPoller] No agent for ${skill}, trying ${analysis.skills[i]}`);
-                agents = await findAgentsBySkill(analysis.skills[i]);
-                if (agents.length > 0) break;
-            }
+        const turn = await advanceConversation(req.id, analyzer);
+
+        if (!turn) {
+            console.log(`[AgentPoller] Request #${req.id} changed while processing, will retry`);
+        } else if (turn.action === 'ask') {
+            console.log(`[AgentPoller] Request #${req.id}: asked ${turn.questions.length} clarifying question(s)`);
+            await publishRequestProgress(req, 'clarifying');
+        } else {
+            console.log(`[AgentPoller] Request #${req.id}: proposed "${turn.spec.summary}" ($${turn.spec.estimatedBudget}), waiting for confirmation`);
+            await publishRequestProgress(req, 'awaiting_confirmation');
         }
-
-        // Fallback to any available agent if still none found
-        if (agents.length === 0) {
-            console.log('[AgentPoller] No agent with matching skills, falling back to any available agent');
-            const allAgentsRes = await db.query('SELECT * FROM agents WHERE is_available = true ORDER BY rating DESC LIMIT 1');
-            agents = allAgentsRes.rows as any;
-        }
-
-        let selectedAgentId = null;
-        if (agents.length > 0) {
-            // Pick the higest rated one (already sorted by query)
-            selectedAgentId = agents[0].user_id; 
-        }
-
-        // Create Job
-        console.log(`[AgentPoller] Creating job: ${title} ($${amount}) for Agent ${selectedAgentId || 'NONE'}`);
-        
-        const job = await createJob(
-            title,
-            req.user_id,
-            amount,
-            req.description, // Requirements
-            selectedAgentId || undefined
-        );
-
-        // Update Request
-        await db.query(
-            `UPDATE user_requests 
-             SET status = 'processed', 
-                 job_id = $1,
-                 updated_at = CURRENT_TIMESTAMP
-             WHERE id = $2`,
-            [job.id, req.id]
-        );
-
-        console.log(`[AgentPoller] Request #${req.id} processed -> Job #${job.id}`);
-
     } catch (error) {
         console.error(`[AgentPoller] Failed to process request #${req.id}:`, error);
         
@@ -126,5 +84,13 @@ async function processRequest(req: any) {
              WHERE id = $1`,
             [req.id]
         );
+        await publishRequestProgress(req, 'failed');
     }
 }
+
+async function publishRequestProgress(req: any, status: string) {
+    await publishLiveEvent([req.user_id], {
+        type: 'request.progress',
+        data: { requestId: req.id, status }
+    });
+}
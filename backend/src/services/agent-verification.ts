@@ -0,0 +1,226 @@
+/**
+ * =============================================================================
+ * Agent Verification Service - Capability Discovery and Health Probing
+ * =============================================================================
+ *
+ * REGISTRATION:
+ *   An agent is only registered once its MCP endpoint answers listTools and
+ *   the tools cover every claimed skill. A skill is covered when it appears
+ *   as a word in a tool's name or description ('react' is covered by a
+ *   'code_generation' tool described as "Builds React components"). The
+ *   discovered tool schemas are stored on the agent.
+ *
+ * HEALTH PROBE:
+ *   Every AGENT_HEALTH_INTERVAL_MS each available agent is pinged. After
+ *   AGENT_HEALTH_MAX_FAILURES failed pings in a row it is marked unavailable,
+ *   so it drops out of matching and sub-hiring. Agents the probe took offline
+ *   keep being pinged and are made available again once they answer.
+ *
+ * =============================================================================
+ */
+
+import {
+    registerAgent,
+    getAgentsToProbe,
+    recordAgentProbe,
+    Agent,
+    AgentToolSchema
+} from '../db/queries.js';
+import { listAgentTools, checkAgentHealth } from './mcp-client.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CapabilityReport {
+    tools: AgentToolSchema[];
+    /** Claimed skill → names of the tools that cover it */
+    coverage: Record<string, string[]>;
+    unverifiedSkills: string[];
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class AgentVerificationError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+        public details?: Partial<CapabilityReport>,
+    ) {
+        super(message);
+        this.name = 'AgentVerificationError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const config = {
+    intervalMs: parseInt(process.env.AGENT_HEALTH_INTERVAL_MS || '300000'),  // 5 minutes
+    maxFailures: parseInt(process.env.AGENT_HEALTH_MAX_FAILURES || '3')
+};
+
+/** Skill the LLM analyzer falls back to; any tool covers it */
+const GENERAL_SKILL = 'general';
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Lowercase and turn separators into spaces: 'code_generation' → 'code generation'
+ */
+function normalizeText(text: string): string {
+    return text.toLowerCase().replace(/[_\-./]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toolsCovering(skill: string, tools: AgentToolSchema[]): string[] {
+    // Plurals count: 'api' is covered by "REST APIs"
+    const pattern = new RegExp(`(^|[^a-z0-9])${escapeRegExp(skill)}s?([^a-z0-9]|$)`);
+
+    return tools
+        .filter(tool => pattern.test(normalizeText(`${tool.name} ${tool.description}`)))
+        .map(tool => tool.name);
+}
+
+// =============================================================================
+// DISCOVERY
+// =============================================================================
+
+/**
+ * Connect to an MCP endpoint, list its tools and check them against skills
+ */
+export async function discoverCapabilities(endpoint: string, skills: string[]): Promise<CapabilityReport> {
+    let tools: AgentToolSchema[];
+    try {
+        tools = await listAgentTools(endpoint);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new AgentVerificationError(`Could not list tools at ${endpoint}: ${message}`, 422);
+    }
+
+    if (tools.length === 0) {
+        throw new AgentVerificationError(`MCP server at ${endpoint} exposes no tools`, 422, { tools });
+    }
+
+    const coverage: Record<string, string[]> = {};
+    const unverifiedSkills: string[] = [];
+
+    for (const skill of skills) {
+        const normalized = normalizeText(skill);
+        const covering = normalized === GENERAL_SKILL
+            ? tools.map(tool => tool.name)
+            : toolsCovering(normalized, tools);
+
+        coverage[skill] = covering;
+        if (covering.length === 0) {
+            unverifiedSkills.push(skill);
+        }
+    }
+
+    return { tools, coverage, unverifiedSkills };
+}
+
+/**
+ * Register an agent whose endpoint proves every claimed skill
+ */
+export async function registerVerifiedAgent(params: {
+    userId: number;
+    mcpEndpoint: string;
+    skills: string[];
+    hourlyRate?: number;
+    description?: string;
+}): Promise<{ agent: Agent; report: CapabilityReport }> {
+    const skills = params.skills.map(skill => String(skill).trim()).filter(Boolean);
+    if (skills.length === 0) {
+        throw new AgentVerificationError('skills must contain at least one skill');
+    }
+
+    const report = await discoverCapabilities(params.mcpEndpoint, skills);
+
+    if (report.unverifiedSkills.length > 0) {
+        throw new AgentVerificationError(
+            `No tool on the MCP server covers: ${report.unverifiedSkills.join(', ')}`,
+            422,
+            report
+        );
+    }
+
+    const agent = await registerAgent(
+        params.userId,
+        params.mcpEndpoint,
+        skills,
+        params.hourlyRate,
+        params.description,
+        report.tools
+    );
+
+    console.log(`[AgentVerification] Agent #${agent.id} registered with ${report.tools.length} tools (${skills.join(', ')})`);
+
+    return { agent, report };
+}
+
+// =============================================================================
+// HEALTH PROBE
+// =============================================================================
+
+let probeInterval: NodeJS.Timeout | null = null;
+let isProbing = false;
+
+/**
+ * Start the periodic agent health probe
+ */
+export function startAgentHealthProbe(): void {
+    if (probeInterval) {
+        console.log('[AgentVerification] Health probe already running');
+        return;
+    }
+
+    console.log(`[AgentVerification] Starting health probe with ${config.intervalMs}ms interval`);
+
+    probeAgents();
+    probeInterval = setInterval(probeAgents, config.intervalMs);
+}
+
+/**
+ * Stop the periodic agent health probe
+ */
+export function stopAgentHealthProbe(): void {
+    if (probeInterval) {
+        clearInterval(probeInterval);
+        probeInterval = null;
+        console.log('[AgentVerification] Health probe stopped');
+    }
+}
+
+/**
+ * Ping every agent once and record the outcome
+ */
+export async function probeAgents(): Promise<void> {
+    // Prevent overlapping runs
+    if (isProbing) return;
+    isProbing = true;
+
+    try {
+        for (const agent of await getAgentsToProbe()) {
+            const healthy = await checkAgentHealth(agent.mcp_endpoint);
+            const updated = await recordAgentProbe(agent.id, healthy, config.maxFailures);
+
+            if (agent.is_available && !updated.is_available) {
+                console.warn(`[AgentVerification] ⚠️ Agent #${agent.id} unreachable ${updated.probe_failures} times, marked unavailable`);
+            } else if (!agent.is_available && updated.is_available) {
+                console.log(`[AgentVerification] ✅ Agent #${agent.id} is back, marked available`);
+            }
+        }
+    } catch (error) {
+        console.error('[AgentVerification] Error probing agents:', error);
+    } finally {
+        isProbing = false;
+    }
+}
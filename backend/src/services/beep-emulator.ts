@@ -0,0 +1,769 @@
+/**
+ * =============================================================================
+ * Beep Emulator - Local Stand-in for the Beep API
+ * =============================================================================
+ *
+ * Serves the parts of api.justbeep.it we use, so the hire → pay → escrow
+ * flow runs without network access and without polluting the real merchant
+ * account:
+ * - Invoices (SDK /v1/invoices and the REST /invoices used by beep.ts)
+ * - Payment status, issue-payment, request-payment, check-payment-status
+ * - Streaming start / pause / stop
+ * - MCP session handshake and tools (/mcp)
+ *
+ * SELECTING IT:
+ *   BEEP_EMULATOR=true starts it inside the backend (BEEP_EMULATOR_PORT,
+ *   default 4010) and points every Beep client at it. `npm run beep:emulator`
+ *   runs it standalone; set BEEP_URL to its address. Any API key is accepted.
+ *
+ * SCENARIOS (BEEP_EMULATOR_SCENARIO, default 'paid-after-polls:2'):
+ *   paid-after-polls:N      paid on the Nth status check of the invoice
+ *   expired-after-polls:N   expired on the Nth status check
+ *   paid-after-seconds:N    paid N seconds after creation
+ *   expired-after-seconds:N expired N seconds after creation
+ *   never-paid              stays pending
+ *
+ *   A status check is a GET of one invoice or a getPaidResource MCP call.
+ *   Opening an invoice's paymentUrl pays it right away.
+ *
+ * WEBHOOKS:
+ *   With BEEP_EMULATOR_WEBHOOK_URL and BEEP_WEBHOOK_SECRET set, settled
+ *   invoices are delivered there signed like real Beep webhooks.
+ *
+ * CONTROL (/_emulator):
+ *   GET  /_emulator/invoices            all invoices
+ *   POST /_emulator/invoices/:id/pay    settle as paid
+ *   POST /_emulator/invoices/:id/expire settle as expired
+ *   POST /_emulator/scenario            { scenario } for new invoices
+ *   POST /_emulator/reset               drop all state
+ *
+ * =============================================================================
+ */
+
+import express, { Express, Request, Response, NextFunction, Router } from 'express';
+import crypto from 'crypto';
+import { Server } from 'http';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EmulatedInvoiceStatus = 'pending' | 'paid' | 'expired';
+
+export type StreamingState = 'idle' | 'active' | 'paused' | 'stopped';
+
+export interface EmulatedInvoice {
+    id: string;
+    uuid: string;
+    referenceKey: string;
+    description: string;
+    amount: string;
+    token: string;
+    payerType: string;
+    payerMerchantId: string | null;
+    receivingMerchantId: string;
+    status: EmulatedInvoiceStatus;
+    paymentUrl: string;
+    streaming: StreamingState;
+    /** Status checks so far, for poll-based scenarios */
+    polls: number;
+    scenario: BeepScenario;
+    createdAt: string;
+    updatedAt: string;
+    expiresAt: string;
+}
+
+export interface BeepScenario {
+    /** What the invoice turns into; 'pending' never settles */
+    outcome: EmulatedInvoiceStatus;
+    afterPolls?: number;
+    afterSeconds?: number;
+}
+
+export interface BeepEmulatorOptions {
+    port?: number;
+    /** Scenario for new invoices, see header */
+    scenario?: string;
+    webhookUrl?: string;
+    webhookSecret?: string;
+}
+
+export interface BeepEmulator {
+    url: string;
+    invoices: Map<string, EmulatedInvoice>;
+    setScenario(spec: string): void;
+    settle(invoiceId: string, status: EmulatedInvoiceStatus): Promise<EmulatedInvoice | null>;
+    reset(): void;
+    close(): Promise<void>;
+}
+
+interface EmulatorState {
+    baseUrl: string;
+    invoices: Map<string, EmulatedInvoice>;
+    scenarioSpec: string;
+    scenario: BeepScenario;
+    mcpSessions: Set<string>;
+    timers: Set<NodeJS.Timeout>;
+    nextInvoiceId: number;
+    webhookUrl?: string;
+    webhookSecret?: string;
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+class EmulatorError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'EmulatorError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const BEEP_API_URL = 'https://api.justbeep.it';
+const DEFAULT_PORT = 4010;
+const DEFAULT_SCENARIO = 'paid-after-polls:2';
+const INVOICE_TTL_MS = 60 * 60 * 1000;          // 1 hour
+const WEBHOOK_ATTEMPTS = 3;
+
+const MERCHANT_ID = 'emulator-merchant';
+const MERCHANT_SUI_ADDRESS = '0x' + 'be'.repeat(32);
+
+/**
+ * Whether Beep calls go to the local emulator
+ */
+export function isBeepEmulated(): boolean {
+    return process.env.BEEP_EMULATOR === 'true';
+}
+
+function getEmulatorPort(): number {
+    return parseInt(process.env.BEEP_EMULATOR_PORT || String(DEFAULT_PORT));
+}
+
+/**
+ * Base URL every Beep client should use
+ * BEEP_URL wins, then the emulator when enabled, then the real API
+ */
+export function getBeepApiUrl(): string {
+    if (process.env.BEEP_URL) {
+        return process.env.BEEP_URL.replace(/\/$/, '');
+    }
+    if (isBeepEmulated()) {
+        return `http://localhost:${getEmulatorPort()}`;
+    }
+    return BEEP_API_URL;
+}
+
+/**
+ * Parse a scenario spec such as 'paid-after-polls:3'
+ */
+export function parseScenario(spec: string): BeepScenario {
+    if (spec === 'never-paid') {
+        return { outcome: 'pending' };
+    }
+
+    const match = /^(paid|expired)-after-(polls|seconds):(\d+)$/.exec(spec);
+    if (!match) {
+        throw new Error(`Unknown Beep emulator scenario '${spec}'`);
+    }
+
+    const outcome = match[1] as EmulatedInvoiceStatus;
+    const count = parseInt(match[3]);
+    return match[2] === 'polls'
+        ? { outcome, afterPolls: Math.max(count, 1) }
+        : { outcome, afterSeconds: count };
+}
+
+// =============================================================================
+// SERVER
+// =============================================================================
+
+/**
+ * Start the emulator on its own port
+ */
+export async function startBeepEmulator(options: BeepEmulatorOptions = {}): Promise<BeepEmulator> {
+    const port = options.port ?? getEmulatorPort();
+    const state = createState(options);
+    const app = createEmulatorApp(state);
+
+    const server = await new Promise<Server>((resolve, reject) => {
+        const listening = app.listen(port, () => resolve(listening));
+        listening.on('error', reject);
+    });
+
+    const address = server.address();
+    state.baseUrl = `http://localhost:${typeof address === 'object' && address ? address.port : port}`;
+    console.log(`[BeepEmulator] Listening on ${state.baseUrl} (scenario: ${state.scenarioSpec})`);
+
+    return {
+        url: state.baseUrl,
+        invoices: state.invoices,
+        setScenario: (spec) => setScenario(state, spec),
+        settle: async (invoiceId, status) => {
+            const invoice = findInvoice(state, invoiceId);
+            if (!invoice) return null;
+            await settleInvoice(state, invoice, status);
+            return invoice;
+        },
+        reset: () => resetState(state),
+        close: () => {
+            resetState(state);
+            return new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+        }
+    };
+}
+
+function createState(options: BeepEmulatorOptions): EmulatorState {
+    const scenarioSpec = options.scenario || process.env.BEEP_EMULATOR_SCENARIO || DEFAULT_SCENARIO;
+
+    return {
+        baseUrl: '',
+        invoices: new Map(),
+        scenarioSpec,
+        scenario: parseScenario(scenarioSpec),
+        mcpSessions: new Set(),
+        timers: new Set(),
+        nextInvoiceId: 1,
+        webhookUrl: options.webhookUrl ?? process.env.BEEP_EMULATOR_WEBHOOK_URL,
+        webhookSecret: options.webhookSecret ?? process.env.BEEP_WEBHOOK_SECRET
+    };
+}
+
+function createEmulatorApp(state: EmulatorState): Express {
+    const app = express();
+    app.use(express.json());
+
+    app.get('/healthz', (req, res) => {
+        res.json({ status: 'ok', emulator: true });
+    });
+
+    // Opening the payment link pays the invoice
+    app.get('/pay/:uuid', handle(async (req, res) => {
+        const invoice = requireInvoice(state, req.params.uuid);
+        await settleInvoice(state, invoice, 'paid');
+        res.type('text/plain').send(`Invoice ${invoice.uuid} paid (Beep emulator)`);
+    }));
+
+    app.post('/mcp', handle((req, res) => handleMcpRequest(state, req, res)));
+
+    app.use('/_emulator', createControlRouter(state));
+
+    const api = createApiRouter(state);
+    app.use('/v1', requireApiKey, api);
+    app.use('/', requireApiKey, api);
+
+    app.use((req: Request, res: Response) => {
+        res.status(404).json({ message: `Route ${req.method} ${req.path} not emulated` });
+    });
+    app.use(handleError);
+
+    return app;
+}
+
+// =============================================================================
+// API ROUTES
+// =============================================================================
+
+function createApiRouter(state: EmulatorState): Router {
+    const router = Router();
+
+    router.get('/user', (req, res) => {
+        res.json({
+            id: MERCHANT_ID,
+            merchantId: MERCHANT_ID,
+            email: 'merchant@beep.emulator',
+            suiAddress: MERCHANT_SUI_ADDRESS
+        });
+    });
+
+    router.post('/invoices', (req, res) => {
+        const invoice = createInvoice(state, {
+            amount: req.body.amount,
+            token: req.body.token || req.body.currency,
+            description: req.body.description,
+            referenceKey: req.body.referenceKey,
+            payerType: req.body.payerType,
+            payerMerchantId: req.body.payerMerchantId
+        });
+        res.status(201).json(toInvoiceResponse(invoice));
+    });
+
+    router.get('/invoices', (req, res) => {
+        res.json([...state.invoices.values()].map(toInvoiceResponse));
+    });
+
+    router.post('/invoices/issue-payment', (req, res) => {
+        const invoice = req.body.invoiceId
+            ? requireInvoice(state, req.body.invoiceId)
+            : createInvoice(state, {
+                amount: 0,
+                description: (req.body.assetChunks || []).map((a: any) => a.name || a.assetId).join(', ') || 'Streaming payment',
+                payerType: 'merchant_wallet',
+                payerMerchantId: req.body.payingMerchantId
+            });
+
+        invoice.payerMerchantId = req.body.payingMerchantId ?? invoice.payerMerchantId;
+        res.json({ referenceKey: invoice.referenceKey, invoiceId: invoice.uuid });
+    });
+
+    router.post('/invoices/start', (req, res) => {
+        const invoice = requireInvoice(state, req.body.invoiceId);
+        if (invoice.streaming === 'stopped') {
+            throw new EmulatorError(`Streaming for invoice ${invoice.uuid} was stopped`, 409);
+        }
+        setStreaming(invoice, 'active');
+        res.json({ invoiceId: invoice.uuid });
+    });
+
+    router.post('/invoices/pause', (req, res) => {
+        const invoice = requireInvoice(state, req.body.invoiceId);
+        if (invoice.streaming !== 'active') {
+            throw new EmulatorError(`Streaming for invoice ${invoice.uuid} is ${invoice.streaming}, not active`, 409);
+        }
+        setStreaming(invoice, 'paused');
+        res.json({ success: true });
+    });
+
+    router.post('/invoices/stop', (req, res) => {
+        const invoice = requireInvoice(state, req.body.invoiceId);
+        if (invoice.streaming === 'stopped') {
+            throw new EmulatorError(`Streaming for invoice ${invoice.uuid} already stopped`, 409);
+        }
+        setStreaming(invoice, 'stopped');
+        res.json({ invoiceId: invoice.uuid, referenceKeys: [invoice.referenceKey] });
+    });
+
+    router.post('/invoices/check-payment-status', (req, res) => {
+        const invoice = findInvoice(state, req.body.referenceKey);
+        if (!invoice) {
+            return res.json({ status: 'NOT_FOUND' });
+        }
+        res.json({
+            status: invoice.status === 'paid' ? 'COMPLETED' : invoice.status === 'expired' ? 'FAILED' : 'PENDING',
+            amount: toUnits(invoice.amount),
+            chain: 'SUI',
+            token: invoice.token
+        });
+    });
+
+    router.get('/invoices/:id', handle(async (req, res) => {
+        const invoice = requireInvoice(state, req.params.id);
+        await recordPoll(state, invoice);
+        res.json(toInvoiceResponse(invoice));
+    }));
+
+    router.delete('/invoices/:id', (req, res) => {
+        const invoice = requireInvoice(state, req.params.id);
+        state.invoices.delete(invoice.uuid);
+        res.status(204).end();
+    });
+
+    // 402 with the payment request while unpaid, 200 once paid
+    router.post('/payment/request-payment', handle(async (req, res) => {
+        let invoice = req.body.paymentReference ? findInvoice(state, req.body.paymentReference) : null;
+
+        if (invoice) {
+            await recordPoll(state, invoice);
+        } else {
+            invoice = createInvoice(state, {
+                amount: 0,
+                description: req.body.paymentLabel || 'Asset purchase',
+                referenceKey: req.body.paymentReference
+            });
+        }
+
+        if (invoice.status === 'paid') {
+            return res.json({ data: { type: 'paid', value: req.body.assets || [] } });
+        }
+        res.status(402).json({ data: toPaymentRequest(invoice) });
+    }));
+
+    router.use(handleError);
+    return router;
+}
+
+function createControlRouter(state: EmulatorState): Router {
+    const router = Router();
+
+    router.get('/invoices', (req, res) => {
+        res.json({ scenario: state.scenarioSpec, invoices: [...state.invoices.values()] });
+    });
+
+    router.post('/invoices/:id/pay', handle(async (req, res) => {
+        const invoice = requireInvoice(state, req.params.id);
+        await settleInvoice(state, invoice, 'paid');
+        res.json(invoice);
+    }));
+
+    router.post('/invoices/:id/expire', handle(async (req, res) => {
+        const invoice = requireInvoice(state, req.params.id);
+        await settleInvoice(state, invoice, 'expired');
+        res.json(invoice);
+    }));
+
+    router.post('/scenario', (req, res) => {
+        setScenario(state, req.body.scenario);
+        res.json({ scenario: state.scenarioSpec });
+    });
+
+    router.post('/reset', (req, res) => {
+        resetState(state);
+        res.json({ success: true });
+    });
+
+    router.use(handleError);
+    return router;
+}
+
+// =============================================================================
+// MCP
+// =============================================================================
+
+const MCP_TOOLS = [
+    {
+        name: 'requestAndPurchaseAsset',
+        description: 'Request a payment; returns an invoice to pay',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                amount: { type: 'number' },
+                currency: { type: 'string', enum: ['USDC', 'USDT', 'SUI'] },
+                referenceId: { type: 'string' }
+            },
+            required: ['amount', 'referenceId']
+        }
+    },
+    {
+        name: 'getPaidResource',
+        description: 'Access a resource once its invoice is paid',
+        inputSchema: {
+            type: 'object',
+            properties: { resourceId: { type: 'string' } },
+            required: ['resourceId']
+        }
+    }
+];
+
+/**
+ * JSON-RPC over POST /mcp with the session in the mcp-session-id header
+ */
+async function handleMcpRequest(state: EmulatorState, req: Request, res: Response): Promise<void> {
+    const { id, method, params } = req.body || {};
+    const reply = (result: any) => res.json({ jsonrpc: '2.0', id, result });
+    const fail = (status: number, code: number, message: string) =>
+        res.status(status).json({ jsonrpc: '2.0', id, error: { code, message } });
+
+    if (method === 'initialize') {
+        const sessionId = crypto.randomUUID();
+        state.mcpSessions.add(sessionId);
+        res.setHeader('mcp-session-id', sessionId);
+        reply({
+            protocolVersion: '2024-11-05',
+            capabilities: { tools: {} },
+            serverInfo: { name: 'beep-emulator', version: '1.0.0' }
+        });
+        return;
+    }
+
+    const sessionId = req.header('mcp-session-id');
+    if (!sessionId || !state.mcpSessions.has(sessionId)) {
+        fail(400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+    }
+
+    switch (method) {
+        case 'tools/list':
+            reply({ tools: MCP_TOOLS });
+            return;
+
+        case 'tools/call': {
+            const args = params?.arguments || {};
+
+            if (params?.name === 'requestAndPurchaseAsset') {
+                const invoice = createInvoice(state, {
+                    amount: args.amount,
+                    token: args.currency,
+                    description: `MCP payment ${args.referenceId}`,
+                    referenceKey: args.referenceId
+                });
+                reply({
+                    content: [{ type: 'text', text: `Invoice ${invoice.uuid} created, pay at ${invoice.paymentUrl}` }],
+                    ...toPaymentRequest(invoice)
+                });
+                return;
+            }
+
+            if (params?.name === 'getPaidResource') {
+                const invoice = findInvoice(state, args.resourceId);
+                if (!invoice) {
+                    fail(200, -32001, `Resource ${args.resourceId} not found`);
+                    return;
+                }
+
+                await recordPoll(state, invoice);
+                if (invoice.status !== 'paid') {
+                    fail(200, -32002, `Payment required - invoice ${invoice.uuid} is ${invoice.status}`);
+                    return;
+                }
+                reply({
+                    content: [{ type: 'text', text: `Resource ${args.resourceId} unlocked` }],
+                    resourceId: args.resourceId,
+                    invoiceId: invoice.uuid,
+                    status: invoice.status
+                });
+                return;
+            }
+
+            fail(200, -32602, `Unknown tool ${params?.name}`);
+            return;
+        }
+
+        default:
+            fail(200, -32601, `Method not found: ${method}`);
+    }
+}
+
+// =============================================================================
+// INVOICES
+// =============================================================================
+
+function createInvoice(
+    state: EmulatorState,
+    input: {
+        amount: unknown;
+        token?: string;
+        description?: string;
+        referenceKey?: string;
+        payerType?: string;
+        payerMerchantId?: string;
+    }
+): EmulatedInvoice {
+    const now = new Date();
+    const uuid = crypto.randomUUID();
+
+    const invoice: EmulatedInvoice = {
+        id: String(state.nextInvoiceId++),
+        uuid,
+        referenceKey: input.referenceKey || crypto.randomBytes(12).toString('hex'),
+        description: input.description || '',
+        amount: Number(input.amount || 0).toFixed(2),
+        token: input.token || 'USDC',
+        payerType: input.payerType || 'customer_wallet',
+        payerMerchantId: input.payerMerchantId ?? null,
+        receivingMerchantId: MERCHANT_ID,
+        status: 'pending',
+        paymentUrl: `${state.baseUrl}/pay/${uuid}`,
+        streaming: 'idle',
+        polls: 0,
+        scenario: state.scenario,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + INVOICE_TTL_MS).toISOString()
+    };
+    state.invoices.set(uuid, invoice);
+
+    const { outcome, afterSeconds } = invoice.scenario;
+    if (outcome !== 'pending' && afterSeconds !== undefined) {
+        const timer = setTimeout(() => {
+            state.timers.delete(timer);
+            settleInvoice(state, invoice, outcome);
+        }, afterSeconds * 1000);
+        timer.unref();
+        state.timers.add(timer);
+    }
+
+    console.log(`[BeepEmulator] Invoice ${invoice.id} (${uuid}) created for ${invoice.amount} ${invoice.token}`);
+    return invoice;
+}
+
+/**
+ * Count a status check and settle the invoice when its scenario says so
+ */
+async function recordPoll(state: EmulatorState, invoice: EmulatedInvoice): Promise<void> {
+    invoice.polls++;
+
+    const { outcome, afterPolls } = invoice.scenario;
+    if (invoice.status === 'pending' && afterPolls !== undefined && invoice.polls >= afterPolls) {
+        await settleInvoice(state, invoice, outcome);
+    }
+}
+
+async function settleInvoice(
+    state: EmulatorState,
+    invoice: EmulatedInvoice,
+    status: EmulatedInvoiceStatus
+): Promise<void> {
+    if (invoice.status !== 'pending' || status === 'pending') {
+        return;
+    }
+
+    invoice.status = status;
+    invoice.updatedAt = new Date().toISOString();
+    console.log(`[BeepEmulator] Invoice ${invoice.id} (${invoice.uuid}) ${status}`);
+
+    await deliverWebhook(state, invoice);
+}
+
+/**
+ * POST the settled invoice to BEEP_EMULATOR_WEBHOOK_URL, signed with BEEP_WEBHOOK_SECRET
+ */
+async function deliverWebhook(state: EmulatorState, invoice: EmulatedInvoice): Promise<void> {
+    if (!state.webhookUrl || !state.webhookSecret) {
+        return;
+    }
+
+    const body = JSON.stringify({
+        type: `invoice.${invoice.status}`,
+        data: toInvoiceResponse(invoice)
+    });
+
+    for (let attempt = 1; attempt <= WEBHOOK_ATTEMPTS; attempt++) {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const signature = crypto
+            .createHmac('sha256', state.webhookSecret)
+            .update(`${timestamp}.${body}`)
+            .digest('hex');
+
+        try {
+            const response = await fetch(state.webhookUrl, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-beep-timestamp': String(timestamp),
+                    'x-beep-signature': `sha256=${signature}`
+                },
+                body
+            });
+
+            if (response.ok) {
+                return;
+            }
+            console.warn(`[BeepEmulator] Webhook for ${invoice.uuid} answered ${response.status} (attempt ${attempt})`);
+        } catch (error: any) {
+            console.warn(`[BeepEmulator] Webhook for ${invoice.uuid} failed (attempt ${attempt}): ${error.message}`);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+    }
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function setScenario(state: EmulatorState, spec: string): void {
+    state.scenario = parseScenario(spec);
+    state.scenarioSpec = spec;
+    console.log(`[BeepEmulator] Scenario: ${spec}`);
+}
+
+function resetState(state: EmulatorState): void {
+    for (const timer of state.timers) {
+        clearTimeout(timer);
+    }
+    state.timers.clear();
+    state.invoices.clear();
+    state.mcpSessions.clear();
+    state.nextInvoiceId = 1;
+}
+
+/**
+ * Look an invoice up by numeric ID, UUID or reference key
+ */
+function findInvoice(state: EmulatorState, key: string | undefined): EmulatedInvoice | null {
+    if (!key) return null;
+
+    const byUuid = state.invoices.get(key);
+    if (byUuid) return byUuid;
+
+    for (const invoice of state.invoices.values()) {
+        if (invoice.id === key || invoice.referenceKey === key) {
+            return invoice;
+        }
+    }
+    return null;
+}
+
+function requireInvoice(state: EmulatorState, key: string | undefined): EmulatedInvoice {
+    const invoice = findInvoice(state, key);
+    if (!invoice) {
+        throw new EmulatorError(`Invoice ${key} not found`, 404);
+    }
+    return invoice;
+}
+
+function setStreaming(invoice: EmulatedInvoice, streaming: StreamingState): void {
+    invoice.streaming = streaming;
+    invoice.updatedAt = new Date().toISOString();
+    console.log(`[BeepEmulator] Invoice ${invoice.uuid} streaming ${streaming}`);
+}
+
+function toInvoiceResponse(invoice: EmulatedInvoice) {
+    return {
+        id: invoice.id,
+        uuid: invoice.uuid,
+        referenceKey: invoice.referenceKey,
+        description: invoice.description,
+        amount: invoice.amount,
+        token: invoice.token,
+        payerType: invoice.payerType,
+        payerMerchantId: invoice.payerMerchantId,
+        receivingMerchantId: invoice.receivingMerchantId,
+        status: invoice.status,
+        paymentUrl: invoice.paymentUrl,
+        createdAt: invoice.createdAt,
+        updatedAt: invoice.updatedAt,
+        expiresAt: invoice.expiresAt
+    };
+}
+
+function toPaymentRequest(invoice: EmulatedInvoice) {
+    return {
+        invoiceId: invoice.uuid,
+        referenceKey: invoice.referenceKey,
+        paymentUrl: invoice.paymentUrl,
+        amount: Number(invoice.amount),
+        splTokenAddress: invoice.token,
+        expiresAt: invoice.expiresAt,
+        receivingMerchantId: invoice.receivingMerchantId,
+        status: invoice.status
+    };
+}
+
+/**
+ * '12.50' → '12500000' (6 decimals)
+ */
+function toUnits(amount: string): string {
+    return String(Math.round(Number(amount) * 1_000_000));
+}
+
+function requireApiKey(req: Request, res: Response, next: NextFunction): void {
+    if (!/^Bearer \S+/.test(req.header('authorization') || '')) {
+        res.status(401).json({ message: 'Missing API key' });
+        return;
+    }
+    next();
+}
+
+/**
+ * Wrap an async handler so thrown errors reach handleError
+ */
+function handle(fn: (req: Request, res: Response) => Promise<unknown> | unknown) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        Promise.resolve(fn(req, res)).catch(next);
+    };
+}
+
+function handleError(err: Error, req: Request, res: Response, next: NextFunction): void {
+    const statusCode = err instanceof EmulatorError ? err.statusCode : 500;
+    if (statusCode === 500) {
+        console.error('[BeepEmulator] Error:', err);
+    }
+    res.status(statusCode).json({ message: err.message });
+}
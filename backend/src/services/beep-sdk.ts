@@ -6,10 +6,12 @@
 
 import { BeepClient, SupportedToken } from '@beep-it/sdk-core';
 import QRCode from 'qrcode';
+import { getBeepApiUrl } from './beep-emulator.js';
 
-// Initialize Beep client
+// Initialize Beep client (BEEP_URL / BEEP_EMULATOR select a local stand-in)
 const beepClient = new BeepClient({
-    apiKey: process.env.BEEP_API_KEY || ''
+    apiKey: process.env.BEEP_API_KEY || '',
+    serverUrl: getBeepApiUrl()
 });
 
 if (!process.env.BEEP_API_KEY) {
@@ -202,8 +204,9 @@ export async function createInvoice(params: {
 
 /**
  * Check Payment Status
+ * amount is the invoice amount in USDC
  */
-export async function getPaymentStatus(invoiceId: string): Promise<{ paid: boolean; status?: string }> {
+export async function getPaymentStatus(invoiceId: string): Promise<{ paid: boolean; status?: string; amount?: number }> {
     console.log('[BeepSDK] Checking status for:', invoiceId);
 
     try {
@@ -214,7 +217,11 @@ export async function getPaymentStatus(invoiceId: string): Promise<{ paid: boole
         
         console.log('[BeepSDK] Status:', invoice.status, '→ Paid:', paid);
         
-        return { paid, status: invoice.status };
+        return {
+            paid,
+            status: invoice.status,
+            amount: invoice.amount !== undefined ? Number(invoice.amount) : undefined
+        };
     } catch (error: any) {
         console.error('[BeepSDK] ❌ Status check failed:', error.message);
         return { paid: false, status: 'error' };
@@ -241,11 +248,67 @@ export async function issuePayment(params: {
     }
 }
 
+/**
+ * Issue a Streaming Payment for an hourly job
+ *
+ * The stream bills BEEP_HOURLY_ASSET_ID (priced per hour in Beep) to the
+ * paying merchant while it runs. Returns the streaming invoice ID.
+ */
+export async function issueStreamingPayment(params: {
+    name: string;
+    payingMerchantId?: string;
+}): Promise<string> {
+    const assetId = process.env.BEEP_HOURLY_ASSET_ID;
+    if (!assetId) {
+        throw new Error('BEEP_HOURLY_ASSET_ID not set');
+    }
+
+    const payingMerchantId = params.payingMerchantId
+        || process.env.BEEP_STREAM_PAYER_MERCHANT_ID
+        || await getMerchantId();
+
+    const response = await beepClient.payments.issuePayment({
+        payingMerchantId,
+        assetChunks: [{ assetId, quantity: 1, name: params.name }]
+    });
+    console.log('[BeepSDK] Streaming invoice issued:', response.invoiceId);
+    return response.invoiceId;
+}
+
+/**
+ * Start (or resume) billing on a streaming invoice
+ */
+export async function startStreaming(invoiceId: string): Promise<void> {
+    await beepClient.payments.startStreaming({ invoiceId });
+}
+
+/**
+ * Pause billing on a streaming invoice; startStreaming() resumes it
+ */
+export async function pauseStreaming(invoiceId: string): Promise<void> {
+    const response = await beepClient.payments.pauseStreaming({ invoiceId });
+    if (!response.success) {
+        throw new Error(`Beep refused to pause stream ${invoiceId}`);
+    }
+}
+
+/**
+ * Stop a streaming invoice for good and settle it
+ */
+export async function stopStreaming(invoiceId: string): Promise<string[]> {
+    const response = await beepClient.payments.stopStreaming({ invoiceId });
+    return response.referenceKeys;
+}
+
 // Export service
 export const beepSDKService = {
     createInvoice,
     getPaymentStatus,
     issuePayment,
+    issueStreamingPayment,
+    startStreaming,
+    pauseStreaming,
+    stopStreaming,
     getMerchantId,
     getInvoiceUuid
 };
@@ -0,0 +1,184 @@
+/**
+ * =============================================================================
+ * Beep Webhook Service - Signed Payment Notifications
+ * =============================================================================
+ *
+ * Beep notifies us when an invoice changes state, so payments are picked up
+ * immediately instead of waiting for the reconciliation sweep.
+ *
+ * SIGNATURE:
+ *   x-beep-timestamp: unix seconds
+ *   x-beep-signature: sha256=<hex HMAC-SHA256(BEEP_WEBHOOK_SECRET, "<timestamp>.<raw body>")>
+ *
+ * IDEMPOTENCY:
+ *   Deliveries are recorded in beep_webhook_events keyed by invoice UUID and
+ *   event type. A delivery whose event was already processed is acknowledged
+ *   without touching the job again.
+ *
+ * =============================================================================
+ */
+
+import crypto from 'crypto';
+import {
+    getJobByInvoiceId,
+    recordWebhookEvent,
+    updateWebhookEventStatus,
+    BeepWebhookEvent
+} from '../db/queries.js';
+import { processPayment } from './payment-poller.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BeepWebhookPayload {
+    /** e.g. 'invoice.paid', 'invoice.expired' */
+    type: string;
+    invoiceUuid: string;
+    status?: string;
+    raw: any;
+}
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'ignored' | 'failed';
+
+export interface WebhookResult {
+    outcome: WebhookOutcome;
+    event: BeepWebhookEvent;
+    jobId?: number;
+    message: string;
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class WebhookError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'WebhookError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/** Reject deliveries signed more than this long ago (replay protection) */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+function getWebhookSecret(): string {
+    const secret = process.env.BEEP_WEBHOOK_SECRET;
+    if (!secret) {
+        throw new WebhookError('BEEP_WEBHOOK_SECRET is not configured', 500);
+    }
+    return secret;
+}
+
+// =============================================================================
+// SIGNATURE VERIFICATION
+// =============================================================================
+
+/**
+ * Verify the signature of a webhook delivery against its raw body
+ */
+export function verifyWebhookSignature(
+    rawBody: Buffer | undefined,
+    signatureHeader: string | undefined,
+    timestampHeader: string | undefined
+): void {
+    const secret = getWebhookSecret();
+
+    if (!rawBody || !signatureHeader || !timestampHeader) {
+        throw new WebhookError('Missing webhook signature', 401);
+    }
+
+    const timestamp = parseInt(timestampHeader);
+    if (isNaN(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+        throw new WebhookError('Webhook timestamp outside tolerance', 401);
+    }
+
+    const expected = crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.`)
+        .update(rawBody)
+        .digest('hex');
+
+    const received = signatureHeader.replace(/^sha256=/, '');
+    const expectedBuf = Buffer.from(expected, 'hex');
+    const receivedBuf = Buffer.from(received, 'hex');
+
+    if (expectedBuf.length !== receivedBuf.length || !crypto.timingSafeEqual(expectedBuf, receivedBuf)) {
+        throw new WebhookError('Invalid webhook signature', 401);
+    }
+}
+
+// =============================================================================
+// EVENT HANDLING
+// =============================================================================
+
+/**
+ * Normalize a webhook body into the fields we act on
+ * Accepts { type, data: { uuid | invoiceId, status } } and flat variants
+ */
+export function parseWebhookPayload(body: any): BeepWebhookPayload {
+    const invoice = body?.data?.invoice || body?.data || body?.invoice || body || {};
+    const invoiceUuid = invoice.uuid || invoice.invoiceUuid || invoice.invoiceId || invoice.id;
+    const status = invoice.status || body?.status;
+    const type = body?.type || body?.event || (status ? `invoice.${status}` : undefined);
+
+    if (!invoiceUuid || !type) {
+        throw new WebhookError('Webhook payload must contain an invoice UUID and an event type');
+    }
+
+    return { type, invoiceUuid: String(invoiceUuid), status, raw: body };
+}
+
+/**
+ * Handle a verified webhook delivery
+ *
+ * WORKFLOW:
+ * 1. Record the delivery (idempotency key: invoice UUID + event type)
+ * 2. Skip it if that event was already processed
+ * 3. For paid invoices, hand off to processPayment()
+ */
+export async function handleWebhookEvent(payload: BeepWebhookPayload): Promise<WebhookResult> {
+    const event = await recordWebhookEvent(payload.invoiceUuid, payload.type, payload.raw);
+
+    if (event.status === 'processed' || event.status === 'ignored') {
+        console.log(`[BeepWebhook] Duplicate ${payload.type} for invoice ${payload.invoiceUuid} (attempt ${event.attempts})`);
+        return {
+            outcome: 'duplicate',
+            event,
+            jobId: event.job_id ?? undefined,
+            message: 'Event already handled'
+        };
+    }
+
+    const isPaid = payload.type === 'invoice.paid' || payload.status === 'paid';
+    if (!isPaid) {
+        const ignored = await updateWebhookEventStatus(event.id, 'ignored', null);
+        return { outcome: 'ignored', event: ignored, message: `No action for ${payload.type}` };
+    }
+
+    const job = await getJobByInvoiceId(payload.invoiceUuid);
+    if (!job) {
+        // Keep it 'failed' so a later retry can still match once the job is stored
+        const failed = await updateWebhookEventStatus(event.id, 'failed', null, 'No job for invoice');
+        console.warn(`[BeepWebhook] ⚠️ No job found for invoice ${payload.invoiceUuid}`);
+        return { outcome: 'failed', event: failed, message: 'No job found for invoice' };
+    }
+
+    console.log(`[BeepWebhook] 💰 Invoice ${payload.invoiceUuid} paid, processing job ${job.id}`);
+
+    const escrowed = await processPayment(job, 'system:beep-webhook');
+
+    if (!escrowed) {
+        const failed = await updateWebhookEventStatus(event.id, 'failed', job.id, 'Payment processing failed');
+        return { outcome: 'failed', event: failed, jobId: job.id, message: 'Payment processing failed' };
+    }
+
+    const processed = await updateWebhookEventStatus(event.id, 'processed', job.id);
+    return { outcome: 'processed', event: processed, jobId: job.id, message: 'Payment processed' };
+}
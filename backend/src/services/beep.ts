@@ -10,8 +10,10 @@
  * 3. Use session ID for ALL subsequent requests
  */
 
-const BEEP_MCP_ENDPOINT = 'https://api.justbeep.it/mcp';
-const BEEP_API_BASE = 'https://api.justbeep.it';
+import { getBeepApiUrl } from './beep-emulator.js';
+
+// Resolved per call so BEEP_URL / BEEP_EMULATOR apply once .env is loaded
+const getMcpEndpoint = () => `${getBeepApiUrl()}/mcp`;
 
 interface JsonRpcRequest {
     jsonrpc: '2.0';
@@ -58,10 +60,10 @@ export class BeepMcpClient {
 
         this.initializing = (async () => {
             console.log('[BeepMCP] Initializing session...');
-            console.log('[BeepMCP] Endpoint:', BEEP_MCP_ENDPOINT);
+            console.log('[BeepMCP] Endpoint:', getMcpEndpoint());
 
             try {
-                const response = await fetch(BEEP_MCP_ENDPOINT, {
+                const response = await fetch(getMcpEndpoint(), {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
@@ -216,7 +218,7 @@ export class BeepMcpClient {
             throw new Error('Not initialized - call initialize() first');
         }
 
-        const response = await fetch(BEEP_MCP_ENDPOINT, {
+        const response = await fetch(getMcpEndpoint(), {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -265,7 +267,7 @@ export class BeepPaymentService {
     }): Promise<any> {
         console.log(`[BeepAPI] Creating invoice: $${params.amount} ${params.currency || 'USDC'}`);
 
-        const response = await fetch(`${BEEP_API_BASE}/invoices`, {
+        const response = await fetch(`${getBeepApiUrl()}/invoices`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -301,7 +303,7 @@ export class BeepPaymentService {
         expiresAt: string;
         paymentUrl?: string;
     }> {
-        const response = await fetch(`${BEEP_API_BASE}/invoices/${invoiceId}`, {
+        const response = await fetch(`${getBeepApiUrl()}/invoices/${invoiceId}`, {
             method: 'GET',
             headers: {
                 'Content-Type': 'application/json',
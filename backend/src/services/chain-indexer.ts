@@ -0,0 +1,561 @@
+/**
+ * =============================================================================
+ * Chain Indexer Service - Escrow and Pool Event Index
+ * =============================================================================
+ *
+ * Pages through the events of the escrow and user_pool Move modules with a
+ * cursor stored per module, writes every event to chain_events and
+ * reconciles jobs and user_pools from it. This keeps the database right even
+ * when users interact with the contracts outside our UI.
+ *
+ * RECONCILIATION:
+ * - EscrowCreated:   unpaid job (matched by job_reference) → escrowed, only
+ *                    when the platform wallet locked the job's full amount
+ *                    in USDC - anyone can call create_escrow with a reference
+ * - EscrowReleased:  job → completed, then paid_out (the release paid the
+ *                    agent; recorded as a payout when made outside the API)
+ * - EscrowCancelled: job → cancelled, or noted when the agent has been paid
+ *                    (the sub-job budget going back to the platform)
+ * - EmergencyRecoveryPerformed, EscrowPartiallyReleased, FeeCollected:
+ *                    noted on the job
+ * Escrows created and cancelled are also posted to the ledger.
+ * - PoolCreated:     user_pools row created for known owners
+ * - Deposited / AgentSpent / Withdrawn: pool transaction recorded (unless the
+ *   API already did) and the pool balance set from the event
+ *
+ * Jobs that cannot make the matching move are left alone and the mismatch
+ * is written to their audit trail.
+ *
+ * =============================================================================
+ */
+
+import { SuiEvent } from '@mysten/sui/client';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import {
+    getJobById,
+    getJobByReferenceKey,
+    getJobByEscrowObjectId,
+    findUserByWallet,
+    getPoolByObjectId,
+    createUserPool,
+    createPoolTransaction,
+    getPoolTransactionByDigest,
+    getPayoutsByJob,
+    getChainEventCursor,
+    saveChainEventCursor,
+    insertChainEvent,
+    updateChainEventReconciliation,
+    ChainEvent,
+    Job,
+    JobStatus
+} from '../db/queries.js';
+import { getSuiClient, getEscrowState, getPlatformAddress, getUsdcCoinType } from './sui.js';
+import { savePoolBalance } from './pool.js';
+import { recordReleasedPayout } from './payout.js';
+import { recordJobFunding, recordEscrowReturned } from './ledger.js';
+import {
+    transitionJob,
+    recordJobActivity,
+    canTransition,
+    JobActor
+} from './job-lifecycle.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface EventStream {
+    packageId: string;
+    module: 'escrow' | 'user_pool';
+}
+
+/**
+ * What an event was reconciled against
+ */
+interface ReconcileResult {
+    jobId?: number;
+    poolId?: number;
+    /** Why the event was not applied to its job */
+    mismatch?: string;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const config = {
+    intervalMs: parseInt(process.env.CHAIN_INDEXER_INTERVAL_MS || '10000'),
+    pageSize: 50,
+    /** Pages read per run, so one run cannot hold the loop forever */
+    maxPagesPerRun: 20
+};
+
+const INDEXER_ACTOR: JobActor = 'system:chain-indexer';
+
+/** Statuses in which a cancelled escrow is a reclaim, not a refund (chain-outbox queueEscrowReclaim) */
+const RECLAIMABLE_STATUSES: JobStatus[] = ['release_pending', 'completed', 'paid_out'];
+
+function getEventStreams(): EventStream[] {
+    const escrowPackageId = process.env.SUI_ESCROW_PACKAGE_ID;
+    const poolPackageId = process.env.SUI_POOL_PACKAGE_ID || escrowPackageId;
+
+    const streams: EventStream[] = [];
+    if (escrowPackageId) {
+        streams.push({ packageId: escrowPackageId, module: 'escrow' });
+    }
+    if (poolPackageId) {
+        streams.push({ packageId: poolPackageId, module: 'user_pool' });
+    }
+    return streams;
+}
+
+// =============================================================================
+// INDEXER LOOP
+// =============================================================================
+
+let indexerInterval: NodeJS.Timeout | null = null;
+let isIndexing = false;
+
+/**
+ * Start the background chain indexer
+ */
+export function startChainIndexer(): void {
+    if (indexerInterval) {
+        console.log('[ChainIndexer] Already running');
+        return;
+    }
+
+    if (getEventStreams().length === 0) {
+        console.warn('[ChainIndexer] No package IDs configured, not starting');
+        return;
+    }
+
+    console.log(`[ChainIndexer] Starting with ${config.intervalMs}ms interval`);
+
+    indexEvents();
+    indexerInterval = setInterval(indexEvents, config.intervalMs);
+}
+
+/**
+ * Stop the background chain indexer
+ */
+export function stopChainIndexer(): void {
+    if (indexerInterval) {
+        clearInterval(indexerInterval);
+        indexerInterval = null;
+        console.log('[ChainIndexer] Stopped');
+    }
+}
+
+async function indexEvents(): Promise<void> {
+    // Prevent overlapping runs
+    if (isIndexing) return;
+    isIndexing = true;
+
+    try {
+        for (const stream of getEventStreams()) {
+            await indexStream(stream);
+        }
+    } catch (error) {
+        console.error('[ChainIndexer] Error indexing events:', error);
+    } finally {
+        isIndexing = false;
+    }
+}
+
+/**
+ * Read new events of one module, page by page
+ * The cursor is saved after each page, so a crash re-reads at most one page
+ */
+async function indexStream(stream: EventStream): Promise<number> {
+    const client = getSuiClient();
+    const key = `${stream.packageId}::${stream.module}`;
+    let cursor = await getChainEventCursor(key);
+    let indexed = 0;
+
+    for (let page = 0; page < config.maxPagesPerRun; page++) {
+        const result = await client.queryEvents({
+            query: { MoveEventModule: { package: stream.packageId, module: stream.module } },
+            cursor,
+            limit: config.pageSize,
+            order: 'ascending'
+        });
+
+        for (const event of result.data) {
+            if (await indexEvent(stream, event)) {
+                indexed++;
+            }
+        }
+
+        if (result.nextCursor) {
+            cursor = result.nextCursor;
+            await saveChainEventCursor(key, cursor);
+        }
+
+        if (!result.hasNextPage) {
+            break;
+        }
+    }
+
+    if (indexed > 0) {
+        console.log(`[ChainIndexer] Indexed ${indexed} ${stream.module} events`);
+    }
+    return indexed;
+}
+
+/**
+ * Store one event and reconcile it
+ * @returns false if the event was already indexed
+ */
+async function indexEvent(stream: EventStream, event: SuiEvent): Promise<boolean> {
+    const fields = (event.parsedJson || {}) as Record<string, any>;
+    const eventType = getEventName(event.type);
+
+    const stored = await insertChainEvent({
+        txDigest: event.id.txDigest,
+        eventSeq: event.id.eventSeq,
+        module: stream.module,
+        eventType,
+        objectId: fields.escrow_id || fields.pool_id || null,
+        payload: fields,
+        sender: event.sender,
+        timestampMs: event.timestampMs ?? null
+    });
+
+    if (!stored) {
+        return false;
+    }
+
+    try {
+        const result = stream.module === 'escrow'
+            ? await reconcileEscrowEvent(stored)
+            : await reconcilePoolEvent(stored);
+
+        await updateChainEventReconciliation(stored.id, result.jobId ?? null, result.poolId ?? null, result.mismatch);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[ChainIndexer] ❌ Failed to reconcile ${eventType} (${stored.tx_digest}):`, error);
+        await updateChainEventReconciliation(stored.id, null, null, message);
+    }
+
+    return true;
+}
+
+// =============================================================================
+// ESCROW RECONCILIATION
+// =============================================================================
+
+async function reconcileEscrowEvent(event: ChainEvent): Promise<ReconcileResult> {
+    const fields = event.payload;
+    const escrowObjectId: string = fields.escrow_id;
+
+    if (event.event_type === 'EscrowCreated') {
+        const job = await findJobByEscrowReference(decodeBytes(fields.job_reference));
+        if (!job) {
+            console.warn(`[ChainIndexer] ⚠️ Escrow ${escrowObjectId} has no matching job`);
+            return {};
+        }
+
+        if (job.escrow_object_id === escrowObjectId) {
+            await recordJobFunding(job, event.tx_digest);
+            return { jobId: job.id };
+        }
+
+        const fundingMismatch = await checkEscrowFunding(job, event);
+        if (fundingMismatch) {
+            await noteMismatch(job, event, fundingMismatch);
+            return { jobId: job.id, mismatch: fundingMismatch };
+        }
+
+        if (job.escrow_object_id || !canTransition(job.status, 'escrowed')) {
+            await noteMismatch(job, event, `Escrow ${escrowObjectId} created on-chain while job is '${job.status}' with escrow ${job.escrow_object_id ?? 'none'}`);
+            return { jobId: job.id };
+        }
+
+        const escrowed = await transitionJob(job.id, 'escrowed', {
+            actor: INDEXER_ACTOR,
+            reason: 'Escrow created on-chain',
+            txDigest: event.tx_digest,
+            fields: {
+                escrow_object_id: escrowObjectId,
+                escrow_tx_digest: event.tx_digest
+            }
+        });
+        await recordJobFunding(escrowed, event.tx_digest);
+        return { jobId: job.id };
+    }
+
+    const job = await getJobByEscrowObjectId(escrowObjectId);
+    if (!job) {
+        return {};
+    }
+
+    switch (event.event_type) {
+        case 'EscrowReleased':
+            await reconcileJobStatus(job, event, 'completed', 'Escrow released on-chain');
+            await reconcileReleasePayout(job, event);
+            break;
+        case 'EscrowCancelled':
+            await recordEscrowReturned(job.id, RECLAIMABLE_STATUSES.includes(job.status) ? 'reclaim' : 'refund', event.tx_digest);
+
+            if (RECLAIMABLE_STATUSES.includes(job.status)) {
+                await recordJobActivity(job.id, {
+                    actor: INDEXER_ACTOR,
+                    reason: `${formatUsdc(fields.amount)} USDC left in the escrow returned to the platform on-chain`,
+                    txDigest: event.tx_digest
+                });
+                break;
+            }
+            await reconcileJobStatus(job, event, 'cancelled', 'Escrow cancelled on-chain');
+            break;
+        case 'EscrowPartiallyReleased':
+            await recordJobActivity(job.id, {
+                actor: INDEXER_ACTOR,
+                reason: `${formatUsdc(fields.amount)} USDC released on-chain, ${formatUsdc(fields.remaining)} USDC remaining`,
+                txDigest: event.tx_digest
+            });
+            break;
+        case 'FeeCollected':
+            await recordJobActivity(job.id, {
+                actor: INDEXER_ACTOR,
+                reason: `${formatUsdc(fields.amount)} USDC platform fee released to the platform on-chain`,
+                txDigest: event.tx_digest
+            });
+            break;
+        case 'EmergencyRecoveryPerformed':
+            await noteMismatch(job, event, `Emergency recovery sent ${formatUsdc(fields.amount)} USDC to ${fields.recipient}`);
+            break;
+    }
+
+    return { jobId: job.id };
+}
+
+/**
+ * Why a created escrow cannot fund its job, or null when it can
+ * It must be locked by the platform wallet, in USDC, for the job's amount
+ */
+async function checkEscrowFunding(job: Job, event: ChainEvent): Promise<string | null> {
+    const fields = event.payload;
+    const escrowObjectId: string = fields.escrow_id;
+
+    const platformAddress = getPlatformAddress();
+    const buyer = typeof fields.buyer === 'string' ? normalizeSuiAddress(fields.buyer) : null;
+    if (!platformAddress || buyer !== platformAddress) {
+        return `Escrow ${escrowObjectId} was created by ${fields.buyer ?? 'an unknown buyer'}, not the platform wallet`;
+    }
+
+    if (Number(fields.amount) !== Math.round(Number(job.amount_usdc) * 1_000_000)) {
+        return `Escrow ${escrowObjectId} locks ${formatUsdc(fields.amount)} USDC, job is ${job.amount_usdc} USDC`;
+    }
+
+    const state = await getEscrowState(escrowObjectId);
+    if (!state?.coinType || state.coinType !== normalizeStructTag(getUsdcCoinType())) {
+        return `Escrow ${escrowObjectId} locks ${state?.coinType ?? 'an unknown coin'} instead of USDC`;
+    }
+
+    return null;
+}
+
+/**
+ * Move a job to the status implied by an on-chain event, if it is not there yet
+ */
+async function reconcileJobStatus(
+    job: Job,
+    event: ChainEvent,
+    to: JobStatus,
+    reason: string
+): Promise<void> {
+    // Already applied by the API or the chain outbox
+    if (job.status === to || (to === 'completed' && job.status === 'paid_out')) {
+        return;
+    }
+
+    if (!canTransition(job.status, to)) {
+        await noteMismatch(job, event, `${reason} while job is '${job.status}'`);
+        return;
+    }
+
+    await transitionJob(job.id, to, {
+        actor: INDEXER_ACTOR,
+        reason,
+        txDigest: event.tx_digest,
+        fields: to === 'completed' ? { release_tx_digest: event.tx_digest } : undefined
+    });
+}
+
+/**
+ * Record an escrow release made outside the API as the agent's payout
+ * Releases queued by the API already carry theirs (services/payout.ts)
+ */
+async function reconcileReleasePayout(job: Job, event: ChainEvent): Promise<void> {
+    const payouts = await getPayoutsByJob(job.id);
+    const releasedByApi = payouts.some(payout => payout.method === 'escrow');
+
+    await recordReleasedPayout(
+        job,
+        `job:${job.id}:release`,
+        releasedByApi ? 0 : toUsdc(event.payload.amount),
+        event.tx_digest,
+        INDEXER_ACTOR
+    );
+}
+
+// =============================================================================
+// POOL RECONCILIATION
+// =============================================================================
+
+async function reconcilePoolEvent(event: ChainEvent): Promise<ReconcileResult> {
+    const fields = event.payload;
+    const poolObjectId: string = fields.pool_id;
+
+    if (event.event_type === 'PoolCreated') {
+        return reconcilePoolCreated(event);
+    }
+
+    const pool = await getPoolByObjectId(poolObjectId);
+    if (!pool) {
+        return {};
+    }
+
+    const movements: Record<string, { type: 'deposit' | 'spend' | 'withdraw'; balance: string }> = {
+        Deposited: { type: 'deposit', balance: fields.new_balance },
+        AgentSpent: { type: 'spend', balance: fields.remaining_balance },
+        Withdrawn: { type: 'withdraw', balance: fields.remaining_balance }
+    };
+    const movement = movements[event.event_type];
+    if (!movement) {
+        return { poolId: pool.id };
+    }
+
+    const amount = toUsdc(fields.amount);
+    const balance = toUsdc(movement.balance);
+
+    // The API records its own deposits, withdrawals and spends - only fill gaps
+    const existing = await getPoolTransactionByDigest(pool.id, event.tx_digest, movement.type);
+
+    if (existing) {
+        await savePoolBalance(pool.id, balance);
+    } else {
+        await createPoolTransaction(
+            pool.id,
+            movement.type,
+            amount,
+            event.tx_digest,
+            undefined,
+            movement.type === 'spend' ? decodeBytes(fields.purpose) : 'Indexed from chain'
+        );
+
+        await savePoolBalance(
+            pool.id,
+            balance,
+            movement.type === 'deposit' ? Number(pool.total_deposited) + amount : undefined,
+            movement.type === 'spend' ? Number(pool.total_spent) + amount : undefined
+        );
+        console.log(`[ChainIndexer] Recorded ${movement.type} of ${amount} USDC on pool ${poolObjectId}`);
+    }
+
+    return { poolId: pool.id };
+}
+
+/**
+ * Create the pool row for pools created outside our UI
+ * Only for owners we know - the pool is linked to their user
+ */
+async function reconcilePoolCreated(event: ChainEvent): Promise<ReconcileResult> {
+    const fields = event.payload;
+    const existing = await getPoolByObjectId(fields.pool_id);
+    if (existing) {
+        return { poolId: existing.id };
+    }
+
+    const owner = await findUserByWallet(fields.owner);
+    if (!owner) {
+        return {};
+    }
+
+    const pool = await createUserPool(
+        owner.id,
+        fields.pool_id,
+        fields.pool_id,
+        fields.agent,
+        await getAgentSpendingLimit(event.tx_digest),
+        event.timestamp_ms ? Number(event.timestamp_ms) : undefined
+    );
+
+    console.log(`[ChainIndexer] Created pool ${fields.pool_id} for user ${owner.id}`);
+    return { poolId: pool.id };
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Match an escrow's job_reference to a job
+ * Escrows carry the job's reference key, or 'JOB-<id>' when it had none
+ */
+async function findJobByEscrowReference(reference: string): Promise<Job | null> {
+    const match = /^JOB-(\d+)$/.exec(reference);
+    if (match) {
+        return getJobById(parseInt(match[1]));
+    }
+    return reference ? getJobByReferenceKey(reference) : null;
+}
+
+/**
+ * Read the per-transaction spending limit from the AgentCapability created with a pool
+ */
+async function getAgentSpendingLimit(txDigest: string): Promise<number> {
+    const client = getSuiClient();
+    const tx = await client.getTransactionBlock({
+        digest: txDigest,
+        options: { showObjectChanges: true }
+    });
+
+    const cap = tx.objectChanges?.find(
+        change => change.type === 'created' && change.objectType.endsWith('::user_pool::AgentCapability')
+    );
+    if (!cap || cap.type !== 'created') {
+        return 0;
+    }
+
+    const object: any = await client.getObject({ id: cap.objectId, options: { showContent: true } });
+    return toUsdc(object.data?.content?.fields?.spending_limit);
+}
+
+async function noteMismatch(job: Job, event: ChainEvent, reason: string): Promise<void> {
+    console.warn(`[ChainIndexer] ⚠️ Job ${job.id}: ${reason}`);
+    await recordJobActivity(job.id, {
+        actor: INDEXER_ACTOR,
+        reason: `Needs review - ${reason}`,
+        txDigest: event.tx_digest
+    });
+}
+
+/**
+ * '0xpkg::escrow::EscrowCreated<0x2::sui::SUI>' → 'EscrowCreated'
+ */
+function getEventName(type: string): string {
+    return type.replace(/<.*>$/, '').split('::').pop() || type;
+}
+
+/**
+ * vector<u8> fields come back as number arrays
+ */
+function decodeBytes(value: unknown): string {
+    if (Array.isArray(value)) {
+        return Buffer.from(value as number[]).toString('utf8');
+    }
+    return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Convert a u64 amount (6 decimals) to USDC
+ */
+function toUsdc(units: unknown): number {
+    return Number(units ?? 0) / 1_000_000;
+}
+
+function formatUsdc(units: unknown): string {
+    return toUsdc(units).toFixed(2);
+}
@@ -0,0 +1,907 @@
+/**
+ * =============================================================================
+ * Chain Outbox Service - Queued On-chain Side Effects
+ * =============================================================================
+ *
+ * Escrow creation, release, cancellation, dispute rulings, pool spends,
+ * agent payout transfers and buyer refunds are queued in
+ * chain_operations instead of being fired inline. Queueing tries the
+ * operation once right away; failed attempts are retried by the worker with
+ * exponential backoff until CHAIN_OUTBOX_MAX_ATTEMPTS is reached.
+ *
+ * IDEMPOTENCY:
+ * - Every operation has an idempotency key ('job:12:release', ...);
+ *   queueing the same key again returns the existing operation
+ * - The transaction digest is stored as soon as it lands, so a retry after
+ *   a crash only re-applies the database side
+ * - Retried escrow creations, releases, cancels, rulings, pool spends,
+ *   payouts and refunds check the chain first, in case the previous attempt landed without
+ *   being recorded
+ *
+ * JOB STATUS:
+ *   The job only becomes escrowed / completed / cancelled once the
+ *   transaction is confirmed. Until then it waits in release_pending or
+ *   cancel_pending (creation keeps it unpaid). Escrowed jobs are handed to
+ *   their agent (services/agent-dispatch.ts). An escrow that lands once the
+ *   job can no longer be escrowed is cancelled again.
+ *
+ * PAYOUTS:
+ *   Releases and payout transfers carry an agent_payouts row with the same
+ *   key (services/payout.ts): it is marked sent when the operation lands
+ *   and failed when it gives up. A release keeps the payout's platform fee
+ *   out of the agent's share.
+ *
+ * REFUNDS:
+ *   Cancelled escrows and dispute rulings return the buyer's funds to the
+ *   platform wallet (the escrow's buyer); they are then transferred on to
+ *   the buyer (services/refund.ts).
+ *
+ * Escrows created and returned and buyer refunds are posted to the ledger
+ * (services/ledger.ts).
+ *
+ * An operation that gave up can be tried once more (retryChainOperation),
+ * e.g. by reconciliation (services/reconciliation.ts) once the cause is fixed.
+ *
+ * =============================================================================
+ */
+
+import {
+    getJobById,
+    getUserById,
+    enqueueChainOperation,
+    claimChainOperations,
+    recordChainOperationResult,
+    setChainOperationDigest,
+    completeChainOperation,
+    failChainOperation,
+    requeueChainOperation,
+    markMilestoneApproved,
+    getAgentPayoutByKey,
+    setAgentPayoutDigest,
+    ChainOperation,
+    ChainOperationType,
+    DisputeRuling,
+    Job
+} from '../db/queries.js';
+import {
+    createEscrow,
+    releaseEscrow,
+    cancelEscrow,
+    resolveDisputeEscrow,
+    getEscrowState,
+    transferUsdc,
+    isTransactionApplied
+} from './sui.js';
+import { agentSpendFromPool, findAppliedPoolSpend } from './pool.js';
+import { findOrphanedEscrows } from './escrow-recovery.js';
+import { openEscrowPayout, completePayout, failPayout, settleJobPayout } from './payout.js';
+import { recordJobFunding, recordEscrowReturned, recordBuyerRefund } from './ledger.js';
+import { FeeQuote } from './fees.js';
+import { getSharedAgentKeypair } from './shared-agent.js';
+import {
+    transitionJob,
+    recordJobActivity,
+    canTransition,
+    JobActor
+} from './job-lifecycle.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CreateEscrowPayload {
+    actor: JobActor;
+    reason: string;
+}
+
+export interface ReleaseEscrowPayload {
+    escrowObjectId: string;
+    buyerAddress: string;
+    /** Release only this amount (a milestone's share); omit to release everything */
+    amountUsdc?: number;
+    /** Escrow balance left once this release lands */
+    remainingUsdc: number;
+    /** Milestone approved by this release */
+    milestoneId?: number;
+    /** Platform fee kept out of the release (set from its payout) */
+    feeUsdc?: number;
+    /** Status the job moves to once the release is confirmed */
+    nextStatus: 'completed' | 'working';
+    /**
+     * Part of the escrow the agent is not paid (sub-job budget the platform
+     * fronted, unbilled hours of an hourly job); reclaimed once the job completes
+     */
+    reclaimUsdc?: number;
+    /**
+     * Part of reclaimUsdc the top-level buyer also paid through its pool
+     * (pool-funded sub-jobs); refunded to the buyer once reclaimed
+     */
+    poolRefundUsdc?: number;
+    actor: JobActor;
+    reason: string;
+}
+
+export interface CancelEscrowPayload {
+    escrowObjectId: string;
+    /**
+     * Return what is left in the escrow to the platform instead of cancelling
+     * the job (the share fronted for sub-jobs, see services/job-tree.ts)
+     */
+    reclaim?: boolean;
+    /** With reclaim: complete a job waiting in release_pending once it lands */
+    completeJob?: boolean;
+    /** With reclaim: share refunded to the top-level buyer once it lands (see ReleaseEscrowPayload) */
+    poolRefundUsdc?: number;
+    /**
+     * The escrow was never linked to the job (it landed after the job could
+     * no longer be escrowed) - only return the funds to the platform
+     */
+    unlinked?: boolean;
+    actor: JobActor;
+    reason: string;
+}
+
+export interface ResolveDisputePayload {
+    disputeId: number;
+    escrowObjectId: string;
+    ruling: DisputeRuling;
+    /** Agent's share awarded by the ruling, fee included */
+    agentAmountUsdc: number;
+    /** Rest of the ruled amount, refunded to the buyer once it is back in the platform wallet */
+    buyerAmountUsdc: number;
+    /** Share of pool-funded sub-jobs, refunded to the top-level buyer (not ruled on) */
+    poolRefundUsdc: number;
+    /** Platform fee kept in the escrow out of the agent's share */
+    fee: FeeQuote;
+    /** null when resolved automatically on timeout */
+    arbiterId: number | null;
+    notes: string | null;
+    actor: JobActor;
+}
+
+export interface PayoutTransferPayload {
+    recipientAddress: string;
+    amountUsdc: number;
+    actor: JobActor;
+    reason: string;
+}
+
+export interface BuyerRefundPayload {
+    recipientAddress: string;
+    amountUsdc: number;
+    actor: JobActor;
+    reason: string;
+}
+
+export interface PoolSpendPayload {
+    poolObjectId: string;
+    amountUsdc: number;
+    purpose: string;
+    jobId?: number;
+    /** Address that receives the coin; defaults to the shared agent */
+    recipient?: string;
+    /** Queue the escrow of jobId once the spend lands */
+    fundsEscrow?: boolean;
+}
+
+/**
+ * On-chain outcome of an operation
+ */
+interface SubmitResult {
+    /** null when the effect was found already applied on-chain */
+    txDigest: string | null;
+    result?: any;
+}
+
+interface OperationHandler {
+    /** Send the transaction */
+    submit(op: ChainOperation): Promise<SubmitResult>;
+    /** Apply the confirmed transaction to the database */
+    apply(op: ChainOperation, submitted: SubmitResult): Promise<void>;
+}
+
+/**
+ * The transaction executed but aborted - retrying it will not help
+ */
+class ChainRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ChainRejectedError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const config = {
+    intervalMs: parseInt(process.env.CHAIN_OUTBOX_INTERVAL_MS || '15000'),
+    maxAttempts: parseInt(process.env.CHAIN_OUTBOX_MAX_ATTEMPTS || '8'),
+    batchSize: 10,
+    /** A 'running' operation locked longer than this is assumed abandoned */
+    leaseSeconds: 5 * 60,
+    baseDelayMs: 10 * 1000,
+    maxDelayMs: 30 * 60 * 1000
+};
+
+const OUTBOX_ACTOR: JobActor = 'system:chain-outbox';
+
+// =============================================================================
+// QUEUEING
+// =============================================================================
+
+/**
+ * Queue the escrow that locks a paid job's funds
+ * The job moves to 'escrowed' once the escrow is created
+ */
+export async function queueEscrowCreation(
+    job: Job,
+    payload: CreateEscrowPayload
+): Promise<ChainOperation> {
+    return queue(`job:${job.id}:create_escrow`, 'create_escrow', job.id, payload);
+}
+
+/**
+ * Queue the release of a job's escrow (or of one milestone's share)
+ * The job must already be in 'release_pending'
+ */
+export async function queueEscrowRelease(
+    job: Job,
+    payload: ReleaseEscrowPayload
+): Promise<ChainOperation> {
+    const key = payload.milestoneId !== undefined
+        ? `job:${job.id}:milestone:${payload.milestoneId}:release`
+        : `job:${job.id}:release`;
+
+    const payout = await openEscrowPayout(job, key, payload.amountUsdc, payload.milestoneId);
+    return queue(key, 'release_escrow', job.id, { ...payload, feeUsdc: payout?.fee_usdc });
+}
+
+/**
+ * Queue a USDC transfer from the platform wallet to the agent of a job paid
+ * without an escrow (the agent_payouts row is opened by services/payout.ts)
+ */
+export async function queuePayoutTransfer(
+    job: Job,
+    payload: PayoutTransferPayload
+): Promise<ChainOperation> {
+    return queue(`job:${job.id}:payout`, 'payout', job.id, payload);
+}
+
+/**
+ * Queue the cancellation of a job's escrow
+ * The funds go back to the platform wallet and are then refunded to the
+ * buyer; the job must already be in 'cancel_pending'
+ */
+export async function queueEscrowCancellation(
+    job: Job,
+    payload: CancelEscrowPayload
+): Promise<ChainOperation> {
+    return queue(`job:${job.id}:cancel`, 'cancel_escrow', job.id, payload);
+}
+
+/**
+ * Queue the cancellation of an escrow created for a job that could no longer
+ * take it, so its funds do not stay locked
+ */
+export async function queueUnlinkedEscrowCancellation(
+    job: Job,
+    payload: Omit<CancelEscrowPayload, 'unlinked' | 'reclaim' | 'completeJob'>
+): Promise<ChainOperation> {
+    return queue(`escrow:${payload.escrowObjectId}:cancel`, 'cancel_escrow', job.id, { ...payload, unlinked: true });
+}
+
+/**
+ * Queue the return of the rest of a job's escrow to the platform
+ * Used once the agent has been paid its share and the sub-job budget the
+ * platform fronted is still locked
+ */
+export async function queueEscrowReclaim(
+    job: Job,
+    payload: Omit<CancelEscrowPayload, 'reclaim'>
+): Promise<ChainOperation> {
+    return queue(`job:${job.id}:reclaim`, 'cancel_escrow', job.id, { ...payload, reclaim: true });
+}
+
+/**
+ * Queue the on-chain execution of a dispute ruling
+ * The ruling is recorded and the job settled once it lands
+ * (services/dispute.ts applyDisputeRuling)
+ */
+export async function queueDisputeResolution(
+    job: Job,
+    payload: ResolveDisputePayload
+): Promise<ChainOperation> {
+    return queue(`dispute:${payload.disputeId}:resolve`, 'resolve_dispute', job.id, payload);
+}
+
+/**
+ * Queue a USDC transfer from the platform wallet back to the buyer of a job
+ * whose escrow was returned to the platform (see services/refund.ts)
+ * kind 'pool': the pool-funded sub-job share of a parent job, refunded on
+ * approval; 'buyer': everything else
+ */
+export async function queueBuyerRefund(
+    job: Job,
+    payload: BuyerRefundPayload,
+    kind: 'buyer' | 'pool' = 'buyer'
+): Promise<ChainOperation> {
+    return queue(`job:${job.id}:${kind}_refund`, 'buyer_refund', job.id, payload);
+}
+
+/**
+ * Queue a spend from a user pool by the shared agent
+ * idempotencyKey identifies the spend, e.g. the job or request it pays for
+ */
+export async function queuePoolSpend(
+    idempotencyKey: string,
+    payload: PoolSpendPayload
+): Promise<ChainOperation> {
+    return queue(`pool:${payload.poolObjectId}:${idempotencyKey}`, 'pool_spend', payload.jobId ?? null, payload);
+}
+
+/**
+ * Try an operation that gave up once more, right away
+ * Its attempt count carries on, so the retry checks the chain before
+ * resubmitting and gives up at once if it fails again
+ */
+export async function retryChainOperation(idempotencyKey: string): Promise<ChainOperation | null> {
+    const op = await requeueChainOperation(idempotencyKey);
+    if (!op) {
+        return null;
+    }
+
+    console.log(`[ChainOutbox] Retrying ${describeOperation(op)}`);
+
+    const [claimed] = await claimChainOperations(1, config.leaseSeconds, op.id);
+    return claimed ? executeOperation(claimed) : op;
+}
+
+// =============================================================================
+// WORKER
+// =============================================================================
+
+let workerInterval: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+/**
+ * Start the background outbox worker
+ */
+export function startChainOutboxWorker(): void {
+    if (workerInterval) {
+        console.log('[ChainOutbox] Worker already running');
+        return;
+    }
+
+    console.log(`[ChainOutbox] Starting worker with ${config.intervalMs}ms interval`);
+
+    processDueOperations();
+    workerInterval = setInterval(processDueOperations, config.intervalMs);
+}
+
+/**
+ * Stop the background outbox worker
+ */
+export function stopChainOutboxWorker(): void {
+    if (workerInterval) {
+        clearInterval(workerInterval);
+        workerInterval = null;
+        console.log('[ChainOutbox] Worker stopped');
+    }
+}
+
+async function processDueOperations(): Promise<void> {
+    // Prevent overlapping runs
+    if (isProcessing) return;
+    isProcessing = true;
+
+    try {
+        const operations = await claimChainOperations(config.batchSize, config.leaseSeconds);
+
+        if (operations.length > 0) {
+            console.log(`[ChainOutbox] Executing ${operations.length} queued operations`);
+        }
+
+        for (const op of operations) {
+            await executeOperation(op);
+        }
+    } catch (error) {
+        console.error('[ChainOutbox] Error processing operations:', error);
+    } finally {
+        isProcessing = false;
+    }
+}
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+const HANDLERS: Record<ChainOperationType, OperationHandler> = {
+    create_escrow: {
+        async submit(op) {
+            const job = await requireJob(op);
+
+            // Already locked by an earlier attempt that was recorded on the job
+            if (job.escrow_object_id) {
+                return { txDigest: job.escrow_tx_digest, result: { escrowObjectId: job.escrow_object_id } };
+            }
+
+            // An earlier attempt may have locked funds without the result being read
+            if (op.attempts > 1) {
+                const [orphaned] = await findOrphanedEscrows(job);
+                if (orphaned) {
+                    console.log(`[ChainOutbox] Escrow ${orphaned.escrowObjectId} for job ${job.id} already on-chain, skipping resubmit`);
+                    return { txDigest: orphaned.txDigest, result: { escrowObjectId: orphaned.escrowObjectId } };
+                }
+            }
+
+            const buyer = await getUserById(job.buyer_id);
+            if (!buyer) {
+                throw new Error(`Buyer not found for job ${job.id}`);
+            }
+
+            const agent = job.agent_id ? await getUserById(job.agent_id) : null;
+            if (!agent && job.agent_id) {
+                throw new Error(`Agent not found for job ${job.id}`);
+            }
+
+            // Platform receives USDC from Beep, then locks it on-chain
+            const { getPlatformUsdcCoin } = await import('./payment-poller.js');
+            const usdcCoinId = await getPlatformUsdcCoin(job.amount_usdc);
+
+            const escrow = await createEscrow({
+                buyerAddress: buyer.wallet_address,
+                agentAddress: agent ? agent.wallet_address : buyer.wallet_address, // Fallback to buyer if no agent yet
+                amountUsdc: job.amount_usdc,
+                jobReference: job.reference_key || `JOB-${job.id}`,
+                usdcCoinId
+            });
+
+            if (!escrow.success) {
+                throw new ChainRejectedError(`Escrow creation failed: ${escrow.error}`);
+            }
+
+            return { txDigest: escrow.txDigest, result: { escrowObjectId: escrow.escrowObjectId } };
+        },
+
+        async apply(op, submitted) {
+            const job = await requireJob(op);
+            const payload = op.payload as CreateEscrowPayload;
+
+            if (!canTransition(job.status, 'escrowed')) {
+                console.warn(`[ChainOutbox] Job ${job.id} is '${job.status}', escrow ${submitted.result.escrowObjectId} not applied - cancelling it`);
+                await queueUnlinkedEscrowCancellation(job, {
+                    escrowObjectId: submitted.result.escrowObjectId,
+                    actor: OUTBOX_ACTOR,
+                    reason: `Escrow ${submitted.result.escrowObjectId} created while job was '${job.status}' returned to the platform`
+                });
+                return;
+            }
+
+            const escrowed = await transitionJob(job.id, 'escrowed', {
+                actor: payload.actor,
+                reason: payload.reason,
+                txDigest: submitted.txDigest ?? undefined,
+                fields: {
+                    escrow_object_id: submitted.result.escrowObjectId,
+                    escrow_tx_digest: submitted.txDigest ?? undefined
+                }
+            });
+            await recordJobFunding(escrowed, submitted.txDigest);
+
+            // Funds are locked - hand the task to the agent
+            const { queueAgentDispatch } = await import('./agent-dispatch.js');
+            await queueAgentDispatch(escrowed).catch(err =>
+                console.error(`[ChainOutbox] Failed to dispatch job ${job.id} to its agent:`, err)
+            );
+        }
+    },
+
+    release_escrow: {
+        async submit(op) {
+            const payload = op.payload as ReleaseEscrowPayload;
+
+            if (op.attempts > 1 && await isReleaseApplied(payload)) {
+                console.log(`[ChainOutbox] Release for job ${op.job_id} already on-chain, skipping resubmit`);
+                return { txDigest: null };
+            }
+
+            const result = await releaseEscrow({
+                escrowObjectId: payload.escrowObjectId,
+                buyerAddress: payload.buyerAddress,
+                amountUsdc: payload.amountUsdc,
+                feeUsdc: payload.feeUsdc
+            });
+
+            if (!result.success) {
+                throw new ChainRejectedError(`Escrow release failed: ${result.error}`);
+            }
+
+            return { txDigest: result.txDigest };
+        },
+
+        async apply(op, submitted) {
+            const job = await requireJob(op);
+            const payload = op.payload as ReleaseEscrowPayload;
+            const txDigest = submitted.txDigest ?? undefined;
+
+            // The milestone share is paid either way, even if the indexer moved the job first
+            if (payload.milestoneId !== undefined) {
+                await markMilestoneApproved(payload.milestoneId, submitted.txDigest);
+            }
+
+            if (job.status !== 'release_pending') {
+                console.warn(`[ChainOutbox] Job ${job.id} is '${job.status}', release not applied`);
+                await completePayout(op.idempotency_key, submitted.txDigest, payload.actor);
+                return;
+            }
+
+            const updated = await transitionJob(job.id, payload.nextStatus, {
+                actor: payload.actor,
+                reason: payload.reason,
+                txDigest,
+                fields: payload.nextStatus === 'completed' ? { release_tx_digest: txDigest } : undefined
+            });
+
+            // Once completed, the job is paid out with this release
+            await completePayout(op.idempotency_key, submitted.txDigest, payload.actor);
+
+            if (payload.reclaimUsdc && payload.nextStatus === 'completed') {
+                await queueEscrowReclaim(updated, {
+                    escrowObjectId: payload.escrowObjectId,
+                    poolRefundUsdc: payload.poolRefundUsdc,
+                    actor: OUTBOX_ACTOR,
+                    reason: `${payload.reclaimUsdc} USDC left in the escrow returned to the platform`
+                });
+            }
+        }
+    },
+
+    cancel_escrow: {
+        async submit(op) {
+            const payload = op.payload as CancelEscrowPayload;
+
+            if (op.attempts > 1) {
+                const state = await getEscrowState(payload.escrowObjectId);
+                if (state?.status === 'cancelled') {
+                    console.log(`[ChainOutbox] Escrow ${payload.escrowObjectId} already cancelled, skipping resubmit`);
+                    return { txDigest: null };
+                }
+            }
+
+            const result = await cancelEscrow(payload.escrowObjectId);
+
+            if (!result.success) {
+                throw new ChainRejectedError(`Escrow cancellation failed: ${result.error}`);
+            }
+
+            return { txDigest: result.txDigest };
+        },
+
+        async apply(op, submitted) {
+            const job = await requireJob(op);
+            const payload = op.payload as CancelEscrowPayload;
+            const txDigest = submitted.txDigest ?? undefined;
+
+            // Never funded the job, so there is nothing to post
+            if (payload.unlinked) {
+                await recordJobActivity(job.id, { actor: payload.actor, reason: payload.reason, txDigest });
+                return;
+            }
+
+            // The funds are back in the platform wallet whatever the job status
+            await recordEscrowReturned(job.id, payload.reclaim ? 'reclaim' : 'refund', submitted.txDigest);
+
+            if (payload.reclaim) {
+                if (payload.completeJob && job.status === 'release_pending') {
+                    await transitionJob(job.id, 'completed', {
+                        actor: payload.actor,
+                        reason: payload.reason,
+                        txDigest,
+                        fields: { release_tx_digest: txDigest }
+                    });
+                    // The agent's share was nothing
+                    await settleJobPayout(job.id, payload.actor, true);
+                } else {
+                    await recordJobActivity(job.id, { actor: payload.actor, reason: payload.reason, txDigest });
+                }
+
+                // The buyer paid for pool-funded sub-jobs twice - once in this escrow
+                if (payload.poolRefundUsdc) {
+                    const { refundPoolFunding, noteFailedRefund } = await import('./refund.js');
+                    await refundPoolFunding(job, payload.poolRefundUsdc, payload.actor)
+                        .catch(err => noteFailedRefund(job, payload.actor, err, 'pool'));
+                }
+                return;
+            }
+
+            if (job.status !== 'cancel_pending' && job.status !== 'cancelled') {
+                console.warn(`[ChainOutbox] Job ${job.id} is '${job.status}', cancellation not applied`);
+                return;
+            }
+
+            const cancelled = job.status === 'cancelled'
+                ? job
+                : await transitionJob(job.id, 'cancelled', {
+                    actor: payload.actor,
+                    reason: payload.reason,
+                    txDigest: submitted.txDigest ?? undefined
+                });
+
+            // The escrow went back to the platform wallet; pass it on to the buyer
+            const { refundBuyer, getUnreleasedAmount, noteFailedRefund } = await import('./refund.js');
+            await refundBuyer(cancelled, await getUnreleasedAmount(cancelled), payload.actor, 'Cancelled job refunded to the buyer')
+                .catch(err => noteFailedRefund(cancelled, payload.actor, err));
+        }
+    },
+
+    resolve_dispute: {
+        async submit(op) {
+            const payload = op.payload as ResolveDisputePayload;
+
+            // An earlier attempt may have executed the ruling without the result being read
+            if (op.attempts > 1) {
+                const state = await getEscrowState(payload.escrowObjectId);
+                if (state && state.status !== 'locked') {
+                    console.log(`[ChainOutbox] Ruling on escrow ${payload.escrowObjectId} already on-chain, skipping resubmit`);
+                    return { txDigest: null };
+                }
+            }
+
+            const result = await resolveDisputeEscrow({
+                escrowObjectId: payload.escrowObjectId,
+                agentAmountUsdc: Math.round((payload.agentAmountUsdc - payload.fee.feeUsdc) * 1_000_000) / 1_000_000
+            });
+
+            if (!result.success) {
+                throw new ChainRejectedError(`Dispute ruling failed on-chain: ${result.error}`);
+            }
+
+            return { txDigest: result.txDigest };
+        },
+
+        async apply(op, submitted) {
+            const job = await requireJob(op);
+            const { applyDisputeRuling } = await import('./dispute.js');
+            await applyDisputeRuling(job, op.payload as ResolveDisputePayload, submitted.txDigest);
+        }
+    },
+
+    buyer_refund: {
+        async submit(op) {
+            const payload = op.payload as BuyerRefundPayload;
+
+            // An earlier attempt may have sent the transfer without the result being read
+            if (op.attempts > 1 && op.tx_digest && await isTransactionApplied(op.tx_digest)) {
+                console.log(`[ChainOutbox] Refund ${op.idempotency_key} already on-chain, skipping resubmit`);
+                return { txDigest: op.tx_digest };
+            }
+
+            const result = await transferUsdc({
+                recipientAddress: payload.recipientAddress,
+                amountUsdc: payload.amountUsdc,
+                onDigest: txDigest => setChainOperationDigest(op.id, txDigest)
+            });
+
+            if (!result.success) {
+                throw new ChainRejectedError(`Buyer refund failed: ${result.error}`);
+            }
+
+            return { txDigest: result.txDigest };
+        },
+
+        async apply(op, submitted) {
+            const job = await requireJob(op);
+            const payload = op.payload as BuyerRefundPayload;
+
+            await recordBuyerRefund(job, op.idempotency_key, payload.amountUsdc, submitted.txDigest);
+            await recordJobActivity(job.id, {
+                actor: payload.actor,
+                reason: `${payload.reason} (${payload.amountUsdc} USDC)`,
+                txDigest: submitted.txDigest ?? undefined
+            });
+        }
+    },
+
+    pool_spend: {
+        async submit(op) {
+            const payload = op.payload as PoolSpendPayload;
+
+            // An earlier attempt may have spent from the pool without the result being read
+            if (op.attempts > 1 && op.tx_digest) {
+                const applied = await findAppliedPoolSpend(op.tx_digest);
+                if (applied) {
+                    console.log(`[ChainOutbox] Pool spend ${op.idempotency_key} already on-chain, skipping resubmit`);
+                    return { txDigest: op.tx_digest, result: applied };
+                }
+            }
+
+            // agentSpendFromPool records the pool transaction itself
+            const result = await agentSpendFromPool({
+                poolObjectId: payload.poolObjectId,
+                agentKeypair: getSharedAgentKeypair(),
+                amountUsdc: payload.amountUsdc,
+                purpose: payload.purpose,
+                jobId: payload.jobId,
+                recipient: payload.recipient,
+                onDigest: txDigest => setChainOperationDigest(op.id, txDigest)
+            });
+
+            if (!result.success) {
+                throw new Error(`Pool spend failed: ${result.error}`);
+            }
+
+            return { txDigest: result.txDigest ?? null, result: { coinObjectId: result.coinObjectId } };
+        },
+
+        async apply(op) {
+            // The spend itself is recorded with the transaction
+            const payload = op.payload as PoolSpendPayload;
+            if (!payload.fundsEscrow) {
+                return;
+            }
+
+            const job = await requireJob(op);
+            await queueEscrowCreation(job, {
+                actor: OUTBOX_ACTOR,
+                reason: `Funded with ${payload.amountUsdc} USDC from user pool`
+            });
+        }
+    },
+
+    payout: {
+        async submit(op) {
+            const payload = op.payload as PayoutTransferPayload;
+
+            // An earlier attempt may have sent the transfer without the result being read
+            if (op.attempts > 1) {
+                const payout = await getAgentPayoutByKey(op.idempotency_key);
+                if (payout?.tx_digest && await isTransactionApplied(payout.tx_digest)) {
+                    console.log(`[ChainOutbox] Payout ${op.idempotency_key} already on-chain, skipping resubmit`);
+                    return { txDigest: payout.tx_digest };
+                }
+            }
+
+            const result = await transferUsdc({
+                recipientAddress: payload.recipientAddress,
+                amountUsdc: payload.amountUsdc,
+                onDigest: txDigest => setAgentPayoutDigest(op.idempotency_key, txDigest)
+            });
+
+            if (!result.success) {
+                throw new ChainRejectedError(`Payout transfer failed: ${result.error}`);
+            }
+
+            return { txDigest: result.txDigest };
+        },
+
+        async apply(op, submitted) {
+            const payload = op.payload as PayoutTransferPayload;
+
+            await recordJobActivity((await requireJob(op)).id, {
+                actor: payload.actor,
+                reason: payload.reason,
+                txDigest: submitted.txDigest ?? undefined
+            });
+            await completePayout(op.idempotency_key, submitted.txDigest, payload.actor);
+        }
+    }
+};
+
+/**
+ * Run one claimed attempt of an operation
+ *
+ * WORKFLOW:
+ * 1. Submit the transaction (skipped if a previous attempt already landed)
+ * 2. Store the digest, then apply the outcome to the database
+ * 3. On failure schedule a retry with backoff, or give up
+ */
+async function executeOperation(op: ChainOperation): Promise<ChainOperation> {
+    const handler = HANDLERS[op.op_type];
+    const label = describeOperation(op);
+
+    try {
+        let submitted: SubmitResult;
+
+        if (op.result) {
+            submitted = { txDigest: op.tx_digest, result: op.result };
+        } else {
+            submitted = await handler.submit(op);
+            await recordChainOperationResult(op.id, submitted.txDigest, submitted.result);
+        }
+
+        await handler.apply(op, submitted);
+
+        const done = await completeChainOperation(op.id);
+        console.log(`[ChainOutbox] ✅ ${label} confirmed (attempt ${op.attempts}, tx: ${submitted.txDigest ?? 'already applied'})`);
+        return done;
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retry = !(error instanceof ChainRejectedError) && op.attempts < config.maxAttempts;
+        const nextAttemptAt = retry ? new Date(Date.now() + getBackoffMs(op.attempts)) : null;
+
+        const failed = await failChainOperation(op.id, message, nextAttemptAt);
+
+        if (op.op_type === 'release_escrow' || op.op_type === 'payout') {
+            await failPayout(op.idempotency_key, message, !nextAttemptAt)
+                .catch(err => console.error('[ChainOutbox] Failed to record payout failure:', err));
+        }
+
+        if (nextAttemptAt) {
+            console.warn(`[ChainOutbox] ⚠️ ${label} failed (attempt ${op.attempts}), retrying at ${nextAttemptAt.toISOString()}: ${message}`);
+        } else {
+            console.error(`[ChainOutbox] ❌ ${label} gave up after ${op.attempts} attempts: ${message}`);
+
+            // The job keeps its pending status - leave a trace in its audit trail
+            if (op.job_id !== null) {
+                await recordJobActivity(op.job_id, {
+                    actor: OUTBOX_ACTOR,
+                    reason: `${label} failed after ${op.attempts} attempts: ${message}`
+                }).catch(err => console.error('[ChainOutbox] Failed to record job activity:', err));
+            }
+        }
+
+        return failed;
+    }
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Queue an operation and try it once right away
+ */
+async function queue(
+    idempotencyKey: string,
+    opType: ChainOperationType,
+    jobId: number | null,
+    payload: object
+): Promise<ChainOperation> {
+    const op = await enqueueChainOperation(idempotencyKey, opType, jobId, payload);
+
+    if (op.status !== 'pending') {
+        return op;
+    }
+
+    console.log(`[ChainOutbox] Queued ${describeOperation(op)}`);
+
+    // Someone else may hold it already - then the worker's attempt stands
+    const [claimed] = await claimChainOperations(1, config.leaseSeconds, op.id);
+    return claimed ? executeOperation(claimed) : op;
+}
+
+/**
+ * Whether a release already landed on-chain
+ * A partial release has landed once the balance is down to what should remain
+ */
+async function isReleaseApplied(payload: ReleaseEscrowPayload): Promise<boolean> {
+    const state = await getEscrowState(payload.escrowObjectId);
+    if (!state) {
+        return false;
+    }
+
+    if (state.status === 'released') {
+        return true;
+    }
+
+    return payload.amountUsdc !== undefined
+        && state.amount <= Math.round(payload.remainingUsdc * 1_000_000);
+}
+
+async function requireJob(op: ChainOperation): Promise<Job> {
+    const job = op.job_id !== null ? await getJobById(op.job_id) : null;
+    if (!job) {
+        throw new ChainRejectedError(`Job ${op.job_id} not found`);
+    }
+    return job;
+}
+
+function getBackoffMs(attempts: number): number {
+    return Math.min(config.baseDelayMs * 2 ** (attempts - 1), config.maxDelayMs);
+}
+
+function describeOperation(op: ChainOperation): string {
+    return `${op.op_type} #${op.id} (${op.idempotency_key})`;
+}
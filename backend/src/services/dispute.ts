@@ -0,0 +1,548 @@
+/**
+ * =============================================================================
+ * Dispute Service - Arbitration of Disputed Jobs
+ * =============================================================================
+ *
+ * Either party of an escrowed job (buyer or agent) can open a dispute. While
+ * the dispute is open both parties can attach evidence, optionally tied to
+ * a specific delivery. An arbiter then rules:
+ * - refund:  everything goes back to the buyer, job is cancelled
+ * - release: everything goes to the agent, job is completed
+ * - split:   the arbiter decides the agent's share, job is completed
+ *
+ * Rulings are executed on-chain via escrow::resolve_dispute (AdminCap),
+ * queued in the chain outbox; the ruling is recorded once it lands.
+ * The platform fee on the agent's share is kept in the escrow and goes back
+ * to the platform with the buyer's share. The escrow's buyer is the platform
+ * wallet, so the buyer's share is then transferred on to the buyer
+ * (services/refund.ts).
+ *
+ * SUB-JOBS:
+ *   A parent job is only ruled on once its sub-jobs are settled. The budget
+ *   the platform fronted for them is not ruled on and stays with the
+ *   platform; what the buyer's pool paid for them is refunded to the buyer.
+ * Disputes that are not ruled on before their deadline are resolved
+ * automatically by the dispute monitor.
+ *
+ * =============================================================================
+ */
+
+import {
+    getJobById,
+    getUserById,
+    getDeliveriesByJob,
+    createDispute,
+    getOpenDisputeByJob,
+    getDisputesByJob,
+    getExpiredOpenDisputes,
+    markDisputeResolved,
+    createDisputeEvidence,
+    getDisputeEvidence,
+    getJobEvents,
+    Job,
+    JobDispute,
+    DisputeEvidence,
+    DisputeRuling
+} from '../db/queries.js';
+import { transaction } from '../db/database.js';
+import { queueDisputeResolution, ResolveDisputePayload } from './chain-outbox.js';
+import { applyJobTransition, assertTransition } from './job-lifecycle.js';
+import { refreshJobAgentReputation } from './reputation.js';
+import { pauseMeter } from './metering.js';
+import { recordReleasedPayout, payOutJob, quotePayoutFee } from './payout.js';
+import { NO_FEE } from './fees.js';
+import { recordEscrowReturned } from './ledger.js';
+import { refundBuyer, refundPoolFunding, getUnreleasedAmount, noteFailedRefund } from './refund.js';
+import { getFrontedSubJobBudget, getPoolFundedSubJobBudget, JobTreeError } from './job-tree.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OpenDisputeParams {
+    jobId: number;
+    userId: number;
+    reason: string;
+    evidence?: EvidenceInput[];
+}
+
+export interface EvidenceInput {
+    content: string;
+    deliveryId?: number;
+    externalUrl?: string;
+}
+
+export interface ResolveDisputeParams {
+    jobId: number;
+    ruling: DisputeRuling;
+    /** Required for 'split': amount awarded to the agent */
+    agentAmountUsdc?: number;
+    /** Arbiter user ID, null when resolved automatically on timeout */
+    arbiterId: number | null;
+    notes?: string;
+}
+
+export interface DisputeDetails {
+    dispute: JobDispute;
+    evidence: DisputeEvidence[];
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class DisputeError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'DisputeError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/** Buyer rejections of a delivery before the next rejection opens a dispute */
+export const MAX_REVISION_REQUESTS = 2;
+
+/** Agent share applied when a dispute times out after work was delivered */
+const TIMEOUT_AGENT_SHARE = 0.5;
+
+function getDisputeWindowMs(): number {
+    const hours = parseFloat(process.env.DISPUTE_WINDOW_HOURS || '72');
+    return hours * 60 * 60 * 1000;
+}
+
+// =============================================================================
+// OPENING & EVIDENCE
+// =============================================================================
+
+/**
+ * Open a dispute on behalf of the job's buyer or agent
+ */
+export async function openDispute(params: OpenDisputeParams): Promise<DisputeDetails> {
+    const job = await requireJob(params.jobId);
+    const party = getParty(job, params.userId);
+
+    if (!party) {
+        throw new DisputeError('Only the buyer or the agent of this job can open a dispute', 403);
+    }
+
+    assertTransition(job, 'disputed');
+
+    const deadline = new Date(Date.now() + getDisputeWindowMs());
+
+    // The job is never disputed without its dispute row, or the monitor could not resolve it
+    const dispute = await transaction(async (client) => {
+        await applyJobTransition(client, job.id, 'disputed', {
+            actor: `user:${params.userId}`,
+            reason: `Dispute opened by ${party}: ${params.reason}`
+        });
+
+        return createDispute(
+            client,
+            job.id,
+            params.userId,
+            party,
+            job.status,
+            params.reason,
+            deadline
+        );
+    });
+
+    // No hours are billed while the arbiter looks at the job
+    if (job.billing === 'hourly') {
+        await pauseMeter(job.id, 'disputed', `user:${params.userId}`)
+            .catch(err => console.error(`[DisputeService] Failed to pause the meter of job ${job.id}:`, err));
+    }
+
+    for (const item of params.evidence || []) {
+        await addEvidenceToDispute(job, dispute, params.userId, item);
+    }
+
+    console.log(`[DisputeService] Dispute #${dispute.id} opened on job ${job.id} by ${party}, deadline ${deadline.toISOString()}`);
+
+    return {
+        dispute,
+        evidence: await getDisputeEvidence(dispute.id)
+    };
+}
+
+/**
+ * Attach evidence to the open dispute of a job
+ */
+export async function addEvidence(
+    jobId: number,
+    userId: number,
+    input: EvidenceInput
+): Promise<DisputeEvidence> {
+    const job = await requireJob(jobId);
+
+    if (!getParty(job, userId)) {
+        throw new DisputeError('Only the buyer or the agent of this job can submit evidence', 403);
+    }
+
+    const dispute = await getOpenDisputeByJob(jobId);
+    if (!dispute) {
+        throw new DisputeError(`Job ${jobId} has no open dispute`, 404);
+    }
+
+    return addEvidenceToDispute(job, dispute, userId, input);
+}
+
+/**
+ * Get the latest dispute of a job with its evidence
+ */
+export async function getDisputeDetails(jobId: number): Promise<DisputeDetails | null> {
+    const [latest] = await getDisputesByJob(jobId);
+    if (!latest) {
+        return null;
+    }
+
+    return {
+        dispute: latest,
+        evidence: await getDisputeEvidence(latest.id)
+    };
+}
+
+/**
+ * Count how many times the buyer sent a delivery back for revision
+ */
+export async function countRevisionRequests(jobId: number): Promise<number> {
+    const events = await getJobEvents(jobId);
+    return events.filter(e => e.from_status === 'delivered' && e.to_status === 'working').length;
+}
+
+// =============================================================================
+// RULINGS
+// =============================================================================
+
+/**
+ * Execute a ruling on the open dispute of a job
+ *
+ * WORKFLOW:
+ * 1. Verify the arbiter (unless auto-resolving)
+ * 2. Compute the agent's share from the ruling
+ * 3. Queue the split on-chain via the AdminCap (chain outbox)
+ * 4. Once it lands, record the ruling and settle the job (applyDisputeRuling)
+ *
+ * Returns the dispute still open while the ruling is pending on-chain.
+ * Jobs without an escrow are ruled off-chain right away.
+ */
+export async function resolveDispute(params: ResolveDisputeParams): Promise<JobDispute> {
+    if (params.arbiterId !== null) {
+        const arbiter = await getUserById(params.arbiterId);
+        if (!arbiter || (arbiter.role !== 'arbiter' && arbiter.role !== 'admin')) {
+            throw new DisputeError('Only arbiters can rule on disputes', 403);
+        }
+    }
+
+    const job = await requireJob(params.jobId);
+    const dispute = await getOpenDisputeByJob(job.id);
+    if (!dispute) {
+        throw new DisputeError(`Job ${job.id} has no open dispute`, 404);
+    }
+
+    const { disputedUsdc, poolRefundUsdc } = await getDisputedShares(job);
+    const agentAmountUsdc = computeAgentAmount(disputedUsdc, params.ruling, params.agentAmountUsdc);
+
+    // The platform fee stays in the escrow and goes back to the platform with the buyer's share
+    const fee = job.escrow_object_id && agentAmountUsdc > 0
+        ? await quotePayoutFee(job, agentAmountUsdc, getPayoutKey(job))
+        : NO_FEE;
+
+    const ruling: ResolveDisputePayload = {
+        disputeId: dispute.id,
+        escrowObjectId: job.escrow_object_id ?? '',
+        ruling: params.ruling,
+        agentAmountUsdc,
+        buyerAmountUsdc: roundUsdc(disputedUsdc - agentAmountUsdc),
+        poolRefundUsdc,
+        fee,
+        arbiterId: params.arbiterId,
+        notes: params.notes || null,
+        actor: params.arbiterId !== null ? `user:${params.arbiterId}` : 'system:dispute-monitor'
+    };
+
+    if (!job.escrow_object_id) {
+        console.warn(`[DisputeService] Job ${job.id} has no escrow object, recording ruling off-chain only`);
+        return applyDisputeRuling(job, ruling, null);
+    }
+
+    // Queueing the same dispute again returns the ruling already under way
+    const op = await queueDisputeResolution(job, ruling);
+
+    if (op.status === 'failed') {
+        throw new Error(`Dispute ruling failed on-chain: ${op.last_error}`);
+    }
+
+    const [latest] = await getDisputesByJob(job.id);
+    return latest.id === dispute.id ? latest : dispute;
+}
+
+/**
+ * Record an executed ruling and settle the job
+ * Called by the chain outbox once the ruling landed on-chain; the ruling
+ * and the job status are written in one transaction, and a ruling that was
+ * already recorded is left alone
+ *
+ * 1. Record the ruling and move the job to 'completed' or 'cancelled'
+ * 2. Record the agent's payout and the escrow returned to the platform
+ * 3. Refund the buyer's share from the platform wallet
+ * 4. Recalculate the agent's rating when it lost all or part of the escrow
+ */
+export async function applyDisputeRuling(
+    job: Job,
+    ruling: ResolveDisputePayload,
+    txDigest: string | null
+): Promise<JobDispute> {
+    const dispute = (await getDisputesByJob(job.id)).find(d => d.id === ruling.disputeId);
+    if (!dispute) {
+        throw new DisputeError(`Dispute #${ruling.disputeId} not found`, 404);
+    }
+    if (dispute.status === 'resolved') {
+        console.warn(`[DisputeService] Dispute #${dispute.id} already resolved`);
+        return dispute;
+    }
+
+    const reason = `Dispute #${dispute.id} resolved: ${ruling.ruling} (agent ${ruling.agentAmountUsdc} USDC)`;
+
+    const { resolved, updated } = await transaction(async (client) => {
+        const resolved = await markDisputeResolved(
+            client,
+            dispute.id,
+            ruling.ruling,
+            ruling.agentAmountUsdc,
+            ruling.arbiterId,
+            ruling.notes,
+            txDigest,
+            ruling.arbiterId === null
+        );
+
+        const updated = await applyJobTransition(client, job.id, ruling.ruling === 'refund' ? 'cancelled' : 'completed', {
+            actor: ruling.actor,
+            reason,
+            txDigest: txDigest || undefined,
+            fields: ruling.ruling === 'refund' ? undefined : { release_tx_digest: txDigest || undefined }
+        });
+
+        return { resolved, updated };
+    });
+
+    if (ruling.ruling !== 'refund') {
+        // The ruling paid the agent's share on-chain; without an escrow it is transferred
+        const payout = job.escrow_object_id
+            ? recordReleasedPayout(updated, getPayoutKey(job), ruling.agentAmountUsdc, txDigest, ruling.actor, ruling.fee)
+            : payOutJob(updated, ruling.actor, ruling.agentAmountUsdc);
+        await payout.catch(err => console.error(`[DisputeService] Failed to record the payout of job ${job.id}:`, err));
+    }
+
+    // The rest of the escrow went back to the platform wallet; pass it on to the buyer
+    if (job.escrow_object_id) {
+        await recordEscrowReturned(job.id, 'refund', txDigest);
+    }
+    await refundBuyer(updated, ruling.buyerAmountUsdc, ruling.actor, `Buyer's share of dispute #${dispute.id} refunded`)
+        .catch(err => noteFailedRefund(updated, ruling.actor, err));
+    await refundPoolFunding(updated, ruling.poolRefundUsdc ?? 0, ruling.actor)
+        .catch(err => noteFailedRefund(updated, ruling.actor, err, 'pool'));
+
+    // Refunds and splits count against the agent's rating
+    if (ruling.ruling !== 'release') {
+        await refreshJobAgentReputation(job, 'dispute');
+    }
+
+    console.log(`[DisputeService] ✅ Dispute #${dispute.id} resolved (${ruling.ruling})`);
+    return resolved;
+}
+
+/**
+ * Resolve all open disputes past their deadline
+ *
+ * TIMEOUT RULE:
+ * - Nothing was ever delivered → full refund
+ * - Otherwise → split, agent receives TIMEOUT_AGENT_SHARE
+ */
+export async function resolveExpiredDisputes(): Promise<void> {
+    const expired = await getExpiredOpenDisputes();
+
+    for (const dispute of expired) {
+        try {
+            const job = await requireJob(dispute.job_id);
+            const deliveries = await getDeliveriesByJob(job.id);
+
+            const ruling: DisputeRuling = deliveries.length === 0 ? 'refund' : 'split';
+            const agentAmountUsdc = ruling === 'split'
+                ? roundUsdc((await getDisputedShares(job)).disputedUsdc * TIMEOUT_AGENT_SHARE)
+                : undefined;
+
+            console.log(`[DisputeService] ⏰ Dispute #${dispute.id} expired, auto-resolving as ${ruling}`);
+
+            await resolveDispute({
+                jobId: job.id,
+                ruling,
+                agentAmountUsdc,
+                arbiterId: null,
+                notes: 'Automatically resolved after the dispute deadline passed'
+            });
+        } catch (error) {
+            if (error instanceof DisputeError && error.statusCode === 409) {
+                console.warn(`[DisputeService] ⏳ Dispute #${dispute.id} expired but cannot be resolved yet: ${error.message}`);
+                continue;
+            }
+            console.error(`[DisputeService] ❌ Failed to auto-resolve dispute #${dispute.id}:`, error);
+        }
+    }
+}
+
+// =============================================================================
+// DISPUTE MONITOR
+// =============================================================================
+
+let monitorInterval: NodeJS.Timeout | null = null;
+let isChecking = false;
+
+/**
+ * Start the background dispute deadline monitor
+ */
+export function startDisputeMonitor(intervalMs: number = 60000): void {
+    if (monitorInterval) {
+        console.log('[DisputeService] Monitor already running');
+        return;
+    }
+
+    console.log(`[DisputeService] Starting deadline monitor with ${intervalMs}ms interval`);
+
+    checkDeadlines();
+    monitorInterval = setInterval(checkDeadlines, intervalMs);
+}
+
+/**
+ * Stop the background dispute deadline monitor
+ */
+export function stopDisputeMonitor(): void {
+    if (monitorInterval) {
+        clearInterval(monitorInterval);
+        monitorInterval = null;
+        console.log('[DisputeService] Monitor stopped');
+    }
+}
+
+async function checkDeadlines(): Promise<void> {
+    // Prevent overlapping checks
+    if (isChecking) return;
+    isChecking = true;
+
+    try {
+        await resolveExpiredDisputes();
+    } catch (error) {
+        console.error('[DisputeService] Error checking deadlines:', error);
+    } finally {
+        isChecking = false;
+    }
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Payout key of the agent's share of a ruling
+ */
+function getPayoutKey(job: Job): string {
+    return `job:${job.id}:dispute`;
+}
+
+async function requireJob(jobId: number): Promise<Job> {
+    const job = await getJobById(jobId);
+    if (!job) {
+        throw new DisputeError('Job not found', 404);
+    }
+    return job;
+}
+
+/**
+ * Which side of the job a user is on
+ * Note: jobs.agent_id stores the agent's user ID
+ */
+function getParty(job: Job, userId: number): 'buyer' | 'agent' | null {
+    if (job.buyer_id === userId) return 'buyer';
+    if (job.agent_id !== null && job.agent_id === userId) return 'agent';
+    return null;
+}
+
+async function addEvidenceToDispute(
+    job: Job,
+    dispute: JobDispute,
+    userId: number,
+    input: EvidenceInput
+): Promise<DisputeEvidence> {
+    if (!input.content) {
+        throw new DisputeError('Evidence content is required');
+    }
+
+    if (input.deliveryId) {
+        const deliveries = await getDeliveriesByJob(job.id);
+        if (!deliveries.some(d => d.id === input.deliveryId)) {
+            throw new DisputeError(`Delivery ${input.deliveryId} does not belong to job ${job.id}`);
+        }
+    }
+
+    return createDisputeEvidence(
+        dispute.id,
+        userId,
+        input.content,
+        input.deliveryId,
+        input.externalUrl
+    );
+}
+
+/**
+ * The part of a job's escrow a ruling splits between buyer and agent:
+ * what was not released yet, less the budget of its sub-jobs
+ * Throws (409) while any sub-job is still open
+ */
+async function getDisputedShares(job: Job): Promise<{ disputedUsdc: number; poolRefundUsdc: number }> {
+    try {
+        const frontedUsdc = await getFrontedSubJobBudget(job, 'rule on the dispute');
+        const poolRefundUsdc = await getPoolFundedSubJobBudget(job, 'rule on the dispute');
+        const unreleasedUsdc = await getUnreleasedAmount(job);
+
+        return {
+            disputedUsdc: Math.max(0, Math.round((unreleasedUsdc - frontedUsdc - poolRefundUsdc) * 1_000_000) / 1_000_000),
+            poolRefundUsdc
+        };
+    } catch (error) {
+        if (error instanceof JobTreeError) {
+            throw new DisputeError(error.message, error.statusCode);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Agent's share of the escrow for a ruling
+ */
+function computeAgentAmount(total: number, ruling: DisputeRuling, requested?: number): number {
+    switch (ruling) {
+        case 'refund':
+            return 0;
+        case 'release':
+            return total;
+        case 'split':
+            if (requested === undefined || isNaN(requested) || requested <= 0 || requested >= total) {
+                throw new DisputeError(`Split requires agentAmountUsdc between 0 and ${total} (exclusive)`);
+            }
+            return roundUsdc(requested);
+        default:
+            throw new DisputeError(`Unknown ruling: ${ruling}`);
+    }
+}
+
+/**
+ * Round to USDC precision (6 decimals)
+ */
+function roundUsdc(amount: number): number {
+    return Math.floor(amount * 1_000_000) / 1_000_000;
+}
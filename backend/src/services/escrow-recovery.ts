@@ -0,0 +1,246 @@
+/**
+ * =============================================================================
+ * Escrow Recovery Service - Re-link Orphaned Escrows
+ * =============================================================================
+ *
+ * An escrow is orphaned when create_escrow landed on-chain but the job never
+ * recorded it (e.g. the transaction result could not be read). The funds are
+ * locked, yet the job still looks unpaid, and a retry would lock them twice.
+ *
+ * RECOVERY:
+ * 1. Take jobs that had escrow creation submitted but have no escrow
+ * 2. Find EscrowCreated events of the platform wallet carrying the job's
+ *    reference ('JOB-<id>' or its reference key). Events the chain indexer
+ *    already stored are read from chain_events; only newer ones are
+ *    queried on-chain, from the indexer's cursor
+ * 3. Keep escrows the platform wallet is the buyer of that are still
+ *    locked, not linked to another job and lock the job's amount in USDC
+ * 4. Link the oldest one: unpaid jobs move to escrowed, other jobs only get
+ *    the escrow recorded and a "Needs review" note
+ *
+ * Further matching escrows are duplicates and are noted for a refund.
+ *
+ * Run it with: npm run recover-escrows [-- --dry-run] [-- --job <id>]
+ *
+ * =============================================================================
+ */
+
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import {
+    getJobById,
+    getJobByEscrowObjectId,
+    getJobsMissingEscrow,
+    getChainEventCursor,
+    getChainEventsBySender,
+    Job
+} from '../db/queries.js';
+import {
+    getCreatedEscrows,
+    getEscrowState,
+    getPlatformAddress,
+    getUsdcCoinType,
+    parseCreatedEscrow,
+    CreatedEscrow
+} from './sui.js';
+import { recordJobFunding } from './ledger.js';
+import {
+    transitionJob,
+    recordJobActivity,
+    canTransition,
+    JobActor
+} from './job-lifecycle.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EscrowRecoveryOptions {
+    /** Only recover this job */
+    jobId?: number;
+    /** Report what would be linked without writing anything */
+    dryRun?: boolean;
+}
+
+export interface EscrowRecoveryResult {
+    jobId: number;
+    /** relinked: job moved to escrowed; linked: escrow recorded, status left for review */
+    outcome: 'relinked' | 'linked' | 'not_found';
+    escrowObjectId?: string;
+    txDigest?: string;
+    /** Other locked escrows for the same job that need a refund */
+    duplicates: string[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const RECOVERY_ACTOR: JobActor = 'system:escrow-recovery';
+
+// =============================================================================
+// RECOVERY
+// =============================================================================
+
+/**
+ * Find orphaned escrows and link them to their jobs
+ */
+export async function recoverOrphanedEscrows(
+    options: EscrowRecoveryOptions = {}
+): Promise<EscrowRecoveryResult[]> {
+    const jobs = options.jobId
+        ? [await getJobById(options.jobId)].filter((job): job is Job => !!job && !job.escrow_object_id)
+        : await getJobsMissingEscrow();
+
+    if (jobs.length === 0) {
+        console.log('[EscrowRecovery] No jobs are missing an escrow');
+        return [];
+    }
+
+    // One scan of EscrowCreated events serves every job
+    const created = await getPlatformEscrows();
+    const results: EscrowRecoveryResult[] = [];
+
+    for (const job of jobs) {
+        const escrows = await findOrphanedEscrows(job, created);
+
+        if (escrows.length === 0) {
+            results.push({ jobId: job.id, outcome: 'not_found', duplicates: [] });
+            continue;
+        }
+
+        const [escrow, ...duplicates] = escrows;
+        const outcome = canTransition(job.status, 'escrowed') ? 'relinked' : 'linked';
+
+        if (!options.dryRun) {
+            await linkEscrow(job, escrow, duplicates);
+        }
+
+        console.log(`[EscrowRecovery] ${options.dryRun ? '(dry run) ' : ''}Job ${job.id}: escrow ${escrow.escrowObjectId} ${outcome}`);
+        results.push({
+            jobId: job.id,
+            outcome,
+            escrowObjectId: escrow.escrowObjectId,
+            txDigest: escrow.txDigest,
+            duplicates: duplicates.map(d => d.escrowObjectId)
+        });
+    }
+
+    return results;
+}
+
+/**
+ * Locked, unlinked escrows the platform wallet created for a job, oldest first
+ * Pass `created` to reuse one scan of EscrowCreated events across jobs
+ */
+export async function findOrphanedEscrows(
+    job: Job,
+    created?: CreatedEscrow[]
+): Promise<CreatedEscrow[]> {
+    const platformAddress = getPlatformAddress();
+    if (!platformAddress) {
+        console.warn('[EscrowRecovery] Platform wallet address is not set, escrows cannot be matched');
+        return [];
+    }
+
+    const references = [`JOB-${job.id}`, job.reference_key].filter(Boolean);
+    const escrows = (created ?? await getPlatformEscrows())
+        .filter(escrow => references.includes(escrow.jobReference));
+    const usdcType = normalizeStructTag(getUsdcCoinType());
+
+    const orphaned: CreatedEscrow[] = [];
+    for (const escrow of escrows) {
+        // Anyone can create an escrow carrying the reference - only the platform's fund the job
+        if (normalizeSuiAddress(escrow.buyer) !== platformAddress) {
+            console.warn(`[EscrowRecovery] ⚠️ Escrow ${escrow.escrowObjectId} was created by ${escrow.buyer}, not the platform wallet - skipped`);
+            continue;
+        }
+
+        if (Math.abs(escrow.amount - Number(job.amount_usdc)) > 0.000001) {
+            console.warn(`[EscrowRecovery] ⚠️ Escrow ${escrow.escrowObjectId} locks ${escrow.amount} USDC, job ${job.id} is ${job.amount_usdc} USDC - skipped`);
+            continue;
+        }
+
+        const linkedJob = await getJobByEscrowObjectId(escrow.escrowObjectId);
+        if (linkedJob) {
+            continue;
+        }
+
+        const state = await getEscrowState(escrow.escrowObjectId);
+        if (state?.status !== 'locked') {
+            continue;
+        }
+        if (state.coinType !== usdcType) {
+            console.warn(`[EscrowRecovery] ⚠️ Escrow ${escrow.escrowObjectId} locks ${state.coinType ?? 'an unknown coin'} instead of USDC - skipped`);
+            continue;
+        }
+
+        orphaned.push(escrow);
+    }
+
+    return orphaned;
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * EscrowCreated events sent by the platform wallet, oldest first
+ * Everything up to the chain indexer's cursor is in chain_events; only the
+ * events after it are read from the chain
+ */
+async function getPlatformEscrows(): Promise<CreatedEscrow[]> {
+    const platformAddress = getPlatformAddress();
+    const packageId = process.env.SUI_ESCROW_PACKAGE_ID;
+    if (!platformAddress || !packageId) {
+        return [];
+    }
+
+    const indexed = await getChainEventsBySender('escrow', 'EscrowCreated', platformAddress);
+    const cursor = await getChainEventCursor(`${packageId}::escrow`);
+    const recent = await getCreatedEscrows(cursor);
+
+    return [
+        ...indexed.map(event => parseCreatedEscrow(event.payload, event.tx_digest, event.timestamp_ms)),
+        ...recent.filter(escrow => normalizeSuiAddress(escrow.buyer) === platformAddress)
+    ];
+}
+
+/**
+ * Record an escrow on its job, moving the job to escrowed when it still can
+ */
+async function linkEscrow(
+    job: Job,
+    escrow: CreatedEscrow,
+    duplicates: CreatedEscrow[]
+): Promise<void> {
+    const fields = {
+        escrow_object_id: escrow.escrowObjectId,
+        escrow_tx_digest: escrow.txDigest
+    };
+
+    if (canTransition(job.status, 'escrowed')) {
+        await transitionJob(job.id, 'escrowed', {
+            actor: RECOVERY_ACTOR,
+            reason: 'Orphaned escrow recovered',
+            txDigest: escrow.txDigest,
+            fields
+        });
+    } else {
+        await recordJobActivity(job.id, {
+            actor: RECOVERY_ACTOR,
+            reason: `Needs review - orphaned escrow ${escrow.escrowObjectId} linked while job is '${job.status}'`,
+            txDigest: escrow.txDigest,
+            fields
+        });
+    }
+    await recordJobFunding(job, escrow.txDigest);
+
+    for (const duplicate of duplicates) {
+        await recordJobActivity(job.id, {
+            actor: RECOVERY_ACTOR,
+            reason: `Needs review - duplicate escrow ${duplicate.escrowObjectId} locks ${duplicate.amount} USDC for this job`,
+            txDigest: duplicate.txDigest
+        });
+    }
+}
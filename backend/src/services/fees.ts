@@ -0,0 +1,241 @@
+/**
+ * =============================================================================
+ * Fee Service - Platform Commission on Agent Payouts
+ * =============================================================================
+ *
+ * The platform keeps a fee out of every payout to an agent. Fee schedules
+ * are managed by admins (GET/POST/PUT /admin/fee-schedules). A schedule
+ * charges percent of each payout plus flat_usdc once per job (on its first
+ * payout), never more than the payout itself.
+ *
+ * SCHEDULE RESOLUTION (most specific active schedule wins):
+ *   1. tier    - the agent's fee_tier (PUT /admin/agents/:id/fee-tier)
+ *   2. skill   - one of the agent's skills; the cheapest when several match
+ *   3. default
+ * Without any active schedule no fee is charged.
+ *
+ * The fee is fixed when a payout is opened (services/payout.ts) and split
+ * out when the money moves: escrow releases send it to the platform wallet
+ * (escrow::release_with_fee), transfers simply send the agent less.
+ *
+ * =============================================================================
+ */
+
+import {
+    getAgentByUserId,
+    getAgentById,
+    getFeeSchedules,
+    getFeeScheduleById,
+    createFeeSchedule,
+    updateFeeSchedule,
+    setAgentFeeTier,
+    Agent,
+    FeeSchedule,
+    FeeScope,
+    Job
+} from '../db/queries.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Fee kept out of one payout and the schedule it came from
+ */
+export interface FeeQuote {
+    feeUsdc: number;
+    scheduleId: number | null;
+}
+
+export interface FeeScheduleInput {
+    name?: string;
+    scope?: FeeScope;
+    skill?: string;
+    tier?: string;
+    percent?: number;
+    flatUsdc?: number;
+    isActive?: boolean;
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class FeeError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'FeeError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const NO_FEE: FeeQuote = { feeUsdc: 0, scheduleId: null };
+
+const FEE_SCOPES: readonly FeeScope[] = ['default', 'skill', 'tier'];
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Fee of a schedule on a payout, in whole USDC units rounded down
+ */
+export function computeFee(schedule: FeeSchedule, grossUsdc: number, chargeFlat: boolean): number {
+    const grossUnits = Math.round(grossUsdc * 1_000_000);
+    const percentUnits = Math.floor(grossUnits * schedule.percent / 100);
+    const flatUnits = chargeFlat ? Math.round(schedule.flat_usdc * 1_000_000) : 0;
+
+    return Math.min(grossUnits, percentUnits + flatUnits) / 1_000_000;
+}
+
+/**
+ * The schedule that applies to an agent
+ */
+export function resolveSchedule(schedules: FeeSchedule[], agent: Agent | null, grossUsdc: number, chargeFlat: boolean): FeeSchedule | null {
+    if (agent?.fee_tier) {
+        const tier = schedules.find(s => s.scope === 'tier' && s.tier === agent.fee_tier);
+        if (tier) {
+            return tier;
+        }
+    }
+
+    const skills = (agent?.skills ?? []).map(skill => skill.toLowerCase());
+    const bySkill = schedules
+        .filter(s => s.scope === 'skill' && skills.includes(s.skill!.toLowerCase()))
+        .sort((a, b) => computeFee(a, grossUsdc, chargeFlat) - computeFee(b, grossUsdc, chargeFlat));
+    if (bySkill.length > 0) {
+        return bySkill[0];
+    }
+
+    return schedules.find(s => s.scope === 'default') ?? null;
+}
+
+function validateRates(input: FeeScheduleInput): void {
+    if (input.percent !== undefined && (typeof input.percent !== 'number' || isNaN(input.percent) || input.percent < 0 || input.percent > 100)) {
+        throw new FeeError('percent must be between 0 and 100');
+    }
+    if (input.flatUsdc !== undefined && (typeof input.flatUsdc !== 'number' || isNaN(input.flatUsdc) || input.flatUsdc < 0)) {
+        throw new FeeError('flatUsdc must be 0 or more');
+    }
+}
+
+// =============================================================================
+// FEES
+// =============================================================================
+
+/**
+ * Fee the platform keeps out of a payout of grossUsdc to the agent of a job
+ * firstPayout: no earlier payout of the job paid the flat part
+ */
+export async function quoteFee(job: Job, grossUsdc: number, firstPayout: boolean): Promise<FeeQuote> {
+    const schedules = await getFeeSchedules();
+    if (schedules.length === 0 || grossUsdc <= 0) {
+        return NO_FEE;
+    }
+
+    const agent = job.agent_id ? await getAgentByUserId(job.agent_id) : null;
+    const schedule = resolveSchedule(schedules, agent, grossUsdc, firstPayout);
+    if (!schedule) {
+        return NO_FEE;
+    }
+
+    return { feeUsdc: computeFee(schedule, grossUsdc, firstPayout), scheduleId: schedule.id };
+}
+
+// =============================================================================
+// SCHEDULE MANAGEMENT
+// =============================================================================
+
+/**
+ * Create a fee schedule; an active schedule for the same default, skill or
+ * tier has to be turned off first
+ */
+export async function addFeeSchedule(input: FeeScheduleInput): Promise<FeeSchedule> {
+    if (!input.name?.trim()) {
+        throw new FeeError('name is required');
+    }
+    if (!input.scope || !FEE_SCOPES.includes(input.scope)) {
+        throw new FeeError(`scope must be one of: ${FEE_SCOPES.join(', ')}`);
+    }
+    if (input.scope === 'skill' && !input.skill?.trim()) {
+        throw new FeeError("skill is required for scope 'skill'");
+    }
+    if (input.scope === 'tier' && !input.tier?.trim()) {
+        throw new FeeError("tier is required for scope 'tier'");
+    }
+    validateRates(input);
+
+    const existing = await getFeeSchedules();
+    const skill = input.scope === 'skill' ? input.skill!.trim() : null;
+    const tier = input.scope === 'tier' ? input.tier!.trim() : null;
+
+    if (existing.some(s => s.scope === input.scope && s.skill === skill && s.tier === tier)) {
+        throw new FeeError(`An active ${input.scope} fee schedule already exists for ${skill ?? tier ?? 'everyone'}`, 409);
+    }
+
+    const schedule = await createFeeSchedule({
+        name: input.name.trim(),
+        scope: input.scope,
+        skill,
+        tier,
+        percent: input.percent ?? 0,
+        flatUsdc: input.flatUsdc ?? 0
+    });
+
+    console.log(`[Fees] Schedule #${schedule.id} '${schedule.name}' created (${schedule.percent}% + ${schedule.flat_usdc} USDC)`);
+    return schedule;
+}
+
+/**
+ * Change the rates or name of a schedule, or turn it on or off
+ * Payouts already opened keep the fee they were quoted
+ */
+export async function changeFeeSchedule(id: number, input: FeeScheduleInput): Promise<FeeSchedule> {
+    const schedule = await getFeeScheduleById(id);
+    if (!schedule) {
+        throw new FeeError('Fee schedule not found', 404);
+    }
+    if (input.scope !== undefined || input.skill !== undefined || input.tier !== undefined) {
+        throw new FeeError('The scope of a fee schedule cannot change; create a new one');
+    }
+    if (input.name !== undefined && !input.name.trim()) {
+        throw new FeeError('name cannot be empty');
+    }
+    validateRates(input);
+
+    if (input.isActive && !schedule.is_active) {
+        const active = await getFeeSchedules();
+        if (active.some(s => s.scope === schedule.scope && s.skill === schedule.skill && s.tier === schedule.tier)) {
+            throw new FeeError(`Another ${schedule.scope} fee schedule is already active for ${schedule.skill ?? schedule.tier ?? 'everyone'}`, 409);
+        }
+    }
+
+    const updated = await updateFeeSchedule(id, {
+        name: input.name?.trim(),
+        percent: input.percent,
+        flatUsdc: input.flatUsdc,
+        isActive: input.isActive
+    });
+
+    console.log(`[Fees] Schedule #${id} updated (${updated!.percent}% + ${updated!.flat_usdc} USDC, ${updated!.is_active ? 'active' : 'inactive'})`);
+    return updated!;
+}
+
+/**
+ * Put an agent in a fee tier, or take it out with null
+ */
+export async function assignFeeTier(agentId: number, tier: string | null): Promise<Agent> {
+    const agent = await getAgentById(agentId);
+    if (!agent) {
+        throw new FeeError('Agent not found', 404);
+    }
+
+    const updated = await setAgentFeeTier(agentId, tier?.trim() || null);
+    console.log(`[Fees] Agent #${agentId} fee tier: ${updated!.fee_tier ?? 'none'}`);
+    return updated!;
+}
@@ -6,3 +6,26 @@ export * from './sui.js';
 export * from './beep-sdk.js';
 export * from './payment-poller.js';
 export * from './pool.js';
+export * from './job-lifecycle.js';
+export * from './dispute.js';
+export * from './milestone.js';
+export * from './beep-webhook.js';
+export * from './session.js';
+export * from './chain-outbox.js';
+export * from './chain-indexer.js';
+export * from './escrow-recovery.js';
+export * from './agent-matching.js';
+export * from './request-conversation.js';
+export * from './job-tree.js';
+export * from './agent-dispatch.js';
+export * from './agent-verification.js';
+export * from './reputation.js';
+export * from './agent-inbox.js';
+export * from './live-events.js';
+export * from './metering.js';
+export * from './payout.js';
+export * from './refund.js';
+export * from './fees.js';
+export * from './ledger.js';
+export * from './reconciliation.js';
+export * from './payment-scanner.js';
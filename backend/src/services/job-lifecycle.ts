@@ -0,0 +1,237 @@
+/**
+ * =============================================================================
+ * Job Lifecycle Service - Job Status State Machine
+ * =============================================================================
+ *
+ * Single owner of the JobStatus graph. Every status change goes through
+ * transitionJob(), which validates the move against JOB_TRANSITIONS, writes
+ * the new status and appends an entry to the job_events audit trail in the
+ * same database transaction.
+ *
+ * STATUS GRAPH:
+ *   offered → unpaid → escrowed → working → delivered → completed → paid_out
+ *   cancelled and disputed can be reached from any active state
+ *
+ * Jobs created for an agent are 'offered' until the agent accepts
+ * (services/agent-inbox.ts).
+ *
+ * Every transition is pushed to the buyer's and agent's live event streams
+ * (services/live-events.ts) once its transaction commits.
+ *
+ * Jobs with an escrow wait in release_pending / cancel_pending while the
+ * release or refund transaction is queued in the chain outbox:
+ *   delivered → release_pending → completed (or working after a milestone)
+ *   escrowed/working/delivered → cancel_pending → cancelled
+ *
+ * =============================================================================
+ */
+
+import { PoolClient } from 'pg';
+import { transaction } from '../db/database.js';
+import {
+    getJobForUpdate,
+    setJobStatus,
+    createJobEvent,
+    Job,
+    JobStatus,
+    JobUpdateFields
+} from '../db/queries.js';
+import { publishLiveEvent } from './live-events.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Who caused a job event, e.g. 'user:42', 'system:payment-poller'
+ */
+export type JobActor = string;
+
+export interface TransitionOptions {
+    /** Who is performing the transition */
+    actor: JobActor;
+    /** Human-readable explanation stored in the audit trail */
+    reason?: string;
+    /** On-chain transaction associated with this transition */
+    txDigest?: string;
+    /** Extra job columns to write together with the status */
+    fields?: JobUpdateFields;
+}
+
+/**
+ * Thrown when a job is asked to move along an edge that is not in the graph
+ */
+export class InvalidJobTransitionError extends Error {
+    constructor(
+        public jobId: number,
+        public from: JobStatus,
+        public to: JobStatus,
+    ) {
+        super(`Job ${jobId} cannot move from '${from}' to '${to}'`);
+        this.name = 'InvalidJobTransitionError';
+    }
+}
+
+/**
+ * Thrown when a transition targets a job that does not exist
+ */
+export class JobNotFoundError extends Error {
+    constructor(public jobId: number) {
+        super(`Job with ID ${jobId} not found`);
+        this.name = 'JobNotFoundError';
+    }
+}
+
+// =============================================================================
+// STATUS GRAPH
+// =============================================================================
+
+/**
+ * Allowed transitions, keyed by current status
+ */
+export const JOB_TRANSITIONS: Record<JobStatus, readonly JobStatus[]> = {
+    offered: ['unpaid', 'cancelled'],
+    unpaid: ['escrowed', 'cancelled'],
+    escrowed: ['working', 'delivered', 'cancelled', 'cancel_pending', 'disputed'],
+    working: ['delivered', 'cancelled', 'cancel_pending', 'disputed'],
+    delivered: ['completed', 'release_pending', 'working', 'cancelled', 'cancel_pending', 'disputed'],
+    release_pending: ['completed', 'working'],
+    cancel_pending: ['cancelled'],
+    completed: ['paid_out'],
+    paid_out: [],
+    cancelled: [],
+    disputed: ['working', 'completed', 'cancelled'],
+};
+
+/**
+ * Check an untrusted value (e.g. ?status=) against the known statuses
+ */
+export function isJobStatus(value: unknown): value is JobStatus {
+    return typeof value === 'string' && Object.hasOwn(JOB_TRANSITIONS, value);
+}
+
+/**
+ * Check whether a status change is allowed
+ */
+export function canTransition(from: JobStatus, to: JobStatus): boolean {
+    return JOB_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw if the job cannot currently move to the target status
+ * Lets routes validate before performing side effects (invoices, chain calls)
+ */
+export function assertTransition(job: Job, to: JobStatus): void {
+    if (!canTransition(job.status, to)) {
+        throw new InvalidJobTransitionError(job.id, job.status, to);
+    }
+}
+
+// =============================================================================
+// TRANSITIONS
+// =============================================================================
+
+/**
+ * Move a job to a new status and record the event
+ *
+ * The job row is locked while the transition is validated and written,
+ * so concurrent callers (poller, routes, agents) cannot race each other.
+ */
+export async function transitionJob(
+    jobId: number,
+    to: JobStatus,
+    options: TransitionOptions
+): Promise<Job> {
+    return transaction(client => applyJobTransition(client, jobId, to, options));
+}
+
+/**
+ * transitionJob inside a caller's transaction, for status changes that must
+ * commit together with other writes
+ */
+export async function applyJobTransition(
+    client: PoolClient,
+    jobId: number,
+    to: JobStatus,
+    options: TransitionOptions
+): Promise<Job> {
+    const job = await getJobForUpdate(client, jobId);
+    if (!job) {
+        throw new JobNotFoundError(jobId);
+    }
+
+    if (!canTransition(job.status, to)) {
+        throw new InvalidJobTransitionError(jobId, job.status, to);
+    }
+
+    const updated = await setJobStatus(client, jobId, to, options.fields);
+    await createJobEvent(
+        client,
+        jobId,
+        job.status,
+        to,
+        options.actor,
+        options.reason,
+        options.txDigest
+    );
+
+    await publishLiveEvent([updated.buyer_id, updated.agent_id], {
+        type: 'job.status',
+        data: { jobId, from: job.status, to, actor: options.actor }
+    }, client);
+
+    console.log(`[JobLifecycle] Job ${jobId}: ${job.status} → ${to} (${options.actor})`);
+    return updated;
+}
+
+/**
+ * Record an event that does not change the job status
+ * (e.g. an invoice being issued for an unpaid job)
+ */
+export async function recordJobActivity(
+    jobId: number,
+    options: TransitionOptions
+): Promise<Job> {
+    return transaction(client => applyJobActivity(client, jobId, options));
+}
+
+/**
+ * recordJobActivity inside a caller's transaction
+ */
+export async function applyJobActivity(
+    client: PoolClient,
+    jobId: number,
+    options: TransitionOptions
+): Promise<Job> {
+    const job = await getJobForUpdate(client, jobId);
+    if (!job) {
+        throw new JobNotFoundError(jobId);
+    }
+
+    const updated = await setJobStatus(client, jobId, job.status, options.fields, false);
+    await createJobEvent(
+        client,
+        jobId,
+        job.status,
+        job.status,
+        options.actor,
+        options.reason,
+        options.txDigest
+    );
+
+    return updated;
+}
+
+/**
+ * Record the creation of a job as the first entry of its audit trail
+ */
+export async function recordJobCreated(job: Job, actor: JobActor, reason?: string): Promise<void> {
+    await transaction(client => applyJobCreated(client, job, actor, reason));
+}
+
+/**
+ * recordJobCreated inside the transaction that creates the job
+ */
+export async function applyJobCreated(client: PoolClient, job: Job, actor: JobActor, reason?: string): Promise<void> {
+    await createJobEvent(client, job.id, null, job.status, actor, reason || 'Job created');
+}
@@ -0,0 +1,441 @@
+/**
+ * =============================================================================
+ * Job Tree Service - Task Decomposition and Sub-hiring by Manager Agents
+ * =============================================================================
+ *
+ * The agent of an escrowed job can act as a manager: split the job into
+ * sub-jobs (optionally with an LLM-proposed plan) and hire other agents for
+ * them. Sub-jobs are ordinary jobs whose buyer is the manager, so they go
+ * through the usual delivery / approve / dispute flow, and a sub-job's
+ * agent can split it further.
+ *
+ * FUNDING (jobs.funding_source):
+ * - parent: the platform locks the sub-job escrow from its own float. When
+ *           the parent is approved the manager is paid the parent amount
+ *           minus the sub-jobs that were paid, and the rest of the parent
+ *           escrow goes back to the platform (chain-outbox queueEscrowReclaim)
+ * - pool:   spent from the top-level buyer's user pool into the platform
+ *           wallet, which then locks the sub-job escrow. The parent escrow
+ *           holds that share too, so on approval it is reclaimed with the
+ *           fronted share and refunded to the top-level buyer
+ *           (services/refund.ts refundPoolFunding) - the buyer pays no more
+ *           than the parent amount
+ *
+ * BUDGET:
+ *   Sub-jobs (except cancelled ones) never add up to more than the parent's
+ *   amount_usdc. The check runs with the parent row locked, so concurrent
+ *   hires cannot overshoot it.
+ *
+ * ROLL-UP:
+ *   A parent can only be delivered, approved or cancelled once all of its
+ *   sub-jobs are settled (completed, paid out or cancelled). Its delivery
+ *   carries the latest delivery of every completed sub-job.
+ *
+ * A cancelled pool-funded sub-job is refunded to the top-level buyer's
+ * wallet (services/refund.ts refundBuyer), not to the pool - only the pool
+ * owner can deposit.
+ *
+ * =============================================================================
+ */
+
+import { transaction } from '../db/database.js';
+import {
+    getJobById,
+    getJobForUpdate,
+    getSubJobs,
+    createSubJob,
+    getMilestonesByJob,
+    getMatchableAgents,
+    getPoolByUser,
+    getDeliveriesByJob,
+    Job,
+    JobStatus,
+    JobFundingSource
+} from '../db/queries.js';
+import { LlmAnalyzer, SubTaskPlan } from './llm-analyzer.js';
+import { matchAgents, AgentMatch } from './agent-matching.js';
+import { recordJobCreated, JobActor } from './job-lifecycle.js';
+import { queueEscrowCreation, queuePoolSpend } from './chain-outbox.js';
+import { getPlatformAddress } from './sui.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SubJobFunding = Exclude<JobFundingSource, 'buyer'>;
+
+export interface SubJobInput {
+    title: string;
+    requirements?: string;
+    amountUsdc: number;
+    /** agents.id of the agent to hire */
+    agentId: number;
+}
+
+export interface PlannedSubTask extends SubTaskPlan {
+    /** Best matching agents for the sub-task, best first */
+    candidates: AgentMatch[];
+}
+
+export interface SubJobPlan {
+    parentJobId: number;
+    /** Budget still free for sub-jobs */
+    availableUsdc: number;
+    subTasks: PlannedSubTask[];
+}
+
+export interface JobTreeNode {
+    job: Job;
+    /** Sum of the sub-jobs that are not cancelled */
+    allocatedUsdc: number;
+    subJobs: JobTreeNode[];
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class JobTreeError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'JobTreeError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/** Statuses in which the manager is working and may hire */
+const MANAGING_STATUSES: JobStatus[] = ['escrowed', 'working'];
+
+/** Sub-job statuses that no longer need the manager's attention */
+const SETTLED_STATUSES: JobStatus[] = ['completed', 'paid_out', 'cancelled'];
+
+const MAX_SUB_JOBS_PER_REQUEST = 10;
+
+const CANDIDATES_PER_SUB_TASK = 3;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/** Work in micro-USDC so sums never drift */
+function toMicro(amountUsdc: number): number {
+    return Math.round(Number(amountUsdc) * 1_000_000);
+}
+
+function fromMicro(micro: number): number {
+    return micro / 1_000_000;
+}
+
+function sumAllocated(subJobs: Job[]): number {
+    return subJobs
+        .filter(subJob => subJob.status !== 'cancelled')
+        .reduce((sum, subJob) => sum + toMicro(subJob.amount_usdc), 0);
+}
+
+function isSettled(job: Job): boolean {
+    return SETTLED_STATUSES.includes(job.status);
+}
+
+/**
+ * Buyer at the top of the tree - the owner of the pool that funds it
+ */
+export async function getRootBuyerId(job: Job): Promise<number> {
+    let current = job;
+    while (current.parent_job_id !== null) {
+        const parent = await getJobById(current.parent_job_id);
+        if (!parent) {
+            break;
+        }
+        current = parent;
+    }
+    return current.buyer_id;
+}
+
+/**
+ * Scale proposed amounts down so they fit the budget (cents, rounded down)
+ */
+function fitToBudget(subTasks: SubTaskPlan[], budgetUsdc: number): SubTaskPlan[] {
+    const total = subTasks.reduce((sum, task) => sum + task.amountUsdc, 0);
+    if (total <= budgetUsdc) {
+        return subTasks;
+    }
+
+    const factor = budgetUsdc / total;
+    return subTasks.map(task => ({
+        ...task,
+        amountUsdc: Math.floor(task.amountUsdc * factor * 100) / 100
+    }));
+}
+
+function validateSubJobInputs(subJobs: SubJobInput[]): void {
+    if (!Array.isArray(subJobs) || subJobs.length === 0) {
+        throw new JobTreeError('subJobs must be a non-empty list');
+    }
+    if (subJobs.length > MAX_SUB_JOBS_PER_REQUEST) {
+        throw new JobTreeError(`At most ${MAX_SUB_JOBS_PER_REQUEST} sub-jobs can be created at once`);
+    }
+
+    subJobs.forEach((subJob, i) => {
+        if (typeof subJob.title !== 'string' || !subJob.title.trim()) {
+            throw new JobTreeError(`subJobs[${i}].title is required`);
+        }
+        if (!Number.isFinite(Number(subJob.amountUsdc)) || Number(subJob.amountUsdc) <= 0) {
+            throw new JobTreeError(`subJobs[${i}].amountUsdc must be a positive number`);
+        }
+        if (!Number.isInteger(Number(subJob.agentId))) {
+            throw new JobTreeError(`subJobs[${i}].agentId is required`);
+        }
+    });
+}
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * Propose a breakdown of a job into sub-tasks with suggested agents
+ * Nothing is created; the manager hires with createSubJobs
+ */
+export async function planSubJobs(
+    jobId: number,
+    analyzer: LlmAnalyzer = new LlmAnalyzer()
+): Promise<SubJobPlan> {
+    const job = await getJobById(jobId);
+    if (!job) {
+        throw new JobTreeError('Job not found', 404);
+    }
+    if (!MANAGING_STATUSES.includes(job.status)) {
+        throw new JobTreeError(`Job is ${job.status}, sub-jobs can only be planned while it is escrowed or in progress`, 409);
+    }
+
+    const available = toMicro(job.amount_usdc) - sumAllocated(await getSubJobs(jobId));
+    if (available <= 0) {
+        throw new JobTreeError('The whole job budget is already allocated to sub-jobs', 409);
+    }
+
+    const availableUsdc = fromMicro(available);
+    const subTasks = fitToBudget(await analyzer.planBreakdown(job, availableUsdc), availableUsdc);
+
+    const planned: PlannedSubTask[] = [];
+    for (const task of subTasks) {
+        const candidates = await matchAgents(
+            { skills: task.skills, estimatedBudget: task.amountUsdc },
+            { limit: CANDIDATES_PER_SUB_TASK, excludeUserId: job.agent_id ?? undefined }
+        );
+        planned.push({ ...task, candidates });
+    }
+
+    console.log(`[JobTree] Planned ${planned.length} sub-tasks for job ${jobId} (${availableUsdc} USDC available)`);
+
+    return { parentJobId: jobId, availableUsdc, subTasks: planned };
+}
+
+// =============================================================================
+// SUB-HIRING
+// =============================================================================
+
+/**
+ * Manager hires agents for sub-jobs of their job
+ * The sub-jobs start unpaid and become escrowed once their funding lands
+ */
+export async function createSubJobs(params: {
+    parentJobId: number;
+    managerId: number;
+    funding: SubJobFunding;
+    subJobs: SubJobInput[];
+    actor: JobActor;
+}): Promise<Job[]> {
+    if (params.funding !== 'parent' && params.funding !== 'pool') {
+        throw new JobTreeError("funding must be 'parent' or 'pool'");
+    }
+    validateSubJobInputs(params.subJobs);
+
+    if ((await getMilestonesByJob(params.parentJobId)).length > 0) {
+        throw new JobTreeError('Jobs with milestones cannot be split into sub-jobs', 409);
+    }
+
+    // Pool spends are paid into the platform wallet, which locks the escrow
+    const platformAddress = getPlatformAddress();
+    if (params.funding === 'pool' && !platformAddress) {
+        throw new JobTreeError('The platform wallet is not configured, sub-jobs cannot be funded from a pool', 500);
+    }
+
+    const agents = new Map((await getMatchableAgents()).map(agent => [agent.id, agent]));
+    const requested = params.subJobs.reduce((sum, subJob) => sum + toMicro(subJob.amountUsdc), 0);
+
+    const { parent, created, poolObjectId } = await transaction(async (client) => {
+        const parent = await getJobForUpdate(client, params.parentJobId);
+        if (!parent) {
+            throw new JobTreeError('Job not found', 404);
+        }
+        if (parent.agent_id !== params.managerId) {
+            throw new JobTreeError('Only the agent of a job can hire for it', 403);
+        }
+        if (!MANAGING_STATUSES.includes(parent.status)) {
+            throw new JobTreeError(`Job is ${parent.status}, sub-agents can only be hired while it is escrowed or in progress`, 409);
+        }
+        if (params.funding === 'parent' && !parent.escrow_object_id) {
+            throw new JobTreeError('Job has no escrow to fund sub-jobs from', 409);
+        }
+
+        // Budget check under the parent lock
+        const allocated = sumAllocated(await getSubJobs(parent.id, client));
+        const available = toMicro(parent.amount_usdc) - allocated;
+        if (requested > available) {
+            throw new JobTreeError(
+                `Sub-jobs total ${fromMicro(requested)} USDC but only ${fromMicro(available)} USDC of the ${parent.amount_usdc} USDC budget is left`,
+                409
+            );
+        }
+
+        let poolObjectId: string | null = null;
+        if (params.funding === 'pool') {
+            const pool = await getPoolByUser(await getRootBuyerId(parent));
+            if (!pool) {
+                throw new JobTreeError('The buyer has no active user pool', 409);
+            }
+            if (toMicro(pool.balance_usdc) < requested) {
+                throw new JobTreeError(`User pool holds ${Number(pool.balance_usdc)} USDC, ${fromMicro(requested)} USDC needed`, 409);
+            }
+            poolObjectId = pool.pool_object_id;
+        }
+
+        const created: Job[] = [];
+        for (const input of params.subJobs) {
+            const agent = agents.get(Number(input.agentId));
+            if (!agent) {
+                throw new JobTreeError(`Agent #${input.agentId} is not available for hire`);
+            }
+            if (agent.user_id === parent.agent_id || agent.user_id === parent.buyer_id) {
+                throw new JobTreeError(`Agent #${input.agentId} is already a party of this job`);
+            }
+
+            created.push(await createSubJob(client, {
+                parentJobId: parent.id,
+                title: input.title.trim(),
+                requirements: input.requirements?.trim() || null,
+                buyerId: params.managerId,
+                agentId: agent.user_id,
+                amountUsdc: Number(input.amountUsdc),
+                fundingSource: params.funding
+            }));
+        }
+
+        return { parent, created, poolObjectId };
+    });
+
+    for (const subJob of created) {
+        await recordJobCreated(subJob, params.actor, `Sub-job of job #${parent.id}, funded from the ${params.funding}`);
+
+        if (poolObjectId) {
+            await queuePoolSpend(`job:${subJob.id}:funding`, {
+                poolObjectId,
+                amountUsdc: Number(subJob.amount_usdc),
+                purpose: `Sub-job #${subJob.id} of job #${parent.id}`,
+                jobId: subJob.id,
+                recipient: platformAddress!,
+                fundsEscrow: true
+            });
+        } else {
+            await queueEscrowCreation(subJob, {
+                actor: params.actor,
+                reason: `Funded from the budget of job #${parent.id}`
+            });
+        }
+    }
+
+    console.log(`[JobTree] Job ${parent.id}: hired ${created.length} sub-agents for ${fromMicro(requested)} USDC (${params.funding})`);
+
+    return created;
+}
+
+// =============================================================================
+// TREE AND ROLL-UP
+// =============================================================================
+
+/**
+ * A job with all of its sub-jobs, recursively
+ */
+export async function getJobTree(job: Job): Promise<JobTreeNode> {
+    const subJobs = await getSubJobs(job.id);
+
+    const children: JobTreeNode[] = [];
+    for (const subJob of subJobs) {
+        children.push(await getJobTree(subJob));
+    }
+
+    return {
+        job,
+        allocatedUsdc: fromMicro(sumAllocated(subJobs)),
+        subJobs: children
+    };
+}
+
+/**
+ * Reject moving a parent on while any of its sub-jobs is still open
+ */
+export async function assertSubJobsSettled(job: Job, action: string): Promise<Job[]> {
+    const subJobs = await getSubJobs(job.id);
+    const open = subJobs.filter(subJob => !isSettled(subJob));
+
+    if (open.length > 0) {
+        throw new JobTreeError(
+            `Cannot ${action} while sub-jobs are open: ${open.map(subJob => `#${subJob.id} (${subJob.status})`).join(', ')}`,
+            409
+        );
+    }
+
+    return subJobs;
+}
+
+/**
+ * Append the deliveries of completed sub-jobs to the manager's delivery
+ */
+export async function rollUpDelivery(job: Job, content: string): Promise<string> {
+    const subJobs = (await assertSubJobsSettled(job, 'deliver'))
+        .filter(subJob => subJob.status !== 'cancelled');
+
+    if (subJobs.length === 0) {
+        return content;
+    }
+
+    const sections = [content];
+    for (const subJob of subJobs) {
+        const [latest] = await getDeliveriesByJob(subJob.id);
+        sections.push(
+            `--- Sub-job #${subJob.id}: ${subJob.title} ---\n` +
+            (latest ? latest.content : '(no delivery recorded)')
+        );
+    }
+
+    return sections.join('\n\n');
+}
+
+/**
+ * Budget the platform fronted for the parent-funded sub-jobs of a job
+ * That share of the job's escrow goes back to the platform on release
+ */
+export async function getFrontedSubJobBudget(job: Job, action: string = 'approve'): Promise<number> {
+    return sumFunded(await assertSubJobsSettled(job, action), 'parent');
+}
+
+/**
+ * Budget the top-level buyer's pool paid for the sub-jobs of a job
+ * That share of the job's escrow is reclaimed and refunded to the buyer
+ */
+export async function getPoolFundedSubJobBudget(job: Job, action: string = 'approve'): Promise<number> {
+    return sumFunded(await assertSubJobsSettled(job, action), 'pool');
+}
+
+function sumFunded(subJobs: Job[], funding: SubJobFunding): number {
+    return fromMicro(
+        subJobs
+            .filter(subJob => subJob.funding_source === funding && subJob.status !== 'cancelled')
+            .reduce((sum, subJob) => sum + toMicro(subJob.amount_usdc), 0)
+    );
+}
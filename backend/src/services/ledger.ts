@@ -0,0 +1,314 @@
+/**
+ * =============================================================================
+ * Ledger Service - Double-entry Record of Platform Funds
+ * =============================================================================
+ *
+ * Every movement of job money is posted to ledger_entries as one debit and
+ * one credit of the same amount, so the ledger always balances.
+ *
+ * ACCOUNTS:
+ *   platform_wallet (debit)  - USDC held by the platform wallet
+ *   escrow          (debit)  - USDC locked in job escrows
+ *   buyer_funds     (credit) - what buyers paid and is not yet paid out
+ *   fee_revenue     (credit) - platform fees earned
+ *
+ * POSTINGS:
+ *   buyer_charge  platform_wallet / buyer_funds   escrow created for a job
+ *                                                 paid through Beep or a pool
+ *   escrow_lock   escrow / platform_wallet        job funds locked
+ *   agent_payout  buyer_funds / escrow            escrow release to the agent
+ *                 buyer_funds / platform_wallet   transfer to the agent
+ *   fee           buyer_funds / fee_revenue       fee kept out of a payout
+ *                 platform_wallet / escrow        the fee coin of a release
+ *   refund        platform_wallet / escrow        escrow returned to the
+ *                                                 platform wallet
+ *                 buyer_funds / platform_wallet   transfer back to the buyer
+ *   reclaim       platform_wallet / escrow        unused budget returned
+ *
+ * Sub-jobs funded by their parent have no buyer charge: their escrow is
+ * fronted by the platform and paid back by the parent's reclaim.
+ *
+ * Every posting has an idempotency key derived from the job or payout, so
+ * the chain outbox and the chain indexer can both post the same movement.
+ * Failed postings are logged and do not stop the money flow.
+ *
+ * =============================================================================
+ */
+
+import {
+    createLedgerEntry,
+    getJobEscrowBalance,
+    getLedgerAccountTotals,
+    getLedgerTypeTotals,
+    getLedgerPeriodTotals,
+    AgentPayout,
+    Job,
+    LedgerAccount,
+    LedgerAccountTotals,
+    LedgerInterval,
+    LedgerPeriodTotals,
+    LedgerTypeTotals
+} from '../db/queries.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface LedgerAccountReport {
+    account: LedgerAccount;
+    normalBalance: 'debit' | 'credit';
+    openingUsdc: number;
+    debitUsdc: number;
+    creditUsdc: number;
+    closingUsdc: number;
+}
+
+export interface LedgerReport {
+    from: Date;
+    to: Date;
+    accounts: LedgerAccountReport[];
+    entryTypes: LedgerTypeTotals[];
+    periods: LedgerPeriodTotals[] | null;
+    totals: {
+        debitUsdc: number;
+        creditUsdc: number;
+        balanced: boolean;
+    };
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/** Side on which each account grows; balances are reported on that side */
+export const LEDGER_ACCOUNTS: Record<LedgerAccount, 'debit' | 'credit'> = {
+    platform_wallet: 'debit',
+    escrow: 'debit',
+    buyer_funds: 'credit',
+    fee_revenue: 'credit'
+};
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function roundUsdc(amount: number): number {
+    return Math.round(amount * 1e6) / 1e6;
+}
+
+function balanceOf(totals: LedgerAccountTotals | undefined, side: 'debit' | 'credit'): number {
+    if (!totals) {
+        return 0;
+    }
+    return side === 'debit' ? totals.debit_usdc - totals.credit_usdc : totals.credit_usdc - totals.debit_usdc;
+}
+
+// =============================================================================
+// POSTINGS
+// =============================================================================
+
+/**
+ * Post the buyer's payment and the escrow lock of a job that was escrowed
+ */
+export async function recordJobFunding(job: Job, txDigest: string | null): Promise<void> {
+    try {
+        const amountUsdc = Number(job.amount_usdc);
+
+        if (job.funding_source !== 'parent') {
+            await recordBuyerCharge(job);
+        }
+
+        await createLedgerEntry({
+            idempotencyKey: `job:${job.id}:escrow_lock`,
+            entryType: 'escrow_lock',
+            debitAccount: 'escrow',
+            creditAccount: 'platform_wallet',
+            amountUsdc,
+            jobId: job.id,
+            txDigest,
+            memo: job.funding_source === 'parent'
+                ? `Escrow of sub-job #${job.id}, fronted from job #${job.parent_job_id}`
+                : `Escrow of job #${job.id}`
+        });
+    } catch (error) {
+        console.error(`[Ledger] Failed to post the funding of job ${job.id}:`, error);
+    }
+}
+
+/**
+ * Post a payout that landed: the agent's share and the platform fee
+ */
+export async function recordPayoutSent(payout: AgentPayout, job: Job): Promise<void> {
+    try {
+        const fromAccount: LedgerAccount = payout.method === 'escrow' ? 'escrow' : 'platform_wallet';
+        const key = `payout:${payout.idempotency_key}`;
+
+        // Transfers pay jobs that never had an escrow, so their charge is posted here
+        if (payout.method === 'transfer' && job.funding_source !== 'parent') {
+            await recordBuyerCharge(job);
+        }
+
+        if (payout.amount_usdc > 0) {
+            await createLedgerEntry({
+                idempotencyKey: key,
+                entryType: 'agent_payout',
+                debitAccount: 'buyer_funds',
+                creditAccount: fromAccount,
+                amountUsdc: payout.amount_usdc,
+                jobId: payout.job_id,
+                payoutId: payout.id,
+                txDigest: payout.tx_digest,
+                memo: `Paid to agent #${payout.agent_id}`
+            });
+        }
+
+        if (payout.fee_usdc > 0) {
+            await createLedgerEntry({
+                idempotencyKey: `${key}:fee`,
+                entryType: 'fee',
+                debitAccount: 'buyer_funds',
+                creditAccount: 'fee_revenue',
+                amountUsdc: payout.fee_usdc,
+                jobId: payout.job_id,
+                payoutId: payout.id,
+                txDigest: payout.tx_digest,
+                memo: payout.fee_schedule_id ? `Fee schedule #${payout.fee_schedule_id}` : 'Platform fee'
+            });
+
+            // The release sent the fee to the platform wallet
+            if (payout.method === 'escrow') {
+                await createLedgerEntry({
+                    idempotencyKey: `${key}:fee_transfer`,
+                    entryType: 'fee',
+                    debitAccount: 'platform_wallet',
+                    creditAccount: 'escrow',
+                    amountUsdc: payout.fee_usdc,
+                    jobId: payout.job_id,
+                    payoutId: payout.id,
+                    txDigest: payout.tx_digest,
+                    memo: 'Fee released from the escrow to the platform wallet'
+                });
+            }
+        }
+    } catch (error) {
+        console.error(`[Ledger] Failed to post payout ${payout.idempotency_key}:`, error);
+    }
+}
+
+/**
+ * Post what was left in a job's escrow going back to the platform wallet
+ * (a cancelled job or a dispute refund, or the unused budget of a completed job)
+ */
+export async function recordEscrowReturned(
+    jobId: number,
+    entryType: 'refund' | 'reclaim',
+    txDigest: string | null
+): Promise<void> {
+    try {
+        const remainingUsdc = roundUsdc(await getJobEscrowBalance(jobId));
+        if (remainingUsdc <= 0) {
+            return;
+        }
+
+        // An escrow is closed only once, whoever noticed it first
+        await createLedgerEntry({
+            idempotencyKey: `job:${jobId}:escrow_return`,
+            entryType,
+            debitAccount: 'platform_wallet',
+            creditAccount: 'escrow',
+            amountUsdc: remainingUsdc,
+            jobId,
+            txDigest,
+            memo: entryType === 'refund'
+                ? 'Escrow returned to the platform wallet'
+                : 'Unused escrow budget returned to the platform wallet'
+        });
+    } catch (error) {
+        console.error(`[Ledger] Failed to post the escrow return of job ${jobId}:`, error);
+    }
+}
+
+/**
+ * Post the buyer's share sent back from the platform wallet to the buyer
+ * idempotencyKey: the refund's chain operation
+ */
+export async function recordBuyerRefund(
+    job: Job,
+    idempotencyKey: string,
+    amountUsdc: number,
+    txDigest: string | null
+): Promise<void> {
+    try {
+        await createLedgerEntry({
+            idempotencyKey,
+            entryType: 'refund',
+            debitAccount: 'buyer_funds',
+            creditAccount: 'platform_wallet',
+            amountUsdc: roundUsdc(amountUsdc),
+            jobId: job.id,
+            txDigest,
+            memo: `Refunded to the buyer of job #${job.id}`
+        });
+    } catch (error) {
+        console.error(`[Ledger] Failed to post the buyer refund of job ${job.id}:`, error);
+    }
+}
+
+async function recordBuyerCharge(job: Job): Promise<void> {
+    await createLedgerEntry({
+        idempotencyKey: `job:${job.id}:buyer_charge`,
+        entryType: 'buyer_charge',
+        debitAccount: 'platform_wallet',
+        creditAccount: 'buyer_funds',
+        amountUsdc: Number(job.amount_usdc),
+        jobId: job.id,
+        memo: job.funding_source === 'pool'
+            ? `Paid from the buyer's pool for job #${job.id}`
+            : `Paid through Beep invoice ${job.beep_invoice_id ?? 'unknown'} for job #${job.id}`
+    });
+}
+
+// =============================================================================
+// REPORTING
+// =============================================================================
+
+/**
+ * Account balances and movements of a period, by entry type and optionally
+ * per day, week or month
+ */
+export async function getLedgerReport(from: Date, to: Date, interval?: LedgerInterval): Promise<LedgerReport> {
+    const [opening, movements, entryTypes, periods] = await Promise.all([
+        getLedgerAccountTotals(null, from),
+        getLedgerAccountTotals(from, to),
+        getLedgerTypeTotals(from, to),
+        interval ? getLedgerPeriodTotals(from, to, interval) : Promise.resolve(null)
+    ]);
+
+    const accounts = (Object.keys(LEDGER_ACCOUNTS) as LedgerAccount[]).map(account => {
+        const side = LEDGER_ACCOUNTS[account];
+        const before = opening.find(t => t.account === account);
+        const during = movements.find(t => t.account === account);
+        const openingUsdc = roundUsdc(balanceOf(before, side));
+
+        return {
+            account,
+            normalBalance: side,
+            openingUsdc,
+            debitUsdc: roundUsdc(during?.debit_usdc ?? 0),
+            creditUsdc: roundUsdc(during?.credit_usdc ?? 0),
+            closingUsdc: roundUsdc(openingUsdc + balanceOf(during, side))
+        };
+    });
+
+    const debitUsdc = roundUsdc(accounts.reduce((sum, a) => sum + a.debitUsdc, 0));
+    const creditUsdc = roundUsdc(accounts.reduce((sum, a) => sum + a.creditUsdc, 0));
+
+    return {
+        from,
+        to,
+        accounts,
+        entryTypes,
+        periods,
+        totals: { debitUsdc, creditUsdc, balanced: debitUsdc === creditUsdc }
+    };
+}
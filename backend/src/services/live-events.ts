@@ -0,0 +1,236 @@
+/**
+ * =============================================================================
+ * Live Events Service - Per-user Server-sent Events
+ * =============================================================================
+ *
+ * Pushes what clients used to poll for to their open event streams
+ * (GET /api/v1/events):
+ *
+ *   job.status       - a job the user is buyer or agent of changed status
+ *   payment.detected - a payment for the user's job landed (payment poller,
+ *                      webhook or simulate-payment); escrow follows
+ *   request.progress - the Personal Agent picked up, answered or failed one
+ *                      of the user's requests
+ *   pool.balance     - the user's pool balance changed
+ *   job.meter        - the meter of an hourly job started, paused or stopped
+ *
+ * DELIVERY:
+ *   Events are published with pg_notify on the 'live_events' channel and
+ *   fanned out by one LISTEN connection per server. Published inside a
+ *   transaction, an event is only delivered once it commits (and never if
+ *   it rolls back), and every server instance sees it.
+ *
+ * Events are best effort: a client that was disconnected refetches over
+ * REST when it reconnects.
+ *
+ * =============================================================================
+ */
+
+import { PoolClient } from 'pg';
+import { getClient, query } from '../db/database.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type LiveEventType = 'job.status' | 'payment.detected' | 'request.progress' | 'pool.balance' | 'job.meter';
+
+export interface LiveEvent {
+    type: LiveEventType;
+    data: Record<string, unknown>;
+}
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+/**
+ * What travels over pg_notify: the event and who may see it
+ */
+interface LiveEventNotification extends LiveEvent {
+    userIds: number[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const CHANNEL = 'live_events';
+const RECONNECT_DELAY_MS = 5000;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const subscribers = new Map<number, Set<LiveEventListener>>();
+
+let listener: PoolClient | null = null;
+let reconnectTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+// =============================================================================
+// PUBLISHING
+// =============================================================================
+
+/**
+ * Publish an event to the given users
+ *
+ * With a client the event is part of that transaction. Without one it is
+ * sent right away and failures are only logged - a missed event never
+ * fails the operation that caused it.
+ */
+export async function publishLiveEvent(
+    userIds: (number | null | undefined)[],
+    event: LiveEvent,
+    client?: PoolClient
+): Promise<void> {
+    const recipients = [...new Set(userIds.filter((id): id is number => typeof id === 'number'))];
+    if (recipients.length === 0) {
+        return;
+    }
+
+    const notification: LiveEventNotification = { ...event, userIds: recipients };
+    const sql = 'SELECT pg_notify($1, $2)';
+    const params = [CHANNEL, JSON.stringify(notification)];
+
+    if (client) {
+        await client.query(sql, params);
+        return;
+    }
+
+    try {
+        await query(sql, params);
+    } catch (error) {
+        console.error(`[LiveEvents] Failed to publish ${event.type}:`, error);
+    }
+}
+
+// =============================================================================
+// SUBSCRIBING
+// =============================================================================
+
+/**
+ * Receive the events of one user until the returned function is called
+ */
+export function subscribeLiveEvents(userId: number, onEvent: LiveEventListener): () => void {
+    let listeners = subscribers.get(userId);
+    if (!listeners) {
+        listeners = new Set();
+        subscribers.set(userId, listeners);
+    }
+    listeners.add(onEvent);
+
+    return () => {
+        listeners.delete(onEvent);
+        if (listeners.size === 0) {
+            subscribers.delete(userId);
+        }
+    };
+}
+
+function dispatch(payload: string | undefined): void {
+    let notification: LiveEventNotification;
+    try {
+        notification = JSON.parse(payload ?? '');
+    } catch {
+        console.warn('[LiveEvents] Ignoring malformed notification');
+        return;
+    }
+
+    const event: LiveEvent = { type: notification.type, data: notification.data };
+
+    for (const userId of notification.userIds) {
+        for (const onEvent of subscribers.get(userId) ?? []) {
+            try {
+                onEvent(event);
+            } catch (error) {
+                console.error(`[LiveEvents] Listener for user ${userId} failed:`, error);
+            }
+        }
+    }
+}
+
+// =============================================================================
+// LISTENER CONNECTION
+// =============================================================================
+
+/**
+ * Start listening for published events
+ */
+export async function startLiveEvents(): Promise<void> {
+    if (running) {
+        console.log('[LiveEvents] Already running');
+        return;
+    }
+
+    running = true;
+    await connect();
+}
+
+/**
+ * Stop listening; open streams stay open but receive nothing
+ */
+export async function stopLiveEvents(): Promise<void> {
+    running = false;
+
+    if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+    }
+
+    if (listener) {
+        const client = listener;
+        listener = null;
+        client.removeAllListeners('notification');
+        client.removeAllListeners('error');
+        try {
+            await client.query(`UNLISTEN ${CHANNEL}`);
+        } finally {
+            client.release();
+        }
+        console.log('[LiveEvents] Stopped');
+    }
+}
+
+async function connect(): Promise<void> {
+    let client: PoolClient | null = null;
+
+    try {
+        client = await getClient();
+
+        client.on('notification', message => {
+            if (message.channel === CHANNEL) {
+                dispatch(message.payload);
+            }
+        });
+
+        const connection = client;
+        connection.on('error', error => {
+            console.error('[LiveEvents] Listener connection lost:', error);
+            if (listener === connection) {
+                listener = null;
+                connection.release(error);
+                scheduleReconnect();
+            }
+        });
+
+        await connection.query(`LISTEN ${CHANNEL}`);
+        listener = connection;
+        console.log(`[LiveEvents] Listening on '${CHANNEL}'`);
+    } catch (error) {
+        console.error('[LiveEvents] Failed to start listener:', error);
+        if (client && listener !== client) {
+            client.release(error as Error);
+        }
+        scheduleReconnect();
+    }
+}
+
+function scheduleReconnect(): void {
+    if (!running || reconnectTimer) {
+        return;
+    }
+
+    reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+    }, RECONNECT_DELAY_MS);
+}
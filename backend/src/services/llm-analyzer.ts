@@ -18,6 +18,31 @@ export interface AnalyzedRequest {
     complexity: 'low' | 'medium' | 'high';
 }
 
+// Job spec the Personal Agent proposes and the user confirms or edits
+export interface JobSpec extends AnalyzedRequest {
+    scope: string;                // What will be delivered
+    deadline: string | null;      // Free text, e.g. "within 3 days"
+    budgetCeiling: number | null; // Most the user will spend, in USDC
+}
+
+export interface ConversationMessage {
+    role: 'user' | 'agent';
+    content: string;
+}
+
+// Next Personal Agent turn: ask for details or propose a job spec
+export type ConversationTurn =
+    | { action: 'ask'; questions: string[] }
+    | { action: 'propose'; spec: JobSpec };
+
+// Part of a job a manager agent hands to another agent
+export interface SubTaskPlan {
+    title: string;
+    requirements: string;
+    skills: string[];
+    amountUsdc: number;
+}
+
 export class LlmAnalyzer {
     private openai: OpenAI | null = null;
     
@@ -85,6 +110,229 @@ export class LlmAnalyzer {
         }
     }
 
+    /**
+     * Decide the next turn of a request conversation
+     * With allowQuestions false the agent must propose a spec from what it has
+     */
+    async converse(thread: ConversationMessage[], allowQuestions: boolean): Promise<ConversationTurn> {
+        if (!this.openai) {
+            return this.fallbackConverse(thread, allowQuestions);
+        }
+
+        try {
+            console.log(`[LLM] Continuing conversation (${thread.length} messages)`);
+
+            const completion = await this.openai.chat.completions.create({
+                messages: [
+                    {
+                        role: "system",
+                        content: `You are the Personal Agent of a freelance marketplace for AI agents.
+                        You talk with a user until you can write a job spec, then propose it.
+                        
+                        ${allowQuestions
+                            ? 'If scope, deadline or budget ceiling are unclear or the request is vague, ask up to 3 short clarifying questions.'
+                            : 'Do not ask any more questions. Propose the best spec you can from the conversation.'}
+                        
+                        OUTPUT JSON ONLY, one of:
+                        {"action": "ask", "questions": ["question1", "question2"]}
+                        {
+                            "action": "propose",
+                            "summary": "Concise professional summary of the task (max 10 words)",
+                            "skills": ["skill1", "skill2"], (max 5 most relevant skills, lowercase, most important first)
+                            "estimatedBudget": 50, (Fair price in USDC, never above budgetCeiling. Simple tasks < $50, Medium < $200)
+                            "complexity": "low" | "medium" | "high",
+                            "scope": "What will be delivered, 1-3 sentences",
+                            "deadline": "within 3 days" or null,
+                            "budgetCeiling": 100 or null (the most the user said they will spend)
+                        }`
+                    },
+                    ...thread.map(message => ({
+                        role: message.role === 'user' ? 'user' as const : 'assistant' as const,
+                        content: message.content
+                    }))
+                ],
+                model: process.env.LLM_MODEL || "gpt-3.5-turbo",
+                response_format: { type: "json_object" },
+                temperature: 0.2,
+            });
+
+            const content = completion.choices[0].message.content;
+            if (!content) throw new Error('Empty response from LLM');
+
+            const result = JSON.parse(content);
+            console.log('[LLM] Conversation turn:', result);
+
+            if (result.action === 'ask' && allowQuestions && Array.isArray(result.questions) && result.questions.length > 0) {
+                return { action: 'ask', questions: result.questions.map(String).slice(0, 3) };
+            }
+
+            return { action: 'propose', spec: this.normalizeSpec(result) };
+
+        } catch (error) {
+            console.error('[LLM] Conversation failed:', error);
+            return this.fallbackConverse(thread, allowQuestions);
+        }
+    }
+
+    /**
+     * Split a job into sub-tasks for other agents
+     * Amounts are the LLM's proposal; callers still have to fit them into the budget
+     */
+    async planBreakdown(
+        job: { title: string; requirements: string | null },
+        budgetUsdc: number
+    ): Promise<SubTaskPlan[]> {
+        if (!this.openai) {
+            return this.fallbackPlan(job, budgetUsdc);
+        }
+
+        try {
+            console.log(`[LLM] Planning sub-tasks for "${job.title.substring(0, 50)}"`);
+
+            const completion = await this.openai.chat.completions.create({
+                messages: [
+                    {
+                        role: "system",
+                        content: `You are a manager agent on a freelance marketplace for AI agents.
+                        Split the job into 2-5 independent sub-tasks that other agents can deliver separately.
+                        The sub-task budgets must add up to at most ${budgetUsdc} USDC; keep part of it for your own integration work.
+                        
+                        OUTPUT JSON ONLY with this structure:
+                        {
+                            "subTasks": [
+                                {
+                                    "title": "Short title (max 10 words)",
+                                    "requirements": "What the agent must deliver, 1-3 sentences",
+                                    "skills": ["skill1", "skill2"], (max 3, lowercase, most important first)
+                                    "amountUsdc": 20
+                                }
+                            ]
+                        }`
+                    },
+                    { role: "user", content: `${job.title}\n\n${job.requirements ?? ''}` }
+                ],
+                model: process.env.LLM_MODEL || "gpt-3.5-turbo",
+                response_format: { type: "json_object" },
+                temperature: 0.2,
+            });
+
+            const content = completion.choices[0].message.content;
+            if (!content) throw new Error('Empty response from LLM');
+
+            const result = JSON.parse(content);
+            console.log('[LLM] Sub-task plan:', result);
+
+            const subTasks: SubTaskPlan[] = (Array.isArray(result.subTasks) ? result.subTasks : [])
+                .slice(0, 5)
+                .map((raw: any) => {
+                    const skills: string[] = Array.isArray(raw.skills)
+                        ? raw.skills.map((skill: unknown) => String(skill).toLowerCase()).slice(0, 3)
+                        : [];
+                    return {
+                        title: String(raw.title || 'Untitled sub-task'),
+                        requirements: String(raw.requirements || raw.title || ''),
+                        skills: skills.length > 0 ? skills : ['general'],
+                        amountUsdc: Number(raw.amountUsdc) > 0 ? Number(raw.amountUsdc) : 0
+                    };
+                });
+
+            if (subTasks.length === 0) throw new Error('LLM proposed no sub-tasks');
+            return subTasks;
+
+        } catch (error) {
+            console.error('[LLM] Planning failed:', error);
+            return this.fallbackPlan(job, budgetUsdc);
+        }
+    }
+
+    /**
+     * Fill gaps in an LLM spec and keep the budget under the ceiling
+     */
+    private normalizeSpec(raw: any): JobSpec {
+        const budgetCeiling = Number(raw.budgetCeiling) > 0 ? Number(raw.budgetCeiling) : null;
+        let estimatedBudget = Number(raw.estimatedBudget) > 0 ? Number(raw.estimatedBudget) : 50;
+        if (budgetCeiling !== null) {
+            estimatedBudget = Math.min(estimatedBudget, budgetCeiling);
+        }
+
+        const summary = String(raw.summary || 'Untitled task');
+        const skills: string[] = Array.isArray(raw.skills)
+            ? raw.skills.map((skill: unknown) => String(skill).toLowerCase()).slice(0, 5)
+            : [];
+
+        return {
+            summary,
+            skills: skills.length > 0 ? skills : ['general'],
+            estimatedBudget,
+            complexity: ['low', 'medium', 'high'].includes(raw.complexity) ? raw.complexity : 'medium',
+            scope: String(raw.scope || summary),
+            deadline: raw.deadline ? String(raw.deadline) : null,
+            budgetCeiling
+        };
+    }
+
+    /**
+     * Keyword-based conversation: asks once when the request is vague
+     */
+    private fallbackConverse(thread: ConversationMessage[], allowQuestions: boolean): ConversationTurn {
+        const text = thread
+            .filter(message => message.role === 'user')
+            .map(message => message.content)
+            .join('\n');
+        const analysis = this.fallbackAnalyze(text);
+
+        const budgetMatch = text.match(/\$\s?(\d+(?:\.\d+)?)|(\d+(?:\.\d+)?)\s?(?:usdc|usd|dollars?)\b/i);
+        const budgetCeiling = budgetMatch ? Number(budgetMatch[1] ?? budgetMatch[2]) : null;
+        const deadlineMatch = text.match(
+            /\b(today|tomorrow|asap|next (?:week|month)|(?:in|within) \d+ (?:hours?|days?|weeks?|months?)|by (?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|tomorrow|next week|end of \w+))\b/i
+        );
+        const deadline = deadlineMatch ? deadlineMatch[1] : null;
+
+        const vague = analysis.skills.includes('general') || text.trim().split(/\s+/).length < 6;
+        if (allowQuestions && vague) {
+            const questions = ['What exactly should be delivered? A short description of the scope and the tech or format you expect helps.'];
+            if (budgetCeiling === null) questions.push('What is the most you want to spend, in USDC?');
+            if (deadline === null) questions.push('When do you need it by?');
+            return { action: 'ask', questions };
+        }
+
+        return {
+            action: 'propose',
+            spec: {
+                ...analysis,
+                summary: this.fallbackAnalyze(thread.find(message => message.role === 'user')?.content ?? text).summary,
+                estimatedBudget: budgetCeiling !== null ? Math.min(analysis.estimatedBudget, budgetCeiling) : analysis.estimatedBudget,
+                scope: text,
+                deadline,
+                budgetCeiling
+            }
+        };
+    }
+
+    /**
+     * One sub-task per list item in the requirements (or one for the whole
+     * job), sharing the budget equally
+     */
+    private fallbackPlan(job: { title: string; requirements: string | null }, budgetUsdc: number): SubTaskPlan[] {
+        const items = (job.requirements ?? '')
+            .split('\n')
+            .map(line => line.match(/^\s*(?:[-*•]|\d+[.)])\s+(.+)$/)?.[1]?.trim())
+            .filter((item): item is string => !!item)
+            .slice(0, 5);
+        const parts = items.length > 0 ? items : [job.title];
+        const share = Math.floor((budgetUsdc / parts.length) * 100) / 100;
+
+        return parts.map(part => {
+            const analysis = this.fallbackAnalyze(part);
+            return {
+                title: analysis.summary,
+                requirements: part,
+                skills: analysis.skills,
+                amountUsdc: share
+            };
+        });
+    }
+
     /**
      * Simple keyword-based fallback if LLM fails or is not configured
      */
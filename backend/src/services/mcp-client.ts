@@ -2,22 +2,29 @@
  * =============================================================================
  * MCP Client Service - AI Agent Communication
  * =============================================================================
- * 
- * This module handles communication with the Freelance AI Agent via MCP
- * (Model Context Protocol). It acts as the bridge between the backend
- * orchestrator and the AI agent that performs the actual work.
- * 
+ *
+ * This module handles communication with freelance AI agents via MCP
+ * (Model Context Protocol). Every agent runs its own MCP server, registered
+ * as agents.mcp_endpoint; each call connects to that endpoint, so the
+ * backend can work with any number of agents.
+ *
  * MCP OVERVIEW:
  * - The agent exposes "tools" (skills) that can be called
  * - Each tool has defined input/output schemas
- * - Communication happens over HTTP(S) or stdio
- * 
+ * - Communication happens over Streamable HTTP (SSE for older servers)
+ * - Long tasks report progress notifications, which keep the request alive
+ *
+ * TASK TOOL:
+ *   A task is sent to the tool named after its type ('code_generation',
+ *   'code_audit', 'translation', ...) when the agent has one, otherwise to
+ *   the generic MCP_TASK_TOOL ('execute_freelance_task').
+ *
  * =============================================================================
  */
 
-// TODO: Import MCP client library
-// import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-// import { StdioClientTransport, HttpClientTransport } from '@modelcontextprotocol/sdk/client/transports.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 
 // =============================================================================
 // TYPES
@@ -65,6 +72,8 @@ export interface FreelanceTaskResult {
     };
     /** Error message if success is false */
     error?: string;
+    /** Whether trying again may help (connection problems, timeouts) */
+    retryable?: boolean;
 }
 
 /**
@@ -76,75 +85,70 @@ export interface AgentTool {
     inputSchema: object;
 }
 
+/**
+ * Progress notification from the agent
+ */
+export interface TaskProgress {
+    progress: number;
+    total?: number;
+    message?: string;
+}
+
+export interface ExecuteTaskOptions {
+    /** Called for every progress notification */
+    onProgress?: (progress: TaskProgress) => void;
+    /** Time without any progress before the call is given up (ms) */
+    idleTimeoutMs?: number;
+    /** Time before the call is given up whatever the progress (ms) */
+    maxTimeoutMs?: number;
+}
+
 // =============================================================================
-// CLIENT INSTANCE
+// CONFIGURATION
 // =============================================================================
 
-interface McpConfig {
-    agentUrl: string;
-    timeout: number;
-}
+const config = {
+    taskTool: process.env.MCP_TASK_TOOL || 'execute_freelance_task',
+    idleTimeoutMs: parseInt(process.env.AGENT_TASK_IDLE_TIMEOUT_MS || '300000'),  // 5 minutes
+    maxTimeoutMs: parseInt(process.env.AGENT_TASK_MAX_TIMEOUT_MS || '1800000'),   // 30 minutes
+    connectTimeoutMs: 10000
+};
 
-let mcpConfig: McpConfig | null = null;
-let isConnected = false;
+const CLIENT_INFO = { name: 'beeplancer-backend', version: '1.0.0' };
 
 // =============================================================================
-// INITIALIZATION
+// CONNECTION
 // =============================================================================
 
 /**
- * Initialize MCP client and connect to the agent server
- * 
- * Uses HTTP transport to communicate with agent-service
+ * Connect to an agent's MCP server
+ * Tries Streamable HTTP first and falls back to the older SSE transport
  */
-export async function initializeMcpClient(): Promise<void> {
-    const agentUrl = process.env.MCP_AGENT_URL || process.env.AGENT_MCP_URL;
-
-    if (!agentUrl) {
-        throw new Error('MCP_AGENT_URL environment variable is required');
-    }
-
-    mcpConfig = {
-        agentUrl,
-        timeout: 300000 // 5 minutes default timeout
-    };
+async function connectToAgent(endpoint: string): Promise<Client> {
+    const url = new URL(endpoint);
 
-    // Test connection
     try {
-        const response = await fetch(`${agentUrl}/health`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json'
-            }
-        });
-
-        if (!response.ok) {
-            throw new Error(`Agent health check failed: ${response.statusText}`);
-        }
-
-        isConnected = true;
-        console.log(`[MCP] Connected to agent at ${agentUrl}`);
+        const client = new Client(CLIENT_INFO);
+        await client.connect(new StreamableHTTPClientTransport(url), { timeout: config.connectTimeoutMs });
+        return client;
     } catch (error) {
-        console.error('[MCP] Failed to connect to agent:', error);
-        throw new Error(`MCP initialization failed: ${error}`);
+        console.warn(`[MCP] Streamable HTTP failed for ${endpoint}, trying SSE:`, error instanceof Error ? error.message : error);
     }
-}
 
-/**
- * Check if MCP client is connected to the agent
- */
-export function isMcpConnected(): boolean {
-    return isConnected;
+    const client = new Client(CLIENT_INFO);
+    await client.connect(new SSEClientTransport(url), { timeout: config.connectTimeoutMs });
+    return client;
 }
 
 /**
- * Disconnect from the agent
+ * Run fn against a connected agent and always close the connection
  */
-export async function disconnectMcpClient(): Promise<void> {
-    if (isConnected) {
-        isConnected = false;
-        mcpConfig = null;
-        console.log('[MCP] Client disconnected');
+async function withAgent<T>(endpoint: string, fn: (client: Client) => Promise<T>): Promise<T> {
+    const client = await connectToAgent(endpoint);
+    try {
+        return await fn(client);
+    } finally {
+        await client.close().catch(() => undefined);
     }
 }
 
@@ -153,147 +157,150 @@ export async function disconnectMcpClient(): Promise<void> {
 // =============================================================================
 
 /**
- * List available tools (skills) from the agent
+ * List available tools (skills) of an agent
  */
-export async function listAgentTools(): Promise<AgentTool[]> {
-    if (!mcpConfig || !isConnected) {
-        throw new Error('MCP client not connected');
-    }
-
+export async function listAgentTools(endpoint: string): Promise<AgentTool[]> {
     try {
-        const response = await fetch(`${mcpConfig.agentUrl}/tools`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json'
-            }
+        return await withAgent(endpoint, async (client) => {
+            const { tools } = await client.listTools();
+            return tools.map(tool => ({
+                name: tool.name,
+                description: tool.description ?? '',
+                inputSchema: tool.inputSchema
+            }));
         });
-
-        if (!response.ok) {
-            throw new Error(`Failed to list tools: ${response.statusText}`);
-        }
-
-        const data: any = await response.json();
-        return data.tools || [];
-
     } catch (error) {
-        console.error('[MCP] Error listing agent tools:', error);
+        console.error(`[MCP] Error listing tools of ${endpoint}:`, error);
         throw error;
     }
 }
 
 /**
- * Execute a freelance task by calling the agent's tool
- * 
- * This is the main function called when a job moves to 'working' status
+ * Execute a freelance task on an agent's MCP server
+ *
+ * This is the main function called when a job is dispatched to its agent
+ * (services/agent-dispatch.ts)
  */
 export async function executeFreelanceTask(
-    taskSpec: FreelanceTaskSpec
+    endpoint: string,
+    taskSpec: FreelanceTaskSpec,
+    options: ExecuteTaskOptions = {}
 ): Promise<FreelanceTaskResult> {
-    if (!mcpConfig || !isConnected) {
-        return {
-            success: false,
-            content: '',
-            contentType: 'text',
-            error: 'MCP client not connected. Call initializeMcpClient() first.'
-        };
-    }
+    console.log(`[MCP] Executing task for job ${taskSpec.jobId} on ${endpoint}: ${taskSpec.taskType}`);
 
-    console.log(`[MCP] Executing task for job ${taskSpec.jobId}: ${taskSpec.taskType}`);
+    const maxTimeoutMs = options.maxTimeoutMs
+        ?? (taskSpec.timeout ? taskSpec.timeout * 60 * 1000 : config.maxTimeoutMs);
 
     try {
-        // Call agent-service HTTP endpoint
-        const response = await fetch(`${mcpConfig.agentUrl}/execute-task`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-                jobId: taskSpec.jobId,
-                title: taskSpec.title,
-                requirements: taskSpec.requirements,
-                taskType: taskSpec.taskType,
-                context: taskSpec.context || {},
-                timeout: taskSpec.timeout || 300 // 5 minutes default
-            }),
-            signal: AbortSignal.timeout(mcpConfig.timeout)
-        });
+        return await withAgent(endpoint, async (client) => {
+            const { tools } = await client.listTools();
+            const tool = tools.find(t => t.name === taskSpec.taskType)
+                ?? tools.find(t => t.name === config.taskTool);
+
+            if (!tool) {
+                return {
+                    success: false,
+                    content: '',
+                    contentType: 'text' as const,
+                    error: `Agent has neither a '${taskSpec.taskType}' nor a '${config.taskTool}' tool`,
+                    retryable: false
+                };
+            }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Agent returned error ${response.status}: ${errorText}`);
-        }
+            const startedAt = Date.now();
+            const result = await client.callTool(
+                {
+                    name: tool.name,
+                    arguments: {
+                        jobId: taskSpec.jobId,
+                        title: taskSpec.title,
+                        requirements: taskSpec.requirements,
+                        taskType: taskSpec.taskType,
+                        context: taskSpec.context || {}
+                    }
+                },
+                undefined,
+                {
+                    onprogress: options.onProgress,
+                    timeout: options.idleTimeoutMs ?? config.idleTimeoutMs,
+                    resetTimeoutOnProgress: true,
+                    maxTotalTimeout: maxTimeoutMs
+                }
+            );
+
+            const content = extractText(result.content);
+            const structured = (result.structuredContent ?? {}) as Record<string, any>;
+
+            if (result.isError || structured.success === false) {
+                return {
+                    success: false,
+                    content,
+                    contentType: 'text' as const,
+                    error: structured.error || content || 'Task execution failed',
+                    retryable: false
+                };
+            }
+
+            const output = typeof structured.content === 'string' ? structured.content : content;
+            if (!output) {
+                return {
+                    success: false,
+                    content: '',
+                    contentType: 'text' as const,
+                    error: 'Agent returned an empty result',
+                    retryable: false
+                };
+            }
 
-        const result: any = await response.json();
+            console.log(`[MCP] Task completed successfully for job ${taskSpec.jobId}`);
 
-        // Parse agent response
-        if (result.success === false || result.error) {
             return {
-                success: false,
-                content: result.content || '',
-                contentType: 'text',
-                error: result.error || 'Task execution failed'
+                success: true,
+                content: output,
+                contentType: detectContentType(output),
+                metadata: {
+                    executionTime: structured.executionTime ?? Date.now() - startedAt,
+                    language: structured.language,
+                    linesOfCode: structured.linesOfCode,
+                    filesCreated: structured.filesCreated
+                }
             };
-        }
-
-        console.log(`[MCP] Task completed successfully for job ${taskSpec.jobId}`);
-
-        return {
-            success: true,
-            content: result.content || result.output || '',
-            contentType: detectContentType(result.content || result.output || ''),
-            metadata: {
-                executionTime: result.executionTime,
-                language: result.language,
-                linesOfCode: result.linesOfCode,
-                filesCreated: result.filesCreated
-            }
-        };
+        });
 
     } catch (error) {
         console.error(`[MCP] Error executing task for job ${taskSpec.jobId}:`, error);
 
-        if (error instanceof TypeError && error.message.includes('fetch')) {
-            return {
-                success: false,
-                content: '',
-                contentType: 'text',
-                error: 'Failed to connect to agent service. Is it running?'
-            };
-        }
-
-        if (error instanceof Error && error.name === 'TimeoutError') {
-            return {
-                success: false,
-                content: '',
-                contentType: 'text',
-                error: `Task timed out after ${mcpConfig.timeout / 1000} seconds`
-            };
-        }
+        const message = error instanceof Error ? error.message : 'Unknown error occurred';
 
         return {
             success: false,
             content: '',
             contentType: 'text',
-            error: error instanceof Error ? error.message : 'Unknown error occurred'
+            error: /timed out|timeout/i.test(message)
+                ? `Task timed out: ${message}`
+                : `Failed to reach agent at ${endpoint}: ${message}`,
+            retryable: true
         };
     }
 }
 
 /**
- * Request code generation from the agent
+ * Request code generation from an agent
  * Convenience wrapper for executeFreelanceTask with 'code_generation' type
- * 
+ *
+ * @param endpoint - Agent MCP endpoint
  * @param jobId - Job ID
  * @param requirements - What code to generate
  * @param context - Additional context (language, framework, etc.)
  * @returns Generated code result
  */
 export async function requestCodeGeneration(
+    endpoint: string,
     jobId: number,
     requirements: string,
     context?: FreelanceTaskSpec['context']
 ): Promise<FreelanceTaskResult> {
-    return executeFreelanceTask({
+    return executeFreelanceTask(endpoint, {
         jobId,
         title: 'Code Generation Request',
         requirements,
@@ -303,19 +310,21 @@ export async function requestCodeGeneration(
 }
 
 /**
- * Request code audit from the agent
- * 
+ * Request code audit from an agent
+ *
+ * @param endpoint - Agent MCP endpoint
  * @param jobId - Job ID
  * @param code - Code to audit
  * @param auditType - Type of audit: 'security', 'performance', 'style'
  * @returns Audit result
  */
 export async function requestCodeAudit(
+    endpoint: string,
     jobId: number,
     code: string,
     auditType: 'security' | 'performance' | 'style' = 'security'
 ): Promise<FreelanceTaskResult> {
-    return executeFreelanceTask({
+    return executeFreelanceTask(endpoint, {
         jobId,
         title: `${auditType.charAt(0).toUpperCase() + auditType.slice(1)} Audit`,
         requirements: `Perform a ${auditType} audit on the provided code`,
@@ -327,19 +336,21 @@ export async function requestCodeAudit(
 }
 
 /**
- * Request translation from the agent
- * 
+ * Request translation from an agent
+ *
+ * @param endpoint - Agent MCP endpoint
  * @param jobId - Job ID
  * @param text - Text to translate
  * @param targetLanguage - Target language
  * @returns Translation result
  */
 export async function requestTranslation(
+    endpoint: string,
     jobId: number,
     text: string,
     targetLanguage: string
 ): Promise<FreelanceTaskResult> {
-    return executeFreelanceTask({
+    return executeFreelanceTask(endpoint, {
         jobId,
         title: `Translation to ${targetLanguage}`,
         requirements: text,
@@ -354,9 +365,24 @@ export async function requestTranslation(
 // UTILITY FUNCTIONS
 // =============================================================================
 
+/**
+ * Join the text blocks of a tool result
+ */
+function extractText(content: unknown): string {
+    if (!Array.isArray(content)) {
+        return '';
+    }
+
+    return content
+        .filter((block: any) => block?.type === 'text' && typeof block.text === 'string')
+        .map((block: any) => block.text)
+        .join('\n')
+        .trim();
+}
+
 /**
  * Detect content type from the result string
- * 
+ *
  * @param content - Content to analyze
  * @returns Detected content type
  */
@@ -389,23 +415,12 @@ function detectContentType(content: string): FreelanceTaskResult['contentType']
 }
 
 /**
- * Health check for MCP connection
+ * Health check for an agent's MCP server
  */
-export async function checkAgentHealth(): Promise<boolean> {
-    if (!mcpConfig || !isConnected) {
-        return false;
-    }
-
+export async function checkAgentHealth(endpoint: string): Promise<boolean> {
     try {
-        const response = await fetch(`${mcpConfig.agentUrl}/health`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json'
-            },
-            signal: AbortSignal.timeout(5000) // 5 second timeout
-        });
-
-        return response.ok;
+        await withAgent(endpoint, client => client.ping({ timeout: 5000 }));
+        return true;
     } catch {
         return false;
     }
@@ -0,0 +1,513 @@
+/**
+ * =============================================================================
+ * Metering Service - Hourly Jobs Billed over Beep Payment Streams
+ * =============================================================================
+ *
+ * An hourly job (jobs.billing = 'hourly') bills the agent's time at
+ * hourly_rate_usdc instead of a lump sum. amount_usdc is the buyer's cap:
+ * it is escrowed up front like any job, and the meter never bills past it.
+ *
+ * METER:
+ *   idle → running ⇄ paused → stopped
+ *   - running: the agent works and a Beep stream is billing. Started by the
+ *              agent (POST /jobs/:id/meter/start) or by agent dispatch
+ *   - paused:  the agent went idle, the buyer paused, the cap was reached or
+ *              a dispute was opened. Starting again resumes the same stream
+ *   - stopped: delivered or cancelled; the stream is stopped and settled.
+ *              A revision starts a new stream
+ *
+ * Every running stretch is a job_meter_segments row. Closed segments add
+ * up to jobs.accrued_seconds / accrued_usdc, which is what the agent is
+ * paid on approval - the rest of the cap goes back to the buyer. Beep has
+ * no usage endpoint, so the segments are the billing record and the Beep
+ * stream is driven alongside them: a stream that cannot be started keeps
+ * the meter from running, while failures to pause or stop a stream are
+ * recorded on the job and do not keep the meter running.
+ *
+ * The monitor pauses running meters that reached their cap.
+ *
+ * =============================================================================
+ */
+
+import { PoolClient } from 'pg';
+import { transaction } from '../db/database.js';
+import {
+    getJobForUpdate,
+    setJobMeter,
+    openMeterSegment,
+    closeMeterSegment,
+    getMetersAtCap,
+    Job,
+    MeterState,
+    MeterStopReason
+} from '../db/queries.js';
+import { applyJobTransition, applyJobActivity, JobActor } from './job-lifecycle.js';
+import { issueStreamingPayment, startStreaming, pauseStreaming, stopStreaming } from './beep-sdk.js';
+import { publishLiveEvent } from './live-events.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Meter of an hourly job as of a point in time, including the running segment
+ */
+export interface MeterReading {
+    state: MeterState;
+    hourlyRateUsdc: number;
+    capUsdc: number;
+    accruedSeconds: number;
+    accruedUsdc: number;
+    remainingUsdc: number;
+    runningSince: Date | null;
+    capReached: boolean;
+    streamInvoiceId: string | null;
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class MeterError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'MeterError';
+    }
+}
+
+/**
+ * A Beep stream startMeter started, before the meter runs on it
+ */
+interface StartedStream {
+    invoiceId: string;
+    /** Issued for this start rather than resumed */
+    issued: boolean;
+}
+
+/**
+ * The running segment of a meter, cut off where it reached the cap
+ */
+interface SegmentTotal {
+    endedAt: Date;
+    seconds: number;
+    amountUsdc: number;
+    capReached: boolean;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const config = {
+    intervalMs: parseInt(process.env.METER_CHECK_INTERVAL_MS || '60000')
+};
+
+const MONITOR_ACTOR: JobActor = 'system:meter-monitor';
+
+const STOP_REASONS: Record<MeterStopReason, string> = {
+    idle: 'the agent is idle',
+    buyer: 'paused by the buyer',
+    cap_reached: 'the cap was reached',
+    delivered: 'the work was delivered',
+    cancelled: 'the job was cancelled',
+    disputed: 'a dispute was opened'
+};
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function roundUsdc(amount: number): number {
+    return Math.round(amount * 1e6) / 1e6;
+}
+
+function remainingBudget(job: Job): number {
+    return Math.max(0, roundUsdc(Number(job.amount_usdc) - Number(job.accrued_usdc)));
+}
+
+/**
+ * Seconds and cost of the running segment up to `now`, capped at the budget
+ */
+function measureSegment(job: Job, now: Date): SegmentTotal {
+    const rate = Number(job.hourly_rate_usdc);
+    const startedAt = new Date(job.meter_started_at!).getTime();
+    const remaining = remainingBudget(job);
+
+    let seconds = Math.max(0, Math.floor((now.getTime() - startedAt) / 1000));
+    let amountUsdc = roundUsdc(seconds / 3600 * rate);
+    let capReached = false;
+
+    if (amountUsdc >= remaining) {
+        // End the segment when the cap was reached, not when we noticed
+        seconds = Math.min(seconds, Math.ceil(remaining / rate * 3600));
+        amountUsdc = remaining;
+        capReached = true;
+    }
+
+    return { endedAt: new Date(startedAt + seconds * 1000), seconds, amountUsdc, capReached };
+}
+
+/**
+ * Read the meter of a job (null for fixed-price jobs)
+ */
+export function getMeterReading(job: Job, now: Date = new Date()): MeterReading | null {
+    if (job.billing !== 'hourly') {
+        return null;
+    }
+
+    let accruedSeconds = job.accrued_seconds;
+    let accruedUsdc = Number(job.accrued_usdc);
+
+    if (job.meter_state === 'running' && job.meter_started_at) {
+        const segment = measureSegment(job, now);
+        accruedSeconds += segment.seconds;
+        accruedUsdc = roundUsdc(accruedUsdc + segment.amountUsdc);
+    }
+
+    const capUsdc = Number(job.amount_usdc);
+
+    return {
+        state: job.meter_state ?? 'idle',
+        hourlyRateUsdc: Number(job.hourly_rate_usdc),
+        capUsdc,
+        accruedSeconds,
+        accruedUsdc,
+        remainingUsdc: Math.max(0, roundUsdc(capUsdc - accruedUsdc)),
+        runningSince: job.meter_state === 'running' ? job.meter_started_at : null,
+        capReached: accruedUsdc >= capUsdc,
+        streamInvoiceId: job.stream_invoice_id
+    };
+}
+
+/**
+ * Part of an hourly job's escrow the meter did not bill, returned to the
+ * buyer on approval (0 for fixed-price jobs)
+ */
+export function getUnbilledHourlyBudget(job: Job): number {
+    return job.billing === 'hourly' ? remainingBudget(job) : 0;
+}
+
+async function publishMeter(client: PoolClient, job: Job, reason?: MeterStopReason): Promise<void> {
+    await publishLiveEvent([job.buyer_id, job.agent_id], {
+        type: 'job.meter',
+        data: {
+            jobId: job.id,
+            state: job.meter_state,
+            accruedSeconds: job.accrued_seconds,
+            accruedUsdc: Number(job.accrued_usdc),
+            reason: reason ?? null
+        }
+    }, client);
+}
+
+async function lockHourlyJob(client: PoolClient, jobId: number): Promise<Job> {
+    const job = await getJobForUpdate(client, jobId);
+    if (!job) {
+        throw new MeterError(`Job with ID ${jobId} not found`, 404);
+    }
+    if (job.billing !== 'hourly') {
+        throw new MeterError('Only hourly jobs are metered', 409);
+    }
+    return job;
+}
+
+/**
+ * Lock an hourly job whose meter may be started by the caller
+ * A running meter is returned as it is
+ */
+async function lockStartableJob(client: PoolClient, jobId: number, agentUserId?: number): Promise<Job> {
+    const job = await lockHourlyJob(client, jobId);
+
+    if (agentUserId !== undefined && job.agent_id !== agentUserId) {
+        throw new MeterError('Only the agent can start the meter', 403);
+    }
+    if (job.status !== 'escrowed' && job.status !== 'working') {
+        throw new MeterError(`The meter can only run while the job is being worked on (job is '${job.status}')`, 409);
+    }
+    if (job.meter_state === 'running') {
+        return job;
+    }
+    if (remainingBudget(job) <= 0) {
+        throw new MeterError('The buyer\'s cap has been reached - deliver the work or ask the buyer to raise it', 409);
+    }
+    return job;
+}
+
+/**
+ * Start the Beep stream of a meter: a new one for the first start and
+ * after a stop, otherwise the job's paused stream
+ */
+async function startStream(job: Job): Promise<StartedStream> {
+    const issued = !job.stream_invoice_id || job.meter_state === 'stopped';
+
+    try {
+        const invoiceId = issued
+            ? await issueStreamingPayment({ name: `Job #${job.id}: ${job.title}` })
+            : job.stream_invoice_id!;
+        await startStreaming(invoiceId);
+        return { invoiceId, issued };
+    } catch (error) {
+        console.error(`[Metering] ❌ Could not start the Beep stream for job ${job.id}:`, error);
+        throw new MeterError(`Could not start the payment stream: ${(error as Error).message}`, 502);
+    }
+}
+
+/**
+ * Stop a stream started for a meter that did not start, or pause it again
+ * if it was resumed. Failures are logged, never thrown.
+ */
+async function undoStream(stream: StartedStream): Promise<void> {
+    try {
+        if (stream.issued) {
+            await stopStreaming(stream.invoiceId);
+        } else {
+            await pauseStreaming(stream.invoiceId);
+        }
+    } catch (error) {
+        console.error(`[Metering] ❌ Could not ${stream.issued ? 'stop' : 'pause'} Beep stream ${stream.invoiceId} again:`, error);
+    }
+}
+
+// =============================================================================
+// METER
+// =============================================================================
+
+/**
+ * Start (or resume) the meter of an escrowed or working hourly job
+ *
+ * An escrowed job moves to 'working'. A new Beep stream is issued for the
+ * first start and after a stop; if Beep cannot start it nothing changes.
+ * agentUserId, when given, must be the job's agent.
+ *
+ * Beep is called between two transactions, so the job's row is not locked
+ * while it answers. A stream started for a meter that then does not start
+ * is stopped again (paused if it was resumed).
+ */
+export async function startMeter(jobId: number, actor: JobActor, agentUserId?: number): Promise<Job> {
+    const checked = await transaction(client => lockStartableJob(client, jobId, agentUserId));
+    if (checked.meter_state === 'running') {
+        return checked;
+    }
+
+    const stream = await startStream(checked);
+
+    let started: Job;
+    try {
+        started = await transaction(async (client) => {
+            let job = await lockStartableJob(client, jobId, agentUserId);
+            if (job.meter_state === 'running') {
+                return job;
+            }
+            if (job.meter_state !== checked.meter_state || job.stream_invoice_id !== checked.stream_invoice_id) {
+                throw new MeterError('The meter changed while its payment stream was starting - try again', 409);
+            }
+
+            if (job.status === 'escrowed') {
+                job = await applyJobTransition(client, jobId, 'working', {
+                    actor,
+                    reason: 'Agent started working on the hourly job'
+                });
+            }
+
+            const startedAt = new Date();
+            await openMeterSegment(client, jobId, startedAt, actor, stream.invoiceId);
+            job = await setJobMeter(client, jobId, {
+                meterState: 'running',
+                meterStartedAt: startedAt,
+                streamInvoiceId: stream.invoiceId
+            });
+
+            await applyJobActivity(client, jobId, {
+                actor,
+                reason: `Meter started at ${Number(job.hourly_rate_usdc)} USDC/hour (stream ${stream.invoiceId})`
+            });
+            await publishMeter(client, job);
+            return job;
+        });
+    } catch (error) {
+        await undoStream(stream);
+        throw error;
+    }
+
+    // Started meanwhile by someone else, on a stream of their own
+    if (started.stream_invoice_id !== stream.invoiceId) {
+        await undoStream(stream);
+        return started;
+    }
+
+    console.log(`[Metering] ▶️ Job ${jobId} meter running (${actor})`);
+    return started;
+}
+
+/**
+ * Pause a running meter; no-op if it is not running
+ *
+ * With userId, the caller must be the buyer (reason 'buyer') or the agent
+ * (reason 'idle').
+ */
+export async function pauseMeter(
+    jobId: number,
+    reason: MeterStopReason,
+    actor: JobActor,
+    userId?: number
+): Promise<Job> {
+    return transaction(async (client) => {
+        const job = await lockHourlyJob(client, jobId);
+
+        if (userId !== undefined) {
+            const party = reason === 'buyer' ? job.buyer_id : reason === 'idle' ? job.agent_id : null;
+            if (party !== userId) {
+                throw new MeterError('Only the buyer or the agent can pause the meter', 403);
+            }
+        }
+
+        return endSegment(client, job, 'paused', reason, actor);
+    });
+}
+
+/**
+ * Stop the meter for good and settle the Beep stream; no-op for meters that
+ * already stopped
+ */
+export async function stopMeter(jobId: number, reason: MeterStopReason, actor: JobActor): Promise<Job> {
+    return transaction(async (client) => {
+        const job = await lockHourlyJob(client, jobId);
+        return endSegment(client, job, 'stopped', reason, actor);
+    });
+}
+
+/**
+ * Stop the meter of a job if it is hourly - for routes and workers that
+ * finish jobs of either kind. Failures are logged, never thrown.
+ */
+export async function stopMeterIfHourly(job: Job, reason: MeterStopReason, actor: JobActor): Promise<void> {
+    if (job.billing !== 'hourly') {
+        return;
+    }
+    await stopMeter(job.id, reason, actor)
+        .catch(error => console.error(`[Metering] ❌ Failed to stop the meter of job ${job.id}:`, error));
+}
+
+/**
+ * Close the running segment (if any) and move the meter to `state`
+ */
+async function endSegment(
+    client: PoolClient,
+    job: Job,
+    state: 'paused' | 'stopped',
+    reason: MeterStopReason,
+    actor: JobActor
+): Promise<Job> {
+    const wasRunning = job.meter_state === 'running';
+
+    if (!wasRunning && (state === 'paused' || job.meter_state === 'stopped' || job.meter_state === null)) {
+        return job;
+    }
+
+    let accruedSeconds = job.accrued_seconds;
+    let accruedUsdc = Number(job.accrued_usdc);
+
+    if (wasRunning && job.meter_started_at) {
+        const segment = measureSegment(job, new Date());
+        await closeMeterSegment(client, job.id, {
+            endedAt: segment.endedAt,
+            endedBy: actor,
+            endReason: reason,
+            seconds: segment.seconds,
+            amountUsdc: segment.amountUsdc
+        });
+        accruedSeconds += segment.seconds;
+        accruedUsdc = roundUsdc(accruedUsdc + segment.amountUsdc);
+    }
+
+    // Our segments are the billing record - a stream Beep keeps running is
+    // flagged on the job rather than keeping the meter running
+    let streamNote = '';
+    if (job.stream_invoice_id && (wasRunning || state === 'stopped')) {
+        try {
+            if (state === 'stopped') {
+                await stopStreaming(job.stream_invoice_id);
+            } else {
+                await pauseStreaming(job.stream_invoice_id);
+            }
+        } catch (error) {
+            console.error(`[Metering] ❌ Could not ${state === 'stopped' ? 'stop' : 'pause'} Beep stream ${job.stream_invoice_id}:`, error);
+            streamNote = ` - Beep stream ${job.stream_invoice_id} could not be ${state}: ${(error as Error).message}`;
+        }
+    }
+
+    const updated = await setJobMeter(client, job.id, {
+        meterState: state,
+        meterStartedAt: null,
+        accruedSeconds,
+        accruedUsdc
+    });
+
+    await applyJobActivity(client, job.id, {
+        actor,
+        reason: `Meter ${state}, ${STOP_REASONS[reason]} (${accruedSeconds}s, ${accruedUsdc} USDC billed)${streamNote}`
+    });
+    await publishMeter(client, updated, reason);
+
+    console.log(`[Metering] ⏸️ Job ${job.id} meter ${state}: ${reason} (${actor})`);
+    return updated;
+}
+
+// =============================================================================
+// CAP MONITOR
+// =============================================================================
+
+let monitorInterval: NodeJS.Timeout | null = null;
+let isChecking = false;
+
+/**
+ * Start the background monitor that pauses meters at their cap
+ */
+export function startMeterMonitor(): void {
+    if (monitorInterval) {
+        console.log('[Metering] Monitor already running');
+        return;
+    }
+
+    console.log(`[Metering] Starting cap monitor with ${config.intervalMs}ms interval`);
+
+    pauseMetersAtCap();
+    monitorInterval = setInterval(pauseMetersAtCap, config.intervalMs);
+}
+
+/**
+ * Stop the background meter monitor
+ */
+export function stopMeterMonitor(): void {
+    if (monitorInterval) {
+        clearInterval(monitorInterval);
+        monitorInterval = null;
+        console.log('[Metering] Monitor stopped');
+    }
+}
+
+/**
+ * Pause running meters that billed up to their job's cap
+ */
+export async function pauseMetersAtCap(): Promise<void> {
+    // Prevent overlapping runs
+    if (isChecking) return;
+    isChecking = true;
+
+    try {
+        for (const job of await getMetersAtCap()) {
+            try {
+                await pauseMeter(job.id, 'cap_reached', MONITOR_ACTOR);
+                console.log(`[Metering] 🧢 Job ${job.id} reached its cap of ${Number(job.amount_usdc)} USDC`);
+            } catch (error) {
+                console.error(`[Metering] ❌ Failed to pause the meter of job ${job.id}:`, error);
+            }
+        }
+    } catch (error) {
+        console.error('[Metering] Error checking meters:', error);
+    } finally {
+        isChecking = false;
+    }
+}
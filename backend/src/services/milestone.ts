@@ -0,0 +1,315 @@
+/**
+ * =============================================================================
+ * Milestone Service - Milestone-based Jobs with Partial Escrow Releases
+ * =============================================================================
+ *
+ * A job can be split into ordered milestones whose amounts add up to the
+ * job's amount_usdc. The whole amount is escrowed once; each milestone is
+ * then delivered and approved on its own and releases only its share:
+ *
+ *   escrowed/working → [milestone n delivered] → delivered
+ *   delivered → [milestone n approved] → release_pending
+ *   release_pending → [share released on-chain] → working (or completed if last)
+ *
+ * Milestones must be delivered in order. A milestone rejected more than
+ * MAX_REVISION_REQUESTS times escalates the job to a dispute.
+ *
+ * =============================================================================
+ */
+
+import { PoolClient } from 'pg';
+import {
+    getJobById,
+    getUserById,
+    getMilestonesByJob,
+    createMilestones,
+    createDelivery,
+    markMilestoneDelivered,
+    markMilestoneApproved,
+    markMilestoneRevisionRequested,
+    Job,
+    JobMilestone
+} from '../db/queries.js';
+import { queueEscrowRelease } from './chain-outbox.js';
+import { transitionJob, assertTransition, JobActor } from './job-lifecycle.js';
+import { openDispute, MAX_REVISION_REQUESTS, DisputeDetails } from './dispute.js';
+import { payOutJob } from './payout.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MilestoneInput {
+    title: string;
+    description?: string;
+    amountUsdc: number;
+}
+
+export interface MilestoneDeliveryInput {
+    content: string;
+    deliveryType?: string;
+    externalUrl?: string;
+    notes?: string;
+}
+
+export interface MilestoneReviewResult {
+    milestone: JobMilestone;
+    jobStatus: Job['status'];
+    releaseTxDigest?: string;
+    /** Set when the rejection escalated the job to a dispute */
+    dispute?: DisputeDetails;
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class MilestoneError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'MilestoneError';
+    }
+}
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * Validate a milestone plan against the job amount
+ * Returns the job amount (the milestone total when no amount was given)
+ */
+export function validateMilestonePlan(
+    milestones: MilestoneInput[],
+    amountUsdc?: number
+): number {
+    if (milestones.length === 0) {
+        throw new MilestoneError('milestones must not be empty');
+    }
+
+    for (const [index, milestone] of milestones.entries()) {
+        if (!milestone.title || !(Number(milestone.amountUsdc) > 0)) {
+            throw new MilestoneError(`Milestone ${index + 1} needs a title and an amountUsdc greater than 0`);
+        }
+    }
+
+    const total = toUnits(milestones.reduce((sum, m) => sum + Number(m.amountUsdc), 0));
+
+    if (amountUsdc !== undefined && toUnits(amountUsdc) !== total) {
+        throw new MilestoneError(`Milestone amounts add up to ${total / 1_000_000} USDC but the job amount is ${amountUsdc} USDC`);
+    }
+
+    return total / 1_000_000;
+}
+
+/**
+ * Store the milestone plan of a freshly created job, in the transaction
+ * that creates it
+ */
+export async function addMilestonesToJob(
+    client: PoolClient,
+    jobId: number,
+    milestones: MilestoneInput[]
+): Promise<JobMilestone[]> {
+    const created = await createMilestones(client, jobId, milestones);
+    console.log(`[MilestoneService] Job ${jobId} split into ${created.length} milestones`);
+    return created;
+}
+
+// =============================================================================
+// DELIVERY & REVIEW
+// =============================================================================
+
+/**
+ * Submit the delivery of milestone n
+ */
+export async function deliverMilestone(
+    jobId: number,
+    position: number,
+    input: MilestoneDeliveryInput,
+    actor: JobActor
+): Promise<{ milestone: JobMilestone; deliveryId: number }> {
+    const job = await requireJob(jobId);
+    const milestones = await getMilestonesByJob(jobId);
+    const milestone = requireMilestone(milestones, position);
+
+    assertTransition(job, 'delivered');
+
+    if (milestone.status !== 'pending') {
+        throw new MilestoneError(`Milestone ${position} is already ${milestone.status}`, 409);
+    }
+
+    const blocking = milestones.find(m => m.position < position && m.status !== 'approved');
+    if (blocking) {
+        throw new MilestoneError(`Milestone ${blocking.position} must be approved before milestone ${position} can be delivered`, 409);
+    }
+
+    const deliveryId = await createDelivery(
+        jobId,
+        input.content,
+        input.deliveryType || 'text',
+        input.externalUrl,
+        input.notes
+    );
+
+    const delivered = await markMilestoneDelivered(milestone.id, deliveryId);
+
+    await transitionJob(jobId, 'delivered', {
+        actor,
+        reason: `Milestone ${position} delivered (delivery #${deliveryId})`
+    });
+
+    return { milestone: delivered, deliveryId };
+}
+
+/**
+ * Approve or reject the delivery of milestone n
+ *
+ * WORKFLOW (approved):
+ * 1. Move the job to 'release_pending'
+ * 2. Queue the release of the milestone's share (the remainder if it is the last one)
+ * 3. Once confirmed the milestone is marked approved and the job moves back
+ *    to 'working', or to 'completed' after the last milestone
+ *
+ * Jobs without an escrow are approved right away; the agent is paid by a
+ * transfer from the platform wallet once the last milestone is approved.
+ */
+export async function reviewMilestone(
+    jobId: number,
+    position: number,
+    approved: boolean,
+    actor: JobActor,
+    feedback?: string
+): Promise<MilestoneReviewResult> {
+    const job = await requireJob(jobId);
+    const milestones = await getMilestonesByJob(jobId);
+    const milestone = requireMilestone(milestones, position);
+
+    if (milestone.status !== 'delivered') {
+        throw new MilestoneError(`Milestone ${position} has no delivery awaiting review`, 409);
+    }
+
+    const isLast = milestones.every(m => m.id === milestone.id || m.status === 'approved');
+    const nextStatus = isLast ? 'completed' : 'working';
+    assertTransition(job, approved ? (job.escrow_object_id ? 'release_pending' : nextStatus) : 'working');
+
+    if (!approved) {
+        return rejectMilestone(job, milestone, actor, feedback);
+    }
+
+    const reason = feedback
+        ? `Milestone ${position} approved: ${feedback}`
+        : `Milestone ${position} approved`;
+
+    // Nothing locked on-chain - approve right away
+    if (!job.escrow_object_id) {
+        const updated = await markMilestoneApproved(milestone.id, null);
+        const moved = await transitionJob(jobId, nextStatus, { actor, reason });
+
+        if (isLast) {
+            await payOutJob(moved, actor)
+                .catch(err => console.error(`[MilestoneService] Failed to queue the payout of job ${jobId}:`, err));
+        }
+        return { milestone: updated, jobStatus: nextStatus };
+    }
+
+    const buyer = await getUserById(job.buyer_id);
+    if (!buyer) {
+        throw new Error('Buyer not found');
+    }
+
+    await transitionJob(jobId, 'release_pending', { actor, reason });
+
+    const remainingUsdc = milestones
+        .filter(m => m.id !== milestone.id && m.status !== 'approved')
+        .reduce((sum, m) => sum + Number(m.amount_usdc), 0);
+
+    // The last milestone releases whatever is left so no dust stays locked
+    const op = await queueEscrowRelease(job, {
+        escrowObjectId: job.escrow_object_id,
+        buyerAddress: buyer.wallet_address,
+        amountUsdc: isLast ? undefined : Number(milestone.amount_usdc),
+        remainingUsdc,
+        milestoneId: milestone.id,
+        nextStatus,
+        actor,
+        reason: `Milestone ${position} released`
+    });
+
+    if (op.status !== 'succeeded') {
+        console.warn(`[MilestoneService] Release of milestone ${position} of job ${jobId} queued (${op.status}): ${op.last_error}`);
+        return { milestone, jobStatus: 'release_pending' };
+    }
+
+    console.log(`[MilestoneService] Milestone ${position} of job ${jobId} released: ${op.tx_digest}`);
+
+    const updated = (await getMilestonesByJob(jobId)).find(m => m.id === milestone.id) ?? milestone;
+
+    return {
+        milestone: updated,
+        jobStatus: nextStatus,
+        releaseTxDigest: op.tx_digest ?? undefined
+    };
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+async function rejectMilestone(
+    job: Job,
+    milestone: JobMilestone,
+    actor: JobActor,
+    feedback?: string
+): Promise<MilestoneReviewResult> {
+    // Too many revision rounds - escalate to a dispute instead of looping forever
+    if (milestone.revision_count >= MAX_REVISION_REQUESTS) {
+        const dispute = await openDispute({
+            jobId: job.id,
+            userId: job.buyer_id,
+            reason: feedback || `Milestone ${milestone.position} rejected after ${milestone.revision_count} revisions`
+        });
+
+        return { milestone, jobStatus: 'disputed', dispute };
+    }
+
+    const updated = await markMilestoneRevisionRequested(milestone.id);
+
+    await transitionJob(job.id, 'working', {
+        actor,
+        reason: feedback
+            ? `Revision requested for milestone ${milestone.position}: ${feedback}`
+            : `Revision requested for milestone ${milestone.position}`
+    });
+
+    return { milestone: updated, jobStatus: 'working' };
+}
+
+async function requireJob(jobId: number): Promise<Job> {
+    const job = await getJobById(jobId);
+    if (!job) {
+        throw new MilestoneError('Job not found', 404);
+    }
+    return job;
+}
+
+function requireMilestone(milestones: JobMilestone[], position: number): JobMilestone {
+    if (milestones.length === 0) {
+        throw new MilestoneError('This job has no milestones', 404);
+    }
+
+    const milestone = milestones.find(m => m.position === position);
+    if (!milestone) {
+        throw new MilestoneError(`Milestone ${position} not found (job has ${milestones.length})`, 404);
+    }
+    return milestone;
+}
+
+/**
+ * Convert USDC to integer units (6 decimals) for exact comparisons
+ */
+function toUnits(amountUsdc: number): number {
+    return Math.round(Number(amountUsdc) * 1_000_000);
+}
@@ -1,25 +1,37 @@
 /**
  * =============================================================================
- * Payment Polling Service - Background Invoice Verification
+ * Payment Polling Service - Background Invoice Reconciliation
  * =============================================================================
  * 
- * This service runs in the background, periodically checking for paid invoices.
- * When a payment is detected, it triggers the escrow creation and agent workflow.
+ * Payments normally arrive through the Beep webhook (routes/payments.ts),
+ * which hands off to processPayment() immediately. This service is the
+ * slow safety net: it periodically sweeps unpaid invoices in case a webhook
+ * was missed, and owns the shared escrow creation path.
  * 
  * WORKFLOW:
- * 1. Poll Beep API for unpaid invoices that now have 'paid' status
- * 2. When payment detected:
- *    a. Update job status in database
- *    b. Create escrow on SUI blockchain
- *    c. Trigger MCP agent to start work
+ * 1. Sweep Beep API for unpaid invoices that now have 'paid' status, falling
+ *    back to USDC transfers found on-chain (services/payment-scanner.ts)
+ * 2. When payment detected (here or via webhook):
+ *    a. Queue escrow creation in the chain outbox
+ *    b. Job moves to 'escrowed' once the escrow is confirmed
+ *    c. The job is dispatched to its agent's MCP endpoint
+ *       (services/agent-dispatch.ts)
+ *    The buyer and agent get a payment.detected live event right away
+ *    (services/live-events.ts), before the escrow is confirmed.
+ * 
+ * Jobs created before invoices were stored by UUID still carry Beep's
+ * numeric invoice ID. The sweep replaces it with the UUID, so the webhook
+ * (which only knows the UUID) can find the job from then on.
  * 
  * =============================================================================
  */
 
-import { beepSDKService } from './beep-sdk.js';
-import { getUnpaidJobsWithInvoices, markJobAsEscrowed, updateJobStatus, getUserById } from '../db/queries.js';
-import { createEscrow, verifyPaymentOnChain } from './sui.js';
-// import { executeFreelanceTask } from './mcp-client.js'; // Removed - not using MCP
+import { beepSDKService, getInvoiceUuid } from './beep-sdk.js';
+import { getUnpaidJobsWithInvoices, Job } from '../db/queries.js';
+import { canTransition, recordJobActivity, JobActor } from './job-lifecycle.js';
+import { scanPayments, verifyPaymentOnChain } from './payment-scanner.js';
+import { queueEscrowCreation } from './chain-outbox.js';
+import { publishLiveEvent } from './live-events.js';
 import { Transaction } from '@mysten/sui/transactions';
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 
@@ -32,8 +44,6 @@ interface PollerConfig {
     intervalMs: number;
     /** Maximum retries for failed operations */
     maxRetries: number;
-    /** Whether to automatically trigger agent on payment */
-    autoTriggerAgent: boolean;
 }
 
 // =============================================================================
@@ -45,9 +55,8 @@ let isPolling = false;
 
 // Default configuration
 const config: PollerConfig = {
-    intervalMs: 10000,  // 10 seconds
-    maxRetries: 3,
-    autoTriggerAgent: false // Disabled - no MCP agent
+    intervalMs: parseInt(process.env.PAYMENT_RECONCILE_INTERVAL_MS || '300000'),  // 5 minutes
+    maxRetries: 3
 };
 
 // =============================================================================
@@ -106,19 +115,28 @@ async function pollForPayments(): Promise<void> {
 
         console.log(`[PaymentPoller] Checking ${unpaidJobs.length} pending invoices`);
 
+        // One scan of the merchant's new transactions serves every job
+        const scanned = await scanPayments()
+            .then(() => true)
+            .catch(error => {
+                console.error('[PaymentPoller] On-chain payment scan failed:', error);
+                return false;
+            });
+
         // Step 2: Check each invoice status
-        for (const job of unpaidJobs) {
+        for (let job of unpaidJobs) {
             if (!job.beep_invoice_id) {
                 console.warn(`[PaymentPoller] Job ${job.id} has no invoice ID, skipping`);
                 continue;
             }
             
-            // Skip old numeric IDs (from before UUID migration)
-            // These are outside the 50-invoice limit and can't be mapped
-            const isOldNumericId = /^\d+$/.test(job.beep_invoice_id) && parseInt(job.beep_invoice_id) < 2400;
-            if (isOldNumericId) {
-                console.log(`[PaymentPoller] Skipping old numeric invoice ID ${job.beep_invoice_id} (job ${job.id})`);
-                continue;
+            // Legacy numeric IDs are swapped for the invoice UUID, which the webhook looks jobs up by
+            if (/^\d+$/.test(job.beep_invoice_id)) {
+                const migrated = await migrateInvoiceId(job);
+                if (!migrated) {
+                    continue;
+                }
+                job = migrated;
             }
             
             // FLAG: Has payment been confirmed?
@@ -127,7 +145,7 @@ async function pollForPayments(): Promise<void> {
             try {
                 // Query Beep API for invoice status
                 console.log(`[PaymentPoller] Checking invoice ${job.beep_invoice_id} for job ${job.id}...`);
-                const invoice = await beepSDKService.getPaymentStatus(job.beep_invoice_id);
+                const invoice = await beepSDKService.getPaymentStatus(job.beep_invoice_id!);
                 
                 if (invoice.status === 'paid') {
                     console.log(`[PaymentPoller] ✅ Beep Payment detected for job ${job.id}`);
@@ -144,33 +162,17 @@ async function pollForPayments(): Promise<void> {
                 // Proceed to on-chain check
             }
 
-            // Fallback: Check On-Chain
-            if (!isPaid) {
-                const merchantAddress = process.env.BEEP_MERCHANT_SUI_ADDRESS;
-                if (merchantAddress) {
-                    try {
-                        // Ensure we have the UUID for strict comparison
-                        let searchUuid = job.beep_invoice_id;
-                        if (/^\d+$/.test(searchUuid)) {
-                            console.log(`[PaymentPoller] Resolving numeric ID ${searchUuid} to UUID for on-chain check...`);
-                            searchUuid = await beepSDKService.getInvoiceUuid(searchUuid);
-                        }
-
-                        console.log(`[PaymentPoller] 🔍 Verifying on-chain with UUID: ${searchUuid}`);
-
-                        const onChain = await verifyPaymentOnChain(
-                            merchantAddress,
-                            job.amount_usdc,
-                            searchUuid
-                        );
-                        
-                        if (onChain.paid) {
-                            console.log(`[PaymentPoller] ✅ On-Chain Payment detected for job ${job.id} (tx: ${onChain.txDigest})`);
-                            isPaid = true;
-                        }
-                    } catch (err) {
-                        console.error(`[PaymentPoller] On-chain check error:`, err);
+            // Fallback: a transfer the scanner matched to the invoice
+            if (!isPaid && scanned) {
+                try {
+                    const onChain = await verifyPaymentOnChain(job, false);
+
+                    if (onChain.paid) {
+                        console.log(`[PaymentPoller] ✅ On-Chain Payment detected for job ${job.id} (tx: ${onChain.payment!.tx_digest})`);
+                        isPaid = true;
                     }
+                } catch (err) {
+                    console.error(`[PaymentPoller] On-chain check error:`, err);
                 }
             }
 
@@ -180,7 +182,7 @@ async function pollForPayments(): Promise<void> {
             }
         }
 
-        console.log(`[PaymentPoller] ✓ Poll cycle completed`);
+        console.log(`[PaymentPoller] ✓ Reconciliation sweep completed`);
 
     } catch (error) {
         console.error('[PaymentPoller] ❌ Error during polling:', error);
@@ -189,92 +191,93 @@ async function pollForPayments(): Promise<void> {
     }
 }
 
+// =============================================================================
+// LEGACY INVOICE IDS
+// =============================================================================
+
+/**
+ * Store the UUID of a job's invoice in place of its legacy numeric ID
+ * @returns null if Beep cannot map the ID (tried again next sweep)
+ */
+async function migrateInvoiceId(job: Job): Promise<Job | null> {
+    const numericId = job.beep_invoice_id!;
+
+    try {
+        const uuid = await getInvoiceUuid(numericId);
+        const updated = await recordJobActivity(job.id, {
+            actor: 'system:payment-poller',
+            reason: `Legacy invoice ID ${numericId} replaced by invoice UUID ${uuid}`,
+            fields: { beep_invoice_id: uuid }
+        });
+
+        console.log(`[PaymentPoller] Job ${job.id}: invoice ${numericId} is ${uuid}`);
+        return updated;
+    } catch (error: any) {
+        console.warn(`[PaymentPoller] ⚠️ Could not map invoice ${numericId} of job ${job.id} to its UUID: ${error.message}`);
+        return null;
+    }
+}
+
 // =============================================================================
 // PAYMENT PROCESSING
 // =============================================================================
 
 /**
  * Process a detected payment
+ * Shared by the Beep webhook, the reconciliation sweep and simulate-payment
  * 
  * WORKFLOW:
- * 1. Create escrow on SUI blockchain
- * 2. Update job status to 'escrowed' with blockchain details
- * 3. Optionally trigger MCP agent to start work
+ * 1. Queue escrow creation in the chain outbox (tried right away, retried
+ *    with backoff on failure; the idempotency key prevents locking twice)
+ * 2. The outbox moves the job to 'escrowed' once the escrow exists and
+ *    dispatches it to the agent
+ * 
+ * @returns true if the job is escrowed or its escrow is queued
  */
-export async function processPayment(job: any): Promise<void> {
+export async function processPayment(
+    job: Job,
+    actor: JobActor = 'system:payment-poller'
+): Promise<boolean> {
     const jobId = job.id;
 
+    if (!canTransition(job.status, 'escrowed')) {
+        console.warn(`[PaymentPoller] Job ${jobId} is '${job.status}', not creating escrow`);
+        return job.status !== 'unpaid' && job.status !== 'cancelled';
+    }
+
+    await publishLiveEvent([job.buyer_id, job.agent_id], {
+        type: 'payment.detected',
+        data: { jobId, invoiceId: job.beep_invoice_id, amountUsdc: Number(job.amount_usdc), detectedBy: actor }
+    });
+
     try {
-        console.log(`[PaymentPoller] 🔒 Creating escrow for job ${jobId}...`);
-        
-        // Get buyer and agent wallet addresses from database
-        const buyer = await getUserById(job.buyer_id);
-        if (!buyer) {
-            throw new Error(`Buyer not found for job ${jobId}`);
-        }
+        console.log(`[PaymentPoller] 🔒 Queueing escrow for job ${jobId}...`);
 
-        const agent = job.agent_id ? await getUserById(job.agent_id) : null;
-        if (!agent && job.agent_id) {
-            throw new Error(`Agent not found for job ${jobId}`);
+        const op = await queueEscrowCreation(job, {
+            actor,
+            reason: `Payment detected for invoice ${job.beep_invoice_id}`
+        });
+
+        if (op.status === 'failed') {
+            console.error(`[PaymentPoller] ❌ Escrow for job ${jobId} failed: ${op.last_error}`);
+            return false;
         }
 
-        // Get platform USDC coin to lock in escrow
-        // Platform receives USDC from Beep, then locks it on-chain
-        const platformUsdcCoin = await getPlatformUsdcCoin(job.amount_usdc);
-        
-        // Create escrow on SUI blockchain
-        const escrowResult = await createEscrow({
-            buyerAddress: buyer.wallet_address,
-            agentAddress: agent ? agent.wallet_address : buyer.wallet_address, // Fallback to buyer if no agent yet
-            amountUsdc: job.amount_usdc,
-            jobReference: job.reference_key,
-            usdcCoinId: platformUsdcCoin
-        });
-        
-        if (!escrowResult.success) {
-            throw new Error(`Escrow creation failed: ${escrowResult.error}`);
+        if (op.status !== 'succeeded') {
+            console.log(`[PaymentPoller] ⏳ Escrow for job ${jobId} queued for retry (${op.status})`);
+            return true;
         }
-        
-        console.log(`[PaymentPoller] ✅ Escrow created: ${escrowResult.escrowObjectId}`);
-        
-        // Update job in database
-        await markJobAsEscrowed(
-            jobId,
-            job.beep_invoice_id,
-            escrowResult.escrowObjectId,
-            escrowResult.txDigest
-        );
-        
+
         console.log(`[PaymentPoller] 📝 Job ${jobId} marked as escrowed`);
-        
-        // Trigger agent if auto-trigger is enabled
-        if (config.autoTriggerAgent && job.agent_id) {
-            console.log(`[PaymentPoller] 🤖 Triggering agent for job ${jobId}...`);
-            await triggerAgentWork(job);
-        }
-        
         console.log(`[PaymentPoller] ✅ Payment processed successfully for job ${jobId}`);
-        
+        return true;
+
     } catch (error) {
         console.error(`[PaymentPoller] ❌ Failed to process payment for job ${jobId}:`, error);
-        
-        // Job will be picked up in next poll cycle for retry
-        // Could implement exponential backoff here if needed
-    }
-}
 
-/**
- * Trigger the MCP agent to start working on a job
- * 
- * DISABLED: MCP client not implemented yet.
- * Jobs will remain in 'escrowed' status until manually started.
- */
-async function triggerAgentWork(job: any): Promise<void> {
-    console.log(`[PaymentPoller] ⚠️ Agent auto-trigger disabled. Job ${job.id} is escrowed.`);
-    console.log(`[PaymentPoller] 👤 Agent must manually accept and work on this job.`);
-    
-    // Just update to 'working' status - manual workflow
-    await updateJobStatus(job.id, 'working');
+        // Job will be picked up by the next reconciliation sweep (or webhook retry)
+        return false;
+    }
 }
 
 // =============================================================================
@@ -0,0 +1,370 @@
+/**
+ * =============================================================================
+ * Payment Scanner Service - Direct USDC Payments Found On-chain
+ * =============================================================================
+ *
+ * Buyers can pay an invoice with a plain USDC transfer to the merchant
+ * address (BEEP_MERCHANT_SUI_ADDRESS) carrying the invoice UUID as memo.
+ * When Beep has not reported such an invoice paid, the payment poller and
+ * GET /jobs/:id/payment-status fall back to this scanner.
+ *
+ * SCANNING:
+ *   Transactions to the merchant are paged through oldest first from a
+ *   cursor stored per address (payment_scan_cursors). The cursor is saved
+ *   after each page, so a crash re-reads at most one page, and nothing is
+ *   missed however busy the address is.
+ *
+ * MATCHING (strict):
+ *   - memo:      a pure input or an event's memo field equal to a job's
+ *                beep_invoice_id - no substring search
+ *   - coin type: only USDC (BEEP_USDC_COIN_TYPE) counts
+ *   - amount:    what the merchant address gained, from the balance changes
+ *
+ * TOLERANCE:
+ *   short by up to PAYMENT_UNDERPAY_TOLERANCE_USDC  → within_tolerance
+ *   short by more                                   → underpaid, not accepted
+ *   over by up to PAYMENT_OVERPAY_TOLERANCE_USDC    → within_tolerance
+ *   over by more                                    → overpaid, accepted; the
+ *                                                     excess needs a refund
+ *   Separate transfers are not added up.
+ *
+ * Every matched transfer is stored in onchain_payments with the job it paid.
+ * The digest is unique, so one transfer can never pay two jobs, and a job
+ * already paid records later transfers as duplicates. Anything not accepted
+ * cleanly is written to the job's audit trail for review.
+ *
+ * =============================================================================
+ */
+
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import {
+    getJobByInvoiceId,
+    getPaymentScanCursor,
+    savePaymentScanCursor,
+    recordOnChainPayment,
+    getAcceptedOnChainPayment,
+    Job,
+    OnChainPayment,
+    OnChainPaymentOutcome
+} from '../db/queries.js';
+import { getSuiClient, getUsdcCoinType } from './sui.js';
+import { recordJobActivity, JobActor } from './job-lifecycle.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OnChainPaymentCheck {
+    paid: boolean;
+    /** The accepted transfer */
+    payment?: OnChainPayment;
+}
+
+export interface PaymentEvaluation {
+    /** USDC, or the coin received instead */
+    coinType: string | null;
+    amountUsdc: number;
+    outcome: OnChainPaymentOutcome;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const config = {
+    merchantAddress: process.env.BEEP_MERCHANT_SUI_ADDRESS,
+    pageSize: 50,
+    maxPagesPerScan: parseInt(process.env.PAYMENT_SCAN_MAX_PAGES || '20'),
+    underpayToleranceUsdc: parseFloat(process.env.PAYMENT_UNDERPAY_TOLERANCE_USDC || '0'),
+    overpayToleranceUsdc: parseFloat(process.env.PAYMENT_OVERPAY_TOLERANCE_USDC || '0')
+};
+
+const SCANNER_ACTOR: JobActor = 'system:payment-scanner';
+
+const ACCEPTED_OUTCOMES: readonly OnChainPaymentOutcome[] = ['exact', 'within_tolerance', 'overpaid'];
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** The scan in progress; callers arriving meanwhile wait for it */
+let activeScan: Promise<number> | null = null;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function toUsdc(units: number): number {
+    return units / 1_000_000;
+}
+
+/**
+ * A memo as a string: plain strings as they are, byte vectors as UTF-8
+ */
+function decodeMemo(value: unknown): string | null {
+    if (typeof value === 'string') {
+        return value.trim() || null;
+    }
+
+    if (Array.isArray(value) && value.length > 0 && value.every(b => Number.isInteger(b) && b >= 0 && b < 256)) {
+        try {
+            return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(value)).trim() || null;
+        } catch {
+            return null;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Memos a transaction carries that could be an invoice ID
+ * Amounts and addresses among the pure inputs are left out
+ */
+function getMemos(block: SuiTransactionBlockResponse): string[] {
+    const values: unknown[] = [];
+
+    const tx = block.transaction?.data.transaction;
+    if (tx?.kind === 'ProgrammableTransaction') {
+        for (const input of tx.inputs) {
+            if (input.type === 'pure') {
+                values.push(input.value);
+            }
+        }
+    }
+
+    for (const event of block.events ?? []) {
+        values.push((event.parsedJson as any)?.memo);
+    }
+
+    const memos = values
+        .map(decodeMemo)
+        .filter((memo): memo is string => !!memo && !/^\d+$/.test(memo) && !/^0x[0-9a-f]+$/i.test(memo));
+
+    return [...new Set(memos)];
+}
+
+/**
+ * What an address gained in a transaction, in base units per coin type
+ */
+function getReceived(block: SuiTransactionBlockResponse, address: string): Map<string, number> {
+    const received = new Map<string, number>();
+
+    for (const change of block.balanceChanges ?? []) {
+        const owner = typeof change.owner === 'object' && 'AddressOwner' in change.owner
+            ? normalizeSuiAddress(change.owner.AddressOwner)
+            : null;
+        if (owner !== address) {
+            continue;
+        }
+
+        const coinType = normalizeStructTag(change.coinType);
+        received.set(coinType, (received.get(coinType) ?? 0) + Number(change.amount));
+    }
+
+    return received;
+}
+
+/**
+ * How a USDC amount compares with what the job costs
+ */
+function evaluateAmount(receivedUnits: number, expectedUsdc: number): OnChainPaymentOutcome {
+    const difference = receivedUnits - Math.round(expectedUsdc * 1_000_000);
+
+    if (difference === 0) {
+        return 'exact';
+    }
+    if (difference < 0) {
+        return -difference <= Math.round(config.underpayToleranceUsdc * 1_000_000) ? 'within_tolerance' : 'underpaid';
+    }
+    return difference <= Math.round(config.overpayToleranceUsdc * 1_000_000) ? 'within_tolerance' : 'overpaid';
+}
+
+// =============================================================================
+// SCANNING
+// =============================================================================
+
+/**
+ * Read the merchant's new transactions and record the payments among them
+ * Concurrent callers share one scan
+ * @returns the number of transfers matched to a job
+ */
+export async function scanPayments(): Promise<number> {
+    if (!config.merchantAddress) {
+        return 0;
+    }
+
+    if (!activeScan) {
+        activeScan = scanAddress(normalizeSuiAddress(config.merchantAddress))
+            .finally(() => { activeScan = null; });
+    }
+    return activeScan;
+}
+
+/**
+ * Page through the transactions sent to an address, oldest first
+ */
+async function scanAddress(address: string): Promise<number> {
+    const client = getSuiClient();
+    let cursor = await getPaymentScanCursor(address);
+    let matched = 0;
+
+    for (let page = 0; page < config.maxPagesPerScan; page++) {
+        const result = await client.queryTransactionBlocks({
+            filter: { ToAddress: address },
+            options: {
+                showInput: true,
+                showEffects: true,
+                showEvents: true,
+                showBalanceChanges: true
+            },
+            cursor,
+            limit: config.pageSize,
+            order: 'ascending'
+        });
+
+        for (const block of result.data) {
+            if (await matchTransaction(block, address)) {
+                matched++;
+            }
+        }
+
+        if (result.nextCursor) {
+            cursor = result.nextCursor;
+            await savePaymentScanCursor(address, cursor);
+        }
+
+        if (!result.hasNextPage) {
+            break;
+        }
+    }
+
+    if (matched > 0) {
+        console.log(`[PaymentScanner] Matched ${matched} on-chain payments`);
+    }
+    return matched;
+}
+
+/**
+ * Match one transaction to the job whose invoice its memo names
+ * @returns false if it pays no job or was already recorded
+ */
+async function matchTransaction(block: SuiTransactionBlockResponse, address: string): Promise<boolean> {
+    if (block.effects?.status.status !== 'success') {
+        return false;
+    }
+
+    const received = getReceived(block, address);
+    if (![...received.values()].some(amount => amount > 0)) {
+        return false;
+    }
+
+    let job: Job | null = null;
+    let invoiceId: string | null = null;
+    for (const memo of getMemos(block)) {
+        job = await getJobByInvoiceId(memo);
+        if (job) {
+            invoiceId = memo;
+            break;
+        }
+    }
+    if (!job || !invoiceId) {
+        return false;
+    }
+
+    const alreadyPaid = (await getAcceptedOnChainPayment(job.id)) !== null;
+    const evaluation = evaluatePayment(block, address, Number(job.amount_usdc), alreadyPaid);
+
+    // The insert checks for an accepted payment again, in case one landed meanwhile
+    const payment = await recordOnChainPayment({
+        txDigest: block.digest,
+        recipient: address,
+        invoiceId,
+        jobId: job.id,
+        coinType: evaluation.coinType,
+        amountUsdc: evaluation.amountUsdc,
+        expectedUsdc: Number(job.amount_usdc),
+        outcome: evaluation.outcome,
+        sender: block.transaction?.data.sender ?? null,
+        timestampMs: block.timestampMs ?? null
+    });
+
+    if (!payment) {
+        return false;
+    }
+
+    console.log(`[PaymentScanner] ${payment.outcome === 'exact' ? '✅' : '⚠️'} ${block.digest}: ${payment.amount_usdc} USDC for job ${job.id} (${payment.outcome})`);
+    await notePayment(payment);
+    return true;
+}
+
+/**
+ * What a transaction sent to an address pays against a job's amount
+ * alreadyPaid: the job has an accepted payment, so another one that would
+ * be accepted is a duplicate
+ */
+export function evaluatePayment(
+    block: SuiTransactionBlockResponse,
+    address: string,
+    expectedUsdc: number,
+    alreadyPaid: boolean
+): PaymentEvaluation {
+    const received = getReceived(block, normalizeSuiAddress(address));
+    const usdcType = normalizeStructTag(getUsdcCoinType());
+    const usdcUnits = Math.max(received.get(usdcType) ?? 0, 0);
+
+    if (usdcUnits === 0) {
+        const otherCoin = [...received.entries()].find(([, amount]) => amount > 0)?.[0] ?? null;
+        return { coinType: otherCoin, amountUsdc: 0, outcome: 'wrong_coin' };
+    }
+
+    const outcome = evaluateAmount(usdcUnits, expectedUsdc);
+    return {
+        coinType: usdcType,
+        amountUsdc: toUsdc(usdcUnits),
+        outcome: alreadyPaid && ACCEPTED_OUTCOMES.includes(outcome) ? 'duplicate' : outcome
+    };
+}
+
+/**
+ * Leave anything other than an exact payment in the job's audit trail
+ */
+async function notePayment(payment: OnChainPayment): Promise<void> {
+    const reasons: Partial<Record<OnChainPaymentOutcome, string>> = {
+        overpaid: `Paid ${payment.amount_usdc} USDC on-chain for ${payment.expected_usdc} USDC - needs review, the excess should be refunded`,
+        underpaid: `Paid ${payment.amount_usdc} USDC on-chain for ${payment.expected_usdc} USDC - not accepted, needs review`,
+        wrong_coin: `Paid in ${payment.coin_type ?? 'an unknown coin'} instead of USDC on-chain - not accepted, needs review`,
+        duplicate: `Paid ${payment.amount_usdc} USDC on-chain again after the job was paid - needs review, should be refunded`
+    };
+
+    const reason = reasons[payment.outcome];
+    if (!reason || payment.job_id === null) {
+        return;
+    }
+
+    await recordJobActivity(payment.job_id, {
+        actor: SCANNER_ACTOR,
+        reason,
+        txDigest: payment.tx_digest
+    }).catch(err => console.error('[PaymentScanner] Failed to record job activity:', err));
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+/**
+ * Whether a transfer on-chain paid a job
+ * scan: read new transactions first (the poller scans once per sweep instead)
+ */
+export async function verifyPaymentOnChain(job: Job, scan: boolean = true): Promise<OnChainPaymentCheck> {
+    if (scan) {
+        await scanPayments();
+    }
+
+    const payment = await getAcceptedOnChainPayment(job.id);
+    return payment && ACCEPTED_OUTCOMES.includes(payment.outcome)
+        ? { paid: true, payment }
+        : { paid: false };
+}
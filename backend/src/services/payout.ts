@@ -0,0 +1,317 @@
+/**
+ * =============================================================================
+ * Payout Service - Paying Agents and Moving Jobs to 'paid_out'
+ * =============================================================================
+ *
+ * Every amount an agent is paid for a job is an agent_payouts row, keyed by
+ * the chain operation that moves the money:
+ *
+ *   escrow   - the escrow release sends the agent's share straight to its
+ *              wallet. The payout is opened (pending) when the release is
+ *              queued and marked sent once it lands: 'job:12:release',
+ *              one per milestone, or the dispute ruling ('job:12:dispute')
+ *   transfer - jobs paid through Beep without an escrow (the funds sit in
+ *              the platform wallet) are paid with a USDC transfer queued in
+ *              the chain outbox ('job:12:payout')
+ *
+ * Beep's issuePayment charges a paying merchant and cannot push funds to a
+ * wallet, so transfers go on-chain from the platform wallet that Beep
+ * settles into.
+ *
+ * FEES:
+ *   The platform fee (services/fees.ts) is quoted when a payout is opened.
+ *   amount_usdc is what the agent receives and fee_usdc what the platform
+ *   keeps; releases send the fee to the platform wallet, transfers send the
+ *   agent less. Sent payouts are posted to the ledger (services/ledger.ts).
+ *
+ * PARTIAL FAILURES:
+ *   Failed attempts are retried by the chain outbox and their error is kept
+ *   on the payout. A payout whose operation gives up is 'failed' and keeps
+ *   the job in 'completed'. A transfer's digest is stored before it is sent,
+ *   so a retry after a crash does not pay twice.
+ *
+ * A completed job moves to 'paid_out' once none of its payouts is pending
+ * or failed.
+ *
+ * =============================================================================
+ */
+
+import { transaction } from '../db/database.js';
+import {
+    getJobForUpdate,
+    getUserById,
+    getAgentByUserId,
+    createAgentPayout,
+    markAgentPayoutSent,
+    markAgentPayoutFailed,
+    getPayoutsByJob,
+    getJobById,
+    AgentPayout,
+    Job
+} from '../db/queries.js';
+import { applyJobTransition, JobActor } from './job-lifecycle.js';
+import { quoteFee, FeeQuote, NO_FEE } from './fees.js';
+import { recordPayoutSent } from './ledger.js';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const PAYOUT_ACTOR: JobActor = 'system:payout';
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function roundUsdc(amount: number): number {
+    return Math.round(amount * 1e6) / 1e6;
+}
+
+function transferKey(job: Job): string {
+    return `job:${job.id}:payout`;
+}
+
+/**
+ * The agent profile and wallet a job pays
+ */
+async function getPayee(job: Job): Promise<{ agentId: number; walletAddress: string } | null> {
+    if (!job.agent_id) {
+        return null;
+    }
+
+    const [agent, user] = await Promise.all([
+        getAgentByUserId(job.agent_id),
+        getUserById(job.agent_id)
+    ]);
+
+    return agent && user ? { agentId: agent.id, walletAddress: user.wallet_address } : null;
+}
+
+/**
+ * Payouts of a job other than one, that were not given up on
+ */
+async function getOtherPayouts(jobId: number, exceptKey: string): Promise<AgentPayout[]> {
+    const payouts = await getPayoutsByJob(jobId);
+    return payouts.filter(payout => payout.idempotency_key !== exceptKey && payout.status !== 'failed');
+}
+
+/**
+ * What the job has paid out, fees included, or is paying out outside one payout
+ */
+async function getCommittedAmount(jobId: number, exceptKey: string): Promise<number> {
+    const payouts = await getOtherPayouts(jobId, exceptKey);
+    return payouts.reduce((sum, payout) => sum + payout.amount_usdc + payout.fee_usdc, 0);
+}
+
+/**
+ * Post a sent payout to the ledger
+ */
+async function recordSent(payout: AgentPayout): Promise<void> {
+    const job = await getJobById(payout.job_id);
+    if (job) {
+        await recordPayoutSent(payout, job);
+    }
+}
+
+// =============================================================================
+// FEES
+// =============================================================================
+
+/**
+ * Fee the platform keeps out of paying grossUsdc to the agent of a job
+ * The flat part is charged on the job's first payout only
+ */
+export async function quotePayoutFee(job: Job, grossUsdc: number, idempotencyKey: string): Promise<FeeQuote> {
+    const others = await getOtherPayouts(job.id, idempotencyKey);
+    return quoteFee(job, grossUsdc, others.length === 0);
+}
+
+// =============================================================================
+// RECORDING PAYOUTS
+// =============================================================================
+
+/**
+ * Open the payout for an escrow release that is about to be queued
+ * Without amountUsdc the release pays out whatever is left in the escrow;
+ * without fee the current fee schedule is applied
+ */
+export async function openEscrowPayout(
+    job: Job,
+    idempotencyKey: string,
+    amountUsdc?: number,
+    milestoneId?: number,
+    fee?: FeeQuote
+): Promise<AgentPayout | null> {
+    const payee = await getPayee(job);
+    if (!payee) {
+        console.warn(`[Payout] Job ${job.id} has no agent to pay`);
+        return null;
+    }
+
+    const amount = roundUsdc(amountUsdc ?? Number(job.amount_usdc) - await getCommittedAmount(job.id, idempotencyKey));
+    if (amount <= 0) {
+        return null;
+    }
+
+    const quote = fee ?? await quotePayoutFee(job, amount, idempotencyKey);
+
+    return createAgentPayout({
+        jobId: job.id,
+        agentId: payee.agentId,
+        milestoneId,
+        idempotencyKey,
+        method: 'escrow',
+        recipientAddress: payee.walletAddress,
+        amountUsdc: roundUsdc(amount - quote.feeUsdc),
+        feeUsdc: quote.feeUsdc,
+        feeScheduleId: quote.scheduleId
+    });
+}
+
+/**
+ * Record a release that already landed (dispute ruling, or one made outside
+ * the API that the chain indexer found) and settle the job
+ * amountUsdc includes the fee the release kept for the platform, if any
+ */
+export async function recordReleasedPayout(
+    job: Job,
+    idempotencyKey: string,
+    amountUsdc: number,
+    txDigest: string | null,
+    actor: JobActor = PAYOUT_ACTOR,
+    fee: FeeQuote = NO_FEE
+): Promise<void> {
+    if (amountUsdc > 0 && await openEscrowPayout(job, idempotencyKey, amountUsdc, undefined, fee)) {
+        const sent = await markAgentPayoutSent(idempotencyKey, txDigest);
+        if (sent) {
+            await recordSent(sent);
+        }
+    }
+    await settleJobPayout(job.id, actor);
+}
+
+/**
+ * Mark the payout of a confirmed chain operation as sent and settle the job
+ */
+export async function completePayout(
+    idempotencyKey: string,
+    txDigest: string | null,
+    actor: JobActor = PAYOUT_ACTOR
+): Promise<void> {
+    const payout = await markAgentPayoutSent(idempotencyKey, txDigest);
+    if (!payout) {
+        return;
+    }
+
+    console.log(`[Payout] 💸 ${payout.amount_usdc} USDC sent to agent #${payout.agent_id} for job ${payout.job_id}, fee ${payout.fee_usdc} USDC (${txDigest ?? 'already applied'})`);
+    await recordSent(payout);
+    await settleJobPayout(payout.job_id, actor);
+}
+
+/**
+ * Record a failed attempt of a payout's chain operation
+ * final: the operation gave up and the payout needs attention
+ */
+export async function failPayout(idempotencyKey: string, error: string, final: boolean): Promise<void> {
+    const payout = await markAgentPayoutFailed(idempotencyKey, error, final);
+    if (payout && final) {
+        console.error(`[Payout] ❌ Payout ${idempotencyKey} of ${payout.amount_usdc} USDC failed: ${error}`);
+    }
+}
+
+// =============================================================================
+// PAYING OUT JOBS
+// =============================================================================
+
+/**
+ * Pay the agent of a completed job whose funds were never locked in an
+ * escrow, with a transfer from the platform wallet
+ * amountUsdc (the fee is taken out of it) defaults to the job amount minus
+ * what was already paid
+ */
+export async function payOutJob(job: Job, actor: JobActor, amountUsdc?: number): Promise<AgentPayout | null> {
+    if (job.escrow_object_id) {
+        // Escrow releases pay the agent directly
+        await settleJobPayout(job.id, actor);
+        return null;
+    }
+
+    const key = transferKey(job);
+    const payee = await getPayee(job);
+    if (!payee) {
+        console.warn(`[Payout] Job ${job.id} has no agent to pay`);
+        return null;
+    }
+
+    const amount = roundUsdc(amountUsdc ?? Number(job.amount_usdc) - await getCommittedAmount(job.id, key));
+    if (amount <= 0) {
+        await settleJobPayout(job.id, actor, true);
+        return null;
+    }
+
+    const fee = await quotePayoutFee(job, amount, key);
+    const payout = await createAgentPayout({
+        jobId: job.id,
+        agentId: payee.agentId,
+        idempotencyKey: key,
+        method: 'transfer',
+        recipientAddress: payee.walletAddress,
+        amountUsdc: roundUsdc(amount - fee.feeUsdc),
+        feeUsdc: fee.feeUsdc,
+        feeScheduleId: fee.scheduleId
+    });
+
+    // The fee took everything - there is nothing to transfer
+    if (payout.amount_usdc === 0) {
+        await completePayout(key, null, actor);
+        return payout;
+    }
+
+    // The outbox marks the payout sent (completePayout) once the transfer lands
+    const { queuePayoutTransfer } = await import('./chain-outbox.js');
+    await queuePayoutTransfer(job, {
+        recipientAddress: payout.recipient_address,
+        amountUsdc: payout.amount_usdc,
+        actor,
+        reason: `${payout.amount_usdc} USDC paid to the agent`
+    });
+
+    return payout;
+}
+
+/**
+ * Move a completed job to 'paid_out' once all of its payouts were sent
+ * allowEmpty: the agent is owed nothing (e.g. no hours were billed)
+ */
+export async function settleJobPayout(jobId: number, actor: JobActor, allowEmpty: boolean = false): Promise<Job | null> {
+    const payouts = await getPayoutsByJob(jobId);
+
+    if (payouts.some(payout => payout.status !== 'sent')) {
+        return null;
+    }
+    if (payouts.length === 0 && !allowEmpty) {
+        return null;
+    }
+
+    return transaction(async (client) => {
+        // Settled concurrently (indexer and outbox), or not completed yet
+        const job = await getJobForUpdate(client, jobId);
+        if (!job || job.status !== 'completed') {
+            return null;
+        }
+
+        const paidUsdc = roundUsdc(payouts.reduce((sum, payout) => sum + payout.amount_usdc, 0));
+        const last = payouts[payouts.length - 1];
+
+        const updated = await applyJobTransition(client, jobId, 'paid_out', {
+            actor,
+            reason: payouts.length > 0
+                ? `Agent paid ${paidUsdc} USDC in ${payouts.length} payout${payouts.length > 1 ? 's' : ''}`
+                : 'Nothing left to pay the agent',
+            txDigest: last?.tx_digest ?? undefined
+        });
+
+        console.log(`[Payout] ✅ Job ${jobId} paid out (${paidUsdc} USDC)`);
+        return updated;
+    });
+}
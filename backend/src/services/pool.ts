@@ -11,11 +11,14 @@
  * - Enable agent spending from pools
  * - Sync pool state between blockchain and database
  * 
+ * Balance changes are pushed to the owner's live event stream
+ * (services/live-events.ts).
+ * 
  * =============================================================================
  */
 
 import { SuiClient } from '@mysten/sui/client';
-import { Transaction } from '@mysten/sui/transactions';
+import { Transaction, TransactionDataBuilder } from '@mysten/sui/transactions';
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 import { bcs } from '@mysten/sui/bcs';
 import {
@@ -30,6 +33,7 @@ import {
     PoolTransaction
 } from '../db/queries.js';
 import { getSuiClient } from './sui.js';
+import { publishLiveEvent } from './live-events.js';
 
 // =============================================================================
 // TYPES
@@ -66,6 +70,13 @@ export interface AgentSpendParams {
     amountUsdc: number;
     purpose: string;
     jobId?: number;
+    /** Address that receives the spent coin; defaults to the agent */
+    recipient?: string;
+    /**
+     * Receives the digest before the transaction is sent, so a retry can
+     * check whether it landed (findAppliedPoolSpend)
+     */
+    onDigest?: (txDigest: string) => Promise<void>;
 }
 
 export interface PoolStats {
@@ -193,6 +204,13 @@ export async function recordPoolCreation(
 ): Promise<UserPool> {
     console.log(`[PoolService] Recording pool ${poolObjectId} in database...`);
 
+    // The chain indexer may have picked up the PoolCreated event first
+    const indexed = await getPoolByObjectId(poolObjectId);
+    if (indexed) {
+        console.log(`[PoolService] Pool ${poolObjectId} already indexed`);
+        return indexed;
+    }
+
     // Get blockchain timestamp
     const client = getSuiClient();
     const poolObject: any = await client.getObject({
@@ -223,7 +241,7 @@ export async function recordPoolCreation(
     );
 
     // Update pool balance
-    await updatePoolBalance(dbPool.id, initialDepositUsdc, initialDepositUsdc, 0);
+    await savePoolBalance(dbPool.id, initialDepositUsdc, initialDepositUsdc, 0);
 
     console.log(`[PoolService] ✅ Pool ${poolObjectId} recorded successfully`);
     return dbPool;
@@ -283,9 +301,9 @@ export async function recordDeposit(
     );
 
     // Update balance
-    const newBalance = dbPool.balance_usdc + amountUsdc;
-    const newTotalDeposited = dbPool.total_deposited + amountUsdc;
-    await updatePoolBalance(dbPool.id, newBalance, newTotalDeposited);
+    const newBalance = Number(dbPool.balance_usdc) + amountUsdc;
+    const newTotalDeposited = Number(dbPool.total_deposited) + amountUsdc;
+    await savePoolBalance(dbPool.id, newBalance, newTotalDeposited);
 
     console.log(`[PoolService] ✅ Deposit of ${amountUsdc} USDC recorded for pool ${poolObjectId}`);
 }
@@ -341,8 +359,8 @@ export async function recordWithdrawal(
     );
 
     // Update balance
-    const newBalance = dbPool.balance_usdc - amountUsdc;
-    await updatePoolBalance(dbPool.id, newBalance);
+    const newBalance = Number(dbPool.balance_usdc) - amountUsdc;
+    await savePoolBalance(dbPool.id, newBalance);
 
     console.log(`[PoolService] ✅ Withdrawal of ${amountUsdc} USDC recorded for pool ${poolObjectId}`);
 }
@@ -399,13 +417,17 @@ export async function agentSpendFromPool(
             ]
         });
 
-        // Transfer coin to agent (for now, agent will use it for escrow)
-        tx.transferObjects([spentCoin], agentAddress);
+        // Transfer coin to the recipient (the agent itself unless told otherwise)
+        tx.transferObjects([spentCoin], params.recipient ?? agentAddress);
+        tx.setSender(agentAddress);
+
+        const txBytes = await tx.build({ client });
+        await params.onDigest?.(TransactionDataBuilder.getDigestFromBytes(txBytes));
 
         // Execute transaction
         const result = await client.signAndExecuteTransaction({
             signer: params.agentKeypair as any,
-            transaction: tx as any,
+            transaction: txBytes,
             options: {
                 showEffects: true,
                 showObjectChanges: true
@@ -436,9 +458,9 @@ export async function agentSpendFromPool(
                 params.purpose
             );
 
-            const newBalance = dbPool.balance_usdc - params.amountUsdc;
-            const newTotalSpent = dbPool.total_spent + params.amountUsdc;
-            await updatePoolBalance(dbPool.id, newBalance, undefined, newTotalSpent);
+            const newBalance = Number(dbPool.balance_usdc) - params.amountUsdc;
+            const newTotalSpent = Number(dbPool.total_spent) + params.amountUsdc;
+            await savePoolBalance(dbPool.id, newBalance, undefined, newTotalSpent);
         }
 
         console.log(`[PoolService] ✅ Agent spent ${params.amountUsdc} USDC, coin: ${coinObjectId}`);
@@ -458,6 +480,30 @@ export async function agentSpendFromPool(
     }
 }
 
+/**
+ * The coin a pool spend created, if its transaction executed successfully
+ * The pool transaction is recorded by the chain indexer if the spend was not
+ */
+export async function findAppliedPoolSpend(txDigest: string): Promise<{ coinObjectId: string } | null> {
+    try {
+        const response = await getSuiClient().getTransactionBlock({
+            digest: txDigest,
+            options: { showEffects: true, showObjectChanges: true }
+        });
+        if (response.effects?.status?.status !== 'success') {
+            return null;
+        }
+
+        const createdCoin = response.objectChanges?.find(
+            change => change.type === 'created' && change.objectType.includes('Coin')
+        );
+        return createdCoin?.type === 'created' ? { coinObjectId: createdCoin.objectId } : null;
+    } catch {
+        // Unknown digest - never executed
+        return null;
+    }
+}
+
 // =============================================================================
 // POOL STATE MANAGEMENT
 // =============================================================================
@@ -487,7 +533,7 @@ export async function syncPoolBalance(poolObjectId: string): Promise<void> {
     // Update database
     const dbPool = await getPoolByObjectId(poolObjectId);
     if (dbPool) {
-        await updatePoolBalance(dbPool.id, onChainBalance, totalDeposited, totalSpent);
+        await savePoolBalance(dbPool.id, onChainBalance, totalDeposited, totalSpent);
         console.log(`[PoolService] ✅ Pool synced: balance=${onChainBalance} USDC`);
     }
 }
@@ -549,6 +595,30 @@ export async function deactivateUserPool(poolObjectId: string): Promise<void> {
     console.log(`[PoolService] ✅ Pool ${poolObjectId} deactivated`);
 }
 
+/**
+ * Store a pool's balance and notify its owner
+ */
+export async function savePoolBalance(
+    poolId: number,
+    balanceUsdc: number,
+    totalDeposited?: number,
+    totalSpent?: number
+): Promise<UserPool> {
+    const pool = await updatePoolBalance(poolId, balanceUsdc, totalDeposited, totalSpent);
+
+    await publishLiveEvent([pool.user_id], {
+        type: 'pool.balance',
+        data: {
+            poolObjectId: pool.pool_object_id,
+            balanceUsdc: Number(pool.balance_usdc),
+            totalDeposited: Number(pool.total_deposited),
+            totalSpent: Number(pool.total_spent)
+        }
+    });
+
+    return pool;
+}
+
 // =============================================================================
 // HEALTH CHECK
 // =============================================================================
@@ -0,0 +1,693 @@
+/**
+ * =============================================================================
+ * Reconciliation Service - Beep Invoices vs. Chain State vs. Jobs
+ * =============================================================================
+ *
+ * The webhook, the payment poller, the chain outbox and the chain indexer
+ * each keep one side of a job in step. This job cross-checks all three for
+ * every job with an invoice or an escrow and classifies what disagrees:
+ *
+ *   operation_failed         the chain outbox gave up on an operation the
+ *                            job is still waiting for
+ *   paid_without_escrow      Beep says paid, no escrow locks the funds
+ *   escrow_not_linked        an escrow was created but is not on the job
+ *   escrow_not_found         the job's escrow object does not exist
+ *   escrow_on_cancelled_job  the job is cancelled, its escrow still locked
+ *   escrow_amount_mismatch   the escrow holds more or less than expected
+ *   released_not_completed   the escrow was released, the job is not
+ *                            completed or its payouts are not settled
+ *   refunded_not_cancelled   the escrow was refunded, the job is active
+ *   escrowed_without_payment the job is escrowed, Beep says not paid and
+ *                            no USDC transfer paid it on-chain
+ *   refund_missing           the job was cancelled or ruled for the buyer,
+ *                            no refund to the buyer was queued
+ *
+ * Jobs with an operation still queued or running are skipped - the outbox
+ * is not done with them yet.
+ *
+ * REPAIRS:
+ *   Each finding carries its safe repair, or none when it needs a person.
+ *   Repairs reuse the paths the API takes: a failed operation is retried
+ *   (it checks the chain before resubmitting), orphaned escrows are linked
+ *   (services/escrow-recovery.ts), and status changes go through the job
+ *   lifecycle. Nothing is refunded or paid that the chain has not already
+ *   settled, except cancelling the escrow of a cancelled job; a buyer is
+ *   only refunded once the escrow is back in the platform wallet.
+ *
+ * Runs are stored in reconciliation_runs. The monitor runs report-only
+ * unless RECONCILIATION_AUTO_REPAIR=true; admins can run it with repairs
+ * (POST /admin/reconciliation), as can `npm run reconcile -- --repair`.
+ *
+ * =============================================================================
+ */
+
+import {
+    getJobById,
+    getJobsToReconcile,
+    getChainOperationsByJob,
+    getPayoutsByJob,
+    getDisputesByJob,
+    getAcceptedOnChainPayment,
+    createReconciliationRun,
+    finishReconciliationRun,
+    getLatestReconciliationRun,
+    ChainOperation,
+    Job,
+    JobStatus,
+    ReconciliationRun,
+    ReconciliationTrigger
+} from '../db/queries.js';
+import { getEscrowState, EscrowState } from './sui.js';
+import { getPaymentStatus } from './beep-sdk.js';
+import { retryChainOperation, queueEscrowCancellation } from './chain-outbox.js';
+import { recoverOrphanedEscrows } from './escrow-recovery.js';
+import { processPayment } from './payment-poller.js';
+import { completePayout, recordReleasedPayout, settleJobPayout } from './payout.js';
+import { recordEscrowReturned } from './ledger.js';
+import { refundBuyer, getUnreleasedAmount } from './refund.js';
+import {
+    transitionJob,
+    recordJobActivity,
+    canTransition,
+    JobActor
+} from './job-lifecycle.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ReconciliationFindingKind =
+    | 'operation_failed'
+    | 'paid_without_escrow'
+    | 'escrow_not_linked'
+    | 'escrow_not_found'
+    | 'escrow_on_cancelled_job'
+    | 'escrow_amount_mismatch'
+    | 'released_not_completed'
+    | 'refunded_not_cancelled'
+    | 'escrowed_without_payment'
+    | 'refund_missing';
+
+/**
+ * One disagreement between a job, its invoice and its escrow
+ */
+export interface ReconciliationFinding {
+    jobId: number;
+    kind: ReconciliationFindingKind;
+    detail: string;
+    jobStatus: JobStatus;
+    /** Beep invoice status, null without an invoice */
+    invoiceStatus: string | null;
+    escrowObjectId: string | null;
+    escrowStatus: EscrowState['status'] | null;
+    /** Safe repair for the finding, null when it needs a person */
+    repair: string | null;
+    /** Set when the run applied repairs */
+    repairOutcome?: 'applied' | 'failed';
+    repairError?: string;
+}
+
+export interface ReconciliationOptions {
+    trigger?: ReconciliationTrigger;
+    /** Apply the safe repairs instead of only reporting */
+    repair?: boolean;
+    /** Only check this job, whatever its age */
+    jobId?: number;
+}
+
+export interface ReconciliationReport {
+    runId: number;
+    trigger: ReconciliationTrigger;
+    repair: boolean;
+    status: ReconciliationRun['status'];
+    startedAt: Date;
+    finishedAt: Date | null;
+    jobsChecked: number;
+    counts: Partial<Record<ReconciliationFindingKind, number>>;
+    findings: ReconciliationFinding[];
+    errors: { jobId: number; message: string }[];
+    lastError: string | null;
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class ReconciliationError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'ReconciliationError';
+    }
+}
+
+/**
+ * A finding and the function that repairs it
+ */
+interface PlannedFinding {
+    finding: ReconciliationFinding;
+    fix?: () => Promise<void>;
+}
+
+/**
+ * What a job looks like on each side
+ */
+interface JobSnapshot {
+    job: Job;
+    operations: ChainOperation[];
+    invoiceStatus: string | null;
+    escrowObjectId: string | null;
+    escrow: EscrowState | null;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const config = {
+    intervalMs: parseInt(process.env.RECONCILIATION_INTERVAL_MS || '3600000'),  // 1 hour
+    autoRepair: process.env.RECONCILIATION_AUTO_REPAIR === 'true',
+    /** Only jobs created this recently are checked */
+    lookbackDays: parseInt(process.env.RECONCILIATION_LOOKBACK_DAYS || '30')
+};
+
+const RECONCILIATION_ACTOR: JobActor = 'system:reconciliation';
+
+/** Statuses in which a released or returned escrow is expected */
+const SETTLED_STATUSES: readonly JobStatus[] = ['completed', 'paid_out'];
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let monitorInterval: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function roundUsdc(amount: number): number {
+    return Math.round(amount * 1e6) / 1e6;
+}
+
+function toReport(run: ReconciliationRun): ReconciliationReport {
+    const findings = run.findings as ReconciliationFinding[];
+    const counts: Partial<Record<ReconciliationFindingKind, number>> = {};
+    for (const finding of findings) {
+        counts[finding.kind] = (counts[finding.kind] ?? 0) + 1;
+    }
+
+    return {
+        runId: run.id,
+        trigger: run.trigger,
+        repair: run.repair,
+        status: run.status,
+        startedAt: run.started_at,
+        finishedAt: run.finished_at,
+        jobsChecked: run.jobs_checked,
+        counts,
+        findings,
+        errors: run.errors,
+        lastError: run.last_error
+    };
+}
+
+/**
+ * Beep's view of a job's invoice; 'unknown' when Beep could not be asked
+ */
+async function getInvoiceStatus(job: Job): Promise<string | null> {
+    if (!job.beep_invoice_id) {
+        return null;
+    }
+
+    const { status } = await getPaymentStatus(job.beep_invoice_id);
+    return !status || status === 'error' ? 'unknown' : status;
+}
+
+/**
+ * Whether a failed operation is one the job still waits on
+ * Pool spends never qualify - the user's pool is charged, so a person decides
+ */
+function isAwaited(op: ChainOperation, snapshot: JobSnapshot): boolean {
+    const { job, escrow } = snapshot;
+
+    switch (op.op_type) {
+        case 'create_escrow':
+            return job.status === 'unpaid';
+        case 'release_escrow':
+            return job.status === 'release_pending';
+        case 'cancel_escrow':
+            return job.status === 'cancel_pending' || escrow?.status === 'locked';
+        case 'payout':
+            return job.status === 'completed';
+        case 'resolve_dispute':
+            return job.status === 'disputed';
+        case 'buyer_refund':
+            // The buyer's funds sit in the platform wallet until it lands
+            return true;
+        default:
+            return false;
+    }
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+/**
+ * Compare one job with its invoice and its escrow
+ */
+async function inspectJob(job: Job): Promise<PlannedFinding[]> {
+    const operations = await getChainOperationsByJob(job.id);
+
+    if (operations.some(op => op.status === 'pending' || op.status === 'running')) {
+        return [];
+    }
+
+    const created = operations.find(op => op.op_type === 'create_escrow' && op.status === 'succeeded');
+    const escrowObjectId: string | null = job.escrow_object_id ?? created?.result?.escrowObjectId ?? null;
+
+    const snapshot: JobSnapshot = {
+        job,
+        operations,
+        invoiceStatus: job.funding_source === 'buyer' ? await getInvoiceStatus(job) : null,
+        escrowObjectId,
+        escrow: escrowObjectId ? await getEscrowState(escrowObjectId) : null
+    };
+
+    const failed = operations.filter(op => op.status === 'failed' && isAwaited(op, snapshot));
+    const planned: PlannedFinding[] = [];
+
+    const finding = (kind: ReconciliationFindingKind, detail: string, repair: string | null, fix?: () => Promise<void>) => {
+        planned.push({
+            finding: {
+                jobId: job.id,
+                kind,
+                detail,
+                jobStatus: job.status,
+                invoiceStatus: snapshot.invoiceStatus,
+                escrowObjectId,
+                escrowStatus: snapshot.escrow?.status ?? null,
+                repair
+            },
+            fix: repair ? fix : undefined
+        });
+    };
+
+    // A failed operation of the given kind is retried rather than redone
+    const retry = (opType: ChainOperation['op_type']) => {
+        const op = failed.find(f => f.op_type === opType);
+        if (!op) {
+            return null;
+        }
+        failed.splice(failed.indexOf(op), 1);
+        return {
+            repair: `Retry ${op.op_type} ${op.idempotency_key}`,
+            fix: async () => {
+                const result = await retryChainOperation(op.idempotency_key);
+                if (result?.status === 'failed') {
+                    throw new Error(result.last_error ?? `${op.idempotency_key} failed again`);
+                }
+            }
+        };
+    };
+
+    if (!escrowObjectId) {
+        checkMissingEscrow(snapshot, finding, retry);
+    } else if (!snapshot.escrow) {
+        finding('escrow_not_found', `Escrow ${escrowObjectId} does not exist on-chain`, null);
+    } else {
+        await checkEscrow(snapshot, finding, retry);
+    }
+
+    await checkBuyerRefund(snapshot, finding);
+
+    // Failures no finding above accounted for
+    for (const op of [...failed]) {
+        const retried = retry(op.op_type)!;
+        finding('operation_failed', `${op.op_type} ${op.idempotency_key} gave up after ${op.attempts} attempts: ${op.last_error}`, retried.repair, retried.fix);
+    }
+
+    return planned;
+}
+
+type AddFinding = (kind: ReconciliationFindingKind, detail: string, repair: string | null, fix?: () => Promise<void>) => void;
+type RetryOperation = (opType: ChainOperation['op_type']) => { repair: string; fix: () => Promise<void> } | null;
+
+/**
+ * A job without an escrow whose invoice was paid
+ */
+function checkMissingEscrow(snapshot: JobSnapshot, finding: AddFinding, retry: RetryOperation): void {
+    const { job, invoiceStatus } = snapshot;
+
+    if (invoiceStatus !== 'paid') {
+        return;
+    }
+
+    if (job.status === 'cancelled') {
+        finding('paid_without_escrow', `Invoice ${job.beep_invoice_id} was paid but the job was cancelled - the buyer needs a refund`, null);
+        return;
+    }
+
+    if (job.status !== 'unpaid') {
+        return;
+    }
+
+    const retried = retry('create_escrow');
+    if (retried) {
+        finding('paid_without_escrow', `Invoice ${job.beep_invoice_id} was paid and escrow creation gave up`, retried.repair, retried.fix);
+        return;
+    }
+
+    finding('paid_without_escrow', `Invoice ${job.beep_invoice_id} was paid but no escrow was created`, 'Link an orphaned escrow, or create the escrow', async () => {
+        const [recovered] = await recoverOrphanedEscrows({ jobId: job.id });
+        if (recovered && recovered.outcome !== 'not_found') {
+            return;
+        }
+
+        const current = await getJobById(job.id);
+        if (current && !await processPayment(current, RECONCILIATION_ACTOR)) {
+            throw new Error('Escrow creation failed');
+        }
+    });
+}
+
+/**
+ * A job whose escrow exists, against the escrow's status and balance
+ */
+async function checkEscrow(snapshot: JobSnapshot, finding: AddFinding, retry: RetryOperation): Promise<void> {
+    const { job, escrow, escrowObjectId, invoiceStatus } = snapshot;
+    const state = escrow!;
+
+    if (state.status === 'locked' && job.status === 'cancelled') {
+        const retried = retry('cancel_escrow');
+        const cancelled = snapshot.operations.some(op => op.idempotency_key === `job:${job.id}:cancel`);
+
+        if (retried) {
+            finding('escrow_on_cancelled_job', `Escrow still locks ${state.amount / 1e6} USDC and its refund gave up`, retried.repair, retried.fix);
+        } else if (cancelled) {
+            finding('escrow_on_cancelled_job', `Escrow still locks ${state.amount / 1e6} USDC although its refund was confirmed`, null);
+        } else {
+            finding('escrow_on_cancelled_job', `Escrow still locks ${state.amount / 1e6} USDC`, 'Refund the escrow to the platform', async () => {
+                const op = await queueEscrowCancellation(job, {
+                    escrowObjectId: escrowObjectId!,
+                    actor: RECONCILIATION_ACTOR,
+                    reason: 'Escrow of a cancelled job refunded by reconciliation'
+                });
+                if (op.status === 'failed') {
+                    throw new Error(op.last_error ?? 'Escrow cancellation failed');
+                }
+            });
+        }
+        return;
+    }
+
+    if (!job.escrow_object_id) {
+        if (state.status === 'locked') {
+            finding('escrow_not_linked', `Escrow ${escrowObjectId} was created but is not recorded on the job`, 'Link the orphaned escrow', async () => {
+                const [recovered] = await recoverOrphanedEscrows({ jobId: job.id });
+                if (!recovered || recovered.outcome === 'not_found') {
+                    throw new Error(`Escrow ${escrowObjectId} could not be matched to the job`);
+                }
+            });
+        } else {
+            finding('escrow_not_linked', `Escrow ${escrowObjectId} was created for the job and is already ${state.status}`, null);
+        }
+        return;
+    }
+
+    if (state.status === 'locked' && !SETTLED_STATUSES.includes(job.status)) {
+        const payouts = await getPayoutsByJob(job.id);
+        const releasedUsdc = payouts
+            .filter(payout => payout.method === 'escrow' && payout.status === 'sent')
+            .reduce((sum, payout) => sum + payout.amount_usdc + payout.fee_usdc, 0);
+        const expectedUsdc = roundUsdc(Number(job.amount_usdc) - releasedUsdc);
+        const lockedUsdc = state.amount / 1e6;
+
+        if (Math.abs(lockedUsdc - expectedUsdc) > 0.000001) {
+            finding('escrow_amount_mismatch', `Escrow locks ${lockedUsdc} USDC, ${expectedUsdc} USDC expected`, null);
+        }
+    }
+
+    if (state.status === 'released') {
+        await checkReleased(snapshot, finding, retry);
+    }
+
+    if (state.status === 'cancelled' && job.status !== 'cancelled' && !SETTLED_STATUSES.includes(job.status)) {
+        const retried = retry('cancel_escrow');
+
+        if (retried) {
+            finding('refunded_not_cancelled', 'Escrow was refunded on-chain, the cancellation was not applied', retried.repair, retried.fix);
+        } else if (canTransition(job.status, 'cancelled')) {
+            finding('refunded_not_cancelled', `Escrow was refunded on-chain while the job is '${job.status}'`, 'Cancel the job and refund the buyer', async () => {
+                await recordEscrowReturned(job.id, 'refund', null);
+                const cancelled = await transitionJob(job.id, 'cancelled', {
+                    actor: RECONCILIATION_ACTOR,
+                    reason: 'Escrow was refunded on-chain'
+                });
+                // As when the outbox applies a cancellation
+                await refundBuyer(cancelled, await getUnreleasedAmount(cancelled), RECONCILIATION_ACTOR, 'Cancelled job refunded to the buyer');
+            });
+        } else {
+            finding('refunded_not_cancelled', `Escrow was refunded on-chain while the job is '${job.status}'`, null);
+        }
+    }
+
+    // A transfer straight to the merchant address pays the job without Beep seeing it
+    if (invoiceStatus && invoiceStatus !== 'paid' && invoiceStatus !== 'unknown' && !await getAcceptedOnChainPayment(job.id)) {
+        finding('escrowed_without_payment', `Escrow ${escrowObjectId} is ${state.status} but invoice ${job.beep_invoice_id} is '${invoiceStatus}'`, null);
+    }
+}
+
+/**
+ * A job whose funds went back to the platform wallet should have a buyer
+ * refund queued. A failed one is reported as operation_failed
+ */
+async function checkBuyerRefund(snapshot: JobSnapshot, finding: AddFinding): Promise<void> {
+    const { job, escrow, operations } = snapshot;
+
+    if (job.funding_source === 'parent' || operations.some(op => op.idempotency_key === `job:${job.id}:buyer_refund`)) {
+        return;
+    }
+
+    // The share of a ruling depends on the job's sub-jobs at the time - a person works it out
+    const ruling = (await getDisputesByJob(job.id))
+        .find(dispute => dispute.status === 'resolved' && (dispute.ruling === 'refund' || dispute.ruling === 'split'));
+    if (ruling) {
+        finding('refund_missing', `Dispute #${ruling.id} was ruled '${ruling.ruling}' but the buyer's share was never refunded`, null);
+        return;
+    }
+
+    if (job.status !== 'cancelled' || escrow?.status !== 'cancelled') {
+        return;
+    }
+
+    const amountUsdc = await getUnreleasedAmount(job);
+    if (amountUsdc <= 0) {
+        return;
+    }
+
+    finding('refund_missing', `Escrow was refunded to the platform but the buyer's ${amountUsdc} USDC were never refunded`, 'Refund the buyer', async () => {
+        await refundBuyer(job, amountUsdc, RECONCILIATION_ACTOR, 'Cancelled job refunded to the buyer by reconciliation');
+    });
+}
+
+/**
+ * A released escrow: the job should be completed and its agent paid
+ */
+async function checkReleased(snapshot: JobSnapshot, finding: AddFinding, retry: RetryOperation): Promise<void> {
+    const { job } = snapshot;
+
+    if (job.status === 'paid_out') {
+        return;
+    }
+
+    const retried = retry('release_escrow');
+    if (retried) {
+        finding('released_not_completed', 'Escrow was released on-chain, the release was not applied', retried.repair, retried.fix);
+        return;
+    }
+
+    if (job.status === 'completed') {
+        const payouts = await getPayoutsByJob(job.id);
+        if (payouts.length > 0 && payouts.every(payout => payout.status === 'sent')) {
+            return;
+        }
+        finding('released_not_completed', 'Escrow was released on-chain, the agent payout is not recorded as sent', 'Record the release as the agent payout', () => settleRelease(job));
+        return;
+    }
+
+    if (!canTransition(job.status, 'completed')) {
+        finding('released_not_completed', `Escrow was released on-chain while the job is '${job.status}'`, null);
+        return;
+    }
+
+    finding('released_not_completed', `Escrow was released on-chain while the job is '${job.status}'`, 'Complete the job and record the agent payout', async () => {
+        const completed = await transitionJob(job.id, 'completed', {
+            actor: RECONCILIATION_ACTOR,
+            reason: 'Escrow was released on-chain'
+        });
+        await settleRelease(completed);
+    });
+}
+
+/**
+ * Mark the escrow payouts of a released escrow as sent, or record the
+ * release as the payout when the API never opened one
+ */
+async function settleRelease(job: Job): Promise<void> {
+    const payouts = await getPayoutsByJob(job.id);
+    const escrowPayouts = payouts.filter(payout => payout.method === 'escrow');
+
+    if (escrowPayouts.length === 0) {
+        const paidUsdc = payouts
+            .filter(payout => payout.status === 'sent')
+            .reduce((sum, payout) => sum + payout.amount_usdc + payout.fee_usdc, 0);
+
+        await recordReleasedPayout(job, `job:${job.id}:release`, roundUsdc(Number(job.amount_usdc) - paidUsdc), null, RECONCILIATION_ACTOR);
+        return;
+    }
+
+    for (const payout of escrowPayouts.filter(p => p.status !== 'sent')) {
+        await completePayout(payout.idempotency_key, null, RECONCILIATION_ACTOR);
+    }
+    await settleJobPayout(job.id, RECONCILIATION_ACTOR);
+}
+
+// =============================================================================
+// RUNS
+// =============================================================================
+
+/**
+ * Check recent jobs (or one job) and store the report
+ * With repair, the safe repair of every finding is applied and its outcome
+ * recorded on the finding and in the job's audit trail
+ */
+export async function runReconciliation(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+    if (isRunning) {
+        throw new ReconciliationError('A reconciliation run is already in progress', 409);
+    }
+
+    if (options.jobId !== undefined && !await getJobById(options.jobId)) {
+        throw new ReconciliationError('Job not found', 404);
+    }
+
+    isRunning = true;
+    const repair = options.repair ?? false;
+    const findings: ReconciliationFinding[] = [];
+    const errors: { jobId: number; message: string }[] = [];
+    let run: ReconciliationRun | null = null;
+    let jobsChecked = 0;
+
+    try {
+        run = await createReconciliationRun(options.trigger ?? 'admin', repair);
+
+        const since = new Date(Date.now() - config.lookbackDays * 24 * 60 * 60 * 1000);
+        const jobs = await getJobsToReconcile(since, options.jobId);
+
+        console.log(`[Reconciliation] Run #${run.id}: checking ${jobs.length} jobs${repair ? ' with repairs' : ''}`);
+
+        for (const job of jobs) {
+            jobsChecked++;
+
+            try {
+                for (const { finding, fix } of await inspectJob(job)) {
+                    if (repair && fix) {
+                        await applyRepair(finding, fix);
+                    }
+                    findings.push(finding);
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`[Reconciliation] ❌ Failed to check job ${job.id}:`, error);
+                errors.push({ jobId: job.id, message });
+            }
+        }
+
+        const finished = await finishReconciliationRun(run.id, { jobsChecked, findings, errors });
+        console.log(`[Reconciliation] ✅ Run #${run.id}: ${findings.length} findings in ${jobsChecked} jobs, ${errors.length} errors`);
+        return toReport(finished);
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (run) {
+            await finishReconciliationRun(run.id, { jobsChecked, findings, errors, lastError: message })
+                .catch(err => console.error('[Reconciliation] Failed to record the failed run:', err));
+        }
+        throw error;
+
+    } finally {
+        isRunning = false;
+    }
+}
+
+/**
+ * The report of the most recent run
+ */
+export async function getLatestReconciliationReport(): Promise<ReconciliationReport | null> {
+    const run = await getLatestReconciliationRun();
+    return run ? toReport(run) : null;
+}
+
+async function applyRepair(finding: ReconciliationFinding, fix: () => Promise<void>): Promise<void> {
+    try {
+        await fix();
+        finding.repairOutcome = 'applied';
+
+        await recordJobActivity(finding.jobId, {
+            actor: RECONCILIATION_ACTOR,
+            reason: `Reconciliation (${finding.kind}): ${finding.repair}`
+        });
+        console.log(`[Reconciliation] 🔧 Job ${finding.jobId}: ${finding.repair}`);
+
+    } catch (error) {
+        finding.repairOutcome = 'failed';
+        finding.repairError = error instanceof Error ? error.message : String(error);
+        console.error(`[Reconciliation] ❌ Job ${finding.jobId}: ${finding.repair} failed: ${finding.repairError}`);
+    }
+}
+
+// =============================================================================
+// MONITOR
+// =============================================================================
+
+/**
+ * Start the background reconciliation monitor
+ * The first run comes one interval after startup, once the chain outbox has
+ * had a go at the operations queued before
+ */
+export function startReconciliationMonitor(): void {
+    if (monitorInterval) {
+        console.log('[Reconciliation] Monitor already running');
+        return;
+    }
+
+    console.log(`[Reconciliation] Starting monitor with ${config.intervalMs}ms interval${config.autoRepair ? ', auto-repair on' : ''}`);
+
+    monitorInterval = setInterval(reconcileInBackground, config.intervalMs);
+}
+
+/**
+ * Stop the background reconciliation monitor
+ */
+export function stopReconciliationMonitor(): void {
+    if (monitorInterval) {
+        clearInterval(monitorInterval);
+        monitorInterval = null;
+        console.log('[Reconciliation] Monitor stopped');
+    }
+}
+
+async function reconcileInBackground(): Promise<void> {
+    // An admin or CLI run is already going
+    if (isRunning) return;
+
+    try {
+        await runReconciliation({ trigger: 'monitor', repair: config.autoRepair });
+    } catch (error) {
+        console.error('[Reconciliation] Error running reconciliation:', error);
+    }
+}
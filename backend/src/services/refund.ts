@@ -0,0 +1,130 @@
+/**
+ * =============================================================================
+ * Refund Service - Returning Funds to Buyers
+ * =============================================================================
+ *
+ * The platform wallet is the buyer of every escrow it creates, so cancelling
+ * an escrow or ruling a dispute for the buyer only returns the funds to the
+ * platform wallet. This service completes the refund: the buyer's share is
+ * sent on from the platform wallet with a USDC transfer queued in the chain
+ * outbox ('job:12:buyer_refund'), and posted to the ledger once it lands.
+ *
+ * A parent job's escrow also holds what its pool-funded sub-jobs cost, which
+ * the buyer's pool paid again; that share is reclaimed on approval and
+ * refunded the same way ('job:12:pool_refund').
+ *
+ * RECIPIENT:
+ *   buyer  - paid through Beep: the buyer's wallet. Beep has no refund API
+ *            for settled invoices, so the transfer goes on-chain
+ *   pool   - paid from a user pool: the wallet of the pool's owner (the
+ *            buyer at the top of the job tree). Only the owner can deposit
+ *            into a pool, so the platform cannot top it up itself
+ *   parent - nothing to refund: the platform fronted the escrow and keeps
+ *            it, as with a reclaim
+ *
+ * A refund that cannot be queued (the buyer has no wallet, say) leaves a
+ * "Needs review" note on the job; reconciliation also reports cancelled
+ * and refunded jobs without a buyer refund (services/reconciliation.ts).
+ *
+ * =============================================================================
+ */
+
+import { getUserById, getMilestonesByJob, ChainOperation, Job } from '../db/queries.js';
+import { queueBuyerRefund } from './chain-outbox.js';
+import { getRootBuyerId } from './job-tree.js';
+import { recordJobActivity, JobActor } from './job-lifecycle.js';
+
+// =============================================================================
+// REFUNDS
+// =============================================================================
+
+/**
+ * Queue the transfer of a buyer's share from the platform wallet back to
+ * the buyer, once the escrow holding it was returned to the platform
+ * @returns null when there is nothing to refund
+ */
+export async function refundBuyer(
+    job: Job,
+    amountUsdc: number,
+    actor: JobActor,
+    reason: string
+): Promise<ChainOperation | null> {
+    if (job.funding_source === 'parent' || amountUsdc <= 0) {
+        return null;
+    }
+
+    const buyerId = job.funding_source === 'pool' ? await getRootBuyerId(job) : job.buyer_id;
+    const buyer = await getUserById(buyerId);
+    if (!buyer?.wallet_address) {
+        throw new Error(`Buyer #${buyerId} of job ${job.id} has no wallet to refund`);
+    }
+
+    return queueBuyerRefund(job, {
+        recipientAddress: buyer.wallet_address,
+        amountUsdc,
+        actor,
+        reason
+    });
+}
+
+/**
+ * Queue the refund of the pool-funded sub-jobs of an approved job to the
+ * buyer at the top of its tree, whose pool paid for them
+ * The job's escrow also held that share; it was reclaimed instead of
+ * being released to the manager (services/job-tree.ts)
+ */
+export async function refundPoolFunding(
+    job: Job,
+    amountUsdc: number,
+    actor: JobActor
+): Promise<ChainOperation | null> {
+    if (amountUsdc <= 0) {
+        return null;
+    }
+
+    const buyerId = await getRootBuyerId(job);
+    const buyer = await getUserById(buyerId);
+    if (!buyer?.wallet_address) {
+        throw new Error(`Buyer #${buyerId} of job ${job.id} has no wallet to refund`);
+    }
+
+    return queueBuyerRefund(job, {
+        recipientAddress: buyer.wallet_address,
+        amountUsdc,
+        actor,
+        reason: 'Sub-jobs paid from the buyer\'s pool refunded from the escrow'
+    }, 'pool');
+}
+
+/**
+ * Note on a job that its refund could not be queued
+ * The funds stay in the platform wallet until someone refunds them
+ */
+export async function noteFailedRefund(
+    job: Job,
+    actor: JobActor,
+    error: unknown,
+    kind: 'buyer' | 'pool' = 'buyer'
+): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[RefundService] ⚠️ Could not queue the ${kind} refund of job ${job.id}: ${message}`);
+
+    await recordJobActivity(job.id, {
+        actor,
+        reason: `Needs review - ${kind} refund not queued: ${message}`
+    }).catch(err => console.error(`[RefundService] Failed to note the refund failure of job ${job.id}:`, err));
+}
+
+/**
+ * What the buyer paid for a job that was not released to the agent
+ * (job amount minus milestone shares that were already released)
+ */
+export async function getUnreleasedAmount(job: Job): Promise<number> {
+    const milestones = await getMilestonesByJob(job.id);
+    const released = milestones
+        .filter(m => m.status === 'approved')
+        .reduce((sum, m) => sum + Number(m.amount_usdc), 0);
+
+    // Round rather than floor: float subtraction must not lose a unit
+    return Math.round((Number(job.amount_usdc) - released) * 1_000_000) / 1_000_000;
+}
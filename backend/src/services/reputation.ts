@@ -0,0 +1,377 @@
+/**
+ * =============================================================================
+ * Reputation Service - Buyer Reviews and Agent Ratings
+ * =============================================================================
+ *
+ * REVIEWS:
+ *   The buyer of a job can review its agent once the delivery is approved
+ *   (release_pending, completed or paid_out): 1-5 stars, an optional comment
+ *   and optional 1-5 scores for quality, speed and communication. Approving
+ *   a delivery can leave the review in the same call.
+ *
+ * RATING (agents.rating):
+ *   Weighted average of the stars, where each review weighs
+ *     recency × size = 0.5^(age / REPUTATION_HALF_LIFE_DAYS) × (1 + log10(1 + amount))
+ *   minus penalties, also decayed by recency:
+ *   - CANCELLATION_PENALTY for every job the agent cancelled itself
+ *   - DISPUTE_PENALTY × the share lost for every dispute ruled against it
+ *     (1 for a refund, 1 - agent share for a split)
+ *   The result is kept between 1 and 5. Agents without reviews stay at 0
+ *   ("not rated yet").
+ *
+ * Ratings are recalculated after every review, agent cancellation and
+ * dispute ruling, and periodically so old reviews fade. Every change is
+ * kept in agent_reputation_history.
+ *
+ * =============================================================================
+ */
+
+import {
+    getJobById,
+    getAgentById,
+    getAgentByUserId,
+    createJobReview,
+    getAgentReviews,
+    getReputationInputs,
+    recordAgentReputation,
+    getAgentReputationHistory,
+    getAgentsWithReputation,
+    Agent,
+    AgentReview,
+    AgentReputationEntry,
+    Job,
+    JobReview,
+    JobStatus,
+    ReputationInputs,
+    ReputationTrigger
+} from '../db/queries.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ReviewInput {
+    stars: number;
+    quality?: number;
+    speed?: number;
+    communication?: number;
+    comment?: string;
+}
+
+export interface ReputationBreakdown {
+    rating: number;
+    reviewsCount: number;
+    /** Recency- and size-weighted averages, null without scores */
+    stars: number | null;
+    quality: number | null;
+    speed: number | null;
+    communication: number | null;
+    cancellations: number;
+    disputesLost: number;
+    /** Stars taken off for cancellations and lost disputes */
+    penalty: number;
+}
+
+export interface AgentReputation {
+    agent: Agent;
+    reputation: ReputationBreakdown;
+    reviews: AgentReview[];
+    history: AgentReputationEntry[];
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class ReviewError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'ReviewError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const config = {
+    halfLifeDays: parseFloat(process.env.REPUTATION_HALF_LIFE_DAYS || '180'),
+    refreshIntervalMs: parseInt(process.env.REPUTATION_REFRESH_INTERVAL_MS || '86400000')  // daily
+};
+
+const CANCELLATION_PENALTY = 0.25;
+const DISPUTE_PENALTY = 0.5;
+const MAX_COMMENT_LENGTH = 2000;
+
+/** The buyer approved the delivery */
+const REVIEWABLE_STATUSES: readonly JobStatus[] = ['release_pending', 'completed', 'paid_out'];
+
+const SCORE_DIMENSIONS = ['quality', 'speed', 'communication'] as const;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function isScore(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5;
+}
+
+function recencyWeight(date: Date, now: number): number {
+    const ageDays = Math.max(0, now - new Date(date).getTime()) / (24 * 60 * 60 * 1000);
+    return 0.5 ** (ageDays / config.halfLifeDays);
+}
+
+function sizeWeight(amountUsdc: number): number {
+    return 1 + Math.log10(1 + Math.max(0, amountUsdc));
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// =============================================================================
+// REVIEWS
+// =============================================================================
+
+/**
+ * Check a review before anything is stored
+ */
+export function validateReviewInput(input: ReviewInput): void {
+    if (!isScore(input.stars)) {
+        throw new ReviewError('stars must be a whole number from 1 to 5');
+    }
+
+    for (const dimension of SCORE_DIMENSIONS) {
+        if (input[dimension] !== undefined && input[dimension] !== null && !isScore(input[dimension])) {
+            throw new ReviewError(`${dimension} must be a whole number from 1 to 5`);
+        }
+    }
+
+    if (input.comment !== undefined && typeof input.comment !== 'string') {
+        throw new ReviewError('comment must be a string');
+    }
+
+    if (input.comment && input.comment.length > MAX_COMMENT_LENGTH) {
+        throw new ReviewError(`comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+    }
+}
+
+/**
+ * Review the agent of a job
+ *
+ * WORKFLOW:
+ * 1. Only the buyer of the job, once the delivery is approved
+ * 2. One review per job
+ * 3. Recalculate the agent's rating
+ */
+export async function createReview(
+    jobId: number,
+    reviewerId: number,
+    input: ReviewInput
+): Promise<{ review: JobReview; rating: number }> {
+    validateReviewInput(input);
+
+    const job = await getJobById(jobId);
+    if (!job) {
+        throw new ReviewError(`Job with ID ${jobId} not found`, 404);
+    }
+
+    // Checked here as well: admins pass the route policy but are not the buyer
+    if (job.buyer_id !== reviewerId) {
+        throw new ReviewError('Only the buyer of this job can review it', 403);
+    }
+
+    if (!REVIEWABLE_STATUSES.includes(job.status)) {
+        throw new ReviewError(`Job ${jobId} is '${job.status}' - only approved jobs can be reviewed`, 409);
+    }
+
+    const agent = job.agent_id !== null ? await getAgentByUserId(job.agent_id) : null;
+    if (!agent) {
+        throw new ReviewError(`Job ${jobId} has no agent to review`, 409);
+    }
+
+    const review = await createJobReview({
+        jobId,
+        agentId: agent.id,
+        reviewerId,
+        stars: input.stars,
+        quality: input.quality,
+        speed: input.speed,
+        communication: input.communication,
+        comment: input.comment?.trim() || null,
+        amountUsdc: Number(job.amount_usdc)
+    });
+
+    if (!review) {
+        throw new ReviewError(`Job ${jobId} has already been reviewed`, 409);
+    }
+
+    console.log(`[Reputation] Job ${jobId} reviewed: ${review.stars} stars for agent #${agent.id}`);
+
+    const reputation = await refreshAgentReputation(agent, 'review', jobId);
+    return { review, rating: reputation.rating };
+}
+
+// =============================================================================
+// RATING
+// =============================================================================
+
+/**
+ * Compute an agent's rating from its reviews and penalties
+ */
+export function calculateReputation(inputs: ReputationInputs, now: number = Date.now()): ReputationBreakdown {
+    const sums = { stars: 0, quality: 0, speed: 0, communication: 0 };
+    const weights = { stars: 0, quality: 0, speed: 0, communication: 0 };
+
+    for (const review of inputs.reviews) {
+        const weight = recencyWeight(review.created_at, now) * sizeWeight(review.amount_usdc);
+
+        sums.stars += weight * review.stars;
+        weights.stars += weight;
+
+        for (const dimension of SCORE_DIMENSIONS) {
+            const score = review[dimension];
+            if (score !== null) {
+                sums[dimension] += weight * score;
+                weights[dimension] += weight;
+            }
+        }
+    }
+
+    const average = (key: keyof typeof sums) => weights[key] > 0 ? round2(sums[key] / weights[key]) : null;
+
+    const penalty = round2(
+        inputs.cancellations.reduce((total, c) => total + CANCELLATION_PENALTY * recencyWeight(c.created_at, now), 0)
+        + inputs.disputesLost.reduce((total, d) => total + DISPUTE_PENALTY * d.lost_share * recencyWeight(d.resolved_at, now), 0)
+    );
+
+    const stars = average('stars');
+    const rating = stars === null ? 0 : round2(Math.min(5, Math.max(1, stars - penalty)));
+
+    return {
+        rating,
+        reviewsCount: inputs.reviews.length,
+        stars,
+        quality: average('quality'),
+        speed: average('speed'),
+        communication: average('communication'),
+        cancellations: inputs.cancellations.length,
+        disputesLost: round2(inputs.disputesLost.reduce((total, d) => total + d.lost_share, 0)),
+        penalty
+    };
+}
+
+/**
+ * Recalculate and store an agent's rating
+ */
+export async function refreshAgentReputation(
+    agent: Agent,
+    trigger: ReputationTrigger,
+    jobId: number | null = null
+): Promise<ReputationBreakdown> {
+    const reputation = calculateReputation(await getReputationInputs(agent));
+
+    const entry = await recordAgentReputation(
+        agent.id,
+        reputation.rating,
+        {
+            reviewsCount: reputation.reviewsCount,
+            cancellations: reputation.cancellations,
+            disputesLost: reputation.disputesLost
+        },
+        trigger,
+        jobId
+    );
+
+    if (entry) {
+        console.log(`[Reputation] Agent #${agent.id} rating ${entry.previous_rating} → ${entry.rating} (${trigger})`);
+    }
+
+    return reputation;
+}
+
+/**
+ * Recalculate the rating of a job's agent after a cancellation or ruling
+ * Never throws - the job outcome stands even if the rating lags behind
+ */
+export async function refreshJobAgentReputation(job: Job, trigger: ReputationTrigger): Promise<void> {
+    try {
+        const agent = job.agent_id !== null ? await getAgentByUserId(job.agent_id) : null;
+        if (agent) {
+            await refreshAgentReputation(agent, trigger, job.id);
+        }
+    } catch (error) {
+        console.error(`[Reputation] Failed to refresh the agent rating for job ${job.id}:`, error);
+    }
+}
+
+/**
+ * Reviews, live rating breakdown and rating history of an agent
+ */
+export async function getAgentReputation(agentId: number): Promise<AgentReputation | null> {
+    const agent = await getAgentById(agentId);
+    if (!agent) {
+        return null;
+    }
+
+    const [inputs, reviews, history] = await Promise.all([
+        getReputationInputs(agent),
+        getAgentReviews(agent.id),
+        getAgentReputationHistory(agent.id)
+    ]);
+
+    return { agent, reputation: calculateReputation(inputs), reviews, history };
+}
+
+// =============================================================================
+// PERIODIC REFRESH
+// =============================================================================
+
+let refreshInterval: NodeJS.Timeout | null = null;
+let isRefreshing = false;
+
+/**
+ * Start the periodic rating refresh (recency decay)
+ */
+export function startReputationRefresh(): void {
+    if (refreshInterval) {
+        console.log('[Reputation] Refresh already running');
+        return;
+    }
+
+    console.log(`[Reputation] Starting rating refresh with ${config.refreshIntervalMs}ms interval`);
+
+    refreshInterval = setInterval(refreshAllReputations, config.refreshIntervalMs);
+}
+
+/**
+ * Stop the periodic rating refresh
+ */
+export function stopReputationRefresh(): void {
+    if (refreshInterval) {
+        clearInterval(refreshInterval);
+        refreshInterval = null;
+        console.log('[Reputation] Refresh stopped');
+    }
+}
+
+/**
+ * Recalculate every rated agent
+ */
+export async function refreshAllReputations(): Promise<void> {
+    // Prevent overlapping runs
+    if (isRefreshing) return;
+    isRefreshing = true;
+
+    try {
+        for (const agent of await getAgentsWithReputation()) {
+            await refreshAgentReputation(agent, 'decay');
+        }
+    } catch (error) {
+        console.error('[Reputation] Error refreshing ratings:', error);
+    } finally {
+        isRefreshing = false;
+    }
+}
@@ -0,0 +1,309 @@
+/**
+ * =============================================================================
+ * Request Conversation Service - Personal Agent Threads
+ * =============================================================================
+ *
+ * A user request is a conversation with the Personal Agent. Nothing is
+ * matched, hired or invoiced until the user has confirmed a job spec.
+ *
+ * REQUEST STATUS:
+ *   pending                → the agent owes a reply (picked up by the poller)
+ *   clarifying             → the agent asked questions, waiting for the user
+ *   awaiting_confirmation  → a job spec is proposed; the user confirms it
+ *                            (optionally with edits) or replies to change it
+ *   awaiting_selection     → confirmed and matched, the user picks an agent
+ *                            (services/agent-matching.ts)
+ *
+ * Any user reply sends the request back to 'pending'. After
+ * MAX_CLARIFICATION_ROUNDS rounds of questions the agent must propose a spec
+ * from what it has.
+ *
+ * =============================================================================
+ */
+
+import { transaction } from '../db/database.js';
+import {
+    createUserRequest,
+    createRequestMessage,
+    getRequestMessages,
+    getUserRequestForUpdate,
+    setUserRequestStatus,
+    UserRequest,
+    RequestMessage
+} from '../db/queries.js';
+import { LlmAnalyzer, JobSpec, ConversationTurn } from './llm-analyzer.js';
+import { shortlistRequest, AgentMatch } from './agent-matching.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Fields of a proposed spec the user may change when confirming
+ */
+export type JobSpecEdits = Partial<Pick<
+    JobSpec,
+    'summary' | 'skills' | 'estimatedBudget' | 'complexity' | 'scope' | 'deadline' | 'budgetCeiling'
+>>;
+
+export interface ConfirmedRequest {
+    spec: JobSpec;
+    /** Empty when no agent matched; the request is then failed */
+    shortlist: AgentMatch[];
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class ConversationError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400,
+    ) {
+        super(message);
+        this.name = 'ConversationError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const MAX_CLARIFICATION_ROUNDS = Number(process.env.CHAT_MAX_CLARIFICATIONS || 2);
+
+/** Statuses in which the user may add to the thread */
+const REPLYABLE_STATUSES = ['pending', 'clarifying', 'awaiting_confirmation'];
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function formatQuestions(questions: string[]): string {
+    return [
+        'A few questions before I write up the job:',
+        ...questions.map((question, i) => `${i + 1}. ${question}`)
+    ].join('\n');
+}
+
+function formatProposal(spec: JobSpec): string {
+    return [
+        `Here's the job I'd post: ${spec.summary}`,
+        `Scope: ${spec.scope}`,
+        `Skills: ${spec.skills.join(', ')}`,
+        `Budget: ${spec.estimatedBudget} USDC${spec.budgetCeiling !== null ? ` (your ceiling: ${spec.budgetCeiling} USDC)` : ''}`,
+        `Deadline: ${spec.deadline ?? 'none given'}`,
+        'Confirm it, edit it, or tell me what to change.'
+    ].join('\n');
+}
+
+/**
+ * Apply the user's edits to a proposed spec, rejecting invalid values
+ */
+function applySpecEdits(spec: JobSpec, edits: JobSpecEdits): JobSpec {
+    const next: JobSpec = { ...spec };
+
+    if (edits.summary !== undefined) {
+        if (typeof edits.summary !== 'string' || !edits.summary.trim()) {
+            throw new ConversationError('summary must be a non-empty string');
+        }
+        next.summary = edits.summary.trim();
+    }
+
+    if (edits.scope !== undefined) {
+        if (typeof edits.scope !== 'string' || !edits.scope.trim()) {
+            throw new ConversationError('scope must be a non-empty string');
+        }
+        next.scope = edits.scope.trim();
+    }
+
+    if (edits.skills !== undefined) {
+        if (!Array.isArray(edits.skills) || edits.skills.some(skill => typeof skill !== 'string' || !skill.trim())) {
+            throw new ConversationError('skills must be a list of non-empty strings');
+        }
+        const skills = edits.skills.map(skill => skill.trim().toLowerCase());
+        next.skills = skills.length > 0 ? skills : ['general'];
+    }
+
+    if (edits.estimatedBudget !== undefined) {
+        const budget = Number(edits.estimatedBudget);
+        if (!Number.isFinite(budget) || budget <= 0) {
+            throw new ConversationError('estimatedBudget must be a positive number');
+        }
+        next.estimatedBudget = budget;
+    }
+
+    if (edits.budgetCeiling !== undefined) {
+        const ceiling = edits.budgetCeiling === null ? null : Number(edits.budgetCeiling);
+        if (ceiling !== null && (!Number.isFinite(ceiling) || ceiling <= 0)) {
+            throw new ConversationError('budgetCeiling must be a positive number or null');
+        }
+        next.budgetCeiling = ceiling;
+    }
+
+    if (edits.complexity !== undefined) {
+        if (!['low', 'medium', 'high'].includes(edits.complexity)) {
+            throw new ConversationError("complexity must be 'low', 'medium' or 'high'");
+        }
+        next.complexity = edits.complexity;
+    }
+
+    if (edits.deadline !== undefined) {
+        if (edits.deadline !== null && typeof edits.deadline !== 'string') {
+            throw new ConversationError('deadline must be a string or null');
+        }
+        next.deadline = edits.deadline?.trim() || null;
+    }
+
+    if (next.budgetCeiling !== null && next.estimatedBudget > next.budgetCeiling) {
+        throw new ConversationError(
+            `Budget of ${next.estimatedBudget} USDC is above the ${next.budgetCeiling} USDC ceiling`
+        );
+    }
+
+    return next;
+}
+
+// =============================================================================
+// THREADS
+// =============================================================================
+
+/**
+ * Open a request with the user's first message
+ */
+export async function startRequest(userId: number, message: string): Promise<UserRequest> {
+    return transaction(async (client) => {
+        const request = await createUserRequest(client, userId, message);
+        await createRequestMessage(client, request.id, 'user', 'message', message);
+        return request;
+    });
+}
+
+/**
+ * Add a user message to a thread (answers or change requests)
+ * The Personal Agent replies on its next poll
+ */
+export async function replyToRequest(params: {
+    requestId: number;
+    userId: number;
+    message: string;
+}): Promise<RequestMessage> {
+    return transaction(async (client) => {
+        const request = await getUserRequestForUpdate(client, params.requestId);
+        if (!request) {
+            throw new ConversationError('Request not found', 404);
+        }
+        if (request.user_id !== params.userId) {
+            throw new ConversationError('Only the requesting user can reply', 403);
+        }
+        if (!REPLYABLE_STATUSES.includes(request.status)) {
+            throw new ConversationError(`Request is ${request.status}, the conversation is closed`, 409);
+        }
+
+        const message = await createRequestMessage(client, request.id, 'user', 'message', params.message);
+        await setUserRequestStatus(client, request.id, 'pending');
+        return message;
+    });
+}
+
+/**
+ * Messages per request, oldest first
+ */
+export async function getRequestThreads(requestIds: number[]): Promise<Map<number, RequestMessage[]>> {
+    const threads = new Map<number, RequestMessage[]>(requestIds.map(id => [id, []]));
+    if (requestIds.length === 0) {
+        return threads;
+    }
+
+    for (const message of await getRequestMessages(requestIds)) {
+        threads.get(message.request_id)?.push(message);
+    }
+    return threads;
+}
+
+// =============================================================================
+// PERSONAL AGENT TURNS
+// =============================================================================
+
+/**
+ * Write the Personal Agent's next turn for a pending request
+ * Returns null when the thread changed while the agent was thinking; the
+ * request is still pending and will be picked up again.
+ */
+export async function advanceConversation(
+    requestId: number,
+    analyzer: LlmAnalyzer
+): Promise<ConversationTurn | null> {
+    const thread = (await getRequestThreads([requestId])).get(requestId) ?? [];
+    const lastMessageId = thread.length > 0 ? thread[thread.length - 1].id : null;
+    const rounds = thread.filter(message => message.kind === 'question').length;
+
+    const turn = await analyzer.converse(
+        thread.map(message => ({ role: message.role, content: message.content })),
+        rounds < MAX_CLARIFICATION_ROUNDS
+    );
+
+    return transaction(async (client) => {
+        const request = await getUserRequestForUpdate(client, requestId);
+        const latest = (await getRequestMessages([requestId])).pop();
+        if (!request || request.status !== 'pending' || (latest?.id ?? null) !== lastMessageId) {
+            return null;
+        }
+
+        if (turn.action === 'ask') {
+            await createRequestMessage(client, requestId, 'agent', 'question', formatQuestions(turn.questions), {
+                questions: turn.questions
+            });
+            await setUserRequestStatus(client, requestId, 'clarifying');
+        } else {
+            await createRequestMessage(client, requestId, 'agent', 'proposal', formatProposal(turn.spec), turn.spec);
+            await setUserRequestStatus(client, requestId, 'awaiting_confirmation', { analysis: turn.spec });
+        }
+
+        return turn;
+    });
+}
+
+/**
+ * User confirms the proposed spec (optionally edited); agents are matched
+ * right away and the request waits for the user's pick
+ */
+export async function confirmRequestSpec(params: {
+    requestId: number;
+    userId: number;
+    edits?: JobSpecEdits;
+}): Promise<ConfirmedRequest> {
+    return transaction(async (client) => {
+        const request = await getUserRequestForUpdate(client, params.requestId);
+        if (!request) {
+            throw new ConversationError('Request not found', 404);
+        }
+        if (request.user_id !== params.userId) {
+            throw new ConversationError('Only the requesting user can confirm', 403);
+        }
+        if (request.status !== 'awaiting_confirmation' || !request.analysis) {
+            throw new ConversationError(`Request is ${request.status}, there is no spec to confirm`, 409);
+        }
+
+        const edited = params.edits && Object.keys(params.edits).length > 0;
+        const spec = applySpecEdits(request.analysis as JobSpec, params.edits ?? {});
+
+        await createRequestMessage(
+            client,
+            request.id,
+            'user',
+            'confirmation',
+            edited ? 'Confirmed with changes' : 'Confirmed',
+            spec
+        );
+
+        const shortlist = await shortlistRequest(client, request.id, request.user_id, spec);
+
+        if (shortlist.length === 0) {
+            const error = `No available agent matches the required skills (${spec.skills.join(', ')})`;
+            await createRequestMessage(client, request.id, 'agent', 'message', error);
+            await setUserRequestStatus(client, request.id, 'failed', { analysis: spec, error_message: error });
+        }
+
+        return { spec, shortlist };
+    });
+}
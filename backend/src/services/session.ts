@@ -0,0 +1,260 @@
+/**
+ * =============================================================================
+ * Session Service - Wallet Sign-in and Session Tokens
+ * =============================================================================
+ *
+ * LOGIN FLOW:
+ * 1. createChallenge(): issue a single-use nonce and the message to sign
+ * 2. Wallet signs the message (signPersonalMessage)
+ * 3. login(): verify the signature against the wallet address, consume the
+ *    nonce and issue a session
+ *
+ * SESSIONS:
+ * - Access token: HS256 JWT signed with SESSION_SECRET, short-lived
+ * - Refresh token: random opaque value, stored hashed, rotated on every use
+ *
+ * =============================================================================
+ */
+
+import crypto from 'crypto';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import {
+    getOrCreateUser,
+    getUserById,
+    updateLastLogin,
+    createAuthChallenge,
+    getActiveAuthChallenge,
+    consumeAuthChallenge,
+    createRefreshToken,
+    revokeRefreshToken,
+    User,
+    UserRole
+} from '../db/queries.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AuthChallengeResult {
+    nonce: string;
+    message: string;
+    expiresAt: Date;
+}
+
+export interface SessionTokens {
+    accessToken: string;
+    accessTokenExpiresAt: Date;
+    refreshToken: string;
+    refreshTokenExpiresAt: Date;
+}
+
+export interface Session extends SessionTokens {
+    user: User;
+}
+
+/**
+ * Claims carried by an access token
+ */
+export interface SessionClaims {
+    userId: number;
+    walletAddress: string;
+    role: UserRole;
+}
+
+/**
+ * Error with an HTTP status code so routes can map it directly
+ */
+export class AuthError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 401,
+    ) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;                 // 5 minutes
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;             // 15 minutes
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;   // 7 days
+
+function getSessionSecret(): string {
+    const secret = process.env.SESSION_SECRET;
+    if (!secret) {
+        throw new Error('SESSION_SECRET environment variable is required');
+    }
+    return secret;
+}
+
+// =============================================================================
+// LOGIN
+// =============================================================================
+
+/**
+ * Issue a sign-in challenge for a wallet
+ */
+export async function createChallenge(walletAddress: string): Promise<AuthChallengeResult> {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS);
+    const message = buildChallengeMessage(walletAddress, nonce, expiresAt);
+
+    await createAuthChallenge(nonce, walletAddress, message, expiresAt);
+
+    return { nonce, message, expiresAt };
+}
+
+/**
+ * Verify a signed challenge and start a session
+ */
+export async function login(
+    walletAddress: string,
+    signature: string,
+    nonce: string
+): Promise<Session> {
+    const challenge = await getActiveAuthChallenge(nonce, walletAddress);
+    if (!challenge) {
+        throw new AuthError('Challenge not found or expired - request a new one');
+    }
+
+    try {
+        await verifyPersonalMessageSignature(
+            new TextEncoder().encode(challenge.message),
+            signature,
+            { address: walletAddress }
+        );
+    } catch (error) {
+        console.warn(`[Session] Signature verification failed for ${walletAddress}:`, error);
+        throw new AuthError('Invalid signature');
+    }
+
+    // Single use - a concurrent replay of the same signature loses here
+    if (!(await consumeAuthChallenge(nonce))) {
+        throw new AuthError('Challenge already used');
+    }
+
+    const user = await getOrCreateUser(walletAddress);
+    await updateLastLogin(user.id);
+
+    console.log(`[Session] User ${user.id} signed in`);
+    return { user, ...(await issueTokens(user)) };
+}
+
+/**
+ * Exchange a refresh token for a new session (the old refresh token is revoked)
+ */
+export async function refreshSession(refreshToken: string): Promise<Session> {
+    const revoked = await revokeRefreshToken(hashToken(refreshToken));
+    if (!revoked) {
+        throw new AuthError('Refresh token invalid or expired');
+    }
+
+    const user = await getUserById(revoked.user_id);
+    if (!user) {
+        throw new AuthError('User no longer exists');
+    }
+
+    return { user, ...(await issueTokens(user)) };
+}
+
+/**
+ * End a session by revoking its refresh token
+ */
+export async function logout(refreshToken: string): Promise<void> {
+    await revokeRefreshToken(hashToken(refreshToken));
+}
+
+// =============================================================================
+// ACCESS TOKENS
+// =============================================================================
+
+/**
+ * Verify an access token and return its claims
+ */
+export function verifyAccessToken(token: string): SessionClaims {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new AuthError('Malformed session token');
+    }
+
+    const [header, payload, signature] = parts;
+    const expected = sign(`${header}.${payload}`);
+
+    const expectedBuf = Buffer.from(expected);
+    const signatureBuf = Buffer.from(signature);
+    if (expectedBuf.length !== signatureBuf.length || !crypto.timingSafeEqual(expectedBuf, signatureBuf)) {
+        throw new AuthError('Invalid session token');
+    }
+
+    let claims: any;
+    try {
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        throw new AuthError('Malformed session token');
+    }
+
+    if (claims.typ !== 'access' || typeof claims.exp !== 'number') {
+        throw new AuthError('Invalid session token');
+    }
+
+    if (claims.exp * 1000 <= Date.now()) {
+        throw new AuthError('Session expired - refresh your token');
+    }
+
+    return {
+        userId: Number(claims.sub),
+        walletAddress: claims.wallet,
+        role: claims.role
+    };
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+async function issueTokens(user: User): Promise<SessionTokens> {
+    const now = Date.now();
+    const accessTokenExpiresAt = new Date(now + ACCESS_TOKEN_TTL_MS);
+    const refreshTokenExpiresAt = new Date(now + REFRESH_TOKEN_TTL_MS);
+
+    const header = encodeSegment({ alg: 'HS256', typ: 'JWT' });
+    const payload = encodeSegment({
+        sub: String(user.id),
+        wallet: user.wallet_address,
+        role: user.role,
+        typ: 'access',
+        iat: Math.floor(now / 1000),
+        exp: Math.floor(accessTokenExpiresAt.getTime() / 1000)
+    });
+    const accessToken = `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    await createRefreshToken(user.id, hashToken(refreshToken), refreshTokenExpiresAt);
+
+    return { accessToken, accessTokenExpiresAt, refreshToken, refreshTokenExpiresAt };
+}
+
+function buildChallengeMessage(walletAddress: string, nonce: string, expiresAt: Date): string {
+    return [
+        'Sign in to BeepLancer',
+        '',
+        `Wallet: ${walletAddress}`,
+        `Nonce: ${nonce}`,
+        `Expires: ${expiresAt.toISOString()}`
+    ].join('\n');
+}
+
+function encodeSegment(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', getSessionSecret()).update(data).digest('base64url');
+}
+
+function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -5,9 +5,12 @@
  * 
  * This module handles all interactions with the SUI blockchain:
  * - Creating escrow locks
- * - Releasing escrow to agents
+ * - Releasing escrow to agents (fully or per milestone, keeping the platform fee)
  * - Cancelling escrows
+ * - Executing dispute rulings (AdminCap)
+ * - Sending USDC from the platform wallet (agent payouts without an escrow)
  * - Reading escrow state
+ * - Finding escrows by job reference (recovery)
  * 
  * REQUIREMENTS:
  * - SUI private key for signing transactions
@@ -17,10 +20,10 @@
  * =============================================================================
  */
 
-import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
-import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, SuiTransactionBlockResponse, getFullnodeUrl } from '@mysten/sui/client';
+import { Transaction, TransactionDataBuilder, coinWithBalance } from '@mysten/sui/transactions';
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
-import { fromBase64 } from '@mysten/sui/utils';
+import { fromBase64, normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
 import dotenv from 'dotenv';
 import { platform } from 'os';
 
@@ -63,6 +66,10 @@ export interface EscrowReleaseParams {
     escrowObjectId: string;
     /** Buyer must sign (must match escrow.buyer) */
     buyerAddress: string;
+    /** Release only this amount (e.g. a milestone's share); omit to release everything */
+    amountUsdc?: number;
+    /** Part of the released amount kept for the platform (sent to the buyer, the platform wallet) */
+    feeUsdc?: number;
 }
 
 export interface EscrowReleaseResult {
@@ -71,6 +78,13 @@ export interface EscrowReleaseResult {
     error?: string;
 }
 
+export interface DisputeRulingParams {
+    /** Object ID of the disputed LockedPayment */
+    escrowObjectId: string;
+    /** Share awarded to the agent; the remainder goes to the escrow's buyer (the platform wallet) */
+    agentAmountUsdc: number;
+}
+
 export interface EscrowState {
     objectId: string;
     buyer: string;
@@ -79,6 +93,21 @@ export interface EscrowState {
     status: 'locked' | 'released' | 'cancelled';
     jobReference: string;
     createdAt: number;
+    /** Coin type T of the LockedPayment<T> (normalized) */
+    coinType: string | null;
+}
+
+/**
+ * An escrow as announced by its EscrowCreated event
+ */
+export interface CreatedEscrow {
+    escrowObjectId: string;
+    txDigest: string;
+    buyer: string;
+    agent: string;
+    amount: number;
+    jobReference: string;
+    timestampMs: number;
 }
 
 // =============================================================================
@@ -111,6 +140,34 @@ function getEscrowPackageId(): string {
     return packageId;
 }
 
+/**
+ * Get the USDC coin type jobs are paid and escrowed in
+ */
+export function getUsdcCoinType(): string {
+    return usdc_coin_type;
+}
+
+/**
+ * Get the address of the platform wallet, the buyer of every escrow the API creates
+ */
+export function getPlatformAddress(): string | null {
+    const address = platformKeypair?.toSuiAddress()
+        || process.env.PLATFORM_WALLET_ADDRESS
+        || process.env.SUI_PLATFORM_ADDRESS;
+    return address ? normalizeSuiAddress(address) : null;
+}
+
+/**
+ * Get the AdminCap object ID minted by escrow::init when the package was published
+ */
+function getAdminCapId(): string {
+    const adminCapId = process.env.SUI_ADMIN_CAP_ID;
+    if (!adminCapId) {
+        throw new Error('SUI_ADMIN_CAP_ID environment variable is required');
+    }
+    return adminCapId;
+}
+
 // =============================================================================
 // INITIALIZATION
 // =============================================================================
@@ -180,29 +237,30 @@ export async function createEscrow(
         options: {
             showEffects: true,
             showObjectChanges: true,
+            showEvents: true,
         }
     });
 
-    // Extract escrow object ID from created objects
-    const createdObjects = signature.effects?.created || [];
-    const escrowObjects = createdObjects.find(obj => 
-        obj.reference.objectId === usdc_coin_type
-    );
-
-    if (!escrowObjects) {
-        throw new Error('Escrow object not found');
+    if (signature.effects?.status?.status !== 'success') {
+        return {
+            txDigest: signature.digest,
+            escrowObjectId: '',
+            success: false,
+            error: signature.effects?.status?.error
+        };
     }
 
     return {
         txDigest: signature.digest,
-        escrowObjectId: escrowObjects.reference.objectId,
-        success: signature.effects?.status?.status === 'success',
-        error: signature.effects?.status?.error
+        escrowObjectId: extractEscrowObjectId(signature, packageId),
+        success: true
     };
 }
 
 /**
  * Release escrow funds to the agent
+ * With amountUsdc set only that share is released and the escrow stays locked
+ * With feeUsdc set the fee is kept out of the agent's share (release_with_fee)
  */
 export async function releaseEscrow(
     params: EscrowReleaseParams
@@ -212,13 +270,49 @@ export async function releaseEscrow(
 
     // Build transaction
     const tx = new Transaction();
-    tx.moveCall({
-        target: `${packageId}::escrow::release_escrow`,
-        typeArguments: [usdc_coin_type],
-        arguments: [
-            tx.object(params.escrowObjectId),
-        ],
-    });
+
+    if (params.feeUsdc) {
+        const feeUnits = Math.round(params.feeUsdc * 1_000_000);
+
+        // Releasing everything reads the balance in the same transaction
+        const [amount] = params.amountUsdc !== undefined
+            ? [tx.pure.u64(Math.floor(params.amountUsdc * 1_000_000))]
+            : tx.moveCall({
+                target: `${packageId}::escrow::get_balance_value`,
+                typeArguments: [usdc_coin_type],
+                arguments: [tx.object(params.escrowObjectId)],
+            });
+
+        tx.moveCall({
+            target: `${packageId}::escrow::release_with_fee`,
+            typeArguments: [usdc_coin_type],
+            arguments: [
+                tx.object(params.escrowObjectId),
+                amount,
+                tx.pure.u64(feeUnits),
+            ],
+        });
+    } else if (params.amountUsdc !== undefined) {
+        // Amount in smallest units (6 decimals for USDC)
+        const amountUnits = Math.floor(params.amountUsdc * 1_000_000);
+
+        tx.moveCall({
+            target: `${packageId}::escrow::release_partial`,
+            typeArguments: [usdc_coin_type],
+            arguments: [
+                tx.object(params.escrowObjectId),
+                tx.pure.u64(amountUnits),
+            ],
+        });
+    } else {
+        tx.moveCall({
+            target: `${packageId}::escrow::release_escrow`,
+            typeArguments: [usdc_coin_type],
+            arguments: [
+                tx.object(params.escrowObjectId),
+            ],
+        });
+    }
 
     // Sign and execute transaction
     if (!platformKeypair) {
@@ -242,7 +336,7 @@ export async function releaseEscrow(
 }
 
 /**
- * Cancel escrow and return funds to buyer
+ * Cancel escrow and return its funds to the escrow's buyer (the platform wallet)
  */
 export async function cancelEscrow(
     escrowObjectId: string
@@ -281,6 +375,117 @@ export async function cancelEscrow(
     };
 }
 
+/**
+ * Execute an arbiter's dispute ruling using the platform's AdminCap
+ * agentAmountUsdc = 0 is a full refund, the full escrow amount a full release
+ */
+export async function resolveDisputeEscrow(
+    params: DisputeRulingParams
+): Promise<EscrowReleaseResult> {
+    const client = getSuiClient();
+    const packageId = getEscrowPackageId();
+    const adminCapId = getAdminCapId();
+
+    // Amount in smallest units (6 decimals for USDC)
+    const agentAmountUnits = Math.floor(params.agentAmountUsdc * 1_000_000);
+
+    // Build transaction
+    const tx = new Transaction();
+    tx.moveCall({
+        target: `${packageId}::escrow::resolve_dispute`,
+        typeArguments: [usdc_coin_type],
+        arguments: [
+            tx.object(adminCapId),
+            tx.object(params.escrowObjectId),
+            tx.pure.u64(agentAmountUnits),
+        ],
+    });
+
+    // Sign and execute transaction (platform wallet must own the AdminCap)
+    if (!platformKeypair) {
+        throw new Error('Platform keypair not available');
+    }
+
+    const signature = await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: platformKeypair,
+        options: {
+            showEffects: true,
+            showObjectChanges: true,
+        }
+    });
+
+    return {
+        txDigest: signature.digest,
+        success: signature.effects?.status?.status === 'success',
+        error: signature.effects?.status?.error
+    };
+}
+
+// =============================================================================
+// TRANSFERS
+// =============================================================================
+
+/**
+ * Send USDC from the platform wallet
+ * onDigest receives the digest before the transaction is sent, so a retry
+ * can check whether it landed (isTransactionApplied)
+ */
+export async function transferUsdc(params: {
+    recipientAddress: string;
+    amountUsdc: number;
+    onDigest?: (txDigest: string) => Promise<void>;
+}): Promise<EscrowReleaseResult> {
+    const client = getSuiClient();
+
+    if (!platformKeypair) {
+        throw new Error('Platform keypair not available');
+    }
+
+    const tx = new Transaction();
+    tx.setSender(platformKeypair.toSuiAddress());
+
+    // Amount in smallest units (6 decimals for USDC)
+    const coin = coinWithBalance({
+        type: usdc_coin_type,
+        balance: BigInt(Math.round(params.amountUsdc * 1_000_000))
+    });
+    tx.transferObjects([coin], params.recipientAddress);
+
+    const txBytes = await tx.build({ client });
+    await params.onDigest?.(TransactionDataBuilder.getDigestFromBytes(txBytes));
+
+    const signature = await client.signAndExecuteTransaction({
+        transaction: txBytes,
+        signer: platformKeypair,
+        options: {
+            showEffects: true,
+        }
+    });
+
+    return {
+        txDigest: signature.digest,
+        success: signature.effects?.status?.status === 'success',
+        error: signature.effects?.status?.error
+    };
+}
+
+/**
+ * Whether a transaction was executed successfully
+ */
+export async function isTransactionApplied(txDigest: string): Promise<boolean> {
+    try {
+        const response = await getSuiClient().getTransactionBlock({
+            digest: txDigest,
+            options: { showEffects: true }
+        });
+        return response.effects?.status?.status === 'success';
+    } catch {
+        // Unknown digest - never executed
+        return false;
+    }
+}
+
 // =============================================================================
 // READ OPERATIONS
 // =============================================================================
@@ -317,10 +522,11 @@ export async function getEscrowState(
         objectId: escrowObjectId,
         buyer: fields.buyer,
         agent: fields.agent,
-        amount: parseInt(fields.balance?.value || '0'),
+        amount: parseBalance(fields.balance),
         status: parseStatus(fields.status),
-        jobReference: Buffer.from(fields.job_reference).toString('utf8'),
-        createdAt: parseInt(fields.created_at)
+        jobReference: decodeJobReference(fields.job_reference),
+        createdAt: parseInt(fields.created_at),
+        coinType: parseCoinType(object.data.type)
     };
 }
 
@@ -390,10 +596,11 @@ export async function getEscrowsByBuyer(
                 objectId: obj.address,
                 buyer: fields.buyer,
                 agent: fields.agent,
-                amount: parseInt(fields.balance?.value || '0'),
+                amount: parseBalance(fields.balance),
                 status: parseStatus(parseInt(fields.status)),
-                jobReference: Buffer.from(fields.job_reference || []).toString('utf8'),
-                createdAt: parseInt(fields.created_at || '0')
+                jobReference: decodeJobReference(fields.job_reference),
+                createdAt: parseInt(fields.created_at || '0'),
+                coinType: normalizeStructTag(usdc_coin_type)
             });
         }
 
@@ -404,10 +611,121 @@ export async function getEscrowsByBuyer(
     }
 }
 
+/**
+ * Find escrows created for a job reference, oldest first
+ * Used to recover escrows whose creation was not recorded on the job
+ */
+export async function findEscrowsByJobReference(
+    jobReference: string
+): Promise<CreatedEscrow[]> {
+    const escrows = await getCreatedEscrows();
+    return escrows.filter(escrow => escrow.jobReference === jobReference);
+}
+
+/**
+ * Page through the EscrowCreated events of the escrow package, oldest first
+ * after: start after this event (e.g. the chain indexer's cursor) rather
+ * than at the first one
+ */
+export async function getCreatedEscrows(
+    after: { txDigest: string; eventSeq: string } | null = null
+): Promise<CreatedEscrow[]> {
+    const client = getSuiClient();
+    const packageId = getEscrowPackageId();
+    const escrows: CreatedEscrow[] = [];
+    let cursor = after;
+
+    do {
+        const page = await client.queryEvents({
+            query: { MoveEventType: `${packageId}::escrow::EscrowCreated` },
+            cursor,
+            limit: 50,
+            order: 'ascending'
+        });
+
+        for (const event of page.data) {
+            escrows.push(parseCreatedEscrow(event.parsedJson, event.id.txDigest, event.timestampMs));
+        }
+
+        cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+    } while (cursor);
+
+    return escrows;
+}
+
+/**
+ * Read the fields of an EscrowCreated event, as returned by the RPC or
+ * stored by the chain indexer
+ */
+export function parseCreatedEscrow(
+    fields: any,
+    txDigest: string,
+    timestampMs: string | null | undefined
+): CreatedEscrow {
+    return {
+        escrowObjectId: fields.escrow_id,
+        txDigest,
+        buyer: fields.buyer,
+        agent: fields.agent,
+        amount: parseInt(fields.amount) / 1_000_000,
+        jobReference: decodeJobReference(fields.job_reference),
+        timestampMs: parseInt(timestampMs || '0')
+    };
+}
+
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
 
+/**
+ * Identify the LockedPayment created by a create_escrow transaction
+ * The shared object from objectChanges must agree with the EscrowCreated event
+ */
+function extractEscrowObjectId(
+    response: SuiTransactionBlockResponse,
+    packageId: string
+): string {
+    const created = response.objectChanges?.find(change =>
+        change.type === 'created' &&
+        change.objectType.startsWith(`${packageId}::escrow::LockedPayment<`)
+    );
+    const event = response.events?.find(e => e.type === `${packageId}::escrow::EscrowCreated`);
+
+    const objectId = created?.type === 'created' ? created.objectId : undefined;
+    const eventEscrowId = (event?.parsedJson as any)?.escrow_id as string | undefined;
+
+    if (objectId && eventEscrowId && objectId !== eventEscrowId) {
+        throw new Error(
+            `Escrow object ${objectId} does not match EscrowCreated event (${eventEscrowId}) in tx ${response.digest}`
+        );
+    }
+
+    const escrowObjectId = objectId || eventEscrowId;
+    if (!escrowObjectId) {
+        throw new Error(`Escrow object not found in tx ${response.digest}`);
+    }
+
+    return escrowObjectId;
+}
+
+/**
+ * job_reference is a vector<u8>; JSON-RPC renders it as a number array
+ */
+function decodeJobReference(value: unknown): string {
+    if (Array.isArray(value)) {
+        return Buffer.from(value as number[]).toString('utf8');
+    }
+    return typeof value === 'string' ? value : '';
+}
+
+/**
+ * '0xpkg::escrow::LockedPayment<0x...::usdc::USDC>' → the normalized coin type
+ */
+function parseCoinType(objectType: string | null | undefined): string | null {
+    const match = objectType ? /^[^<]+<(.+)>$/.exec(objectType) : null;
+    return match ? normalizeStructTag(match[1]) : null;
+}
+
 /**
  * Parse escrow status from u8 to string
  */
@@ -420,6 +738,14 @@ function parseStatus(statusCode: number): EscrowState['status'] {
     }
 }
 
+/**
+ * Parse a Balance<T> field (JSON-RPC renders it as a plain string, older
+ * responses as { value })
+ */
+function parseBalance(balance: any): number {
+    return parseInt(balance?.value ?? balance ?? '0');
+}
+
 /**
  * Build a transaction for client-side signing
  */
@@ -472,80 +798,3 @@ export async function checkSuiHealth(): Promise<boolean> {
         return false;
     }
 }
-
-/**
- * Verify direct payment on-chain
- * Scans recent transactions to the merchant address for a matching payment
- */
-export async function verifyPaymentOnChain(
-    merchantAddress: string,
-    amountUsdc: number,
-    uuid: string // We might use this for more strict checking if possible
-): Promise<{ paid: boolean; txDigest?: string }> {
-    const client = getSuiClient();
-    
-    // Amount in smallest units (6 decimals for USDC)
-    const amountUnits = Math.floor(amountUsdc * 1_000_000);
-    const amountUnitsStr = amountUnits.toString(); // For strict string comparison
-
-    console.log(`[SUI] 🔍 Verifying payment on-chain: ${amountUsdc} USDC (${amountUnits}) to ${merchantAddress}`);
-
-    try {
-        // Query recent transactions sent to the merchant
-        const response = await client.queryTransactionBlocks({
-            filter: {
-                ToAddress: merchantAddress
-            },
-            options: {
-                showBalanceChanges: true,
-                showEffects: true,
-                showInput: true,
-                showEvents: true
-            },
-            limit: 20, // Check last 20 transactions
-            order: 'descending'
-        });
-
-        for (const block of response.data) {
-            // timestamp check (last 15 minutes) - block.timestampMs is string
-            const txTime = parseInt(block.timestampMs || '0');
-            const fifteenMinutesAgo = Date.now() - 15 * 60 * 1000;
-            
-            if (txTime < fifteenMinutesAgo) {
-                continue; // Too old
-            }
-
-            if (block.effects?.status.status !== 'success') {
-                continue; // Failed transaction
-            }
-
-            // Strict check: Look for UUID in transaction inputs (memo field) first
-            // This is more reliable as it identifies the specific job transaction
-            const txData = JSON.stringify(block.transaction);
-            
-            if (uuid && txData.includes(uuid)) {
-                 console.log(`[SUI] 🎯 Found transaction with matching UUID: ${uuid} (Digest: ${block.digest})`);
-                 console.log(`[SUI] ℹ️ Transaction Status: ${block.effects?.status.status}`);
-
-                 // TRUST THE UUID + SUCCESS STATUS
-                 // In some SUI Pay flows or shared object interactions, the specific USDC balance change 
-                 // might not be visible in the top-level 'balanceChanges' array if it's an internal move call
-                 // or if the RPC response is partial.
-                 // However, since we generated this UUID specifically for this payment, and the transaction
-                 // executed successfully (checked above), we can consider this valid.
-                 
-                 return { 
-                    paid: true, 
-                    txDigest: block.digest 
-                 };
-            }
-        }
-
-        console.log('[SUI] ❌ No matching payment found in recent transactions');
-        return { paid: false };
-
-    } catch (error) {
-        console.error('[SUI] Error verifying payment:', error);
-        return { paid: false };
-    }
-}
@@ -0,0 +1,32 @@
+/**
+ * Beep Emulator - Run the local Beep stand-in on its own
+ *
+ * Point the backend or the MCP tools at it with BEEP_URL=http://localhost:4010
+ * (or run the backend with BEEP_EMULATOR=true instead). See
+ * services/beep-emulator.ts for scenarios and control endpoints.
+ *
+ * Run from backend root: npx tsx src/start-beep-emulator.ts [scenario]
+ */
+
+import { config } from 'dotenv';
+import { startBeepEmulator } from './services/beep-emulator.js';
+
+// Load .env file
+config();
+
+// Run
+(async () => {
+    try {
+        const emulator = await startBeepEmulator({ scenario: process.argv[2] });
+
+        console.log(`✅ Beep emulator ready - BEEP_URL=${emulator.url}`);
+
+        process.on('SIGINT', async () => {
+            await emulator.close();
+            process.exit(0);
+        });
+    } catch (error: any) {
+        console.error('❌ Error:', error.message);
+        process.exit(1);
+    }
+})();
@@ -1,4 +1,5 @@
 import { BeepClient } from '@beep-it/sdk-core';
+import { getBeepApiUrl } from '../services/beep-emulator.js';
 
 if (!process.env.BEEP_API_KEY) {
   throw new Error('BEEP_API_KEY is not configured in the .env file.');
@@ -6,5 +7,5 @@ if (!process.env.BEEP_API_KEY) {
 
 export const beepClient = new BeepClient({
   apiKey: process.env.BEEP_API_KEY!,
-  serverUrl: process.env.BEEP_URL,
+  serverUrl: getBeepApiUrl(),
 });
@@ -0,0 +1,122 @@
+/**
+ * Escrow flows through services/sui.ts and the payment poller's coin manager
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    setupLocalnet,
+    teardownLocalnet,
+    getLocalnetUnavailableReason,
+    mintCoin,
+    getCoinBalance,
+    LocalnetContext
+} from './harness.js';
+import {
+    createEscrow,
+    releaseEscrow,
+    cancelEscrow,
+    getEscrowState,
+    findEscrowsByJobReference
+} from '../../src/services/sui.js';
+import { getPlatformUsdcCoin } from '../../src/services/payment-poller.js';
+
+const unavailable = await getLocalnetUnavailableReason();
+
+describe('escrow flows', { skip: unavailable ?? false }, () => {
+    let ctx: LocalnetContext;
+
+    before(async () => {
+        ctx = await setupLocalnet();
+    });
+
+    after(async () => {
+        await teardownLocalnet();
+    });
+
+    async function lock(amountUsdc: number, jobReference: string) {
+        const escrow = await createEscrow({
+            buyerAddress: ctx.platform.toSuiAddress(),
+            agentAddress: ctx.agent.toSuiAddress(),
+            amountUsdc,
+            jobReference,
+            usdcCoinId: await mintCoin(ctx, ctx.platform, amountUsdc)
+        });
+        assert.equal(escrow.success, true, escrow.error);
+        return escrow;
+    }
+
+    it('create → release pays the agent', async () => {
+        const escrow = await lock(5, 'JOB-IT-RELEASE');
+
+        const locked = await getEscrowState(escrow.escrowObjectId);
+        assert.equal(locked?.status, 'locked');
+        assert.equal(locked?.amount, 5_000_000);
+        assert.equal(locked?.agent, ctx.agent.toSuiAddress());
+        assert.equal(locked?.jobReference, 'JOB-IT-RELEASE');
+
+        const agentBefore = await getCoinBalance(ctx, ctx.agent.toSuiAddress());
+        const release = await releaseEscrow({
+            escrowObjectId: escrow.escrowObjectId,
+            buyerAddress: ctx.platform.toSuiAddress()
+        });
+        assert.equal(release.success, true, release.error);
+        await ctx.client.waitForTransaction({ digest: release.txDigest });
+
+        const released = await getEscrowState(escrow.escrowObjectId);
+        assert.equal(released?.status, 'released');
+        assert.equal(released?.amount, 0);
+        assert.equal(await getCoinBalance(ctx, ctx.agent.toSuiAddress()), agentBefore + 5);
+    });
+
+    it('partial release keeps the escrow locked', async () => {
+        const escrow = await lock(4, 'JOB-IT-PARTIAL');
+
+        const release = await releaseEscrow({
+            escrowObjectId: escrow.escrowObjectId,
+            buyerAddress: ctx.platform.toSuiAddress(),
+            amountUsdc: 1.5
+        });
+        assert.equal(release.success, true, release.error);
+        await ctx.client.waitForTransaction({ digest: release.txDigest });
+
+        const state = await getEscrowState(escrow.escrowObjectId);
+        assert.equal(state?.status, 'locked');
+        assert.equal(state?.amount, 2_500_000);
+    });
+
+    it('create → cancel refunds the buyer', async () => {
+        const escrow = await lock(3, 'JOB-IT-CANCEL');
+
+        const cancel = await cancelEscrow(escrow.escrowObjectId);
+        assert.equal(cancel.success, true, cancel.error);
+
+        const tx = await ctx.client.waitForTransaction({
+            digest: cancel.txDigest,
+            options: { showEvents: true }
+        });
+        const refund = tx.events?.find(event => event.type.endsWith('::escrow::EscrowCancelled'));
+        assert.equal((refund?.parsedJson as any)?.amount, '3000000');
+
+        const state = await getEscrowState(escrow.escrowObjectId);
+        assert.equal(state?.status, 'cancelled');
+        assert.equal(state?.amount, 0);
+    });
+
+    it('finds escrows by job reference', async () => {
+        const escrow = await lock(1, 'JOB-IT-LOOKUP');
+
+        const found = await findEscrowsByJobReference('JOB-IT-LOOKUP');
+        assert.deepEqual(found.map(e => e.escrowObjectId), [escrow.escrowObjectId]);
+        assert.equal(found[0].txDigest, escrow.txDigest);
+        assert.equal(found[0].amount, 1);
+    });
+
+    it('payment poller splits an exact platform coin', async () => {
+        const coinId = await getPlatformUsdcCoin(2.25);
+
+        const coin = await ctx.client.getObject({ id: coinId, options: { showContent: true } });
+        const fields = (coin.data?.content as any)?.fields;
+        assert.equal(fields?.balance, '2250000');
+    });
+});
@@ -0,0 +1,267 @@
+/**
+ * =============================================================================
+ * Localnet Test Harness - SUI Integration Tests
+ * =============================================================================
+ *
+ * Runs the TypeScript services against a local SUI network:
+ *
+ *   sui start --with-faucet --force-regenesis
+ *   npm run test:integration
+ *
+ * setupLocalnet() funds fresh platform / owner / agent keypairs from the
+ * faucet, publishes move/beeplancer and points the services at it
+ * (SUI_ESCROW_PACKAGE_ID, SUI_ADMIN_CAP_ID, SUI_PRIVATE_KEY, ...).
+ *
+ * COIN TYPE:
+ *   Localnet has no USDC, so the services run with 0x2::sui::SUI as their
+ *   coin type. Amounts keep the 6-decimal convention (1 "USDC" = 1_000_000
+ *   MIST).
+ *
+ * Suites skip themselves when the network, the sui CLI or (for pool flows)
+ * the database is not available. Pool flows need an initialized database;
+ * DB_NAME defaults to 'beeplancer_test' here.
+ *
+ * Import this module before any service: sui.ts reads its coin type when
+ * it is loaded.
+ *
+ * =============================================================================
+ */
+
+import { execFileSync } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { SuiClient, SuiTransactionBlockResponse, getFullnodeUrl } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { getFaucetHost, requestSuiFromFaucetV2 } from '@mysten/sui/faucet';
+import { fromBase64 } from '@mysten/sui/utils';
+
+// =============================================================================
+// ENVIRONMENT
+// =============================================================================
+
+export const COIN_TYPE = '0x2::sui::SUI';
+
+process.env.SUI_NETWORK = 'localnet';
+process.env.BEEP_USDC_COIN_TYPE = COIN_TYPE;
+process.env.USDC_COIN_TYPE = COIN_TYPE;
+process.env.DB_NAME = process.env.TEST_DB_NAME || 'beeplancer_test';
+
+// beep-sdk.ts builds its client on import; no test talks to Beep
+process.env.BEEP_API_KEY = process.env.BEEP_API_KEY || 'localnet-test';
+
+const MOVE_PACKAGE_PATH = path.resolve(
+    path.dirname(fileURLToPath(import.meta.url)),
+    '../../../move/beeplancer'
+);
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface LocalnetContext {
+    client: SuiClient;
+    packageId: string;
+    adminCapId: string;
+    /** Signs escrow transactions (SUI_PRIVATE_KEY) and acts as escrow buyer */
+    platform: Ed25519Keypair;
+    /** Owns user pools */
+    owner: Ed25519Keypair;
+    /** Receives escrow releases and holds the pool AgentCapability */
+    agent: Ed25519Keypair;
+}
+
+// =============================================================================
+// SETUP
+// =============================================================================
+
+let context: Promise<LocalnetContext> | null = null;
+
+/**
+ * Why the integration suites cannot run here, or null if they can
+ */
+export async function getLocalnetUnavailableReason(
+    options: { database?: boolean } = {}
+): Promise<string | null> {
+    try {
+        await new SuiClient({ url: getFullnodeUrl('localnet') }).getChainIdentifier();
+    } catch {
+        return 'SUI localnet not reachable - run `sui start --with-faucet --force-regenesis`';
+    }
+
+    try {
+        execFileSync('sui', ['--version'], { stdio: 'ignore' });
+    } catch {
+        return 'sui CLI not found on PATH';
+    }
+
+    if (options.database) {
+        const { initializeDatabase } = await import('../../src/db/database.js');
+        try {
+            await initializeDatabase();
+        } catch {
+            return `Database '${process.env.DB_NAME}' not reachable - create it and run db:init and db:migrate`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Fund keypairs, publish the package and initialize the SUI service
+ * Shared by every suite in the process
+ */
+export function setupLocalnet(): Promise<LocalnetContext> {
+    if (!context) {
+        context = createContext();
+    }
+    return context;
+}
+
+async function createContext(): Promise<LocalnetContext> {
+    const client = new SuiClient({ url: getFullnodeUrl('localnet') });
+    const platform = new Ed25519Keypair();
+    const owner = new Ed25519Keypair();
+    const agent = new Ed25519Keypair();
+
+    for (const keypair of [platform, owner, agent]) {
+        await fund(client, keypair.toSuiAddress());
+    }
+
+    const { packageId, adminCapId } = await publishPackage(client, platform);
+
+    process.env.SUI_ESCROW_PACKAGE_ID = packageId;
+    process.env.SUI_POOL_PACKAGE_ID = packageId;
+    process.env.SUI_ADMIN_CAP_ID = adminCapId;
+    process.env.SUI_PRIVATE_KEY = platform.getSecretKey();
+    process.env.PLATFORM_WALLET_ADDRESS = platform.toSuiAddress();
+
+    const { initializeSuiClient } = await import('../../src/services/sui.js');
+    await initializeSuiClient();
+
+    return { client, packageId, adminCapId, platform, owner, agent };
+}
+
+/**
+ * Close what setup opened so the test process can exit
+ */
+export async function teardownLocalnet(): Promise<void> {
+    const { closeDatabase } = await import('../../src/db/database.js');
+    await closeDatabase();
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Split a fresh coin of `amountUsdc` off the signer's gas, owned by the signer
+ */
+export async function mintCoin(
+    ctx: LocalnetContext,
+    signer: Ed25519Keypair,
+    amountUsdc: number
+): Promise<string> {
+    const tx = new Transaction();
+    const [coin] = tx.splitCoins(tx.gas, [Math.floor(amountUsdc * 1_000_000)]);
+    tx.transferObjects([coin], signer.toSuiAddress());
+
+    const result = await execute(ctx.client, signer, tx);
+    const created = result.objectChanges?.find(
+        change => change.type === 'created' && change.objectType.startsWith('0x2::coin::Coin<')
+    );
+    if (created?.type !== 'created') {
+        throw new Error(`No coin created in ${result.digest}`);
+    }
+    return created.objectId;
+}
+
+/**
+ * Sign and execute a transaction built by a service (base64 bytes)
+ */
+export async function executeBuilt(
+    ctx: LocalnetContext,
+    signer: Ed25519Keypair,
+    txBase64: string
+): Promise<SuiTransactionBlockResponse> {
+    return execute(ctx.client, signer, Transaction.from(fromBase64(txBase64)));
+}
+
+/**
+ * Total balance of the test coin type, in "USDC"
+ */
+export async function getCoinBalance(ctx: LocalnetContext, address: string): Promise<number> {
+    const balance = await ctx.client.getBalance({ owner: address, coinType: COIN_TYPE });
+    return Number(balance.totalBalance) / 1_000_000;
+}
+
+/**
+ * The object of `typePrefix` created by a transaction
+ */
+export function findCreatedObject(result: SuiTransactionBlockResponse, typePrefix: string): string {
+    const created = result.objectChanges?.find(
+        change => change.type === 'created' && change.objectType.startsWith(typePrefix)
+    );
+    if (created?.type !== 'created') {
+        throw new Error(`No ${typePrefix} created in ${result.digest}`);
+    }
+    return created.objectId;
+}
+
+async function execute(
+    client: SuiClient,
+    signer: Ed25519Keypair,
+    tx: Transaction
+): Promise<SuiTransactionBlockResponse> {
+    const result = await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer,
+        options: { showEffects: true, showObjectChanges: true }
+    });
+
+    if (result.effects?.status.status !== 'success') {
+        throw new Error(`Transaction ${result.digest} failed: ${result.effects?.status.error}`);
+    }
+
+    await client.waitForTransaction({ digest: result.digest });
+    return result;
+}
+
+async function fund(client: SuiClient, address: string): Promise<void> {
+    await requestSuiFromFaucetV2({ host: getFaucetHost('localnet'), recipient: address });
+
+    // Wait for the faucet transfer to land
+    for (let attempt = 0; attempt < 30; attempt++) {
+        const { data } = await client.getCoins({ owner: address });
+        if (data.length > 0) return;
+        await new Promise(resolve => setTimeout(resolve, 500));
+    }
+    throw new Error(`Faucet did not fund ${address}`);
+}
+
+async function publishPackage(
+    client: SuiClient,
+    signer: Ed25519Keypair
+): Promise<{ packageId: string; adminCapId: string }> {
+    const output = execFileSync(
+        'sui',
+        ['move', 'build', '--dump-bytecode-as-base64', '--path', MOVE_PACKAGE_PATH],
+        { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }
+    );
+    const { modules, dependencies } = JSON.parse(output.trim().split('\n').pop()!);
+
+    const tx = new Transaction();
+    const [upgradeCap] = tx.publish({ modules, dependencies });
+    tx.transferObjects([upgradeCap], signer.toSuiAddress());
+
+    const result = await execute(client, signer, tx);
+    const published = result.objectChanges?.find(change => change.type === 'published');
+    if (published?.type !== 'published') {
+        throw new Error(`Package not published in ${result.digest}`);
+    }
+
+    return {
+        packageId: published.packageId,
+        adminCapId: findCreatedObject(result, `${published.packageId}::escrow::AdminCap`)
+    };
+}
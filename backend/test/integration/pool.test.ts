@@ -0,0 +1,135 @@
+/**
+ * User pool flow through services/pool.ts: create → deposit → agent spend → withdraw
+ * Checks the on-chain pool and the user_pools row after every step
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    setupLocalnet,
+    teardownLocalnet,
+    getLocalnetUnavailableReason,
+    mintCoin,
+    executeBuilt,
+    findCreatedObject,
+    LocalnetContext
+} from './harness.js';
+import {
+    buildCreatePoolTransaction,
+    recordPoolCreation,
+    buildDepositTransaction,
+    recordDeposit,
+    agentSpendFromPool,
+    buildWithdrawTransaction,
+    recordWithdrawal
+} from '../../src/services/pool.js';
+import { getOrCreateUser, getPoolByObjectId } from '../../src/db/queries.js';
+
+const unavailable = await getLocalnetUnavailableReason({ database: true });
+
+describe('user pool flow', { skip: unavailable ?? false }, () => {
+    let ctx: LocalnetContext;
+    let poolObjectId: string;
+
+    before(async () => {
+        ctx = await setupLocalnet();
+    });
+
+    after(async () => {
+        await teardownLocalnet();
+    });
+
+    async function getOnChainPool() {
+        const object = await ctx.client.getObject({ id: poolObjectId, options: { showContent: true } });
+        const fields = (object.data?.content as any)?.fields;
+        return {
+            balance: Number(fields.balance?.value ?? fields.balance) / 1_000_000,
+            totalDeposited: Number(fields.total_deposited) / 1_000_000,
+            totalSpent: Number(fields.total_spent) / 1_000_000
+        };
+    }
+
+    async function getDbPool() {
+        const pool = await getPoolByObjectId(poolObjectId);
+        assert.ok(pool, 'pool row missing');
+        return {
+            balance: Number(pool.balance_usdc),
+            totalDeposited: Number(pool.total_deposited),
+            totalSpent: Number(pool.total_spent)
+        };
+    }
+
+    it('creates a pool with an initial deposit', async () => {
+        const owner = await getOrCreateUser(ctx.owner.toSuiAddress());
+        const coinId = await mintCoin(ctx, ctx.owner, 10);
+
+        const txBytes = await buildCreatePoolTransaction(ctx.agent.toSuiAddress(), coinId, 4);
+        const result = await executeBuilt(ctx, ctx.owner, txBytes);
+        poolObjectId = findCreatedObject(result, `${ctx.packageId}::user_pool::UserPool<`);
+
+        await recordPoolCreation(
+            owner.id,
+            poolObjectId,
+            poolObjectId,
+            ctx.agent.toSuiAddress(),
+            4,
+            result.digest,
+            10
+        );
+
+        assert.deepEqual(await getOnChainPool(), { balance: 10, totalDeposited: 10, totalSpent: 0 });
+        assert.deepEqual(await getDbPool(), { balance: 10, totalDeposited: 10, totalSpent: 0 });
+    });
+
+    it('records a deposit', async () => {
+        const coinId = await mintCoin(ctx, ctx.owner, 5);
+
+        const result = await executeBuilt(ctx, ctx.owner, await buildDepositTransaction(poolObjectId, coinId));
+        await recordDeposit(poolObjectId, 5, result.digest);
+
+        assert.deepEqual(await getOnChainPool(), { balance: 15, totalDeposited: 15, totalSpent: 0 });
+        assert.deepEqual(await getDbPool(), { balance: 15, totalDeposited: 15, totalSpent: 0 });
+    });
+
+    it('lets the agent spend within its limit', async () => {
+        const spend = await agentSpendFromPool({
+            poolObjectId,
+            agentKeypair: ctx.agent,
+            amountUsdc: 3,
+            purpose: 'JOB-IT-POOL'
+        });
+        assert.equal(spend.success, true, spend.error);
+
+        const coin = await ctx.client.getObject({ id: spend.coinObjectId!, options: { showContent: true, showOwner: true } });
+        assert.equal((coin.data?.content as any)?.fields?.balance, '3000000');
+        assert.deepEqual(coin.data?.owner, { AddressOwner: ctx.agent.toSuiAddress() });
+
+        assert.deepEqual(await getOnChainPool(), { balance: 12, totalDeposited: 15, totalSpent: 3 });
+        assert.deepEqual(await getDbPool(), { balance: 12, totalDeposited: 15, totalSpent: 3 });
+    });
+
+    it('rejects an agent spend over the limit', async () => {
+        const spend = await agentSpendFromPool({
+            poolObjectId,
+            agentKeypair: ctx.agent,
+            amountUsdc: 5,
+            purpose: 'JOB-IT-POOL-OVER'
+        });
+        assert.equal(spend.success, false);
+
+        assert.deepEqual(await getOnChainPool(), { balance: 12, totalDeposited: 15, totalSpent: 3 });
+        assert.deepEqual(await getDbPool(), { balance: 12, totalDeposited: 15, totalSpent: 3 });
+    });
+
+    it('lets the owner withdraw', async () => {
+        const result = await executeBuilt(ctx, ctx.owner, await buildWithdrawTransaction(poolObjectId, 7));
+        await recordWithdrawal(poolObjectId, 7, result.digest);
+
+        const tx = await ctx.client.getTransactionBlock({ digest: result.digest, options: { showEvents: true } });
+        const withdrawn = tx.events?.find(event => event.type.endsWith('::user_pool::Withdrawn'));
+        assert.equal((withdrawn?.parsedJson as any)?.amount, '7000000');
+        assert.equal((withdrawn?.parsedJson as any)?.owner, ctx.owner.toSuiAddress());
+        assert.deepEqual(await getOnChainPool(), { balance: 5, totalDeposited: 15, totalSpent: 3 });
+        assert.deepEqual(await getDbPool(), { balance: 5, totalDeposited: 15, totalSpent: 3 });
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * How services/beep-webhook.ts checks the HMAC of a delivery over its
+ * timestamp and raw body
+ * Runs on hand-signed deliveries - no network or database needed
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+
+const SECRET = 'unit-test-webhook-secret';
+
+process.env.BEEP_WEBHOOK_SECRET = SECRET;
+process.env.BEEP_API_KEY = process.env.BEEP_API_KEY || 'unit-test';
+
+const { verifyWebhookSignature, WebhookError } = await import('../../src/services/beep-webhook.js');
+
+const BODY = Buffer.from(JSON.stringify({ type: 'invoice.paid', data: { uuid: 'invoice-uuid', status: 'paid' } }));
+
+function now(): string {
+    return String(Math.floor(Date.now() / 1000));
+}
+
+/**
+ * The x-beep-signature header Beep sends for a body and timestamp
+ */
+function sign(body: Buffer, timestamp: string, secret: string = SECRET): string {
+    return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+}
+
+/**
+ * Assert that a delivery is rejected with a 401 and the given message
+ */
+function assertRejected(verify: () => void, message: RegExp): void {
+    assert.throws(verify, (error: unknown) => {
+        assert.ok(error instanceof WebhookError);
+        assert.equal(error.statusCode, 401);
+        assert.match(error.message, message);
+        return true;
+    });
+}
+
+describe('webhook signatures', () => {
+    it('accepts a delivery signed over its timestamp and raw body', () => {
+        const timestamp = now();
+        assert.doesNotThrow(() => verifyWebhookSignature(BODY, sign(BODY, timestamp), timestamp));
+    });
+
+    it('accepts a signature without the sha256= prefix', () => {
+        const timestamp = now();
+        const signature = sign(BODY, timestamp).replace('sha256=', '');
+        assert.doesNotThrow(() => verifyWebhookSignature(BODY, signature, timestamp));
+    });
+
+    it('rejects a body changed after signing', () => {
+        const timestamp = now();
+        const tampered = Buffer.from(BODY.toString().replace('paid', 'expired'));
+        assertRejected(() => verifyWebhookSignature(tampered, sign(BODY, timestamp), timestamp), /Invalid webhook signature/);
+    });
+
+    it('rejects a signature over the same body re-serialized', () => {
+        const timestamp = now();
+        const reformatted = Buffer.from(JSON.stringify(JSON.parse(BODY.toString()), null, 2));
+        assertRejected(() => verifyWebhookSignature(reformatted, sign(BODY, timestamp), timestamp), /Invalid webhook signature/);
+    });
+
+    it('rejects a timestamp other than the signed one', () => {
+        const timestamp = now();
+        const other = String(Number(timestamp) - 1);
+        assertRejected(() => verifyWebhookSignature(BODY, sign(BODY, timestamp), other), /Invalid webhook signature/);
+    });
+
+    it('rejects a delivery signed with another secret', () => {
+        const timestamp = now();
+        assertRejected(() => verifyWebhookSignature(BODY, sign(BODY, timestamp, 'another-secret'), timestamp), /Invalid webhook signature/);
+    });
+
+    it('rejects a replayed delivery signed outside the tolerance', () => {
+        const timestamp = String(Math.floor(Date.now() / 1000) - 10 * 60);
+        assertRejected(() => verifyWebhookSignature(BODY, sign(BODY, timestamp), timestamp), /outside tolerance/);
+    });
+
+    it('rejects a delivery without signature headers', () => {
+        assertRejected(() => verifyWebhookSignature(BODY, undefined, now()), /Missing webhook signature/);
+        assertRejected(() => verifyWebhookSignature(BODY, sign(BODY, now()), undefined), /Missing webhook signature/);
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * How services/fees.ts computes a payout's fee and picks the schedule of an agent
+ * Runs on hand-built schedules and agents - no database needed
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Agent, FeeSchedule } from '../../src/db/queries.js';
+
+const { computeFee, resolveSchedule } = await import('../../src/services/fees.js');
+
+function schedule(id: number, fields: Partial<FeeSchedule>): FeeSchedule {
+    return {
+        id,
+        name: `Schedule ${id}`,
+        scope: 'default',
+        skill: null,
+        tier: null,
+        percent: 0,
+        flat_usdc: 0,
+        is_active: true,
+        ...fields
+    } as FeeSchedule;
+}
+
+function agent(fields: Partial<Agent>): Agent {
+    return { id: 1, user_id: 2, skills: [], fee_tier: null, ...fields } as Agent;
+}
+
+describe('computeFee', () => {
+    const fivePercent = schedule(1, { percent: 5, flat_usdc: 0.5 });
+
+    it('charges the percent and the flat part on the first payout', () => {
+        assert.equal(computeFee(fivePercent, 10, true), 1);
+    });
+
+    it('charges only the percent on later payouts', () => {
+        assert.equal(computeFee(fivePercent, 10, false), 0.5);
+    });
+
+    it('rounds the percent down to whole USDC units', () => {
+        assert.equal(computeFee(schedule(2, { percent: 2.5 }), 0.000099, false), 0.000002);
+        assert.equal(computeFee(schedule(3, { percent: 1 }), 0.000099, false), 0);
+    });
+
+    it('never charges more than the payout', () => {
+        assert.equal(computeFee(schedule(4, { percent: 10, flat_usdc: 5 }), 3, true), 3);
+    });
+});
+
+describe('resolveSchedule', () => {
+    const fallback = schedule(1, { scope: 'default', percent: 10 });
+    const design = schedule(2, { scope: 'skill', skill: 'Design', percent: 8 });
+    const writing = schedule(3, { scope: 'skill', skill: 'writing', percent: 4 });
+    const partner = schedule(4, { scope: 'tier', tier: 'partner', percent: 1 });
+    const schedules = [fallback, design, writing, partner];
+
+    it("prefers the schedule of the agent's fee tier", () => {
+        const picked = resolveSchedule(schedules, agent({ fee_tier: 'partner', skills: ['design'] }), 10, true);
+        assert.equal(picked?.id, partner.id);
+    });
+
+    it('falls back to the skills when the tier has no schedule', () => {
+        const picked = resolveSchedule(schedules, agent({ fee_tier: 'unknown', skills: ['design'] }), 10, true);
+        assert.equal(picked?.id, design.id);
+    });
+
+    it('matches skills case-insensitively and picks the cheapest', () => {
+        const picked = resolveSchedule(schedules, agent({ skills: ['DESIGN', 'Writing'] }), 10, true);
+        assert.equal(picked?.id, writing.id);
+    });
+
+    it('compares skill schedules by the fee they charge, flat part included', () => {
+        const flat = schedule(5, { scope: 'skill', skill: 'writing', percent: 0, flat_usdc: 2 });
+        const picked = resolveSchedule([design, flat], agent({ skills: ['design', 'writing'] }), 10, true);
+        assert.equal(picked?.id, design.id);
+        assert.equal(resolveSchedule([design, flat], agent({ skills: ['design', 'writing'] }), 10, false)?.id, flat.id);
+    });
+
+    it('uses the default schedule for agents without a match', () => {
+        assert.equal(resolveSchedule(schedules, agent({ skills: ['video'] }), 10, true)?.id, fallback.id);
+        assert.equal(resolveSchedule(schedules, null, 10, true)?.id, fallback.id);
+    });
+
+    it('charges nothing without a default schedule', () => {
+        assert.equal(resolveSchedule([design], agent({ skills: ['video'] }), 10, true), null);
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * The job status graph of services/job-lifecycle.ts: which moves are allowed,
+ * which states are final, and that every status can be reached
+ * Runs on the graph alone - no database needed
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Job, JobStatus } from '../../src/db/queries.js';
+
+const { JOB_TRANSITIONS, canTransition, assertTransition, isJobStatus, InvalidJobTransitionError } =
+    await import('../../src/services/job-lifecycle.js');
+
+const STATUSES = Object.keys(JOB_TRANSITIONS) as JobStatus[];
+
+function job(status: JobStatus): Job {
+    return { id: 1, status } as Job;
+}
+
+describe('JOB_TRANSITIONS', () => {
+    it('only leads to known statuses', () => {
+        for (const [from, targets] of Object.entries(JOB_TRANSITIONS)) {
+            for (const to of targets) {
+                assert.ok(isJobStatus(to), `${from} → ${to}`);
+            }
+        }
+    });
+
+    it('never moves a job to the status it is in', () => {
+        for (const status of STATUSES) {
+            assert.equal(canTransition(status, status), false, status);
+        }
+    });
+
+    it('reaches every status from a new offer', () => {
+        const reached = new Set<JobStatus>(['offered']);
+        const queue: JobStatus[] = ['offered'];
+        while (queue.length > 0) {
+            for (const to of JOB_TRANSITIONS[queue.shift()!]) {
+                if (!reached.has(to)) {
+                    reached.add(to);
+                    queue.push(to);
+                }
+            }
+        }
+        assert.deepEqual([...reached].sort(), [...STATUSES].sort());
+    });
+
+    it('ends jobs in paid_out or cancelled', () => {
+        const final = STATUSES.filter(status => JOB_TRANSITIONS[status].length === 0);
+        assert.deepEqual(final.sort(), ['cancelled', 'paid_out']);
+    });
+
+    it('never sends a funded job back to payment', () => {
+        for (const status of STATUSES.filter(s => s !== 'offered' && s !== 'unpaid')) {
+            assert.equal(canTransition(status, 'unpaid'), false, status);
+            assert.equal(canTransition(status, 'offered'), false, status);
+        }
+    });
+});
+
+describe('canTransition', () => {
+    it('allows the happy path', () => {
+        const path: JobStatus[] = ['offered', 'unpaid', 'escrowed', 'working', 'delivered', 'release_pending', 'completed', 'paid_out'];
+        for (let i = 1; i < path.length; i++) {
+            assert.ok(canTransition(path[i - 1], path[i]), `${path[i - 1]} → ${path[i]}`);
+        }
+    });
+
+    it('does not skip payment or delivery', () => {
+        assert.equal(canTransition('unpaid', 'working'), false);
+        assert.equal(canTransition('unpaid', 'delivered'), false);
+        assert.equal(canTransition('escrowed', 'completed'), false);
+        assert.equal(canTransition('working', 'completed'), false);
+    });
+
+    it('waits for the chain in the pending states', () => {
+        assert.deepEqual([...JOB_TRANSITIONS.cancel_pending], ['cancelled']);
+        assert.deepEqual([...JOB_TRANSITIONS.release_pending].sort(), ['completed', 'working']);
+    });
+
+    it('only disputes jobs that were paid and not yet settled', () => {
+        const disputable = STATUSES.filter(status => canTransition(status, 'disputed'));
+        assert.deepEqual(disputable.sort(), ['delivered', 'escrowed', 'working']);
+    });
+
+    it('settles a dispute by resuming, completing or cancelling the job', () => {
+        assert.deepEqual([...JOB_TRANSITIONS.disputed].sort(), ['cancelled', 'completed', 'working']);
+    });
+
+    it('does not cancel a completed job', () => {
+        assert.equal(canTransition('completed', 'cancelled'), false);
+        assert.equal(canTransition('paid_out', 'cancelled'), false);
+    });
+});
+
+describe('assertTransition', () => {
+    it('passes an allowed move', () => {
+        assert.doesNotThrow(() => assertTransition(job('delivered'), 'release_pending'));
+    });
+
+    it('names the job and both statuses of a refused move', () => {
+        assert.throws(() => assertTransition(job('cancelled'), 'working'), (error: unknown) => {
+            assert.ok(error instanceof InvalidJobTransitionError);
+            assert.equal(error.jobId, 1);
+            assert.equal(error.from, 'cancelled');
+            assert.equal(error.to, 'working');
+            return true;
+        });
+    });
+});
+
+describe('isJobStatus', () => {
+    it('accepts every status of the graph', () => {
+        for (const status of STATUSES) {
+            assert.ok(isJobStatus(status));
+        }
+    });
+
+    it('rejects anything else', () => {
+        assert.equal(isJobStatus('archived'), false);
+        assert.equal(isJobStatus('toString'), false);
+        assert.equal(isJobStatus(undefined), false);
+        assert.equal(isJobStatus(3), false);
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * How services/ledger.ts posts the money of a job: every flow leaves the
+ * ledger balanced and the job's escrow empty
+ * The pg pool answers from an in-memory ledger_entries table - no database needed
+ */
+
+import { describe, it, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import pg from 'pg';
+import type { AgentPayout, Job, LedgerAccount } from '../../src/db/queries.js';
+
+const { recordJobFunding, recordPayoutSent, recordEscrowReturned, recordBuyerRefund, getLedgerReport, LEDGER_ACCOUNTS } =
+    await import('../../src/services/ledger.js');
+const { initializeDatabase, closeDatabase } = await import('../../src/db/database.js');
+
+interface StoredEntry {
+    idempotency_key: string;
+    debit_account: LedgerAccount;
+    credit_account: LedgerAccount;
+    amount_usdc: number;
+    job_id: number | null;
+    created_at: Date;
+}
+
+let entries: StoredEntry[] = [];
+
+/**
+ * The queries ledger.ts runs, against entries
+ */
+async function fakeQuery(text: string, params: any[] = []) {
+    if (text.includes('INSERT INTO ledger_entries')) {
+        const [key, entryType, debit, credit, amount, jobId] = params;
+        if (entries.some(e => e.idempotency_key === key)) {
+            return { rows: [] };
+        }
+        const row = { idempotency_key: key, entry_type: entryType, debit_account: debit, credit_account: credit, amount_usdc: amount, job_id: jobId, created_at: new Date() };
+        entries.push(row);
+        return { rows: [row] };
+    }
+    if (text.includes('AS balance')) {
+        const own = entries.filter(e => e.job_id === params[0]);
+        const sum = (list: StoredEntry[]) => list.reduce((total, e) => total + e.amount_usdc, 0);
+        return { rows: [{ balance: sum(own.filter(e => e.debit_account === 'escrow')) - sum(own.filter(e => e.credit_account === 'escrow')) }] };
+    }
+    if (text.includes('GROUP BY account')) {
+        const [from, to] = params as [Date | null, Date];
+        const totals = new Map<LedgerAccount, { account: LedgerAccount; debit_usdc: number; credit_usdc: number }>();
+        for (const e of entries.filter(e => (!from || e.created_at >= from) && e.created_at < to)) {
+            for (const [account, side] of [[e.debit_account, 'debit_usdc'], [e.credit_account, 'credit_usdc']] as const) {
+                const row = totals.get(account) ?? { account, debit_usdc: 0, credit_usdc: 0 };
+                row[side] += e.amount_usdc;
+                totals.set(account, row);
+            }
+        }
+        return { rows: [...totals.values()] };
+    }
+    return { rows: [] };
+}
+
+/**
+ * Each account's balance on its normal side
+ */
+function balances(): Record<LedgerAccount, number> {
+    const result = { platform_wallet: 0, escrow: 0, buyer_funds: 0, fee_revenue: 0 };
+    for (const e of entries) {
+        result[e.debit_account] += LEDGER_ACCOUNTS[e.debit_account] === 'debit' ? e.amount_usdc : -e.amount_usdc;
+        result[e.credit_account] += LEDGER_ACCOUNTS[e.credit_account] === 'credit' ? e.amount_usdc : -e.amount_usdc;
+    }
+    for (const account of Object.keys(result) as LedgerAccount[]) {
+        result[account] = Math.round(result[account] * 1e6) / 1e6;
+    }
+    return result;
+}
+
+/**
+ * What the platform holds equals what it owes buyers plus what it earned
+ */
+function assertBalanced(): void {
+    const b = balances();
+    assert.equal(Math.round((b.platform_wallet + b.escrow) * 1e6), Math.round((b.buyer_funds + b.fee_revenue) * 1e6));
+}
+
+function job(fields: Partial<Job> = {}): Job {
+    return { id: 1, amount_usdc: 10, funding_source: 'buyer', parent_job_id: null, beep_invoice_id: 'invoice-uuid', ...fields } as Job;
+}
+
+function payout(fields: Partial<AgentPayout>): AgentPayout {
+    return {
+        id: 1,
+        job_id: 1,
+        agent_id: 3,
+        idempotency_key: 'job:1:release',
+        method: 'escrow',
+        amount_usdc: 0,
+        fee_usdc: 0,
+        fee_schedule_id: null,
+        tx_digest: 'tx',
+        ...fields
+    } as AgentPayout;
+}
+
+before(async () => {
+    mock.method(pg.Pool.prototype, 'connect', async () => ({ query: fakeQuery, release() {} }));
+    mock.method(pg.Pool.prototype, 'query', fakeQuery);
+    await initializeDatabase();
+});
+
+after(async () => {
+    await closeDatabase();
+    mock.restoreAll();
+});
+
+beforeEach(() => {
+    entries = [];
+});
+
+describe('ledger postings', () => {
+    it('posts every entry as a debit and a credit of the same amount', async () => {
+        await recordJobFunding(job(), 'tx-lock');
+        assert.deepEqual(balances(), { platform_wallet: 0, escrow: 10, buyer_funds: 10, fee_revenue: 0 });
+        assertBalanced();
+    });
+
+    it('balances a release with a fee and empties the escrow', async () => {
+        await recordJobFunding(job(), 'tx-lock');
+        await recordPayoutSent(payout({ amount_usdc: 9.5, fee_usdc: 0.5 }), job());
+
+        assert.deepEqual(balances(), { platform_wallet: 0.5, escrow: 0, buyer_funds: 0, fee_revenue: 0.5 });
+        assertBalanced();
+    });
+
+    it('balances a partial release whose unused budget is reclaimed', async () => {
+        await recordJobFunding(job(), 'tx-lock');
+        await recordPayoutSent(payout({ amount_usdc: 5.7, fee_usdc: 0.3 }), job());
+        await recordEscrowReturned(1, 'reclaim', 'tx-reclaim');
+
+        const b = balances();
+        assert.equal(b.escrow, 0);
+        assert.equal(b.platform_wallet, 4.3);
+        assertBalanced();
+    });
+
+    it('balances a cancelled job refunded to its buyer', async () => {
+        await recordJobFunding(job(), 'tx-lock');
+        await recordEscrowReturned(1, 'refund', 'tx-cancel');
+        await recordBuyerRefund(job(), 'job:1:buyer_refund', 10, 'tx-refund');
+
+        assert.deepEqual(balances(), { platform_wallet: 0, escrow: 0, buyer_funds: 0, fee_revenue: 0 });
+        assertBalanced();
+    });
+
+    it('balances a transfer payout of a job without an escrow', async () => {
+        await recordPayoutSent(payout({ method: 'transfer', idempotency_key: 'job:1:payout', amount_usdc: 9, fee_usdc: 1 }), job());
+
+        assert.deepEqual(balances(), { platform_wallet: 1, escrow: 0, buyer_funds: 0, fee_revenue: 1 });
+        assertBalanced();
+    });
+
+    it('posts no buyer charge for a sub-job fronted by its parent', async () => {
+        await recordJobFunding(job({ id: 2, funding_source: 'parent', parent_job_id: 1 }), 'tx-lock');
+
+        assert.deepEqual(balances(), { platform_wallet: -10, escrow: 10, buyer_funds: 0, fee_revenue: 0 });
+        assertBalanced();
+    });
+
+    it('posts a movement reported twice only once', async () => {
+        await recordJobFunding(job(), 'tx-lock');
+        await recordJobFunding(job(), 'tx-lock');
+        await recordEscrowReturned(1, 'refund', 'tx-cancel');
+        await recordEscrowReturned(1, 'refund', 'tx-cancel');
+
+        assert.equal(entries.length, 3);
+        assertBalanced();
+    });
+
+    it('reports the period as balanced', async () => {
+        const from = new Date(Date.now() - 1000);
+        await recordJobFunding(job(), 'tx-lock');
+        await recordPayoutSent(payout({ amount_usdc: 9.5, fee_usdc: 0.5 }), job());
+
+        const report = await getLedgerReport(from, new Date(Date.now() + 1000));
+        assert.equal(report.totals.balanced, true);
+        assert.equal(report.totals.debitUsdc, 30.5);
+        assert.equal(report.totals.creditUsdc, 30.5);
+        assert.equal(report.accounts.find(a => a.account === 'fee_revenue')?.closingUsdc, 0.5);
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * How services/payment-scanner.ts judges a transfer to the merchant address:
+ * exact, short, over, paid twice, paid in another coin
+ * Runs on hand-built transaction responses - no network or database needed
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+
+const USDC = '0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC';
+const SUI = '0x2::sui::SUI';
+const MERCHANT = '0x' + 'ab'.repeat(32);
+const BUYER = '0x' + 'cd'.repeat(32);
+
+// The scanner reads its coin type and tolerances when it is loaded
+process.env.BEEP_USDC_COIN_TYPE = USDC;
+process.env.PAYMENT_UNDERPAY_TOLERANCE_USDC = '0.01';
+process.env.PAYMENT_OVERPAY_TOLERANCE_USDC = '0.05';
+process.env.BEEP_API_KEY = process.env.BEEP_API_KEY || 'unit-test';
+
+const { evaluatePayment } = await import('../../src/services/payment-scanner.js');
+
+/**
+ * A successful transfer of `units` of a coin from the buyer to the merchant
+ */
+function transfer(units: number, coinType: string = USDC): SuiTransactionBlockResponse {
+    return {
+        digest: `tx-${coinType}-${units}`,
+        effects: { status: { status: 'success' } },
+        balanceChanges: [
+            { owner: { AddressOwner: BUYER }, coinType, amount: String(-units) },
+            { owner: { AddressOwner: MERCHANT }, coinType, amount: String(units) }
+        ]
+    } as unknown as SuiTransactionBlockResponse;
+}
+
+describe('payment scanner amounts', () => {
+    it('accepts the exact amount', () => {
+        const result = evaluatePayment(transfer(5_000_000), MERCHANT, 5, false);
+        assert.equal(result.outcome, 'exact');
+        assert.equal(result.amountUsdc, 5);
+        assert.equal(result.coinType, USDC);
+    });
+
+    it('accepts a shortfall within the tolerance', () => {
+        const result = evaluatePayment(transfer(4_990_000), MERCHANT, 5, false);
+        assert.equal(result.outcome, 'within_tolerance');
+    });
+
+    it('rejects an underpayment beyond the tolerance', () => {
+        const result = evaluatePayment(transfer(4_500_000), MERCHANT, 5, false);
+        assert.equal(result.outcome, 'underpaid');
+        assert.equal(result.amountUsdc, 4.5);
+    });
+
+    it('accepts an excess within the tolerance', () => {
+        const result = evaluatePayment(transfer(5_050_000), MERCHANT, 5, false);
+        assert.equal(result.outcome, 'within_tolerance');
+    });
+
+    it('flags an overpayment beyond the tolerance', () => {
+        const result = evaluatePayment(transfer(6_000_000), MERCHANT, 5, false);
+        assert.equal(result.outcome, 'overpaid');
+        assert.equal(result.amountUsdc, 6);
+    });
+
+    it('only counts what the merchant received', () => {
+        const block = transfer(5_000_000);
+        block.balanceChanges!.push({ owner: { AddressOwner: BUYER }, coinType: USDC, amount: '1000000' });
+        assert.equal(evaluatePayment(block, MERCHANT, 5, false).outcome, 'exact');
+    });
+});
+
+describe('payment scanner duplicates', () => {
+    it('records a second full payment as a duplicate', () => {
+        const result = evaluatePayment(transfer(5_000_000), MERCHANT, 5, true);
+        assert.equal(result.outcome, 'duplicate');
+        assert.equal(result.amountUsdc, 5);
+    });
+
+    it('records a second overpayment as a duplicate', () => {
+        assert.equal(evaluatePayment(transfer(6_000_000), MERCHANT, 5, true).outcome, 'duplicate');
+    });
+
+    it('keeps an underpayment after the job was paid as underpaid', () => {
+        assert.equal(evaluatePayment(transfer(1_000_000), MERCHANT, 5, true).outcome, 'underpaid');
+    });
+});
+
+describe('payment scanner coin types', () => {
+    it('rejects a payment in another coin', () => {
+        const result = evaluatePayment(transfer(5_000_000, SUI), MERCHANT, 5, false);
+        assert.equal(result.outcome, 'wrong_coin');
+        assert.equal(result.amountUsdc, 0);
+        assert.equal(result.coinType, '0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI');
+    });
+});
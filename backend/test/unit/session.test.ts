@@ -0,0 +1,139 @@
+/**
+ * How services/session.ts signs, verifies, expires and rotates session tokens
+ * The pg pool answers from an in-memory refresh token table - no database needed
+ */
+
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import pg from 'pg';
+
+const SECRET = 'unit-test-session-secret';
+const USER = { id: 7, wallet_address: '0x' + 'ab'.repeat(32), role: 'buyer' };
+
+process.env.SESSION_SECRET = SECRET;
+
+const { verifyAccessToken, refreshSession, AuthError } = await import('../../src/services/session.js');
+const { initializeDatabase, closeDatabase } = await import('../../src/db/database.js');
+const { createRefreshToken } = await import('../../src/db/queries.js');
+
+interface StoredToken {
+    user_id: number;
+    token_hash: string;
+    expires_at: Date;
+    revoked_at: Date | null;
+}
+
+const refreshTokens: StoredToken[] = [];
+
+/**
+ * The queries session.ts runs, against refreshTokens and USER
+ */
+async function fakeQuery(text: string, params: any[] = []) {
+    if (text.includes('INSERT INTO auth_refresh_tokens')) {
+        const [userId, tokenHash, expiresAt] = params;
+        const row = { user_id: userId, token_hash: tokenHash, expires_at: expiresAt, revoked_at: null };
+        refreshTokens.push(row);
+        return { rows: [row] };
+    }
+    if (text.includes('UPDATE auth_refresh_tokens')) {
+        const row = refreshTokens.find(t => t.token_hash === params[0] && !t.revoked_at && t.expires_at.getTime() > Date.now());
+        if (row) {
+            row.revoked_at = new Date();
+        }
+        return { rows: row ? [row] : [] };
+    }
+    if (text.includes('FROM users')) {
+        return { rows: params[0] === USER.id ? [USER] : [] };
+    }
+    return { rows: [] };
+}
+
+/**
+ * An access token signed with the session secret
+ */
+function signToken(claims: object, secret: string = SECRET): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const data = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+    return `${data}.${crypto.createHmac('sha256', secret).update(data).digest('base64url')}`;
+}
+
+function accessClaims(expiresInSeconds: number): object {
+    const now = Math.floor(Date.now() / 1000);
+    return { sub: String(USER.id), wallet: USER.wallet_address, role: USER.role, typ: 'access', iat: now, exp: now + expiresInSeconds };
+}
+
+/**
+ * A refresh token stored the way login stores one
+ */
+async function storeRefreshToken(): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const hash = crypto.createHash('sha256').update(token).digest('hex');
+    await createRefreshToken(USER.id, hash, new Date(Date.now() + 60_000));
+    return token;
+}
+
+before(async () => {
+    mock.method(pg.Pool.prototype, 'connect', async () => ({ query: fakeQuery, release() {} }));
+    mock.method(pg.Pool.prototype, 'query', fakeQuery);
+    await initializeDatabase();
+});
+
+after(async () => {
+    await closeDatabase();
+    mock.restoreAll();
+});
+
+describe('access tokens', () => {
+    it('verifies a token signed with the session secret', () => {
+        const claims = verifyAccessToken(signToken(accessClaims(60)));
+        assert.deepEqual(claims, { userId: USER.id, walletAddress: USER.wallet_address, role: USER.role });
+    });
+
+    it('rejects a token signed with another secret', () => {
+        assert.throws(() => verifyAccessToken(signToken(accessClaims(60), 'another-secret')), AuthError);
+    });
+
+    it('rejects a token whose claims were changed', () => {
+        const [header, , signature] = signToken(accessClaims(60)).split('.');
+        const forged = Buffer.from(JSON.stringify({ ...accessClaims(60), role: 'admin' })).toString('base64url');
+        assert.throws(() => verifyAccessToken(`${header}.${forged}.${signature}`), /Invalid session token/);
+    });
+
+    it('rejects an expired token', () => {
+        assert.throws(() => verifyAccessToken(signToken(accessClaims(-1))), /Session expired/);
+    });
+
+    it('rejects a token that is not an access token', () => {
+        assert.throws(() => verifyAccessToken(signToken({ ...accessClaims(60), typ: 'refresh' })), /Invalid session token/);
+    });
+
+    it('rejects a malformed token', () => {
+        assert.throws(() => verifyAccessToken('not-a-token'), /Malformed session token/);
+    });
+});
+
+describe('refresh tokens', () => {
+    it('issues a session whose access token verifies', async () => {
+        const session = await refreshSession(await storeRefreshToken());
+
+        assert.equal(session.user.id, USER.id);
+        assert.equal(verifyAccessToken(session.accessToken).userId, USER.id);
+        assert.ok(session.accessTokenExpiresAt < session.refreshTokenExpiresAt);
+    });
+
+    it('rotates the refresh token on every use', async () => {
+        const first = await storeRefreshToken();
+        const session = await refreshSession(first);
+
+        assert.notEqual(session.refreshToken, first);
+        await assert.rejects(refreshSession(first), /Refresh token invalid or expired/);
+
+        const next = await refreshSession(session.refreshToken);
+        assert.equal(next.user.id, USER.id);
+    });
+
+    it('rejects an unknown refresh token', async () => {
+        await assert.rejects(refreshSession('unknown'), AuthError);
+    });
+});
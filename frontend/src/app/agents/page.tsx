@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import PaymentModal from '@/components/PaymentModal';
+import { authFetch } from '@/hooks/useSession';
 
 interface Agent {
   id: number;
@@ -40,7 +41,7 @@ export default function AgentsPage() {
       const res = await fetch('http://localhost:3000/api/v1/agents');
       const data = await res.json();
       if (!data.error) {
-        setAgents(data.data.agents);
+        setAgents(data.data.items);
       }
     } catch (error) {
       console.error('Failed to fetch agents:', error);
@@ -62,20 +63,17 @@ export default function AgentsPage() {
     if (!selectedAgent || !currentAccount) return;
 
     try {
-      // Mock user 
-      const buyerId = 1;
-
       console.log('[AgentsPage] Creating job for agent:', selectedAgent.id);
 
       // Create job with selected agent
-      const response = await fetch('http://localhost:3000/api/v1/jobs', {
+      // The signed-in wallet is the buyer
+      const response = await authFetch('http://localhost:3000/api/v1/jobs', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           title: jobDetails.title,
           description: jobDetails.description,
           requirements: `Skills: ${selectedAgent.skills.join(', ')}`,
-          buyerId: buyerId,
           agentId: selectedAgent.userId,
           amountUsdc: Number(selectedAgent.hourlyRate).toFixed(2) // Format to 2 decimals
         })
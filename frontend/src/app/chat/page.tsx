@@ -4,12 +4,60 @@ import { useCurrentAccount } from '@mysten/dapp-kit';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import PaymentModal from '@/components/PaymentModal';
+import { useSession, authFetch } from '@/hooks/useSession';
+import { useLiveEvents } from '@/hooks/useLiveEvents';
+
+interface MatchFactor {
+  factor: 'skills' | 'price' | 'rating' | 'history' | 'availability';
+  score: number;
+  weight: number;
+  explanation: string;
+}
+
+interface ShortlistedAgent {
+  agentId: number;
+  userId: number;
+  displayName: string | null;
+  walletAddress: string;
+  hourlyRate: number | null;
+  rating: number;
+  jobsCompleted: number;
+  rank: number;
+  score: number;
+  factors: MatchFactor[];
+}
+
+interface JobSpec {
+  summary: string;
+  skills: string[];
+  estimatedBudget: number;
+  complexity: 'low' | 'medium' | 'high';
+  scope: string;
+  deadline: string | null;
+  budgetCeiling: number | null;
+}
+
+interface ThreadMessage {
+  id: number;
+  role: 'user' | 'agent';
+  kind: 'message' | 'question' | 'proposal' | 'confirmation';
+  content: string;
+  created_at: string;
+}
+
+interface SpecForm {
+  summary: string;
+  scope: string;
+  skills: string;
+  estimatedBudget: string;
+  deadline: string;
+}
 
 interface ChatMessage {
   id: number;
   message: string;
   description: string;
-  status: 'pending' | 'processed' | 'failed';
+  status: 'pending' | 'clarifying' | 'awaiting_confirmation' | 'awaiting_selection' | 'processed' | 'failed';
   createdAt: string;
   updated_at: string;
   jobId?: number;
@@ -21,50 +69,50 @@ interface ChatMessage {
   error_message?: string;
   agent_name?: string;
   agent_rating?: string;
+  shortlist?: ShortlistedAgent[];
+  messages?: ThreadMessage[];
+  analysis?: JobSpec | null;
 }
 
+const toSpecForm = (spec: JobSpec): SpecForm => ({
+  summary: spec.summary,
+  scope: spec.scope,
+  skills: spec.skills.join(', '),
+  estimatedBudget: String(spec.estimatedBudget),
+  deadline: spec.deadline ?? '',
+});
+
 export default function ChatPage() {
   const currentAccount = useCurrentAccount();
   const router = useRouter();
-  const [user, setUser] = useState<any>(null);
+  const { user } = useSession();
   const [message, setMessage] = useState('');
   const [loading, setLoading] = useState(false);
   const [requests, setRequests] = useState<ChatMessage[]>([]);
   const [selectedJob, setSelectedJob] = useState<any>(null);
+  const [choosing, setChoosing] = useState<string | null>(null);
+  const [replies, setReplies] = useState<Record<number, string>>({});
+  const [specForms, setSpecForms] = useState<Record<number, SpecForm>>({});
+  const [busyRequest, setBusyRequest] = useState<number | null>(null);
 
   useEffect(() => {
     if (!currentAccount) {
       router.push('/');
-      return;
     }
-    fetchUser();
   }, [currentAccount]);
 
   useEffect(() => {
     if (user?.id) {
       fetchRequests();
-      const interval = setInterval(fetchRequests, 5000); // Poll every 5s
-      return () => clearInterval(interval);
     }
   }, [user]);
 
-  const fetchUser = async () => {
-    if (!currentAccount) return;
-
-    try {
-      const res = await fetch('http://localhost:3000/api/v1/users/auth', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ walletAddress: currentAccount.address }),
-      });
-      const data = await res.json();
-      if (!data.error) {
-        setUser(data.data.user);
-      }
-    } catch (error) {
-      console.error('Failed to fetch user:', error);
+  // Personal Agent replies and job status changes are pushed by the backend
+  useLiveEvents((event) => {
+    if (event.type === 'ready' || event.type === 'request.progress' || event.type === 'job.status') {
+      fetchRequests();
     }
-  };
+  }, !!user?.id);
 
   const fetchRequests = async () => {
     if (!user?.id) return;
@@ -86,11 +134,10 @@ export default function ChatPage() {
 
     setLoading(true);
     try {
-      const res = await fetch('http://localhost:3000/api/v1/chat/request', {
+      const res = await authFetch('http://localhost:3000/api/v1/chat/request', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId: user.id,
           message: message.trim(),
         }),
       });
@@ -107,6 +154,96 @@ export default function ChatPage() {
     }
   };
 
+  const sendReply = async (requestId: number) => {
+    const reply = replies[requestId]?.trim();
+    if (!reply) return;
+
+    setBusyRequest(requestId);
+    try {
+      const res = await authFetch(`http://localhost:3000/api/v1/chat/request/${requestId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: reply }),
+      });
+
+      const data = await res.json();
+      if (data.error) {
+        alert(data.message);
+      } else {
+        setReplies((prev) => ({ ...prev, [requestId]: '' }));
+        setSpecForms((prev) => {
+          const { [requestId]: _, ...rest } = prev;
+          return rest;
+        });
+      }
+      await fetchRequests();
+    } catch (error) {
+      console.error('Failed to send reply:', error);
+    } finally {
+      setBusyRequest(null);
+    }
+  };
+
+  const confirmSpec = async (req: ChatMessage) => {
+    if (!req.analysis) return;
+
+    const form = specForms[req.id];
+    const spec = form ? {
+      summary: form.summary,
+      scope: form.scope,
+      skills: form.skills.split(',').map((skill) => skill.trim()).filter(Boolean),
+      estimatedBudget: Number(form.estimatedBudget),
+      deadline: form.deadline.trim() || null,
+    } : {};
+
+    setBusyRequest(req.id);
+    try {
+      const res = await authFetch(`http://localhost:3000/api/v1/chat/request/${req.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ spec }),
+      });
+
+      const data = await res.json();
+      if (data.error) {
+        alert(data.message);
+      }
+      await fetchRequests();
+    } catch (error) {
+      console.error('Failed to confirm spec:', error);
+    } finally {
+      setBusyRequest(null);
+    }
+  };
+
+  const updateSpecForm = (req: ChatMessage, field: keyof SpecForm, value: string) => {
+    setSpecForms((prev) => ({
+      ...prev,
+      [req.id]: { ...(prev[req.id] ?? toSpecForm(req.analysis!)), [field]: value },
+    }));
+  };
+
+  const chooseAgent = async (requestId: number, agentId: number) => {
+    setChoosing(`${requestId}:${agentId}`);
+    try {
+      const res = await authFetch(`http://localhost:3000/api/v1/chat/request/${requestId}/select`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ agentId }),
+      });
+
+      const data = await res.json();
+      if (data.error) {
+        alert(data.message);
+      }
+      await fetchRequests();
+    } catch (error) {
+      console.error('Failed to choose agent:', error);
+    } finally {
+      setChoosing(null);
+    }
+  };
+
   if (!user) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
@@ -145,15 +282,28 @@ export default function ChatPage() {
           ) : (
             requests.slice().reverse().map((req) => (
               <div key={req.id} className="space-y-3">
-                {/* User Message */}
-                <div className="flex justify-end">
-                  <div className="bg-indigo-600 text-white rounded-2xl px-4 py-3 max-w-xl shadow-sm">
-                    <p>{req.description}</p>
-                    <p className="text-xs text-indigo-200 mt-1">
-                      {new Date(req.createdAt).toLocaleTimeString()}
-                    </p>
-                  </div>
-                </div>
+                {/* Thread */}
+                {(req.messages?.length ? req.messages : [{ id: 0, role: 'user' as const, kind: 'message' as const, content: req.description, created_at: req.createdAt }]).map((msg) => (
+                  msg.role === 'user' ? (
+                    <div key={msg.id} className="flex justify-end">
+                      <div className="bg-indigo-600 text-white rounded-2xl px-4 py-3 max-w-xl shadow-sm">
+                        <p className="whitespace-pre-line">{msg.kind === 'confirmation' ? `✅ ${msg.content}` : msg.content}</p>
+                        <p className="text-xs text-indigo-200 mt-1">
+                          {new Date(msg.created_at).toLocaleTimeString()}
+                        </p>
+                      </div>
+                    </div>
+                  ) : (
+                    <div key={msg.id} className="flex justify-start">
+                      <div className="bg-white border border-slate-200 rounded-2xl px-4 py-3 max-w-xl shadow-sm">
+                        <p className="text-slate-700 whitespace-pre-line">{msg.content}</p>
+                        <p className="text-xs text-slate-400 mt-1">
+                          {new Date(msg.created_at).toLocaleTimeString()}
+                        </p>
+                      </div>
+                    </div>
+                  )
+                ))}
 
                 {/* Agent Response */}
                 <div className="flex justify-start">
@@ -161,23 +311,170 @@ export default function ChatPage() {
                     {req.status === 'pending' && (
                       <div className="flex items-center space-x-2">
                         <div className="animate-spin text-indigo-500">⏳</div>
-                        <p className="text-slate-600">Analyzing request & searching for agents...</p>
+                        <p className="text-slate-600">Reading your request...</p>
+                      </div>
+                    )}
+
+                    {req.status === 'awaiting_confirmation' && req.analysis && (() => {
+                      const form = specForms[req.id] ?? toSpecForm(req.analysis);
+                      return (
+                        <div>
+                          <div className="flex items-center space-x-2 mb-3 pb-2 border-b border-slate-100">
+                            <span className="text-xl">📝</span>
+                            <div>
+                              <p className="font-bold text-slate-900">Proposed Job</p>
+                              <p className="text-xs text-slate-500">Edit anything, then confirm to see matching agents</p>
+                            </div>
+                          </div>
+
+                          <div className="space-y-2 text-sm">
+                            <input
+                              value={form.summary}
+                              onChange={(e) => updateSpecForm(req, 'summary', e.target.value)}
+                              className="w-full px-3 py-2 rounded-lg border border-slate-200 text-slate-900 font-medium"
+                            />
+                            <textarea
+                              value={form.scope}
+                              onChange={(e) => updateSpecForm(req, 'scope', e.target.value)}
+                              rows={3}
+                              className="w-full px-3 py-2 rounded-lg border border-slate-200 text-slate-900"
+                            />
+                            <div className="grid grid-cols-3 gap-2">
+                              <label className="col-span-3 text-xs text-slate-500">
+                                Skills
+                                <input
+                                  value={form.skills}
+                                  onChange={(e) => updateSpecForm(req, 'skills', e.target.value)}
+                                  className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-900"
+                                />
+                              </label>
+                              <label className="text-xs text-slate-500">
+                                Budget (USDC)
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={form.estimatedBudget}
+                                  onChange={(e) => updateSpecForm(req, 'estimatedBudget', e.target.value)}
+                                  className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-900"
+                                />
+                              </label>
+                              <label className="col-span-2 text-xs text-slate-500">
+                                Deadline
+                                <input
+                                  value={form.deadline}
+                                  onChange={(e) => updateSpecForm(req, 'deadline', e.target.value)}
+                                  placeholder="e.g. within 3 days"
+                                  className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-900"
+                                />
+                              </label>
+                            </div>
+                            {req.analysis.budgetCeiling !== null && (
+                              <p className="text-xs text-slate-500">Your budget ceiling: ${req.analysis.budgetCeiling} USDC</p>
+                            )}
+                          </div>
+
+                          <button
+                            onClick={() => confirmSpec(req)}
+                            disabled={busyRequest !== null}
+                            className="mt-3 w-full py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-bold disabled:opacity-50"
+                          >
+                            {busyRequest === req.id ? 'Confirming...' : 'Confirm & Find Agents'}
+                          </button>
+                        </div>
+                      );
+                    })()}
+
+                    {(req.status === 'clarifying' || req.status === 'awaiting_confirmation') && (
+                      <div className={req.status === 'awaiting_confirmation' ? 'mt-3 pt-3 border-t border-slate-100' : ''}>
+                        <p className="text-xs text-slate-500 mb-2">
+                          {req.status === 'clarifying' ? 'Answer the questions above to continue' : 'Or tell the agent what to change'}
+                        </p>
+                        <div className="flex space-x-2">
+                          <input
+                            value={replies[req.id] ?? ''}
+                            onChange={(e) => setReplies((prev) => ({ ...prev, [req.id]: e.target.value }))}
+                            onKeyDown={(e) => e.key === 'Enter' && sendReply(req.id)}
+                            placeholder="Your reply..."
+                            className="flex-1 px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-900"
+                            disabled={busyRequest !== null}
+                          />
+                          <button
+                            onClick={() => sendReply(req.id)}
+                            disabled={busyRequest !== null || !replies[req.id]?.trim()}
+                            className="px-4 py-2 bg-slate-800 text-white rounded-lg text-sm font-bold disabled:opacity-50"
+                          >
+                            Reply
+                          </button>
+                        </div>
                       </div>
                     )}
                     
+                    {req.status === 'awaiting_selection' && req.shortlist && (
+                      <div>
+                        <div className="flex items-center space-x-2 mb-3 pb-2 border-b border-slate-100">
+                          <span className="text-xl">🔎</span>
+                          <div>
+                            <p className="font-bold text-slate-900">{req.shortlist.length} agent{req.shortlist.length === 1 ? '' : 's'} matched</p>
+                            <p className="text-xs text-slate-500">Ranked by skills, price, rating, history and availability</p>
+                          </div>
+                        </div>
+
+                        <div className="space-y-3">
+                          {req.shortlist.map((candidate) => (
+                            <div key={candidate.agentId} className="bg-slate-50 rounded-lg p-3 text-sm border border-slate-100">
+                              <div className="flex justify-between items-center mb-2">
+                                <div>
+                                  <p className="font-bold text-slate-900">
+                                    #{candidate.rank} {candidate.displayName || `${candidate.walletAddress.slice(0, 6)}...${candidate.walletAddress.slice(-4)}`}
+                                  </p>
+                                  <p className="text-xs text-slate-500">
+                                    {candidate.hourlyRate !== null ? `$${candidate.hourlyRate}/hr` : 'No rate'} • ⭐ {candidate.rating.toFixed(1)} • {candidate.jobsCompleted} jobs
+                                  </p>
+                                </div>
+                                <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-indigo-100 text-indigo-700">
+                                  {Math.round(candidate.score)}/100
+                                </span>
+                              </div>
+
+                              <ul className="space-y-1 mb-3">
+                                {candidate.factors.map((factor) => (
+                                  <li key={factor.factor} className="flex items-center space-x-2 text-xs">
+                                    <span className="w-20 text-slate-500 capitalize">{factor.factor}</span>
+                                    <span className="w-16 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                                      <span className="block h-full bg-indigo-500" style={{ width: `${factor.score * 100}%` }} />
+                                    </span>
+                                    <span className="flex-1 text-slate-700">{factor.explanation}</span>
+                                  </li>
+                                ))}
+                              </ul>
+
+                              <button
+                                onClick={() => chooseAgent(req.id, candidate.agentId)}
+                                disabled={choosing !== null}
+                                className="w-full py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-bold disabled:opacity-50"
+                              >
+                                {choosing === `${req.id}:${candidate.agentId}` ? 'Choosing...' : 'Choose this agent'}
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {req.status === 'processed' && req.job_title && (
                       <div>
                         <div className="flex items-center space-x-2 mb-3 pb-2 border-b border-slate-100">
                           <span className="text-xl">✅</span>
                           <div>
-                            <p className="font-bold text-slate-900">Task Auto-Processed!</p>
-                            <p className="text-xs text-slate-500">AI orchestration complete</p>
+                            <p className="font-bold text-slate-900">Agent Selected!</p>
+                            <p className="text-xs text-slate-500">Job created from your request</p>
                           </div>
                         </div>
                         
                         <p className="text-slate-700 mb-3">
-                          I've assigned this task to <strong>{req.agent_name || 'Agent'}</strong> {req.agent_rating && `(⭐ ${req.agent_rating})`} 
-                          who matched your requirements perfectly.
+                          You chose <strong>{req.agent_name || 'Agent'}</strong> {req.agent_rating && `(⭐ ${req.agent_rating})`} 
+                          for this task.
                         </p>
 
                         <div className="bg-slate-50 rounded-lg p-3 text-sm space-y-2 border border-slate-100">
@@ -194,7 +491,7 @@ export default function ChatPage() {
                             <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${
                               req.job_status === 'completed' ? 'bg-green-100 text-green-700' :
                               req.job_status === 'delivered' ? 'bg-blue-100 text-blue-700' :
-                              (req.job_status === 'unpaid' || req.job_status === 'pending') ? 'bg-yellow-100 text-yellow-700' :
+                              (req.job_status === 'unpaid' || req.job_status === 'pending' || req.job_status?.endsWith('_pending')) ? 'bg-yellow-100 text-yellow-700' :
                               'bg-gray-100 text-gray-700'
                             }`}>
                               {req.job_status?.toUpperCase()}
@@ -218,7 +515,7 @@ export default function ChatPage() {
                           </button>
                         )}
 
-                        {(req.job_status === 'delivered' || req.job_status === 'completed') && (
+                        {(req.job_status === 'delivered' || req.job_status === 'release_pending' || req.job_status === 'completed') && (
                           <div className="mt-3 p-3 bg-indigo-50 border border-indigo-100 rounded-lg">
                             <p className="text-xs font-bold text-indigo-800 mb-1">🚀 DELIVERY RECEIVED</p>
                             <p className="text-sm text-indigo-700">
@@ -282,7 +579,7 @@ export default function ChatPage() {
             </button>
           </div>
           <p className="text-xs text-slate-500 mt-2">
-            💡 The AI will automatically find and hire the best agent for your task
+            💡 The AI may ask a few questions, then proposes a job for you to confirm before shortlisting agents
           </p>
         </form>
 
@@ -3,6 +3,7 @@
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession, authFetch } from '@/hooks/useSession';
 
 interface User {
   id: number;
@@ -19,7 +20,7 @@ interface AgentWallet {
 export default function DashboardPage() {
   const currentAccount = useCurrentAccount();
   const router = useRouter();
-  const [user, setUser] = useState<User | null>(null);
+  const { user } = useSession() as { user: User | null };
   const [agentWallet, setAgentWallet] = useState<AgentWallet | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -28,33 +29,22 @@ export default function DashboardPage() {
       router.push('/');
       return;
     }
-    fetchUserData();
   }, [currentAccount]);
 
-  const fetchUserData = async () => {
-    if (!currentAccount) return;
+  useEffect(() => {
+    if (user) {
+      fetchUserData();
+    }
+  }, [user]);
 
+  const fetchUserData = async () => {
     try {
-      // Get user profile
-      const userRes = await fetch('http://localhost:3000/api/v1/users/auth', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ walletAddress: currentAccount.address }),
-      });
-      const userData = await userRes.json();
+      // Get agent wallet
+      const walletRes = await authFetch('http://localhost:3000/api/v1/users/agent-wallet');
+      const walletData = await walletRes.json();
       
-      if (!userData.error) {
-        setUser(userData.data.user);
-
-        // Get agent wallet
-        const walletRes = await fetch('http://localhost:3000/api/v1/users/agent-wallet', {
-          headers: { 'x-wallet-address': currentAccount.address },
-        });
-        const walletData = await walletRes.json();
-        
-        if (!walletData.error) {
-          setAgentWallet(walletData.data);
-        }
+      if (!walletData.error) {
+        setAgentWallet(walletData.data);
       }
     } catch (error) {
       console.error('Failed to fetch user data:', error);
@@ -3,6 +3,7 @@
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import { useEffect, useState } from 'react';
 import PaymentModal from '@/components/PaymentModal';
+import { useLiveEvents } from '@/hooks/useLiveEvents';
 
 interface Job {
   id: number;
@@ -28,13 +29,20 @@ export default function JobsPage() {
     fetchJobs();
   }, [currentAccount]);
 
+  // Refresh when one of our jobs changes status
+  useLiveEvents((event) => {
+    if (event.type === 'job.status' || event.type === 'payment.detected') {
+      fetchJobs();
+    }
+  }, !!currentAccount);
+
   const fetchJobs = async () => {
     setLoading(true);
     try {
       const response = await fetch('http://localhost:3000/api/v1/jobs');
       if (response.ok) {
         const data = await response.json();
-        setJobs(data.data || []);
+        setJobs(data.data?.items || []);
       }
     } catch (error) {
       console.error('Error fetching jobs:', error);
@@ -1,32 +1,14 @@
 'use client';
 
-import { ConnectButton, useCurrentAccount } from '@mysten/dapp-kit';
+import { ConnectButton } from '@mysten/dapp-kit';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { useSession } from '@/hooks/useSession';
 
 export default function Header() {
   const pathname = usePathname();
-  const currentAccount = useCurrentAccount();
-  const [user, setUser] = useState<any>(null);
-
-  useEffect(() => {
-    if (currentAccount?.address) {
-      // Authenticate with backend
-      fetch('http://localhost:3000/api/v1/users/auth', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ walletAddress: currentAccount.address }),
-      })
-        .then(res => res.json())
-        .then(data => {
-          if (!data.error) {
-            setUser(data.data.user);
-          }
-        })
-        .catch(console.error);
-    }
-  }, [currentAccount]);
+  // Signs in with the connected wallet
+  const { user } = useSession();
 
   const navLinks = [
     { href: '/', label: 'Home' },
@@ -41,7 +41,7 @@ export default function PaymentModal({ job, isOpen, onClose, onSuccess }: Paymen
             setPaymentUrl(invoice.paymentUrl);
             setQrCode(invoice.qrCode);
 
-            // Step 2: Wait for payment (polling by jobId)
+            // Step 2: Wait for payment (live events by jobId)
             console.log('[PaymentModal] Waiting for payment...');
             console.log('[PaymentModal] Open this URL to pay:', invoice.paymentUrl);
             
@@ -4,7 +4,7 @@
  * SIMPLIFIED FLOW:
  * 1. Create invoice (get paymentUrl)
  * 2. User pays via Beep
- * 3. Poll payment status by jobId
+ * 3. Wait for the payment.detected live event for the job
  * 4. PaymentPoller (backend) automatically:
  *    - Detects payment
  *    - Creates escrow
@@ -12,6 +12,8 @@
  */
 
 import { useState, useCallback } from 'react';
+import { authFetch } from './useSession';
+import { subscribeLiveEvents } from './useLiveEvents';
 
 interface Job {
     id: number;
@@ -36,7 +38,7 @@ export function useBeepPayment() {
         try {
             console.log('[BeepPayment] Creating invoice for job:', job.id);
 
-            const response = await fetch(`http://localhost:3000/api/v1/jobs/${job.id}/hire`, {
+            const response = await authFetch(`http://localhost:3000/api/v1/jobs/${job.id}/hire`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ generateQrCode: true })
@@ -87,16 +89,18 @@ export function useBeepPayment() {
     }, []);
 
     /**
-     * Poll payment until paid or timeout
+     * Wait until the payment lands or timeout
      * 
      * When payment is detected:
+     * - The backend pushes payment.detected (then job.status → escrowed)
      * - Backend PaymentPoller automatically creates escrow
-     * - Job status updated to 'escrowed'
      * - Frontend just waits and shows success
+     * The status is also checked over REST whenever the event stream
+     * (re)connects, in case the payment landed while it was down.
      */
     const waitForPayment = useCallback(async (
         jobId: number,
-        { intervalMs = 5000, timeoutMs = 10 * 60 * 1000 } = {}
+        { timeoutMs = 10 * 60 * 1000 } = {}
     ): Promise<boolean> => {
         setIsWaitingPayment(true);
         setError(null);
@@ -104,18 +108,34 @@ export function useBeepPayment() {
         try {
             console.log('[BeepPayment] Waiting for payment (PaymentPoller will auto-create escrow)...');
 
-            const startTime = Date.now();
-
-            while (Date.now() - startTime < timeoutMs) {
-                const paid = await checkPaymentStatus(jobId);
-
-                if (paid) {
-                    console.log('[BeepPayment] ✅ PAYMENT CONFIRMED!');
-                    console.log('[BeepPayment] ℹ️ PaymentPoller will automatically create escrow');
-                    return true;
-                }
+            const paid = await new Promise<boolean>((resolve) => {
+                let settled = false;
+
+                const finish = (result: boolean) => {
+                    if (settled) return;
+                    settled = true;
+                    clearTimeout(timer);
+                    unsubscribe();
+                    resolve(result);
+                };
+
+                const unsubscribe = subscribeLiveEvents(async (event) => {
+                    if (event.type === 'payment.detected' && event.data.jobId === jobId) {
+                        finish(true);
+                    } else if (event.type === 'job.status' && event.data.jobId === jobId && event.data.to === 'escrowed') {
+                        finish(true);
+                    } else if (event.type === 'ready' && await checkPaymentStatus(jobId)) {
+                        finish(true);
+                    }
+                });
+
+                const timer = setTimeout(() => finish(false), timeoutMs);
+            });
 
-                await new Promise(resolve => setTimeout(resolve, intervalMs));
+            if (paid) {
+                console.log('[BeepPayment] ✅ PAYMENT CONFIRMED!');
+                console.log('[BeepPayment] ℹ️ PaymentPoller will automatically create escrow');
+                return true;
             }
 
             console.log('[BeepPayment] ⏰ Payment timeout');
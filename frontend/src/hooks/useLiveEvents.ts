@@ -0,0 +1,122 @@
+/**
+ * Live Events Hook - Server-sent Events from the Backend
+ *
+ * One stream per tab (GET /events), shared by every subscriber and closed
+ * when the last one leaves. It is read with authFetch() because EventSource
+ * cannot send the session token.
+ *
+ * EVENTS:
+ * - ready:            the stream (re)connected; refetch anything missed
+ * - job.status:       { jobId, from, to, actor }
+ * - payment.detected: { jobId, invoiceId, amountUsdc, detectedBy }
+ * - request.progress: { requestId, status }
+ * - pool.balance:     { poolObjectId, balanceUsdc, totalDeposited, totalSpent }
+ * - job.meter:        { jobId, state, accruedSeconds, accruedUsdc, reason }
+ */
+
+import { useEffect, useRef } from 'react';
+import { authFetch } from './useSession';
+
+const EVENTS_URL = 'http://localhost:3000/api/v1/events';
+const RECONNECT_DELAY_MS = 5000;
+
+export type LiveEventType = 'ready' | 'job.status' | 'payment.detected' | 'request.progress' | 'pool.balance' | 'job.meter';
+
+export interface LiveEvent {
+    type: LiveEventType;
+    data: any;
+}
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+const listeners = new Set<LiveEventListener>();
+let stream: AbortController | null = null;
+
+function parseEvent(block: string): LiveEvent | null {
+    let type = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) type = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+    }
+
+    if (data.length === 0) return null;
+    return { type: type as LiveEventType, data: JSON.parse(data.join('\n')) };
+}
+
+async function connect(): Promise<void> {
+    const current = new AbortController();
+    stream = current;
+
+    try {
+        const response = await authFetch(EVENTS_URL, {
+            signal: current.signal,
+            headers: { Accept: 'text/event-stream' },
+        });
+
+        if (response.status === 401) {
+            // Not signed in - the next subscriber tries again
+            stream = null;
+            return;
+        }
+        if (!response.ok || !response.body) {
+            throw new Error(`Event stream failed (${response.status})`);
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+
+            buffer += value;
+            let boundary;
+            while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                const event = parseEvent(buffer.slice(0, boundary));
+                buffer = buffer.slice(boundary + 2);
+                if (event) listeners.forEach(listener => listener(event));
+            }
+        }
+    } catch (err) {
+        if (current.signal.aborted) return;
+        console.error('[LiveEvents] Stream error:', err);
+    }
+
+    // Dropped while still in use - reconnect
+    if (stream === current) {
+        setTimeout(() => {
+            if (stream === current) connect();
+        }, RECONNECT_DELAY_MS);
+    }
+}
+
+/**
+ * Receive live events until the returned function is called
+ */
+export function subscribeLiveEvents(listener: LiveEventListener): () => void {
+    listeners.add(listener);
+    if (!stream) connect();
+
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && stream) {
+            stream.abort();
+            stream = null;
+        }
+    };
+}
+
+/**
+ * Call onEvent for every live event while the component is mounted
+ */
+export function useLiveEvents(onEvent: LiveEventListener, enabled: boolean = true) {
+    const handler = useRef(onEvent);
+    handler.current = onEvent;
+
+    useEffect(() => {
+        if (!enabled) return;
+        return subscribeLiveEvents(event => handler.current(event));
+    }, [enabled]);
+}
@@ -0,0 +1,162 @@
+/**
+ * Session Hook - Wallet Sign-in
+ *
+ * FLOW:
+ * 1. Request a challenge for the connected wallet
+ * 2. Sign the challenge message with the wallet
+ * 3. Exchange the signature for session tokens (stored in localStorage)
+ *
+ * authFetch() attaches the access token to backend calls and refreshes
+ * it once when the backend answers 401.
+ */
+
+import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
+import { useEffect, useState } from 'react';
+
+const API_BASE = 'http://localhost:3000/api/v1';
+const STORAGE_KEY = 'beeplancer.session';
+
+export interface SessionUser {
+    id: number;
+    walletAddress: string;
+    role: string;
+    displayName: string | null;
+    createdAt: string;
+}
+
+interface StoredSession {
+    user: SessionUser;
+    accessToken: string;
+    refreshToken: string;
+}
+
+// One sign-in at a time, shared by every component using the hook
+let signInPromise: Promise<StoredSession | null> | null = null;
+
+function loadSession(): StoredSession | null {
+    if (typeof window === 'undefined') return null;
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+}
+
+function saveSession(session: StoredSession | null): void {
+    if (session) {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } else {
+        window.localStorage.removeItem(STORAGE_KEY);
+    }
+}
+
+async function refreshSession(): Promise<StoredSession | null> {
+    const current = loadSession();
+    if (!current) return null;
+
+    const res = await fetch(`${API_BASE}/users/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken: current.refreshToken }),
+    });
+    const data = await res.json();
+
+    if (data.error) {
+        saveSession(null);
+        return null;
+    }
+
+    const session: StoredSession = {
+        user: data.data.user,
+        accessToken: data.data.accessToken,
+        refreshToken: data.data.refreshToken,
+    };
+    saveSession(session);
+    return session;
+}
+
+/**
+ * fetch() with the session token attached
+ */
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const withToken = (token?: string) => fetch(url, {
+        ...init,
+        headers: {
+            ...init.headers,
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+    });
+
+    const response = await withToken(loadSession()?.accessToken);
+    if (response.status !== 401) {
+        return response;
+    }
+
+    // Access token expired - rotate once and retry
+    const refreshed = await refreshSession();
+    return refreshed ? withToken(refreshed.accessToken) : response;
+}
+
+export function useSession() {
+    const currentAccount = useCurrentAccount();
+    const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+    const [user, setUser] = useState<SessionUser | null>(null);
+
+    useEffect(() => {
+        const address = currentAccount?.address;
+        if (!address) {
+            setUser(null);
+            return;
+        }
+
+        const stored = loadSession();
+        if (stored && stored.user.walletAddress === address) {
+            setUser(stored.user);
+            return;
+        }
+
+        if (!signInPromise) {
+            signInPromise = (async () => {
+                const challengeRes = await fetch(`${API_BASE}/users/auth/challenge`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ walletAddress: address }),
+                });
+                const challenge = await challengeRes.json();
+                if (challenge.error) return null;
+
+                const { signature } = await signPersonalMessage({
+                    message: new TextEncoder().encode(challenge.data.message),
+                });
+
+                const authRes = await fetch(`${API_BASE}/users/auth`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        walletAddress: address,
+                        nonce: challenge.data.nonce,
+                        signature,
+                    }),
+                });
+                const auth = await authRes.json();
+                if (auth.error) return null;
+
+                const session: StoredSession = {
+                    user: auth.data.user,
+                    accessToken: auth.data.accessToken,
+                    refreshToken: auth.data.refreshToken,
+                };
+                saveSession(session);
+                return session;
+            })()
+                .catch((error) => {
+                    console.error('[Session] Sign-in failed:', error);
+                    return null;
+                })
+                .finally(() => {
+                    signInPromise = null;
+                });
+        }
+
+        signInPromise.then(session => setUser(session?.user ?? null));
+    }, [currentAccount?.address]);
+
+    return { user };
+}
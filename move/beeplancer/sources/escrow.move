@@ -42,6 +42,21 @@ public struct EscrowReleased has copy, drop {
     amount: u64,
 }
 
+public struct EscrowPartiallyReleased has copy, drop {
+    escrow_id: ID,
+    buyer: address,
+    agent: address,
+    amount: u64,
+    remaining: u64,
+}
+
+/// Platform fee kept out of a release; it goes to the buyer (the platform wallet)
+public struct FeeCollected has copy, drop {
+    escrow_id: ID,
+    recipient: address,
+    amount: u64,
+}
+
 public struct EscrowCancelled has copy, drop {
     escrow_id: ID,
     buyer: address,
@@ -123,6 +138,93 @@ public fun release_escrow<T>(
     transfer::public_transfer(payment, escrow.agent);
 }
 
+/// Release part of the locked balance to the agent (e.g. one milestone).
+/// The escrow stays LOCKED until the balance is fully paid out.
+public fun release_partial<T>(
+    escrow: &mut LockedPayment<T>,
+    amount: u64,
+    ctx: &mut TxContext,
+) {
+    assert!(ctx.sender() == escrow.buyer, E_NOT_BUYER);
+
+    assert!(escrow.status == STATUS_LOCKED, E_NOT_LOCKED);
+
+    assert!(amount > 0 && amount <= escrow.balance.value(), E_INVALID_AMOUNT);
+
+    let payment = coin::from_balance(escrow.balance.split(amount), ctx);
+    let remaining = escrow.balance.value();
+
+    if (remaining == 0) {
+        escrow.status = STATUS_RELEASED;
+    };
+
+    event::emit(EscrowPartiallyReleased {
+        escrow_id: object::id(escrow),
+        buyer: escrow.buyer,
+        agent: escrow.agent,
+        amount,
+        remaining,
+    });
+
+    transfer::public_transfer(payment, escrow.agent);
+}
+
+/// Release `amount` of the locked balance, keeping `fee` of it for the platform.
+/// The agent receives amount - fee, the fee goes to the buyer (the platform wallet).
+/// Releasing the whole balance closes the escrow like release_escrow.
+public fun release_with_fee<T>(
+    escrow: &mut LockedPayment<T>,
+    amount: u64,
+    fee: u64,
+    ctx: &mut TxContext,
+) {
+    assert!(ctx.sender() == escrow.buyer, E_NOT_BUYER);
+
+    assert!(escrow.status == STATUS_LOCKED, E_NOT_LOCKED);
+
+    assert!(amount > 0 && amount <= escrow.balance.value() && fee <= amount, E_INVALID_AMOUNT);
+
+    let mut released = escrow.balance.split(amount);
+    let agent_amount = amount - fee;
+    let remaining = escrow.balance.value();
+
+    if (fee > 0) {
+        let fee_coin = coin::from_balance(released.split(fee), ctx);
+        transfer::public_transfer(fee_coin, escrow.buyer);
+
+        event::emit(FeeCollected {
+            escrow_id: object::id(escrow),
+            recipient: escrow.buyer,
+            amount: fee,
+        });
+    };
+
+    if (agent_amount > 0) {
+        transfer::public_transfer(coin::from_balance(released, ctx), escrow.agent);
+    } else {
+        released.destroy_zero();
+    };
+
+    if (remaining == 0) {
+        escrow.status = STATUS_RELEASED;
+
+        event::emit(EscrowReleased {
+            escrow_id: object::id(escrow),
+            buyer: escrow.buyer,
+            agent: escrow.agent,
+            amount: agent_amount,
+        });
+    } else {
+        event::emit(EscrowPartiallyReleased {
+            escrow_id: object::id(escrow),
+            buyer: escrow.buyer,
+            agent: escrow.agent,
+            amount: agent_amount,
+            remaining,
+        });
+    };
+}
+
 public fun cancel_escrow<T>(
     escrow: &mut LockedPayment<T>,
     ctx: &mut TxContext,
@@ -219,4 +321,48 @@ public fun emergency_recover<T>(
 
     // 5. Chuyển tiền tới người nhận chỉ định
     transfer::public_transfer(recovered_coin, recipient);
-}
\ No newline at end of file
+}
+
+/// Event emitted when an arbiter's dispute ruling is executed
+public struct DisputeResolved has copy, drop {
+    escrow_id: ID,
+    arbiter: address,
+    agent_amount: u64,
+    buyer_amount: u64,
+}
+
+/// @notice Execute a dispute ruling (admin only)
+/// @dev agent_amount goes to the agent, the remainder to the buyer (the platform wallet).
+///      agent_amount == 0 is a full refund, agent_amount == balance a full release.
+public fun resolve_dispute<T>(
+    _admin_cap: &AdminCap,
+    escrow: &mut LockedPayment<T>,
+    agent_amount: u64,
+    ctx: &mut TxContext
+) {
+    assert!(escrow.status == STATUS_LOCKED, E_NOT_LOCKED);
+
+    let total = escrow.balance.value();
+    assert!(agent_amount <= total, E_INVALID_AMOUNT);
+
+    if (agent_amount > 0) {
+        let agent_coin = coin::from_balance(escrow.balance.split(agent_amount), ctx);
+        transfer::public_transfer(agent_coin, escrow.agent);
+    };
+
+    let buyer_amount = total - agent_amount;
+    if (buyer_amount > 0) {
+        let buyer_coin = coin::from_balance(escrow.balance.withdraw_all(), ctx);
+        transfer::public_transfer(buyer_coin, escrow.buyer);
+    };
+
+    // Any payout to the agent counts as a release, a pure refund as a cancellation
+    escrow.status = if (agent_amount > 0) { STATUS_RELEASED } else { STATUS_CANCELLED };
+
+    event::emit(DisputeResolved {
+        escrow_id: object::id(escrow),
+        arbiter: ctx.sender(),
+        agent_amount,
+        buyer_amount,
+    });
+}
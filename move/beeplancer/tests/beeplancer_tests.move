@@ -230,4 +230,275 @@ fun test_admin_emergency_recover() {
     };
 
     test_scenario::end(scenario);
-}
\ No newline at end of file
+}
+#[test]
+fun test_resolve_dispute_split() {
+    let mut scenario = init_test_scenario();
+
+    // 1. Setup Escrow
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = mint_coin(ESCROW_AMOUNT, test_scenario::ctx(&mut scenario));
+        escrow::create_escrow(coin, AGENT, JOB_ID, test_scenario::ctx(&mut scenario));
+    };
+
+    // 2. Admin rules a 300 / 700 split in favour of the buyer
+    test_scenario::next_tx(&mut scenario, ADMIN);
+    {
+        let admin_cap = test_scenario::take_from_sender<AdminCap>(&scenario);
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+
+        escrow::resolve_dispute(&admin_cap, &mut escrow, 300, test_scenario::ctx(&mut scenario));
+
+        test_scenario::return_shared(escrow);
+        test_scenario::return_to_sender(&scenario, admin_cap);
+    };
+
+    // 3. Verify Agent received its share
+    test_scenario::next_tx(&mut scenario, AGENT);
+    {
+        let coin = test_scenario::take_from_sender<Coin<SUI>>(&scenario);
+        assert!(coin::value(&coin) == 300, 0);
+        test_scenario::return_to_sender(&scenario, coin);
+    };
+
+    // 4. Verify Buyer received the remainder and Escrow is RELEASED
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = test_scenario::take_from_sender<Coin<SUI>>(&scenario);
+        assert!(coin::value(&coin) == ESCROW_AMOUNT - 300, 0);
+        test_scenario::return_to_sender(&scenario, coin);
+
+        let escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+        assert!(escrow::get_status(&escrow) == 1, 0); // 1 = RELEASED
+        assert!(escrow::get_balance_value(&escrow) == 0, 0);
+        test_scenario::return_shared(escrow);
+    };
+
+    test_scenario::end(scenario);
+}
+
+#[test]
+fun test_resolve_dispute_full_refund() {
+    let mut scenario = init_test_scenario();
+
+    // 1. Setup Escrow
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = mint_coin(ESCROW_AMOUNT, test_scenario::ctx(&mut scenario));
+        escrow::create_escrow(coin, AGENT, JOB_ID, test_scenario::ctx(&mut scenario));
+    };
+
+    // 2. Admin rules a full refund
+    test_scenario::next_tx(&mut scenario, ADMIN);
+    {
+        let admin_cap = test_scenario::take_from_sender<AdminCap>(&scenario);
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+
+        escrow::resolve_dispute(&admin_cap, &mut escrow, 0, test_scenario::ctx(&mut scenario));
+
+        test_scenario::return_shared(escrow);
+        test_scenario::return_to_sender(&scenario, admin_cap);
+    };
+
+    // 3. Verify Buyer received everything and Escrow is CANCELLED
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = test_scenario::take_from_sender<Coin<SUI>>(&scenario);
+        assert!(coin::value(&coin) == ESCROW_AMOUNT, 0);
+        test_scenario::return_to_sender(&scenario, coin);
+
+        let escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+        assert!(escrow::get_status(&escrow) == 2, 0); // 2 = CANCELLED
+        test_scenario::return_shared(escrow);
+    };
+
+    test_scenario::end(scenario);
+}
+
+#[test]
+#[expected_failure(abort_code = beeplancer::escrow::E_INVALID_AMOUNT)]
+fun test_resolve_dispute_amount_too_large() {
+    let mut scenario = init_test_scenario();
+
+    // Setup
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = mint_coin(ESCROW_AMOUNT, test_scenario::ctx(&mut scenario));
+        escrow::create_escrow(coin, AGENT, JOB_ID, test_scenario::ctx(&mut scenario));
+    };
+
+    // Admin tries to award more than is locked
+    test_scenario::next_tx(&mut scenario, ADMIN);
+    {
+        let admin_cap = test_scenario::take_from_sender<AdminCap>(&scenario);
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+
+        escrow::resolve_dispute(&admin_cap, &mut escrow, ESCROW_AMOUNT + 1, test_scenario::ctx(&mut scenario)); // Should fail
+
+        test_scenario::return_shared(escrow);
+        test_scenario::return_to_sender(&scenario, admin_cap);
+    };
+
+    test_scenario::end(scenario);
+}
+
+#[test]
+fun test_release_partial_milestones() {
+    let mut scenario = init_test_scenario();
+
+    // 1. Setup Escrow
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = mint_coin(ESCROW_AMOUNT, test_scenario::ctx(&mut scenario));
+        escrow::create_escrow(coin, AGENT, JOB_ID, test_scenario::ctx(&mut scenario));
+    };
+
+    // 2. Buyer releases the first milestone (400)
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+
+        escrow::release_partial(&mut escrow, 400, test_scenario::ctx(&mut scenario));
+
+        assert!(escrow::get_status(&escrow) == 0, 0); // still LOCKED
+        assert!(escrow::get_balance_value(&escrow) == ESCROW_AMOUNT - 400, 0);
+        test_scenario::return_shared(escrow);
+    };
+
+    // 3. Buyer releases the last milestone (remainder)
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+
+        escrow::release_partial(&mut escrow, ESCROW_AMOUNT - 400, test_scenario::ctx(&mut scenario));
+
+        assert!(escrow::get_status(&escrow) == 1, 0); // 1 = RELEASED
+        assert!(escrow::get_balance_value(&escrow) == 0, 0);
+        test_scenario::return_shared(escrow);
+    };
+
+    // 4. Verify Agent received both payments
+    test_scenario::next_tx(&mut scenario, AGENT);
+    {
+        let ids = test_scenario::ids_for_sender<Coin<SUI>>(&scenario);
+        assert!(ids.length() == 2, 0);
+    };
+
+    test_scenario::end(scenario);
+}
+
+#[test]
+#[expected_failure(abort_code = beeplancer::escrow::E_INVALID_AMOUNT)]
+fun test_release_partial_exceeds_balance() {
+    let mut scenario = init_test_scenario();
+
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = mint_coin(ESCROW_AMOUNT, test_scenario::ctx(&mut scenario));
+        escrow::create_escrow(coin, AGENT, JOB_ID, test_scenario::ctx(&mut scenario));
+    };
+
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+        escrow::release_partial(&mut escrow, ESCROW_AMOUNT + 1, test_scenario::ctx(&mut scenario));
+        test_scenario::return_shared(escrow);
+    };
+
+    test_scenario::end(scenario);
+}
+
+#[test]
+#[expected_failure(abort_code = beeplancer::escrow::E_NOT_BUYER)]
+fun test_release_partial_unauthorized() {
+    let mut scenario = init_test_scenario();
+
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = mint_coin(ESCROW_AMOUNT, test_scenario::ctx(&mut scenario));
+        escrow::create_escrow(coin, AGENT, JOB_ID, test_scenario::ctx(&mut scenario));
+    };
+
+    test_scenario::next_tx(&mut scenario, AGENT);
+    {
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+        escrow::release_partial(&mut escrow, 100, test_scenario::ctx(&mut scenario));
+        test_scenario::return_shared(escrow);
+    };
+
+    test_scenario::end(scenario);
+}
+
+#[test]
+fun test_release_with_fee() {
+    let mut scenario = init_test_scenario();
+
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = mint_coin(ESCROW_AMOUNT, test_scenario::ctx(&mut scenario));
+        escrow::create_escrow(coin, AGENT, JOB_ID, test_scenario::ctx(&mut scenario));
+    };
+
+    // 1. Buyer releases a milestone (400) keeping a fee of 40
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+
+        escrow::release_with_fee(&mut escrow, 400, 40, test_scenario::ctx(&mut scenario));
+
+        assert!(escrow::get_status(&escrow) == 0, 0); // still LOCKED
+        assert!(escrow::get_balance_value(&escrow) == ESCROW_AMOUNT - 400, 0);
+        test_scenario::return_shared(escrow);
+    };
+
+    // 2. Agent received 360, the buyer the fee
+    test_scenario::next_tx(&mut scenario, AGENT);
+    {
+        let coin = test_scenario::take_from_sender<Coin<SUI>>(&scenario);
+        assert!(coin.value() == 360, 0);
+        test_scenario::return_to_sender(&scenario, coin);
+    };
+
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = test_scenario::take_from_sender<Coin<SUI>>(&scenario);
+        assert!(coin.value() == 40, 0);
+        test_scenario::return_to_sender(&scenario, coin);
+    };
+
+    // 3. Releasing the rest closes the escrow
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+
+        escrow::release_with_fee(&mut escrow, ESCROW_AMOUNT - 400, 60, test_scenario::ctx(&mut scenario));
+
+        assert!(escrow::get_status(&escrow) == 1, 0); // 1 = RELEASED
+        assert!(escrow::get_balance_value(&escrow) == 0, 0);
+        test_scenario::return_shared(escrow);
+    };
+
+    test_scenario::end(scenario);
+}
+
+#[test]
+#[expected_failure(abort_code = beeplancer::escrow::E_INVALID_AMOUNT)]
+fun test_release_with_fee_exceeds_amount() {
+    let mut scenario = init_test_scenario();
+
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let coin = mint_coin(ESCROW_AMOUNT, test_scenario::ctx(&mut scenario));
+        escrow::create_escrow(coin, AGENT, JOB_ID, test_scenario::ctx(&mut scenario));
+    };
+
+    test_scenario::next_tx(&mut scenario, BUYER);
+    {
+        let mut escrow = test_scenario::take_shared<LockedPayment<SUI>>(&scenario);
+        escrow::release_with_fee(&mut escrow, 100, 101, test_scenario::ctx(&mut scenario));
+        test_scenario::return_shared(escrow);
+    };
+
+    test_scenario::end(scenario);
+}